@@ -0,0 +1,51 @@
+// Shared by the question generators. Files under api/_lib are not deployed as
+// routes (Vercel skips underscore-prefixed paths).
+
+import type { JobCompetency } from "../../shared/contract.js";
+
+export type Competency = "teamwork" | "leadership" | "conflict" | "failure";
+
+/** SetupScreen category chips → what the question must probe. */
+export const COMPETENCIES: Record<Competency, string> = {
+  teamwork:
+    "Teamwork — collaborating with others, dividing work, supporting teammates, and reaching a shared goal",
+  leadership:
+    "Leadership — taking ownership, influencing without authority, setting direction, and motivating others",
+  conflict:
+    "Conflict — handling disagreement with a teammate, manager, or stakeholder and reaching a resolution",
+  failure:
+    "Failure / Mistake — owning a mistake or setback, recovering from it, and what changed afterwards",
+};
+
+/** Returns the competency key, or null for 'random' / unknown values. */
+export function normalizeCategory(category: unknown): Competency | null {
+  if (typeof category !== "string") return null;
+  const key = category.trim().toLowerCase();
+  return Object.hasOwn(COMPETENCIES, key) ? (key as Competency) : null;
+}
+
+/**
+ * A competency extracted from the job description by /api/analyze-jobdesc:
+ * { name, description }. Returns null when missing or malformed.
+ */
+export function normalizeJobCompetency(competency: Partial<JobCompetency> | undefined): Pick<JobCompetency, "name" | "description"> | null {
+  if (!competency || typeof competency !== "object" || typeof competency.name !== "string") return null;
+  const name = competency.name.replace(/\s+/g, " ").trim().slice(0, 60);
+  if (!name) return null;
+  const description = typeof competency.description === "string" ? competency.description.trim().slice(0, 200) : "";
+  return { name, description };
+}
+
+/**
+ * Prompt fragment restricting the question to one competency ("" when unrestricted).
+ * A category chip wins; otherwise a job-description competency can be targeted.
+ */
+export function competencyInstruction(category: unknown, jobCompetency?: Partial<JobCompetency>): string {
+  const key = normalizeCategory(category);
+  if (key) {
+    return `\n\nCOMPETENCY FOCUS: The question MUST assess ${COMPETENCIES[key]}. Do not ask about any other competency.`;
+  }
+  const target = normalizeJobCompetency(jobCompetency);
+  if (!target) return "";
+  return `\n\nCOMPETENCY FOCUS: The job description emphasizes "${target.name}"${target.description ? ` — ${target.description}` : ""}. The question MUST assess this competency. Do not ask about any other competency.`;
+}
@@ -0,0 +1,89 @@
+// Self-consistency scoring for /api/feedback: the grader is sampled several
+// times (optionally alternating models) and the finalized samples are merged
+// into median scores with the range the samples spanned.
+
+import { MAX_SAMPLES, type CategoryScore, type DeliveryBlend, type GradedFeedback } from "../../shared/contract.js";
+
+export { MAX_SAMPLES };
+
+/** Models a request may sample; the first is the default grader. */
+export const SAMPLING_MODELS = ["gpt-4o-mini", "gpt-4o"];
+
+/** Questions whose sampled scores span more than this many points are flagged. */
+export const DISAGREEMENT_SPREAD = 15;
+
+/**
+ * Resolves a request's `samples` and `models` into how many times to call the
+ * grader and with which model each time. Unknown models are dropped.
+ */
+export function resolveSampling(samples: unknown, models: unknown): { samples: number; models: string[] } {
+  const count = typeof samples === "number" && Number.isInteger(samples) ? Math.min(MAX_SAMPLES, Math.max(1, samples)) : 1;
+  const allowed = [...new Set((Array.isArray(models) ? models : []).filter((m) => SAMPLING_MODELS.includes(m)))];
+  const pool = allowed.length ? allowed : [SAMPLING_MODELS[0]];
+  return { samples: count, models: Array.from({ length: count }, (_, i) => pool[i % pool.length]) };
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const round1 = (n: number) => Number(n.toFixed(1));
+const interval = (values: number[]): [number, number] => [round1(Math.min(...values)), round1(Math.max(...values))];
+
+/**
+ * Merges finalized feedback samples (same questions, same rubric) into one
+ * response. Scores become the sample median with a [low, high] interval; the
+ * written feedback comes from the sample closest to the median, so the quotes
+ * and explanations stay consistent with each other.
+ */
+export function combineSamples<F extends Pick<GradedFeedback, "questions"> & Partial<GradedFeedback>>(samples: F[], models: string[]): F {
+  const [first] = samples;
+  if (samples.length === 1) return first;
+
+  const questions = first.questions.map((_, i) => {
+    const versions = samples.map((s) => s.questions[i]).filter(Boolean);
+    const scores = versions.map((q) => q.score);
+    const score = round1(median(scores));
+    const representative = versions.reduce((best, q) => (Math.abs(q.score - score) < Math.abs(best.score - score) ? q : best));
+    const scoreInterval = interval(scores);
+
+    const categories: Record<string, Required<CategoryScore>> = Object.fromEntries(
+      Object.entries(representative.categories ?? {}).map(([key, category]) => {
+        const values = versions.map((q) => q.categories?.[key]?.score).filter((v) => typeof v === "number");
+        return [key, { ...category, score: round1(median(values)), interval: interval(values) }];
+      }),
+    );
+    // The measured part is the same in every sample; only the grader's part varies
+    const delivery: Record<string, DeliveryBlend> | undefined = representative.delivery && Object.fromEntries(
+      Object.entries(representative.delivery).map(([key, blend]) => [
+        key,
+        { ...blend, model: round1(median(versions.map((q) => q.delivery?.[key]?.model ?? blend.model))) },
+      ]),
+    );
+    const categorySpread = Math.max(...Object.values(categories).map((c) => c.interval[1] - c.interval[0]));
+
+    return {
+      ...representative,
+      score,
+      categories,
+      ...(delivery ? { delivery } : {}),
+      score_interval: scoreInterval,
+      // Category scores swing more than the weighted mean, so they get a wider allowance
+      disagreement: scoreInterval[1] - scoreInterval[0] > DISAGREEMENT_SPREAD || categorySpread > DISAGREEMENT_SPREAD * 1.5,
+    };
+  });
+
+  const overalls = samples.map((s) => s.overall).filter((o) => o !== undefined);
+  const overall = first.overall && {
+    ...first.overall,
+    score: round1(median(overalls.map((o) => o.score))),
+    categories: Object.fromEntries(
+      Object.keys(first.overall.categories).map((key) => [key, round1(median(overalls.map((o) => o.categories[key] ?? 0)))]),
+    ),
+  };
+
+  return { ...first, questions, overall, sampling: { samples: samples.length, models } };
+}
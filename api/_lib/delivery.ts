@@ -0,0 +1,132 @@
+// Delivery metrics for /api/feedback: pace, length and filler words from the
+// transcript, and eye contact and composure from the camera. They are shown
+// to the grader and blended into the rubric categories that declare a
+// `delivery` subscore (see api/_lib/rubrics.ts).
+// The client explains the blend from the returned breakdown — keep the part
+// names in sync with DELIVERY_PART_LABELS in src/config/rubrics.ts.
+
+import type { DeliveryBlend } from "../../shared/contract.js";
+import type { Rubric } from "./rubrics.js";
+
+type DeliverySource = DeliveryBlend["source"];
+
+/** One answer's measured delivery; null where it wasn't measured. */
+export interface DeliveryMetrics {
+  fillerCount: number | null;
+  wordsPerMinute: number | null;
+  speakingDurationSeconds: number | null;
+  eyeContactPercent: number | null;
+  nervousnessScore: number | null;
+  confidenceScore: number | null;
+}
+
+export interface DeliverySubscore {
+  score: number;
+  parts: Record<string, number>;
+}
+
+/** Share of a category's score taken from the measured subscore; the rest is the grader's. */
+export const DELIVERY_BLEND: Record<DeliverySource, number> = {
+  pacing: 0.4,
+  presence: 0.3,
+};
+
+/** Comfortable speaking pace for interview answers, in words per minute. */
+const IDEAL_WPM: [number, number] = [120, 160];
+/** Answer length that covers a story without rambling, in seconds. */
+const IDEAL_SECONDS: [number, number] = [60, 180];
+/** Filler words per minute that go unnoticed. */
+const TOLERATED_FILLERS_PER_MINUTE = 2;
+
+const clamp = (n: number) => Math.min(100, Math.max(0, n));
+const round1 = (n: number) => Number(n.toFixed(1));
+const finite = (n: unknown, min = 0, max = Infinity) => (typeof n === "number" && Number.isFinite(n) && n >= min && n <= max ? n : null);
+
+/** 100 inside [low, high], losing `perUnit` points for every unit outside it. */
+function bandScore(value: number, [low, high]: [number, number], perUnit: number): number {
+  if (value < low) return clamp(100 - (low - value) * perUnit);
+  if (value > high) return clamp(100 - (value - high) * perUnit);
+  return 100;
+}
+
+/**
+ * Sanitizes one answer's metrics from the request. Returns null when nothing
+ * usable was measured (e.g. a typed answer).
+ */
+export function normalizeDeliveryMetrics(input: unknown): DeliveryMetrics | null {
+  if (!input || typeof input !== "object") return null;
+  const raw = input as Record<string, unknown>;
+  const face = (raw.faceMetrics && typeof raw.faceMetrics === "object" ? raw.faceMetrics : {}) as Record<string, unknown>;
+  const metrics: DeliveryMetrics = {
+    fillerCount: finite(raw.fillerCount, 0, 1000),
+    // 0 means the pace was never measured
+    wordsPerMinute: finite(raw.wordsPerMinute, 1, 400),
+    speakingDurationSeconds: finite(raw.speakingDurationSeconds, 1, 3600),
+    eyeContactPercent: finite(face.eyeContactPercent, 0, 100),
+    nervousnessScore: finite(face.nervousnessScore, 0, 100),
+    confidenceScore: finite(face.confidenceScore, 0, 100),
+  };
+  return Object.values(metrics).some((v) => v !== null) ? metrics : null;
+}
+
+/**
+ * Metric-based subscores (0-100) with the parts each is averaged from.
+ * A subscore is null when none of its inputs were measured.
+ */
+export function deliverySubscores(metrics: DeliveryMetrics | null): Record<DeliverySource, DeliverySubscore | null> {
+  const pacing: Record<string, number> = {};
+  const presence: Record<string, number> = {};
+  if (metrics) {
+    const { wordsPerMinute, speakingDurationSeconds, fillerCount, eyeContactPercent, nervousnessScore, confidenceScore } = metrics;
+    if (wordsPerMinute !== null) pacing.pace = round1(bandScore(wordsPerMinute, IDEAL_WPM, 0.75));
+    if (speakingDurationSeconds !== null) pacing.length = round1(bandScore(speakingDurationSeconds, IDEAL_SECONDS, 0.8));
+    if (fillerCount !== null && speakingDurationSeconds !== null) {
+      const perMinute = fillerCount / (speakingDurationSeconds / 60);
+      pacing.fillers = round1(clamp(100 - Math.max(0, perMinute - TOLERATED_FILLERS_PER_MINUTE) * 10));
+    }
+    if (eyeContactPercent !== null) presence.eye_contact = eyeContactPercent;
+    if (nervousnessScore !== null) presence.composure = 100 - nervousnessScore;
+    if (confidenceScore !== null) presence.confidence = confidenceScore;
+  }
+  const summarize = (parts: Record<string, number>): DeliverySubscore | null => {
+    const values = Object.values(parts);
+    return values.length ? { score: round1(values.reduce((a, b) => a + b, 0) / values.length), parts } : null;
+  };
+  return { pacing: summarize(pacing), presence: summarize(presence) };
+}
+
+/**
+ * Blends the grader's category scores with the measured subscores for every
+ * rubric category that declares one. Returns the adjusted scores and, per
+ * blended category, the inputs of the formula so the client can show it.
+ */
+export function blendDelivery(
+  rubric: Rubric,
+  scores: Record<string, number>,
+  metrics: DeliveryMetrics | null,
+): { scores: Record<string, number>; breakdown: Record<string, DeliveryBlend> } {
+  const subscores = deliverySubscores(metrics);
+  const blended = { ...scores };
+  const breakdown: Record<string, DeliveryBlend> = {};
+  for (const category of rubric.categories) {
+    const subscore = category.delivery ? subscores[category.delivery] : null;
+    const model = scores[category.key];
+    if (!category.delivery || !subscore || typeof model !== "number") continue;
+    const weight = DELIVERY_BLEND[category.delivery];
+    blended[category.key] = round1((1 - weight) * model + weight * subscore.score);
+    breakdown[category.key] = { source: category.delivery, model, metric: subscore.score, weight, parts: subscore.parts };
+  }
+  return { scores: blended, breakdown };
+}
+
+/** Prompt line describing one answer's measured delivery. */
+export function describeDelivery(metrics: DeliveryMetrics | null): string {
+  if (!metrics) return "";
+  const parts: string[] = [];
+  if (metrics.speakingDurationSeconds !== null) parts.push(`${Math.round(metrics.speakingDurationSeconds)}s long`);
+  if (metrics.wordsPerMinute !== null) parts.push(`${Math.round(metrics.wordsPerMinute)} words per minute`);
+  if (metrics.fillerCount !== null) parts.push(`${metrics.fillerCount} filler words`);
+  if (metrics.eyeContactPercent !== null) parts.push(`eye contact ${Math.round(metrics.eyeContactPercent)}% of the time`);
+  if (metrics.nervousnessScore !== null) parts.push(`nervousness ${Math.round(metrics.nervousnessScore)}/100`);
+  return parts.length ? `Delivery (measured): ${parts.join(", ")}` : "";
+}
@@ -0,0 +1,44 @@
+// Difficulty levels shared by the question generators and /api/feedback,
+// keyed by the contract's Difficulty ids.
+
+import type { Difficulty } from "../../shared/contract.js";
+
+export const DIFFICULTIES: Record<Difficulty, { question: string; scoring: string }> = {
+  easy: {
+    question:
+      "EASY — ask a single, clearly scoped question about a common situation (a class project, a first internship, a team assignment). No ambiguity, no follow-up parts. A student with little work experience should be able to answer it.",
+    scoring:
+      "EASY interview — reward a clear story with a recognizable situation, action and result even if it lacks metrics or depth. A complete, on-topic answer with basic structure should land around 75–85; reserve scores under 50 for answers that miss the question or ramble without a point.",
+  },
+  medium: {
+    question:
+      "MEDIUM — ask a single question about a realistic situation with a real trade-off or some pressure (a deadline, a disagreement, limited information). It should require the candidate to explain their reasoning, not just what happened.",
+    scoring:
+      "MEDIUM interview — expect clear STAR structure, a specific personal contribution and a concrete result. A solid answer that meets that bar should land around 65–75; go above 85 only for answers with measurable outcomes and reflection on what they learned.",
+  },
+  hard: {
+    question:
+      "HARD — ask a multi-part question (two linked parts, e.g. what you did AND how you would handle it differently now, or how you decided AND how you measured the outcome). Make the situation deliberately ambiguous or high-stakes — competing priorities, incomplete information, or pushback from someone senior — so the candidate has to frame the problem themselves. The question may run up to 60 words to fit both parts.",
+    scoring:
+      "HARD interview — score strictly, as a bar-raiser would. Every part of a multi-part question must be answered; deduct heavily for any part that is skipped. Expect explicit trade-offs, quantified results, and reflection. An answer that would be solid at medium difficulty should land around 55–65 here; go above 80 only for answers that are structured, specific, measured and insightful.",
+  },
+};
+
+export const DEFAULT_DIFFICULTY: Difficulty = "medium";
+
+/** Returns a known difficulty id, falling back to medium. */
+export function normalizeDifficulty(difficulty: unknown): Difficulty {
+  if (typeof difficulty !== "string") return DEFAULT_DIFFICULTY;
+  const key = difficulty.trim().toLowerCase();
+  return Object.hasOwn(DIFFICULTIES, key) ? (key as Difficulty) : DEFAULT_DIFFICULTY;
+}
+
+/** Prompt fragment shaping question complexity for the generators. */
+export function difficultyInstruction(difficulty: unknown): string {
+  return `\n\nDIFFICULTY: ${DIFFICULTIES[normalizeDifficulty(difficulty)].question}`;
+}
+
+/** Prompt fragment calibrating how strictly /api/feedback scores the six categories. */
+export function scoringCalibration(difficulty: unknown): string {
+  return `\n\nSCORING CALIBRATION: ${DIFFICULTIES[normalizeDifficulty(difficulty)].scoring}`;
+}
@@ -0,0 +1,164 @@
+// Request plumbing shared by every api/ route: method, size and body checks,
+// per-IP and per-session rate limits, and one error envelope —
+// { error, code, details?, retryAfter? } — the client turns into ApiError
+// (src/services/api.ts). What each route takes and returns is declared in
+// shared/contract.ts.
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { STATUS_CODES, type ApiErrorCode, type ApiRoute, type ErrorEnvelope } from "../../shared/contract.js";
+import { validateSchema } from "../../shared/schema.js";
+import { hitRateLimit, type RateLimitHit } from "./rateLimit.js";
+
+export { STATUS_CODES };
+
+/** The request a route gets: Node's, with the body parsed (Vercel's VercelRequest). */
+export interface ApiRequest<Body = unknown> extends IncomingMessage {
+  body: Body;
+}
+
+/** The response a route answers on: Node's, with Vercel's helpers. `json` takes the route's response or an error envelope. */
+export interface ApiResponse<Data = unknown> extends ServerResponse {
+  status(code: number): ApiResponse<Data>;
+  json(body: Data | ErrorEnvelope): ApiResponse<Data>;
+  send(body: unknown): ApiResponse<Data>;
+}
+
+export type ApiHandler<Req, Res> = (req: ApiRequest<Req>, res: ApiResponse<Res>) => Promise<unknown>;
+
+/** Requests per minute per caller; 0 skips the check. */
+export interface RateLimits {
+  ip?: number;
+  session?: number;
+}
+
+const DEFAULT_MAX_BYTES = 64 * 1024;
+const MAX_DETAILS = 10;
+const WINDOW_MS = 60 * 1000;
+
+/** Requests per minute. Per session is tighter: one tab shouldn't use up a shared IP's allowance. */
+export const DEFAULT_LIMITS: RateLimits = { ip: 60, session: 30 };
+
+const SESSION_ID = /^[\w-]{1,64}$/;
+
+/**
+ * Sends the error envelope. `code` defaults from the status; `retryAfter`
+ * (seconds) is also set as the Retry-After header.
+ */
+export function sendError(
+  res: ApiResponse,
+  status: number,
+  message: string,
+  { code, details, retryAfter }: { code?: ApiErrorCode; details?: string[]; retryAfter?: number } = {},
+) {
+  if (retryAfter !== undefined) res.setHeader?.("Retry-After", String(retryAfter));
+  return res.status(status).json({
+    error: message,
+    code: code ?? STATUS_CODES[status] ?? "internal_error",
+    ...(details?.length ? { details } : {}),
+    ...(retryAfter !== undefined ? { retryAfter } : {}),
+  });
+}
+
+const header = (req: IncomingMessage, name: string) => {
+  const value = req.headers?.[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * The caller's address: X-Real-IP (Vercel sets it and drops any the client
+ * sent), else the last X-Forwarded-For hop — the one our own proxy appended;
+ * earlier hops come from the client and can be anything — else the socket's.
+ */
+export function clientIp(req: IncomingMessage): string {
+  const forwarded = header(req, "x-forwarded-for")?.split(",").at(-1)?.trim();
+  return header(req, "x-real-ip")?.trim() || forwarded || req.socket?.remoteAddress || "unknown";
+}
+
+/** The browser session's id from X-Session-Id, if it sent a well-formed one. */
+export function sessionOf(req: IncomingMessage): string | null {
+  const id = header(req, "x-session-id");
+  return typeof id === "string" && SESSION_ID.test(id) ? id : null;
+}
+
+function bodyBytes(req: ApiRequest): number {
+  const declared = Number(header(req, "content-length"));
+  if (Number.isFinite(declared) && declared > 0) return declared;
+  if (req.body === undefined || req.body === null) return 0;
+  return Buffer.byteLength(typeof req.body === "string" ? req.body : JSON.stringify(req.body));
+}
+
+async function rateLimited(req: IncomingMessage, name: string, limits: RateLimits): Promise<RateLimitHit | null> {
+  const session = sessionOf(req);
+  const keys: [string, number][] = [];
+  if (limits.ip) keys.push([`${name}:ip:${clientIp(req)}`, limits.ip]);
+  if (limits.session && session) keys.push([`${name}:session:${session}`, limits.session]);
+  for (const [key, limit] of keys) {
+    const hit = await hitRateLimit(key, { limit, windowMs: WINDOW_MS });
+    if (!hit.allowed) return hit;
+  }
+  return null;
+}
+
+/**
+ * Wraps a route handler. Before it runs: the method must be `method`, the
+ * caller within `limits` per minute — per IP and per X-Session-Id, either set
+ * to 0 to skip — and then the body at most `maxBytes` and valid against
+ * `route.request` (see shared/schema.ts). Limits come first so rejected
+ * bodies still count and an over-limit caller never gets its body parsed.
+ * Anything the handler throws becomes a 500 envelope.
+ */
+export function withApi<Req, Res>(
+  {
+    route,
+    method = "POST",
+    maxBytes = DEFAULT_MAX_BYTES,
+    limits = DEFAULT_LIMITS,
+  }: { route: ApiRoute<Req, Res>; method?: string; maxBytes?: number; limits?: RateLimits },
+  handler: ApiHandler<Req, Res>,
+) {
+  const name = route.path.slice("/api/".length);
+  const prefix = `[api/${name}]`;
+  return async function serve(req: ApiRequest, res: ApiResponse<Res>) {
+    if (req.method !== method) {
+      res.setHeader?.("Allow", method);
+      return sendError(res, 405, `Use ${method}`);
+    }
+
+    let limited = null;
+    try {
+      limited = await rateLimited(req, name, limits);
+    } catch (err) {
+      // A store outage shouldn't take the API down with it
+      console.error(`${prefix} Rate limit store failed`, String(err));
+    }
+    if (limited) {
+      return sendError(res, 429, "Too many requests, try again shortly", { retryAfter: limited.retryAfter });
+    }
+
+    if (bodyBytes(req) > maxBytes) {
+      return sendError(res, 413, `Request body is over ${Math.round(maxBytes / 1024)} KB`);
+    }
+    if (typeof req.body === "string") {
+      try {
+        req.body = JSON.parse(req.body);
+      } catch {
+        return sendError(res, 400, "Request body is not valid JSON");
+      }
+    }
+    if (route.request) {
+      const errors = validateSchema(req.body ?? {}, route.request, "body");
+      if (errors.length) {
+        return sendError(res, 400, "Invalid request body", { details: errors.slice(0, MAX_DETAILS) });
+      }
+    }
+
+    try {
+      // The schema check above is what makes the body a Req
+      return await handler(req as ApiRequest<Req>, res);
+    } catch (err) {
+      console.error(`${prefix} Unhandled error`, err);
+      if (res.headersSent) return res.end?.();
+      return sendError(res, 500, "Internal server error");
+    }
+  };
+}
@@ -0,0 +1,450 @@
+// LLM gateway shared by the api/ handlers: one place that talks to OpenAI,
+// Groq or a local OpenAI-compatible server (all through chat completions),
+// with provider selection, retries, timeouts, token accounting and JSON
+// schema validation. Handlers describe what they need — an endpoint name,
+// the provider and model size they were written for — and the environment
+// decides where it actually goes:
+//
+//   LLM_PROVIDER=openai|groq|local          every endpoint
+//   LLM_PROVIDER_<ENDPOINT>=openai|groq|local  one endpoint, e.g. LLM_PROVIDER_STAR_SEGMENTS
+//   LLM_BASE_URL, LLM_MODEL, LLM_API_KEY    the local server (default Ollama on :11434)
+//   OPENAI_BASE_URL, GROQ_BASE_URL          stand-ins for the hosted APIs (the mock server in mock/)
+
+import { validateSchema, type Schema } from "../../shared/schema.js";
+import { readEventStream } from "./stream.js";
+
+export { validateSchema };
+
+export type LlmProvider = "openai" | "groq" | "local";
+export type ModelTier = "fast" | "smart";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmRoute {
+  /** Handler name: labels logs and usage, and picks the LLM_PROVIDER_<ENDPOINT> override. */
+  endpoint: string;
+  /** What the handler was written for, used unless the environment says otherwise (default "groq"). */
+  provider?: LlmProvider;
+  /** Model size to use on whichever provider is picked (default "smart"). */
+  tier?: ModelTier;
+  /** Exact model, only used when the request goes to `provider`. */
+  model?: string;
+  /** Ignore the environment and always use `provider`. */
+  pinProvider?: boolean;
+}
+
+export interface JsonFormat {
+  name: string;
+  /** JSON schema the reply must match; strict structured outputs on OpenAI, prompted elsewhere. */
+  schema?: Schema;
+}
+
+/**
+ * `timeoutMs` is per attempt (default 15 s); `retries` is how many more
+ * attempts a timeout, rate limit, server error or malformed reply gets
+ * (default 1); `format` asks for JSON (chatJson and streamChat only).
+ */
+export interface ChatRequest extends LlmRoute {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+  retries?: number;
+  format?: JsonFormat;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatResult {
+  text: string;
+  provider: LlmProvider;
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface JsonResult<T> extends ChatResult {
+  data: T;
+}
+
+/** What the gateway rejects with: `status` is what went wrong upstream (504 on timeout). */
+export interface LlmError extends Error {
+  status: number;
+  body?: string;
+  retryable: boolean;
+}
+
+/** Where a request goes, as resolveRoute works it out. */
+export interface ResolvedRoute {
+  endpoint: string;
+  provider: LlmProvider;
+  label: string;
+  url: string;
+  model: string;
+  apiKey: string | null;
+  keyName: string | null;
+  structuredOutputs: boolean;
+  streamsJson: boolean;
+}
+
+interface ProviderConfig {
+  label: string;
+  baseUrl: () => string;
+  /** null: the key is optional (LLM_API_KEY). */
+  keyName: string | null;
+  models: () => Record<ModelTier, string>;
+  structuredOutputs: boolean;
+  streamsJson: boolean;
+}
+
+interface RawUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface Completion {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: RawUsage;
+}
+
+interface CompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: RawUsage;
+  x_groq?: { usage?: RawUsage };
+  error?: unknown;
+}
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+function log(level: "debug" | "info" | "warn" | "error", msg: string, data?: unknown) {
+  if (!IS_DEV && level === "debug") return;
+  const prefix = `[api/_lib/llm]`;
+  if (data) {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`, data);
+  } else {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`);
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRIES = 1;
+const RETRY_BASE_MS = 500;
+
+const baseUrlFrom = (name: string, fallback: string) => (process.env[name]?.trim() || fallback).replace(/\/+$/, "");
+
+export const PROVIDERS: Record<LlmProvider, ProviderConfig> = {
+  openai: {
+    label: "OpenAI",
+    baseUrl: () => baseUrlFrom("OPENAI_BASE_URL", "https://api.openai.com/v1"),
+    keyName: "OPENAI_API_KEY",
+    models: () => ({ fast: "gpt-4o-mini", smart: "gpt-4o-mini" }),
+    structuredOutputs: true,
+    streamsJson: true,
+  },
+  groq: {
+    label: "Groq",
+    baseUrl: () => baseUrlFrom("GROQ_BASE_URL", "https://api.groq.com/openai/v1"),
+    keyName: "GROQ_API_KEY",
+    models: () => ({ fast: "llama-3.1-8b-instant", smart: "llama-3.3-70b-versatile" }),
+    structuredOutputs: false,
+    // JSON mode can't be streamed
+    streamsJson: false,
+  },
+  local: {
+    label: "Local LLM",
+    baseUrl: () => baseUrlFrom("LLM_BASE_URL", "http://localhost:11434/v1"),
+    // Optional: most local servers take no key
+    keyName: null,
+    models: () => {
+      const model = process.env.LLM_MODEL?.trim() || "llama3.1";
+      return { fast: model, smart: model };
+    },
+    structuredOutputs: false,
+    streamsJson: true,
+  },
+};
+
+function envProvider(name: string): LlmProvider | null {
+  const value = process.env[name]?.trim().toLowerCase();
+  if (!value) return null;
+  if (value in PROVIDERS) return value as LlmProvider;
+  log("warn", `Ignoring unknown ${name}`, { value });
+  return null;
+}
+
+/** Where a request goes: the provider, its model and connection details. */
+export function resolveRoute({ endpoint, provider = "groq", tier = "smart", model, pinProvider = false }: LlmRoute): ResolvedRoute {
+  const override = `LLM_PROVIDER_${endpoint.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}`;
+  const chosen = pinProvider ? provider : envProvider(override) ?? envProvider("LLM_PROVIDER") ?? provider;
+  const config = PROVIDERS[chosen];
+  const apiKey = config.keyName ? process.env[config.keyName]?.trim() : process.env.LLM_API_KEY?.trim();
+  return {
+    endpoint,
+    provider: chosen,
+    label: config.label,
+    url: `${config.baseUrl()}/chat/completions`,
+    model: chosen === provider && model ? model : config.models()[tier],
+    apiKey: apiKey || null,
+    keyName: config.keyName,
+    structuredOutputs: config.structuredOutputs,
+    streamsJson: config.streamsJson,
+  };
+}
+
+/** The env var a route needs but doesn't have, or null when it's ready to call. */
+export function missingApiKey(route: LlmRoute): string | null {
+  const { keyName, apiKey } = resolveRoute(route);
+  return keyName && !apiKey ? keyName : null;
+}
+
+/** The status a handler answers with for a gateway error: 504 for timeouts, 502 for anything upstream. */
+export function upstreamStatus(err: { status?: number }): 502 | 504 {
+  return err?.status === 504 ? 504 : 502;
+}
+
+/** Whether `err` came from the gateway (or anything else that carries an HTTP status). */
+export function isLlmError(err: unknown): err is LlmError {
+  return err instanceof Error && typeof (err as { status?: unknown }).status === "number";
+}
+
+function llmError(message: string, status: number, { body, retryable = false }: { body?: string; retryable?: boolean } = {}): LlmError {
+  return Object.assign(new Error(message), { status, body, retryable });
+}
+
+const isRetryableStatus = (status: number) => status === 408 || status === 409 || status === 429 || status >= 500;
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/* ── Token accounting ── */
+
+interface UsageTotal {
+  endpoint: string;
+  provider: LlmProvider;
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+const totals = new Map<string, UsageTotal>();
+
+function toUsage(raw: RawUsage | null | undefined): TokenUsage {
+  const promptTokens = Number(raw?.prompt_tokens) || 0;
+  const completionTokens = Number(raw?.completion_tokens) || 0;
+  return { promptTokens, completionTokens, totalTokens: Number(raw?.total_tokens) || promptTokens + completionTokens };
+}
+
+function record(route: ResolvedRoute, usage: TokenUsage, ms: number, attempts: number) {
+  const key = `${route.endpoint} ${route.provider}/${route.model}`;
+  const total = totals.get(key) ?? { endpoint: route.endpoint, provider: route.provider, model: route.model, calls: 0, promptTokens: 0, completionTokens: 0 };
+  total.calls++;
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  totals.set(key, total);
+  log("info", "LLM call", { endpoint: route.endpoint, provider: route.provider, model: route.model, ms, attempts, ...usage });
+}
+
+/** Tokens used by this server instance so far, per endpoint and model. */
+export function usageTotals(): UsageTotal[] {
+  return [...totals.values()].map((t) => ({ ...t }));
+}
+
+/* ── JSON ── */
+
+/** Parses a model's JSON reply, tolerating code fences and text around the object. */
+export function parseJsonText(text: unknown): unknown {
+  const trimmed = String(text ?? "").trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    return JSON.parse(trimmed);
+  } catch (err) {
+    const start = trimmed.indexOf("{");
+    const end = trimmed.lastIndexOf("}");
+    if (start < 0 || end <= start) throw err;
+    return JSON.parse(trimmed.slice(start, end + 1));
+  }
+}
+
+/* ── Calls ── */
+
+interface CompletionBody {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  response_format?: { type: "json_object" } | { type: "json_schema"; json_schema: { name: string; schema: Schema; strict: true } };
+  stream?: true;
+  stream_options?: { include_usage: true };
+}
+
+function requestBody(route: ResolvedRoute, request: ChatRequest, stream: boolean): CompletionBody {
+  const { messages, temperature, maxTokens, format } = request;
+  const body: CompletionBody = { model: route.model, messages };
+  if (temperature !== undefined) body.temperature = temperature;
+  if (maxTokens !== undefined) body.max_tokens = maxTokens;
+  if (format) {
+    if (route.structuredOutputs && format.schema) {
+      body.response_format = { type: "json_schema", json_schema: { name: format.name, schema: format.schema, strict: true } };
+    } else {
+      // JSON mode only: the schema goes in the prompt and the reply is validated after
+      body.response_format = { type: "json_object" };
+      if (format.schema) {
+        body.messages = [{ role: "system", content: `Respond with JSON only, matching this JSON schema:\n${JSON.stringify(format.schema)}` }, ...messages];
+      }
+    }
+  }
+  if (stream) {
+    body.stream = true;
+    if (route.provider === "openai") body.stream_options = { include_usage: true };
+  }
+  return body;
+}
+
+/**
+ * One attempt: POSTs to the route and hands the response to `read` while the
+ * timeout still runs. Rejects with an Error carrying `status` (504 on timeout).
+ */
+async function attempt<T>(route: ResolvedRoute, body: CompletionBody, timeoutMs: number, read: (response: Response) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(route.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        // Ignored by the providers; lets the mock server answer per endpoint
+        "X-LLM-Endpoint": route.endpoint,
+        ...(route.apiKey ? { Authorization: `Bearer ${route.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      const errText = await response.text();
+      throw llmError(`${route.label} API error`, response.status, { body: errText, retryable: isRetryableStatus(response.status) });
+    }
+    return await read(response);
+  } catch (err) {
+    if ((err as Error)?.name === "AbortError") throw llmError(`${route.label} request timed out`, 504, { retryable: true });
+    // fetch itself failed: DNS, refused connection, reset
+    if (err instanceof TypeError) throw llmError(`${route.label} API error`, 502, { body: String(err), retryable: true });
+    throw err;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/** Runs `run(route)` with the request's retries and records the call's tokens. */
+async function withRetries<T extends { usage: TokenUsage }>(request: ChatRequest, run: (route: ResolvedRoute) => Promise<T>): Promise<T & { provider: LlmProvider; model: string }> {
+  const route = resolveRoute(request);
+  if (route.keyName && !route.apiKey) throw llmError(`${route.keyName} not set`, 500);
+  const retries = request.retries ?? DEFAULT_RETRIES;
+  const started = Date.now();
+  for (let attempts = 1; ; attempts++) {
+    try {
+      const result = await run(route);
+      record(route, result.usage, Date.now() - started, attempts);
+      return { ...result, provider: route.provider, model: route.model };
+    } catch (caught) {
+      const err = caught as Partial<LlmError>;
+      if (!err?.retryable || attempts > retries) {
+        log("error", err?.message ?? "LLM call failed", { endpoint: route.endpoint, provider: route.provider, model: route.model, status: err?.status, body: err?.body, attempts });
+        throw caught;
+      }
+      const delay = RETRY_BASE_MS * 2 ** (attempts - 1);
+      log("warn", "Retrying LLM call", { endpoint: route.endpoint, provider: route.provider, status: err.status, error: err.message, delay });
+      await sleep(delay);
+    }
+  }
+}
+
+/** A chat completion. Resolves to the reply text, trimmed. */
+export function chat(request: ChatRequest): Promise<ChatResult> {
+  return withRetries(request, (route) =>
+    attempt(route, requestBody(route, request, false), request.timeoutMs ?? DEFAULT_TIMEOUT_MS, async (response) => {
+      const data = (await response.json()) as Completion;
+      return { text: (data.choices?.[0]?.message?.content ?? "").trim(), usage: toUsage(data.usage) };
+    }),
+  );
+}
+
+/**
+ * A chat completion that must reply with JSON, matching `format.schema` when
+ * given. A reply that doesn't parse or match counts as a retryable failure;
+ * the last one rejects with status 502 and "AI returned invalid JSON". `T` is
+ * only checked as far as `format.schema` goes — without one, it's the shape
+ * the prompt asked for, and callers should read it defensively.
+ */
+export function chatJson<T = Record<string, unknown>>(request: ChatRequest): Promise<JsonResult<T>> {
+  const format = request.format ?? { name: "reply" };
+  return withRetries(request, (route) =>
+    attempt(route, requestBody(route, { ...request, format }, false), request.timeoutMs ?? DEFAULT_TIMEOUT_MS, async (response) => {
+      const body = (await response.json()) as Completion;
+      const text = (body.choices?.[0]?.message?.content ?? "").trim();
+      let data: T;
+      try {
+        data = parseJsonText(text) as T;
+      } catch {
+        throw llmError("AI returned invalid JSON", 502, { body: text.slice(0, 300), retryable: true });
+      }
+      const problems = validateSchema(data, format.schema);
+      if (problems.length) throw llmError("AI returned invalid JSON", 502, { body: problems.slice(0, 5).join("; "), retryable: true });
+      return { text, data, usage: toUsage(body.usage) };
+    }),
+  );
+}
+
+/**
+ * A streamed chat completion: onText(delta) is called as the reply arrives,
+ * and it resolves to the whole text. Only retried if it fails before any text
+ * came through. With `format` the reply is JSON, but it isn't validated —
+ * callers consume it as it streams; providers that can't stream JSON send it
+ * as a single delta once it's complete.
+ */
+export function streamChat(request: ChatRequest, onText: (delta: string) => void): Promise<ChatResult> {
+  let streamed = false;
+  const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  return withRetries(request, (route) => {
+    if (request.format && !route.streamsJson) {
+      return attempt(route, requestBody(route, request, false), timeoutMs, async (response) => {
+        const data = (await response.json()) as Completion;
+        const text = (data.choices?.[0]?.message?.content ?? "").trim();
+        streamed = true;
+        onText(text);
+        return { text, usage: toUsage(data.usage) };
+      });
+    }
+    return attempt(route, requestBody(route, request, true), timeoutMs, async (response) => {
+      let text = "";
+      let usage = toUsage(null);
+      let failure: unknown = null;
+      await readEventStream(response.body!, ({ data }) => {
+        if (data === "[DONE]" || failure) return;
+        const chunk = JSON.parse(data) as CompletionChunk;
+        if (chunk.error) {
+          failure = chunk.error;
+          return;
+        }
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          streamed = true;
+          text += delta;
+          onText(delta);
+        }
+        const raw = chunk.usage ?? chunk.x_groq?.usage;
+        if (raw) usage = toUsage(raw);
+      });
+      if (failure) throw llmError(`${route.label} API error`, 502, { body: JSON.stringify(failure), retryable: !streamed });
+      return { text: text.trim(), usage };
+    }).catch((err: Partial<LlmError>) => {
+      // Text already passed on can't be taken back, so a retry would repeat it
+      if (streamed && err) err.retryable = false;
+      throw err;
+    });
+  });
+}
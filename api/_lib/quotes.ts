@@ -0,0 +1,182 @@
+// Aligns the best/worst quotes /api/feedback gets back to the real answer
+// text. The model is asked for exact sentences but paraphrases now and then;
+// a quote is kept verbatim when it appears in the answer, otherwise snapped
+// to the closest sentence (or run of sentences). Quotes that can't be aligned
+// are re-asked by sentence number. Each aligned quote carries its character
+// offsets so the client highlights and clips the exact span.
+
+import type { GradedFeedback, QuestionFeedback } from "../../shared/contract.js";
+import type { Schema } from "../../shared/schema.js";
+
+export type QuoteField = "best" | "worst";
+
+export interface Sentence {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface AlignedQuote extends Sentence {
+  /** Snapped to the closest sentences rather than found verbatim. */
+  snapped: boolean;
+}
+
+/** A quote that is set but couldn't be aligned. */
+export interface QuoteFailure {
+  question: number;
+  field: QuoteField;
+  quote: string;
+}
+
+/** Token overlap (LCS over the mean length) a quote needs with a sentence to snap to it. */
+export const MIN_ALIGNMENT = 0.6;
+/** Longest run of adjacent sentences a quote may snap to. */
+const MAX_SNAP_SENTENCES = 3;
+
+export const QUOTE_FIELDS: QuoteField[] = ["best", "worst"];
+
+/** Sentences of an answer with character offsets — same rules as splitSentences in src/services/starSegments.ts. */
+export function splitSentences(text: unknown): Sentence[] {
+  const sentences: Sentence[] = [];
+  for (const match of String(text ?? "").matchAll(/[^.!?]+(?:[.!?]+|$)/g)) {
+    const raw = match[0];
+    const trimmed = raw.trim();
+    if (!/[a-z0-9]/i.test(trimmed)) continue;
+    const start = (match.index ?? 0) + raw.indexOf(trimmed);
+    sentences.push({ text: trimmed, start, end: start + trimmed.length });
+  }
+  return sentences;
+}
+
+function tokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/\s+/)
+    .map((w) => w.replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, ""))
+    .filter(Boolean);
+}
+
+function lcsLength(a: string[], b: string[]): number {
+  let prev: number[] = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const curr: number[] = new Array(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = a[i - 1] === b[j - 1] ? prev[j - 1] + 1 : Math.max(prev[j], curr[j - 1]);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+function similarity(a: string[], b: string[]): number {
+  return a.length && b.length ? lcsLength(a, b) / ((a.length + b.length) / 2) : 0;
+}
+
+/**
+ * The span of `answer` a quote refers to: { text, start, end, snapped }, or
+ * null when nothing in the answer is close enough.
+ */
+export function alignQuote(quote: unknown, answer: unknown): AlignedQuote | null {
+  const cleaned = typeof quote === "string" ? quote.trim().replace(/^["“']+|["”']+$/g, "").trim() : "";
+  if (!cleaned || typeof answer !== "string" || !answer) return null;
+
+  let start = answer.indexOf(cleaned);
+  if (start < 0) start = answer.toLowerCase().indexOf(cleaned.toLowerCase());
+  if (start >= 0) return { text: answer.slice(start, start + cleaned.length), start, end: start + cleaned.length, snapped: false };
+
+  const quoteTokens = tokens(cleaned);
+  const sentences = splitSentences(answer);
+  let best: { start: number; end: number; score: number } | null = null;
+  for (let i = 0; i < sentences.length; i++) {
+    for (let j = i; j < Math.min(sentences.length, i + MAX_SNAP_SENTENCES); j++) {
+      const span = { start: sentences[i].start, end: sentences[j].end };
+      const score = similarity(quoteTokens, tokens(answer.slice(span.start, span.end)));
+      if (!best || score > best.score) best = { ...span, score };
+    }
+  }
+  if (!best || best.score < MIN_ALIGNMENT) return null;
+  return { text: answer.slice(best.start, best.end), start: best.start, end: best.end, snapped: true };
+}
+
+/**
+ * Replaces a finalized question's quotes with their aligned text and adds
+ * `<field>_part_span` offsets. Unaligned quotes are left as the model wrote them.
+ */
+export function alignQuestionQuotes(question: QuestionFeedback, answer: unknown): QuestionFeedback {
+  for (const field of QUOTE_FIELDS) {
+    const aligned = alignQuote(question[`${field}_part_quote`], answer);
+    if (!aligned) continue;
+    question[`${field}_part_quote`] = aligned.text;
+    question[`${field}_part_span`] = { start: aligned.start, end: aligned.end };
+  }
+  return question;
+}
+
+/** Quotes that are set but couldn't be aligned. */
+export function unalignedQuotes(feedback: Pick<GradedFeedback, "questions">): QuoteFailure[] {
+  return (feedback.questions ?? []).flatMap((q, i) =>
+    QUOTE_FIELDS.filter((field) => q[`${field}_part_quote`] && !q[`${field}_part_span`]).map((field) => ({
+      question: i,
+      field,
+      quote: q[`${field}_part_quote`],
+    })),
+  );
+}
+
+/** Prompt and schema asking the grader which sentence each unaligned quote meant. */
+export function quoteRepairRequest(failures: QuoteFailure[], answers: string[]): { input: string; format: { type: "json_schema"; name: string; strict: boolean; schema: Schema } } {
+  const items = failures
+    .map((f, k) => {
+      const sentences = splitSentences(answers[f.question])
+        .map((s, n) => `  ${n + 1}. ${s.text}`)
+        .join("\n");
+      return `Item ${k + 1} — the ${f.field} part of Answer ${f.question + 1}. You quoted: "${f.quote}"\nThe answer's sentences:\n${sentences}`;
+    })
+    .join("\n\n");
+
+  return {
+    input: `You quoted parts of interview answers, but these quotes don't appear in the answers word for word. For each item, give the number of the sentence your quote was referring to, or 0 if none of them fit.\n\n${items}`,
+    format: {
+      type: "json_schema",
+      name: "quote_repair",
+      strict: true,
+      schema: {
+        type: "object",
+        properties: {
+          choices: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { item: { type: "integer" }, sentence: { type: "integer" } },
+              required: ["item", "sentence"],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ["choices"],
+        additionalProperties: false,
+      },
+    },
+  };
+}
+
+/** Applies the grader's sentence picks; returns how many quotes were repaired. */
+export function applyQuoteRepair(
+  feedback: Pick<GradedFeedback, "questions">,
+  failures: QuoteFailure[],
+  answers: string[],
+  repair: { choices?: { item: number; sentence: number }[] } | null | undefined,
+): number {
+  let repaired = 0;
+  for (const choice of Array.isArray(repair?.choices) ? repair.choices : []) {
+    const failure = failures[choice.item - 1];
+    if (!failure) continue;
+    const sentence = splitSentences(answers[failure.question])[choice.sentence - 1];
+    if (!sentence) continue;
+    const question = feedback.questions[failure.question];
+    question[`${failure.field}_part_quote`] = sentence.text;
+    question[`${failure.field}_part_span`] = { start: sentence.start, end: sentence.end };
+    repaired++;
+  }
+  return repaired;
+}
@@ -0,0 +1,58 @@
+// Fixed-window rate limiting for the api/ handlers. Counts live in a store
+// with one method — increment(key, windowMs) → { count, resetAt } — so a
+// shared backend (Redis, Vercel KV) can replace the default in-memory map,
+// which only sees the requests that reach this server instance.
+
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+}
+
+export interface RateLimitHit {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until the window resets; only when not allowed. */
+  retryAfter?: number;
+}
+
+const MAX_MEMORY_KEYS = 10000;
+
+/** The default store: a Map of key → { count, resetAt }, pruned of expired windows as it grows. */
+export function createMemoryStore({ maxKeys = MAX_MEMORY_KEYS } = {}): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      let entry = windows.get(key);
+      if (!entry || entry.resetAt <= now) {
+        if (windows.size >= maxKeys) {
+          for (const [k, e] of windows) if (e.resetAt <= now) windows.delete(k);
+          // Still full of live windows: drop the oldest
+          const oldest = windows.keys().next();
+          if (windows.size >= maxKeys && !oldest.done) windows.delete(oldest.value);
+        }
+        entry = { count: 0, resetAt: now + windowMs };
+        windows.set(key, entry);
+      }
+      entry.count++;
+      return { count: entry.count, resetAt: entry.resetAt };
+    },
+  };
+}
+
+let store = createMemoryStore();
+
+/** Swaps the store every limit is counted in. */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+/**
+ * Counts a request against `key`. Resolves to whether it's within `limit`
+ * per `windowMs` and, when it isn't, the seconds until the window resets.
+ */
+export async function hitRateLimit(key: string, { limit, windowMs }: { limit: number; windowMs: number }): Promise<RateLimitHit> {
+  const { count, resetAt } = await store.increment(key, windowMs);
+  return count <= limit
+    ? { allowed: true, remaining: limit - count }
+    : { allowed: false, remaining: 0, retryAfter: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)) };
+}
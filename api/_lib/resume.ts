@@ -0,0 +1,85 @@
+// Structured resume shared by the question generators and /api/feedback.
+// Mirrors the client's ResumeData type: { name, skills, experience, projects, education },
+// where each entry is { title, subtitle?, dates?, bullets[] }.
+
+import type { ResumeData, ResumeEntry } from "../../shared/contract.js";
+
+/** A resume after normalizeResume: every field present, blank ones as "". */
+export interface NormalizedResume extends ResumeData {
+  experience: Required<ResumeEntry>[];
+  projects: Required<ResumeEntry>[];
+  education: Required<ResumeEntry>[];
+}
+
+type Loose = Record<string, unknown>;
+
+const MAX_ENTRIES = 8;
+const MAX_BULLETS = 6;
+const MAX_SKILLS = 40;
+const MAX_FIELD_LENGTH = 160;
+const MAX_BULLET_LENGTH = 300;
+
+function cleanString(value: unknown, max: number): string {
+  return typeof value === "string" ? value.replace(/\s+/g, " ").trim().slice(0, max) : "";
+}
+
+function cleanEntries(entries: unknown): Required<ResumeEntry>[] {
+  if (!Array.isArray(entries)) return [];
+  return entries
+    .filter((e): e is Loose => e && typeof e === "object")
+    .map((e) => ({
+      title: cleanString(e.title, MAX_FIELD_LENGTH),
+      subtitle: cleanString(e.subtitle, MAX_FIELD_LENGTH),
+      dates: cleanString(e.dates, 60),
+      bullets: (Array.isArray(e.bullets) ? e.bullets : [])
+        .map((b: unknown) => cleanString(b, MAX_BULLET_LENGTH))
+        .filter(Boolean)
+        .slice(0, MAX_BULLETS),
+    }))
+    .filter((e) => e.title)
+    .slice(0, MAX_ENTRIES);
+}
+
+/**
+ * Validates and caps a client-supplied resume. Returns null when it is
+ * missing or has no entries, so callers can fall back to raw resume text.
+ */
+export function normalizeResume(input: unknown): NormalizedResume | null {
+  if (!input || typeof input !== "object") return null;
+  const resume = input as Loose;
+  const normalized: NormalizedResume = {
+    name: cleanString(resume.name, 80) || null,
+    skills: (Array.isArray(resume.skills) ? resume.skills : [])
+      .map((s: unknown) => cleanString(s, 40))
+      .filter(Boolean)
+      .slice(0, MAX_SKILLS),
+    experience: cleanEntries(resume.experience),
+    projects: cleanEntries(resume.projects),
+    education: cleanEntries(resume.education),
+  };
+  const hasEntries = normalized.experience.length + normalized.projects.length + normalized.education.length > 0;
+  return hasEntries || normalized.skills.length > 0 ? normalized : null;
+}
+
+function formatEntry(entry: Required<ResumeEntry>): string {
+  const meta = [entry.subtitle, entry.dates].filter(Boolean).join(", ");
+  const header = `- ${entry.title}${meta ? ` (${meta})` : ""}`;
+  return [header, ...entry.bullets.map((b) => `    • ${b}`)].join("\n");
+}
+
+/** Renders a normalized resume as labelled sections for a prompt. */
+export function formatResume(resume: NormalizedResume): string {
+  const sections: string[] = [];
+  if (resume.experience.length) sections.push(`EXPERIENCE:\n${resume.experience.map(formatEntry).join("\n")}`);
+  if (resume.projects.length) sections.push(`PROJECTS:\n${resume.projects.map(formatEntry).join("\n")}`);
+  if (resume.education.length) sections.push(`EDUCATION:\n${resume.education.map(formatEntry).join("\n")}`);
+  if (resume.skills.length) sections.push(`SKILLS: ${resume.skills.join(", ")}`);
+  return sections.join("\n\n");
+}
+
+/** Names of the projects and roles a question or feedback item can cite. */
+export function citableEntries(resume: NormalizedResume): string[] {
+  return [...resume.projects, ...resume.experience].map((e) =>
+    e.subtitle ? `${e.title} (${e.subtitle})` : e.title,
+  );
+}
@@ -0,0 +1,92 @@
+// Interview role registry shared by the question generator and /api/feedback.
+// Ids come from the contract (shared/contract.ts); client-side labels live in
+// src/config/roles.ts.
+
+import { MAX_CUSTOM_ROLE_LENGTH, type Role } from "../../shared/contract.js";
+
+export type PresetRole = Exclude<Role, "custom">;
+
+export interface RoleProfile {
+  id: Role;
+  label: string;
+  questionFocus: string;
+  persona: string;
+  /** Category key → relative weight. */
+  weights: Record<string, number>;
+}
+
+/** Weights are relative; 1 = the default contribution of a category. */
+const EQUAL_WEIGHTS = {
+  response_organization: 1,
+  technical_knowledge: 1,
+  problem_solving: 1,
+  position_application: 1,
+  timing: 1,
+  personability: 1,
+};
+
+export const ROLES: Record<PresetRole, Omit<RoleProfile, "id">> = {
+  swe_intern: {
+    label: "software engineering intern",
+    questionFocus:
+      "Ground the question in software engineering work: building and debugging features, code reviews, technical trade-offs, and shipping with a team.",
+    persona: "a strict but supportive software engineering interview coach",
+    weights: { ...EQUAL_WEIGHTS, technical_knowledge: 1.5, problem_solving: 1.25 },
+  },
+  pm_intern: {
+    label: "product management intern",
+    questionFocus:
+      "Ground the question in product work: prioritizing features, aligning engineers, designers and stakeholders, using data and user feedback to make decisions.",
+    persona: "a strict but supportive product management interview coach who cares about prioritization, stakeholder alignment and user impact",
+    weights: { ...EQUAL_WEIGHTS, technical_knowledge: 0.75, position_application: 1.5, personability: 1.25 },
+  },
+  ml_intern: {
+    label: "data science / machine learning intern",
+    questionFocus:
+      "Ground the question in data and ML work: messy datasets, experiments and evaluation, model trade-offs, and explaining results to non-technical stakeholders.",
+    persona: "a strict but supportive data science and machine learning interview coach who values rigor, experimentation and clear communication of results",
+    weights: { ...EQUAL_WEIGHTS, technical_knowledge: 1.5, problem_solving: 1.5 },
+  },
+};
+
+export const CUSTOM_ROLE = "custom";
+export const DEFAULT_ROLE: PresetRole = "swe_intern";
+
+/**
+ * Resolve a request's `role` (+ free-text `customRole`) to a role profile.
+ * Unknown ids fall back to the default role; a custom role without a
+ * description does too, since there is nothing to tailor to.
+ */
+export function resolveRole(role: unknown, customRole: unknown): RoleProfile {
+  const description = typeof customRole === "string" ? customRole.trim().slice(0, MAX_CUSTOM_ROLE_LENGTH) : "";
+
+  if (role === CUSTOM_ROLE && description) {
+    return {
+      id: CUSTOM_ROLE,
+      label: description,
+      questionFocus: `The candidate described the role they are preparing for as: "${description}". Ground the question in situations someone in that role would actually face.`,
+      persona: `a strict but supportive interview coach for this role: "${description}"`,
+      weights: EQUAL_WEIGHTS,
+    };
+  }
+
+  const id = typeof role === "string" && Object.hasOwn(ROLES, role) ? (role as PresetRole) : DEFAULT_ROLE;
+  return { id, ...ROLES[id] };
+}
+
+/** Prompt fragment describing the target role. */
+export function roleInstruction(profile: RoleProfile): string {
+  return `\n\nROLE FOCUS: ${profile.questionFocus}`;
+}
+
+/** Weighted mean of the category scores, using the role's rubric weights. */
+export function weightedScore(scores: Record<string, unknown>, categories: string[], weights: Record<string, number>): number {
+  let total = 0;
+  let weightSum = 0;
+  for (const cat of categories) {
+    const weight = weights[cat] ?? 1;
+    total += Number(scores[cat] ?? 0) * weight;
+    weightSum += weight;
+  }
+  return weightSum > 0 ? total / weightSum : 0;
+}
@@ -0,0 +1,294 @@
+// Scoring rubrics for /api/feedback, as data. Each rubric declares the
+// categories answers are scored on, their relative weights, what each score
+// band means, and anchor answers that pin the scale. A category with a
+// `delivery` subscore is partly scored from measured delivery metrics (see
+// api/_lib/delivery.ts). The JSON schema and the scoring prompt are built from
+// whichever rubric a request selects.
+// Ids come from the contract (shared/contract.ts); client-side labels live in
+// src/config/rubrics.ts — keep them in sync.
+
+import type { DeliveryBlend, RubricId, RubricSummary } from "../../shared/contract.js";
+
+export interface RubricCategory {
+  key: string;
+  label: string;
+  weight: number;
+  description: string;
+  /** What an answer in each LEVEL_BANDS band looks like, highest first. */
+  levels: string[];
+  anchors: { score: number; example: string }[];
+  /** The measured delivery subscore blended into this category. */
+  delivery?: DeliveryBlend["source"];
+}
+
+export interface Rubric {
+  id: RubricId;
+  label: string;
+  description: string;
+  categories: RubricCategory[];
+}
+
+/**
+ * Score bands shared by every category; a category's `levels` describe what
+ * an answer in each band looks like, highest band first.
+ */
+export const LEVEL_BANDS = [
+  { label: "Excellent", min: 85 },
+  { label: "Good", min: 70 },
+  { label: "Developing", min: 50 },
+  { label: "Weak", min: 0 },
+];
+
+export const RUBRICS: Record<RubricId, Omit<Rubric, "id">> = {
+  general: {
+    label: "General",
+    description: "Six broad interview skills, weighted by the target role",
+    categories: [
+      {
+        key: "response_organization",
+        label: "Organization",
+        weight: 1,
+        description: "How clearly the answer is structured: context, what the candidate did, and how it ended",
+        levels: [
+          "Clear beginning, middle and end; every sentence moves the story forward",
+          "Easy to follow with minor detours or a rushed ending",
+          "The main point is there but buried in backtracking or missing a part",
+          "Hard to follow; no discernible structure",
+        ],
+        anchors: [
+          { score: 90, example: "\"Our release was slipping a week. I owned the payments API, so I split the migration into three flags, shipped the first on Tuesday, and we launched on time.\"" },
+          { score: 45, example: "\"So there was this project, and, well, first I should say the team was new, and the API — actually let me back up...\"" },
+        ],
+      },
+      {
+        key: "technical_knowledge",
+        label: "Technical",
+        weight: 1,
+        description: "Accuracy and depth of the technical or domain content for the role",
+        levels: [
+          "Precise, correct detail that shows real understanding of the trade-offs",
+          "Correct and relevant, but stays at a general level",
+          "Vague or partly inaccurate technical content",
+          "Technical content is missing or wrong",
+        ],
+        anchors: [
+          { score: 88, example: "\"I moved the lookup behind a read-through cache keyed by user id, which took p95 from 800 to 120 ms; the cost was handling invalidation on profile updates.\"" },
+          { score: 40, example: "\"I made it faster by optimizing the code.\"" },
+        ],
+      },
+      {
+        key: "problem_solving",
+        label: "Problem Solving",
+        weight: 1,
+        description: "How the candidate diagnosed the problem, weighed options and chose an approach",
+        levels: [
+          "Explains how the problem was diagnosed, the options considered, and why one was chosen",
+          "Describes a sensible approach with some reasoning",
+          "Jumps to a solution without showing the reasoning",
+          "No problem-solving process is visible",
+        ],
+        anchors: [
+          { score: 86, example: "\"I bisected the deploys, saw the regression came with the ORM upgrade, and chose to pin the version rather than rewrite the queries before the deadline.\"" },
+          { score: 42, example: "\"We tried a few things until it worked.\"" },
+        ],
+      },
+      {
+        key: "position_application",
+        label: "Position Fit",
+        weight: 1,
+        description: "How well the answer shows skills and judgment the target position needs",
+        levels: [
+          "Directly demonstrates the core skills of the target role",
+          "Relevant to the role, though the link is left implicit",
+          "Only loosely connected to what the role needs",
+          "Unrelated to the target role",
+        ],
+        anchors: [
+          { score: 85, example: "For a PM role: \"I ranked the requests by revenue at risk, got engineering and sales to agree on the top three, and cut the rest from the quarter.\"" },
+          { score: 45, example: "For a PM role: \"I mostly fixed bugs that were assigned to me.\"" },
+        ],
+      },
+      {
+        key: "timing",
+        label: "Timing",
+        weight: 1,
+        delivery: "pacing",
+        description: "Length and pacing: complete without rambling (roughly one to three minutes)",
+        levels: [
+          "Complete and concise; time is spent on the parts that matter",
+          "Slightly long or short, but covers what it needs to",
+          "Noticeably rushed or padded",
+          "Far too short to answer, or rambles well past the point",
+        ],
+        anchors: [
+          { score: 88, example: "A two-minute answer that spends most of its time on the candidate's actions and result." },
+          { score: 40, example: "A two-sentence answer, or five minutes mostly spent on background." },
+        ],
+      },
+      {
+        key: "personability",
+        label: "Personability",
+        weight: 1,
+        delivery: "presence",
+        description: "Warmth, ownership and how the candidate comes across to an interviewer",
+        levels: [
+          "Confident, genuine and takes clear ownership; credits others fairly",
+          "Pleasant and professional, with some ownership",
+          "Flat, overly hedged, or deflects responsibility",
+          "Comes across as dismissive or blames others",
+        ],
+        anchors: [
+          { score: 87, example: "\"That one was on me — I'd skipped the load test. I added it to our checklist and walked the team through what I missed.\"" },
+          { score: 40, example: "\"QA should have caught it, honestly.\"" },
+        ],
+      },
+    ],
+  },
+  star: {
+    label: "STAR",
+    description: "Scores each part of a Situation–Task–Action–Result story plus delivery",
+    categories: [
+      {
+        key: "situation",
+        label: "Situation",
+        weight: 0.75,
+        description: "Sets the scene: when, where, who and what was at stake",
+        levels: [
+          "Specific, brief context with clear stakes",
+          "Context is clear but generic or a little long",
+          "Context is vague or takes over the answer",
+          "No situation given",
+        ],
+        anchors: [
+          { score: 88, example: "\"Two weeks before our capstone demo, our only backend developer left the team.\"" },
+          { score: 40, example: "\"So this was at a company I worked at.\"" },
+        ],
+      },
+      {
+        key: "task",
+        label: "Task",
+        weight: 0.75,
+        description: "The candidate's own responsibility or goal in that situation",
+        levels: [
+          "States exactly what the candidate was responsible for",
+          "Responsibility is implied but not stated",
+          "Describes the team's goal, not the candidate's",
+          "No task given",
+        ],
+        anchors: [
+          { score: 86, example: "\"I volunteered to take over the API and get login and payments working for the demo.\"" },
+          { score: 42, example: "\"We needed to finish the project.\"" },
+        ],
+      },
+      {
+        key: "action",
+        label: "Action",
+        weight: 1.5,
+        description: "Concrete steps the candidate personally took, in the first person",
+        levels: [
+          "Several concrete first-person steps with the reasoning behind them",
+          "Clear steps, but thin on detail or reasoning",
+          "Mostly \"we\", or actions are generic",
+          "No actions described",
+        ],
+        anchors: [
+          { score: 90, example: "\"I read the existing handlers over a weekend, wrote tests around login first, and paired with our frontend dev each evening to unblock her.\"" },
+          { score: 40, example: "\"We all worked really hard on it.\"" },
+        ],
+      },
+      {
+        key: "result",
+        label: "Result",
+        weight: 1.25,
+        description: "The outcome, ideally measured, and what the candidate learned",
+        levels: [
+          "Measured outcome tied to the actions, plus a lesson",
+          "Clear outcome without numbers or reflection",
+          "Outcome is vague or assumed",
+          "No result given",
+        ],
+        anchors: [
+          { score: 88, example: "\"We demoed on time with zero failed logins, and I learned to write tests before touching code I don't own.\"" },
+          { score: 42, example: "\"It went fine in the end.\"" },
+        ],
+      },
+      {
+        key: "communication",
+        label: "Communication",
+        weight: 1,
+        delivery: "presence",
+        description: "Clarity, confidence and word choice",
+        levels: [
+          "Clear, confident and easy to listen to",
+          "Clear with occasional filler or hedging",
+          "Frequent filler, hedging or jargon gets in the way",
+          "Hard to understand",
+        ],
+        anchors: [
+          { score: 86, example: "Plain, specific sentences with few fillers." },
+          { score: 45, example: "\"So, like, I kind of, um, sort of handled the, you know, backend stuff.\"" },
+        ],
+      },
+      {
+        key: "pacing",
+        label: "Pacing",
+        weight: 0.75,
+        delivery: "pacing",
+        description: "Time spent on each part: short setup, most time on action and result",
+        levels: [
+          "Most of the answer is action and result",
+          "Balanced, with a slightly long setup",
+          "Setup dominates; action and result are rushed",
+          "Never gets past the setup",
+        ],
+        anchors: [
+          { score: 87, example: "One sentence each of situation and task, then the bulk on actions and a closing result." },
+          { score: 40, example: "Three minutes of background and one sentence of outcome." },
+        ],
+      },
+    ],
+  },
+};
+
+export const DEFAULT_RUBRIC: RubricId = "general";
+
+/** Unknown or missing ids fall back to the default rubric. */
+export function resolveRubric(id: unknown): Rubric {
+  const key = typeof id === "string" && Object.hasOwn(RUBRICS, id) ? (id as RubricId) : DEFAULT_RUBRIC;
+  return { id: key, ...RUBRICS[key] };
+}
+
+export function categoryKeys(rubric: Rubric): string[] {
+  return rubric.categories.map((c) => c.key);
+}
+
+/**
+ * Rubric weight × the role's weight for the same category. Role weights are
+ * keyed by the general rubric's categories, so they only adjust rubrics that
+ * reuse those keys.
+ */
+export function categoryWeights(rubric: Rubric, roleWeights: Record<string, number> = {}): Record<string, number> {
+  return Object.fromEntries(rubric.categories.map((c) => [c.key, c.weight * (roleWeights[c.key] ?? 1)]));
+}
+
+/** Prompt section describing every category, its score bands and anchor answers. */
+export function rubricInstruction(rubric: Rubric): string {
+  const sections = rubric.categories.map((c) => {
+    const bands = LEVEL_BANDS.map((band, i) => {
+      const max = i === 0 ? 100 : LEVEL_BANDS[i - 1].min - 0.1;
+      return `  - ${band.min}–${max} (${band.label}): ${c.levels[i]}`;
+    }).join("\n");
+    const anchors = c.anchors.map((a) => `    - Scores about ${a.score}: ${a.example}`).join("\n");
+    return `${c.key} — ${c.label}: ${c.description}\n${bands}\n  Anchors:\n${anchors}`;
+  });
+  return `SCORING RUBRIC (${rubric.label}):\n${sections.join("\n\n")}`;
+}
+
+/** What the client needs to render the rubric's dimensions. */
+export function rubricSummary(rubric: Rubric): RubricSummary {
+  return {
+    id: rubric.id,
+    label: rubric.label,
+    dimensions: rubric.categories.map((c) => ({ key: c.key, label: c.label })),
+  };
+}
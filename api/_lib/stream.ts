@@ -0,0 +1,116 @@
+// Server-sent events, both ways: endpoints that report results as they
+// finish write them with openEventStream, and readEventStream consumes the
+// model's own event stream. createArrayItemReader picks finished objects out
+// of streamed JSON so they can be passed on before the rest has arrived.
+
+import type { ServerResponse } from "node:http";
+
+export interface ServerEvent {
+  event: string;
+  data: string;
+}
+
+export interface EventStream<Events> {
+  send<E extends keyof Events & string>(event: E, data: Events[E]): void;
+  end(): void;
+}
+
+/** Switches `res` to an event stream; send(event, data) writes one JSON-encoded event. */
+export function openEventStream<Events>(res: ServerResponse): EventStream<Events> {
+  res.statusCode = 200;
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // Keeps proxies from holding events back until the response ends
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders?.();
+  return {
+    send(event, data) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    end() {
+      res.end();
+    },
+  };
+}
+
+function parseEvent(block: string): ServerEvent | null {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+  }
+  return data.length ? { event, data: data.join("\n") } : null;
+}
+
+/** Reads an event-stream body to the end, calling onEvent({ event, data }) per event. */
+export async function readEventStream(body: ReadableStream<Uint8Array>, onEvent: (event: ServerEvent) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    let boundary;
+    while ((boundary = buffer.search(/\r?\n\r?\n/)) >= 0) {
+      const parsed = parseEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+      if (parsed) onEvent(parsed);
+    }
+    if (done) break;
+  }
+  const rest = parseEvent(buffer);
+  if (rest) onEvent(rest);
+}
+
+/**
+ * Incremental reader for streamed JSON: push() text as it arrives and
+ * onItem(item, index) is called for each object in the top-level array
+ * `key` as soon as its closing brace is in. Throws if an item isn't valid JSON.
+ */
+export function createArrayItemReader<Item>(key: string, onItem: (item: Item, index: number) => void): { push(chunk: string): void } {
+  let text = "";
+  let pos = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastKey: string | null = null;
+  let inArray = false;
+  let itemStart = -1;
+  let count = 0;
+
+  return {
+    push(chunk: string) {
+      text += chunk;
+      for (; pos < text.length; pos++) {
+        const ch = text[pos];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === "\\") escaped = true;
+          else if (ch === '"') {
+            inString = false;
+            // At the top level the last string before an array is its key
+            if (depth === 1) lastKey = JSON.parse(text.slice(stringStart, pos + 1));
+          }
+        } else if (ch === '"') {
+          inString = true;
+          stringStart = pos;
+        } else if (ch === "{" || ch === "[") {
+          depth++;
+          if (depth === 2 && ch === "[" && lastKey === key) inArray = true;
+          else if (inArray && depth === 3 && ch === "{") itemStart = pos;
+        } else if (ch === "}" || ch === "]") {
+          if (inArray && depth === 3 && itemStart >= 0) {
+            onItem(JSON.parse(text.slice(itemStart, pos + 1)), count++);
+            itemStart = -1;
+          } else if (inArray && depth === 2) {
+            inArray = false;
+          }
+          depth--;
+        }
+      }
+    },
+  };
+}
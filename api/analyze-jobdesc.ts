@@ -0,0 +1,109 @@
+import { IMPORTANCE_LEVELS, SENIORITIES, routes, type AnalyzeJobDescriptionRequest, type JobCompetency, type JobProfile, type Role } from "../shared/contract.js";
+import { ROLES } from "./_lib/roles.js";
+import { chatJson, isLlmError, missingApiKey, upstreamStatus, type LlmRoute } from "./_lib/llm.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+const LLM_ROUTE: LlmRoute = { endpoint: "analyze-jobdesc", provider: "groq", tier: "smart" };
+
+const MAX_COMPETENCIES = 6;
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+function log(level: "debug" | "info" | "warn" | "error", msg: string, data?: unknown) {
+  if (!IS_DEV && level === "debug") return;
+  const prefix = `[api/analyze-jobdesc]`;
+  if (data) {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`, data);
+  } else {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`);
+  }
+}
+
+/** One of `options`, or `fallback` when the model answered with something else. */
+function oneOf<T extends string>(options: readonly T[], value: unknown, fallback: T): T {
+  return options.find((option) => option === value) ?? fallback;
+}
+
+function cleanList(value: unknown, max: number, maxLength = 60): string[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value
+    .filter((v): v is string => typeof v === "string")
+    .map((v) => v.replace(/\s+/g, " ").trim().slice(0, maxLength))
+    .filter((v) => v && !seen.has(v.toLowerCase()) && seen.add(v.toLowerCase()))
+    .slice(0, max);
+}
+
+/** Coerces the model's JSON into the JobProfile shape the client expects. */
+function normalizeProfile(raw: Record<string, unknown>): JobProfile {
+  const competencies = (Array.isArray(raw.competencies) ? raw.competencies : [])
+    .filter((c): c is Partial<Record<keyof JobCompetency, unknown>> & { name: string } => c && typeof c.name === "string" && c.name.trim())
+    .map((c): JobCompetency => ({
+      name: c.name.replace(/\s+/g, " ").trim().slice(0, 60),
+      description: typeof c.description === "string" ? c.description.trim().slice(0, 200) : "",
+      importance: oneOf(IMPORTANCE_LEVELS, c.importance, "medium"),
+    }))
+    // Stable sort: most important first, model order within a tier
+    .sort((a, b) => IMPORTANCE_LEVELS.indexOf(a.importance) - IMPORTANCE_LEVELS.indexOf(b.importance))
+    .slice(0, MAX_COMPETENCIES);
+
+  return {
+    title: typeof raw.title === "string" && raw.title.trim() ? raw.title.trim().slice(0, 100) : "Unknown role",
+    seniority: oneOf(SENIORITIES, raw.seniority, "entry"),
+    role: typeof raw.role === "string" && Object.hasOwn(ROLES, raw.role) ? (raw.role as Role) : "custom",
+    skills: cleanList(raw.skills, 15),
+    competencies,
+    values: cleanList(raw.values, 6, 80),
+  };
+}
+
+async function handler(req: ApiRequest<AnalyzeJobDescriptionRequest>, res: ApiResponse<JobProfile>) {
+  log("info", "Request received", { method: req.method });
+  const missingKey = missingApiKey(LLM_ROUTE);
+  if (missingKey) {
+    log("error", `${missingKey} not set`);
+    return sendError(res, 500, `${missingKey} not set`, { code: "not_configured" });
+  }
+
+  const { jobDescription } = req.body;
+
+  const roleOptions = Object.entries(ROLES)
+    .map(([id, r]) => `"${id}" (${r.label})`)
+    .join(", ");
+
+  const prompt = `You analyze job postings for a behavioral interview practice app. Read the job description and extract a structured profile of the position.
+
+Job Description:
+${jobDescription.slice(0, 6000)}
+
+Extract:
+- "title": the job title as written (or the closest short title if none is given)
+- "seniority": one of ${SENIORITIES.map((s) => `"${s}"`).join(", ")}
+- "role": the closest interview track — one of ${roleOptions} — or "custom" if none of them fit
+- "skills": up to 15 required or preferred hard skills, tools or technologies, most important first, each 1–4 words
+- "competencies": 3–6 soft-skill competencies a behavioral interview should probe for this job (e.g. "Cross-functional collaboration", "Ownership", "Communicating with customers"). For each give "name" (2–4 words), "description" (one sentence on what it means in THIS job, grounded in the posting) and "importance" ("high" when the posting stresses it repeatedly or lists it as required, "medium" when it is clearly expected, "low" when only implied)
+- "values": up to 6 company values or cultural traits the posting states or clearly implies, each a short phrase
+
+Only use what the posting supports — do not invent requirements. Respond with JSON only:
+{"title": "...", "seniority": "...", "role": "...", "skills": ["..."], "competencies": [{"name": "...", "description": "...", "importance": "..."}], "values": ["..."]}`;
+
+  try {
+    const { data: parsed } = await chatJson({
+      ...LLM_ROUTE,
+      messages: [{ role: "user", content: prompt }],
+      temperature: 0.2,
+      maxTokens: 800,
+      timeoutMs: 20000,
+    });
+
+    const profile = normalizeProfile(parsed ?? {});
+    log("info", "Job description analyzed", { title: profile.title, competencies: profile.competencies.length });
+    return res.status(200).json(profile);
+  } catch (err) {
+    if (isLlmError(err)) return sendError(res, upstreamStatus(err), err.message);
+    log("error", "Analysis failed", { error: String(err) });
+    return sendError(res, 500, "Failed to analyze job description");
+  }
+}
+
+export default withApi({ route: routes.analyzeJobDescription }, handler);
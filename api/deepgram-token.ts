@@ -0,0 +1,62 @@
+import { routes, type DeepgramTokenResponse } from "../shared/contract.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+// Deepgram only checks the token when the socket opens, so it can be short-lived
+const TOKEN_TTL_SECONDS = 30;
+const GRANT_TIMEOUT_MS = 10000;
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+function log(level: "debug" | "info" | "warn" | "error", msg: string, data?: unknown) {
+  if (!IS_DEV && level === "debug") return;
+  const prefix = `[api/deepgram-token]`;
+  if (data) {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`, data);
+  } else {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`);
+  }
+}
+
+/**
+ * Mints a short-lived Deepgram access token for the browser's live
+ * transcription socket, so the long-lived key stays on the server.
+ */
+async function handler(_req: ApiRequest, res: ApiResponse<DeepgramTokenResponse>) {
+  const apiKey = process.env.DEEPGRAM_API_KEY?.trim();
+  if (!apiKey) {
+    log("error", "DEEPGRAM_API_KEY not set");
+    return sendError(res, 500, "DEEPGRAM_API_KEY not set", { code: "not_configured" });
+  }
+
+  const baseUrl = (process.env.DEEPGRAM_BASE_URL?.trim() || "https://api.deepgram.com").replace(/\/+$/, "");
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), GRANT_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${baseUrl}/v1/auth/grant`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Token ${apiKey}` },
+      body: JSON.stringify({ ttl_seconds: TOKEN_TTL_SECONDS }),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      log("error", "Deepgram grant error", { status: response.status, body: (await response.text()).slice(0, 300) });
+      return sendError(res, 502, "Deepgram API error");
+    }
+
+    const { access_token: token, expires_in: expiresIn } = (await response.json()) as { access_token?: unknown; expires_in?: unknown };
+    if (typeof token !== "string" || !token) {
+      return sendError(res, 502, "Deepgram returned no token");
+    }
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(200).json({ token, expiresIn: Number(expiresIn) || TOKEN_TTL_SECONDS });
+  } catch (err) {
+    if ((err as Error)?.name === "AbortError") return sendError(res, 504, "Deepgram request timed out");
+    log("error", "Token request failed", { error: String(err) });
+    return sendError(res, 500, "Failed to get a Deepgram token");
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// One token per answer, and an answer takes longer than ten seconds
+export default withApi({ route: routes.deepgramToken, limits: { ip: 10, session: 6 } }, handler);
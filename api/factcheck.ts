@@ -0,0 +1,74 @@
+import { routes, type FactCheckRequest, type FactCheckResult } from "../shared/contract.js";
+import { chatJson, isLlmError, missingApiKey, upstreamStatus, type JsonFormat, type LlmRoute } from "./_lib/llm.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+const LLM_ROUTE: LlmRoute = { endpoint: "factcheck", provider: "openai", tier: "smart" };
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+function log(level: "debug" | "info" | "warn" | "error", msg: string, data?: unknown) {
+  if (!IS_DEV && level === "debug") return;
+  const prefix = `[api/factcheck]`;
+  if (data) {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`, data);
+  } else {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`);
+  }
+}
+
+const FACTCHECK_FORMAT: JsonFormat = {
+  name: "factcheck_result",
+  schema: {
+    type: "object",
+    properties: {
+      is_correct: { type: "boolean" },
+      result: { type: "string" },
+      explanation: { type: "string" },
+    },
+    required: ["is_correct", "result", "explanation"],
+    additionalProperties: false,
+  },
+};
+
+async function handler(req: ApiRequest<FactCheckRequest>, res: ApiResponse<FactCheckResult>) {
+  log("info", "Request received", { method: req.method });
+  const missingKey = missingApiKey(LLM_ROUTE);
+  if (missingKey) {
+    log("error", `${missingKey} not set`);
+    return sendError(res, 500, `${missingKey} not set`, { code: "not_configured" });
+  }
+
+  const { question, answer, correction } = req.body;
+
+  try {
+    const { data: result } = await chatJson<FactCheckResult>({
+      ...LLM_ROUTE,
+      format: FACTCHECK_FORMAT,
+      messages: [
+        {
+          role: "user",
+          content: `
+You are a strict fact-checking AI for technical interview answers.
+Question: ${question}
+Candidate Answer: ${answer}
+User Correction: ${correction}
+
+Determine if the user's correction is factually accurate.
+Set "result" to "The correction is accurate." or "The correction is not accurate."
+Provide a 2-3 sentence explanation of why the correction is valid or invalid.
+`,
+        },
+      ],
+      timeoutMs: 20000,
+    });
+
+    log("info", "Factcheck completed", { is_correct: result.is_correct });
+    return res.status(200).json(result);
+  } catch (err) {
+    if (isLlmError(err)) return sendError(res, upstreamStatus(err), err.message);
+    log("error", "Factcheck failed", { error: String(err) });
+    return sendError(res, 500, "Fact-check failed");
+  }
+}
+
+export default withApi({ route: routes.factCheck }, handler);
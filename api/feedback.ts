@@ -0,0 +1,521 @@
+import {
+  routes,
+  type CategoryScore,
+  type Difficulty,
+  type FeedbackEvents,
+  type FeedbackProvider,
+  type FeedbackRequest,
+  type GradedFeedback,
+  type OverallNarrative,
+  type QuestionFeedback,
+} from "../shared/contract.js";
+import type { Schema } from "../shared/schema.js";
+import { normalizeDifficulty, scoringCalibration } from "./_lib/difficulty.js";
+import { resolveRole, weightedScore, type RoleProfile } from "./_lib/roles.js";
+import { categoryKeys, categoryWeights, resolveRubric, rubricInstruction, rubricSummary, type Rubric } from "./_lib/rubrics.js";
+import { formatResume, normalizeResume, type NormalizedResume } from "./_lib/resume.js";
+import { normalizeJobCompetency } from "./_lib/competencies.js";
+import { SAMPLING_MODELS, combineSamples, resolveSampling } from "./_lib/consistency.js";
+import { blendDelivery, describeDelivery, normalizeDeliveryMetrics, type DeliveryMetrics } from "./_lib/delivery.js";
+import { alignQuestionQuotes, applyQuoteRepair, quoteRepairRequest, unalignedQuotes } from "./_lib/quotes.js";
+import { createArrayItemReader, openEventStream } from "./_lib/stream.js";
+import { chatJson, isLlmError, missingApiKey, streamChat, upstreamStatus, type LlmRoute } from "./_lib/llm.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+/** Fallback grader when OpenAI keeps failing; JSON mode instead of structured outputs. */
+export const GROQ_FALLBACK_MODEL = "llama-3.3-70b-versatile";
+const GRADING_TIMEOUT_MS = 90000;
+
+/** Structured-output format for a grader call (OpenAI's Responses shape; the gateway takes `name` and `schema`). */
+export interface GradingFormat {
+  type: "json_schema";
+  name: string;
+  strict: boolean;
+  schema: Schema;
+}
+
+/** One question as the grader returns it (see buildSchema); streamed ones arrive unvalidated. */
+export interface GraderQuestion {
+  categories: Record<string, { score: number; reason: string }>;
+  best_part_quote: string;
+  best_part_explanation: string;
+  worst_part_quote: string;
+  worst_part_explanation: string;
+  what_went_well: string;
+  needs_improvement: string;
+  summary: string;
+  confidence_score: number;
+  competencies_demonstrated?: string[];
+}
+
+/** The grader's whole reply, per buildSchema. */
+export interface GraderFeedback {
+  questions: GraderQuestion[];
+  overall: OverallNarrative & { categories: Record<string, number>; confidence_score: number };
+}
+
+/** Everything the prompt and the scoring depend on, resolved from a request body. */
+export interface FeedbackContext {
+  questions: string[];
+  answers: string[];
+  /** Per question: index of the question it follows up on, or null. */
+  parents: (number | null)[];
+  profile: RoleProfile;
+  rubric: Rubric;
+  keys: string[];
+  weights: Record<string, number>;
+  level: Difficulty;
+  structured: NormalizedResume | null;
+  resumeText?: string;
+  jobDescription?: string;
+  competencyNames: string[];
+  /** Per question: what was measured from its recording. */
+  delivery: (DeliveryMetrics | null)[];
+  provider: FeedbackProvider;
+  sampling: { samples: number; models: string[] };
+}
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+function log(level: "debug" | "info" | "warn" | "error", msg: string, data?: unknown) {
+  if (!IS_DEV && level === "debug") return;
+  const prefix = `[api/feedback]`;
+  if (data) {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`, data);
+  } else {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`);
+  }
+}
+
+/** Structured-output schema for `questionCount` answers scored on the rubric's `keys`. */
+export function buildSchema(questionCount: number, keys: string[], competencies: string[] = []): GradingFormat {
+  const categoryScore: Schema = {
+    type: "object",
+    properties: { score: { type: "number" }, reason: { type: "string" } },
+    required: ["score", "reason"],
+    additionalProperties: false,
+  };
+  const properties: Record<string, Schema> = {
+    categories: {
+      type: "object",
+      properties: Object.fromEntries(keys.map((k) => [k, categoryScore])),
+      required: keys,
+      additionalProperties: false,
+    },
+    best_part_quote: { type: "string" },
+    best_part_explanation: { type: "string" },
+    worst_part_quote: { type: "string" },
+    worst_part_explanation: { type: "string" },
+    what_went_well: { type: "string" },
+    needs_improvement: { type: "string" },
+    summary: { type: "string" },
+    confidence_score: { type: "number" },
+  };
+  const required = [
+    "categories",
+    "best_part_quote", "best_part_explanation",
+    "worst_part_quote", "worst_part_explanation",
+    "what_went_well", "needs_improvement", "summary", "confidence_score",
+  ];
+
+  // Job-description competencies the answer showed evidence of (coverage map)
+  if (competencies.length > 0) {
+    properties.competencies_demonstrated = {
+      type: "array",
+      items: { type: "string", enum: competencies },
+    };
+    required.push("competencies_demonstrated");
+  }
+  const questionSchema: Schema = { type: "object", properties, required, additionalProperties: false };
+
+  return {
+    type: "json_schema",
+    name: "interview_feedback",
+    strict: true,
+    schema: {
+      type: "object",
+      properties: {
+        questions: {
+          type: "array",
+          items: questionSchema,
+          minItems: questionCount,
+          maxItems: questionCount,
+        },
+        overall: {
+          type: "object",
+          properties: {
+            categories: {
+              type: "object",
+              properties: Object.fromEntries(keys.map((k) => [k, { type: "number" }])),
+              required: keys,
+              additionalProperties: false,
+            },
+            what_went_well: { type: "string" },
+            needs_improvement: { type: "string" },
+            summary: { type: "string" },
+            confidence_score: { type: "number" },
+          },
+          required: [
+            "categories",
+            "what_went_well", "needs_improvement", "summary", "confidence_score",
+          ],
+          additionalProperties: false,
+        },
+      },
+      required: ["questions", "overall"],
+      additionalProperties: false,
+    },
+  };
+}
+
+export const FEEDBACK_MODEL = SAMPLING_MODELS[0];
+
+/**
+ * Resolves a request body into everything the prompt depends on. Returns
+ * { error } when the body is unusable.
+ */
+export function resolveFeedbackRequest(body: Partial<FeedbackRequest> | undefined): FeedbackContext | { error: string } {
+  const { questions, answers, followUpOf, resumeText, resume, jobDescription, competencies, role, customRole, difficulty, rubric: rubricId, samples, models, metrics, provider } = body ?? {};
+  if (!Array.isArray(questions) || !Array.isArray(answers) || questions.length !== answers.length) {
+    return { error: "questions and answers must be parallel arrays" };
+  }
+
+  const profile = resolveRole(role, customRole);
+  const rubric = resolveRubric(rubricId);
+  const competencyNames = [
+    ...new Set((Array.isArray(competencies) ? competencies : []).map((c) => normalizeJobCompetency(c)?.name).filter((name) => name !== undefined)),
+  ].slice(0, 8);
+
+  // followUpOf[i] is the index of the question that question i follows up on (null for main questions)
+  const parentOf = (i: number) => {
+    const parent = Array.isArray(followUpOf) ? followUpOf[i] : null;
+    return typeof parent === "number" && Number.isInteger(parent) && parent >= 0 && parent < i ? parent : null;
+  };
+
+  return {
+    questions,
+    answers,
+    parents: questions.map((_, i) => parentOf(i)),
+    profile,
+    rubric,
+    keys: categoryKeys(rubric),
+    weights: categoryWeights(rubric, profile.weights),
+    level: normalizeDifficulty(difficulty),
+    structured: normalizeResume(resume),
+    resumeText,
+    jobDescription,
+    competencyNames,
+    // metrics[i] is what was measured from answer i's recording, when there was one
+    delivery: questions.map((_, i) => normalizeDeliveryMetrics(Array.isArray(metrics) ? metrics[i] : null)),
+    provider: provider === "groq" ? "groq" : "openai",
+    // The Groq fallback is a single grading; consistency samples are an OpenAI feature
+    sampling: provider === "groq" ? { samples: 1, models: [GROQ_FALLBACK_MODEL] } : resolveSampling(samples, models),
+  };
+}
+
+/** The scoring prompt for a resolved request. */
+export function buildFeedbackPrompt(ctx: FeedbackContext): string {
+  const { questions, answers, parents, profile, rubric, keys, level, structured, resumeText, jobDescription, competencyNames, delivery } = ctx;
+
+  const combined = questions
+    .map((q, i) => {
+      const parent = parents[i];
+      const label = parent === null ? `Question ${i + 1}` : `Question ${i + 1} (follow-up to Question ${parent + 1})`;
+      const measured = describeDelivery(delivery[i]);
+      return `${label}: ${q}\nAnswer ${i + 1}: ${answers[i]}${measured ? `\n${measured}` : ""}`;
+    })
+    .join("\n\n");
+
+  const followUpContext = parents.some((p) => p !== null)
+    ? "\nSome questions are the interviewer's follow-ups to an earlier answer. Score each follow-up together with the answer it follows up on: do not penalize it for not repeating context already given, and credit the original answer when a follow-up fills in what it was missing.\n"
+    : "";
+
+  const deliveryKeys = rubric.categories.filter((c) => c.delivery).map((c) => c.key);
+  const deliveryContext = delivery.some(Boolean) && deliveryKeys.length
+    ? `\nSome answers list delivery measured from the recording. Let it inform ${deliveryKeys.join(" and ")}, but score those from what you can judge in the transcript — the measurements are blended into them separately.\n`
+    : "";
+
+  const resumeContext = structured
+    ? `\n\nCANDIDATE CONTEXT (use this to tailor your feedback):\nResume:\n${formatResume(structured)}\n${jobDescription ? `Target role / Job description: ${String(jobDescription).slice(0, 2000)}\n` : ""}When an answer draws on one of these projects or roles, refer to it by name, and point out relevant resume details the answer could have used but didn't.\n`
+    : resumeText && jobDescription
+      ? `\n\nCANDIDATE CONTEXT (use this to tailor your feedback):\nResume excerpt: ${String(resumeText).slice(0, 3000)}\nTarget role / Job description: ${String(jobDescription).slice(0, 2000)}\n`
+      : "";
+
+  const competencyContext = competencyNames.length
+    ? `\nCOMPETENCIES FROM THE JOB DESCRIPTION: ${competencyNames.join("; ")}.\nFor each question, list in "competencies_demonstrated" the competencies (exact names from this list) that the answer gives concrete evidence of — a specific action or result, not just a mention. Use an empty list when none are demonstrated.\n`
+    : "";
+
+  return `
+You are ${profile.persona} giving feedback directly to the candidate. Always address them as "you" (second person). Never refer to them as "the candidate" or in third person.
+The candidate is interviewing for a ${profile.label} position — judge the answers against what that role actually requires.${scoringCalibration(level)}
+
+${rubricInstruction(rubric)}
+
+For EACH of the ${questions.length} questions in the transcript, do ALL of the following:
+1. Score every rubric category (${keys.join(", ")}) 0.0–100.0 with ONE decimal, using its score bands and anchors. Put each in "categories" as {"score", "reason"}, where the reason is ONE sentence explaining that question's score, tied to something the candidate said or left out.
+2. Identify the BEST sentence EXACTLY as written. Put in "best_part_quote".
+3. Explain in 2-3 sentences in "best_part_explanation". Write conversationally as if speaking aloud to the candidate — no stiff or analytical language.
+4. Identify the WORST sentence EXACTLY as written. Put in "worst_part_quote".
+5. Explain in 2-3 sentences in "worst_part_explanation". Write conversationally as if speaking aloud — give direct, actionable advice.
+6. Provide "what_went_well", "needs_improvement", "summary" (1-2 sentences each, conversational tone)
+7. Provide "confidence_score" (0.0–100.0)
+
+FOR THE OVERALL INTERVIEW:
+- Score the same rubric categories for the interview as a whole in overall "categories"
+- Provide overall what_went_well, needs_improvement, summary
+- Provide an overall "confidence_score" (0.0–100.0) reflecting how confident you are in your overall assessment
+
+You MUST return exactly ${questions.length} items in the "questions" array.
+${followUpContext}${deliveryContext}${competencyContext}${resumeContext}
+Transcript:
+${combined}
+`;
+}
+
+/**
+ * Where a grader call goes: the scoring model (OpenAI unless the environment
+ * moves the endpoint), or the Groq fallback when the client asked for it.
+ */
+function graderRoute(provider: FeedbackProvider, model?: string): LlmRoute {
+  return provider === "groq"
+    ? { endpoint: "feedback", provider: "groq", model: GROQ_FALLBACK_MODEL, pinProvider: true }
+    : { endpoint: "feedback", provider: "openai", model };
+}
+
+/**
+ * Sends a prompt to the scoring model and resolves to its raw JSON text.
+ * Rejects with an Error carrying `status` when the grader answers with an
+ * error or a reply that doesn't match the schema.
+ */
+export async function requestFeedback(
+  { input, format, model = FEEDBACK_MODEL }: { input: string; format: GradingFormat; model?: string },
+  provider: FeedbackProvider = "openai",
+): Promise<string> {
+  const { text } = await chatJson({
+    ...graderRoute(provider, model),
+    format,
+    messages: [{ role: "user", content: input }],
+    timeoutMs: GRADING_TIMEOUT_MS,
+  });
+  return text;
+}
+
+/**
+ * Streams a grading from the scoring model, calling onQuestion(raw, index) as
+ * each question object completes, and resolves to the full JSON text.
+ * Rejects like requestFeedback, or with a SyntaxError for a malformed question.
+ */
+export async function streamGrading(
+  { input, format, model = FEEDBACK_MODEL }: { input: string; format: GradingFormat; model?: string },
+  provider: FeedbackProvider,
+  onQuestion: (raw: Partial<GraderQuestion>, index: number) => void,
+): Promise<string> {
+  const questions = createArrayItemReader("questions", onQuestion);
+  const { text } = await streamChat({
+    ...graderRoute(provider, model),
+    format,
+    messages: [{ role: "user", content: input }],
+    timeoutMs: GRADING_TIMEOUT_MS,
+  }, (delta) => questions.push(delta));
+  return text;
+}
+
+/** One graded question, rubric-weighted with measured delivery blended in and its quotes aligned. */
+export function finalizeQuestion(q: Partial<GraderQuestion>, i: number, ctx: FeedbackContext): QuestionFeedback {
+  const { answers, keys, weights, competencyNames, rubric, delivery } = ctx;
+  const graded = Object.fromEntries(keys.map((k) => [k, Number(Number(q.categories?.[k]?.score ?? 0).toFixed(1))]));
+  // Measured delivery takes a fixed share of the categories that declare it
+  const { scores, breakdown } = blendDelivery(rubric, graded, delivery?.[i] ?? null);
+  const categories: Record<string, CategoryScore> = Object.fromEntries(keys.map((k) => [k, { score: scores[k], reason: q.categories?.[k]?.reason ?? "" }]));
+  const avg = weightedScore(Object.fromEntries(keys.map((k) => [k, categories[k].score])), keys, weights);
+
+  return alignQuestionQuotes({
+    score: Number(avg.toFixed(1)),
+    categories,
+    best_part_quote: q.best_part_quote ?? "",
+    best_part_explanation: q.best_part_explanation ?? "",
+    worst_part_quote: q.worst_part_quote ?? "",
+    worst_part_explanation: q.worst_part_explanation ?? "",
+    what_went_well: q.what_went_well ?? "",
+    needs_improvement: q.needs_improvement ?? "",
+    summary: q.summary ?? "",
+    confidence_score: q.confidence_score ?? null,
+    ...(Object.keys(breakdown).length ? { delivery: breakdown } : {}),
+    ...(competencyNames.length
+      ? { competencies_demonstrated: (q.competencies_demonstrated ?? []).filter((c) => competencyNames.includes(c)) }
+      : {}),
+  }, answers[i]);
+}
+
+/** Turns the model's parsed JSON into the response the client gets: rubric-weighted scores, cleaned fields. */
+export function finalizeFeedback(feedback: GraderFeedback, ctx: FeedbackContext): GradedFeedback {
+  const { keys, weights, rubric } = ctx;
+
+  // Calculate per-question scores, weighted by the rubric and the role
+  const questions = (feedback.questions ?? []).map((q, i) => finalizeQuestion(q, i, ctx));
+
+  // Calculate overall scores
+  let overall: GradedFeedback["overall"];
+  if (feedback.overall) {
+    const categories = Object.fromEntries(keys.map((k) => [k, Number(Number(feedback.overall.categories?.[k] ?? 0).toFixed(1))]));
+    overall = { ...feedback.overall, categories, score: Number(weightedScore(categories, keys, weights).toFixed(1)) };
+  }
+  return { questions, ...(overall ? { overall } : {}), rubric: rubricSummary(rubric) };
+}
+
+/**
+ * Quotes that couldn't be snapped to the answer get one re-ask by sentence
+ * number. Resolves to the indices of the questions whose quotes changed.
+ */
+async function repairQuotes(feedback: Pick<GradedFeedback, "questions">, answers: string[], provider: FeedbackProvider): Promise<number[]> {
+  const failures = unalignedQuotes(feedback);
+  if (failures.length === 0) return [];
+  try {
+    const repaired = applyQuoteRepair(feedback, failures, answers, JSON.parse(await requestFeedback(quoteRepairRequest(failures, answers), provider)));
+    log("info", "Quotes repaired", { unaligned: failures.length, repaired });
+    return repaired > 0 ? [...new Set(failures.map((f) => f.question))] : [];
+  } catch (err) {
+    log("warn", "Quote repair failed", { unaligned: failures.length, error: String(err) });
+    return [];
+  }
+}
+
+function failureMessage(err: unknown): string {
+  if (!err) return "The grader returned no feedback for this answer";
+  if (isLlmError(err)) return err.message;
+  if (err instanceof SyntaxError) return "AI returned invalid JSON";
+  return "Feedback failed";
+}
+
+/**
+ * Streaming variant of the handler: each question is sent as a `question`
+ * event as soon as every grader sample has returned it, questions no grader
+ * returned get a `question_error`, and `done` closes the stream with the
+ * rubric (and sampling, with several samples).
+ */
+async function streamFeedbackEvents(res: ApiResponse<GradedFeedback>, ctx: FeedbackContext) {
+  const stream = openEventStream<FeedbackEvents>(res);
+  const input = buildFeedbackPrompt(ctx);
+  const format = buildSchema(ctx.questions.length, ctx.keys, ctx.competencyNames);
+  const graders = ctx.sampling.models.map((model) => ({ model, questions: [] as QuestionFeedback[], done: false }));
+  const sent: (QuestionFeedback | null)[] = ctx.questions.map(() => null);
+
+  // A question goes out once every grader still running has returned it
+  const flush = () => {
+    sent.forEach((question, i) => {
+      if (question || !graders.every((g) => g.questions[i] || g.done)) return;
+      const versions = graders.filter((g) => g.questions[i]);
+      if (versions.length === 0) return;
+      sent[i] = combineSamples(versions.map((g) => ({ questions: [g.questions[i]] })), versions.map((g) => g.model)).questions[0];
+      stream.send("question", { index: i, feedback: sent[i] });
+    });
+  };
+
+  let lastError: unknown = null;
+  try {
+    await Promise.all(graders.map((g) =>
+      streamGrading({ input, format, model: g.model }, ctx.provider, (raw, i) => {
+        if (i >= sent.length) return;
+        g.questions[i] = finalizeQuestion(raw, i, ctx);
+        flush();
+      })
+        .catch((err) => {
+          lastError = err;
+          // Upstream errors are logged by the gateway
+          if (!isLlmError(err)) log("error", "Grading stream failed", { error: String(err), model: g.model });
+        })
+        .finally(() => {
+          g.done = true;
+          flush();
+        }),
+    ));
+
+    sent.forEach((question, i) => {
+      if (!question) stream.send("question_error", { index: i, error: failureMessage(lastError) });
+    });
+
+    // Repaired in place, so `sent` picks up the new quotes
+    const scored = { questions: sent.map((q) => q ?? ({} as QuestionFeedback)) };
+    for (const i of await repairQuotes(scored, ctx.answers, ctx.provider)) {
+      stream.send("question", { index: i, feedback: scored.questions[i] });
+    }
+
+    const sampled = graders.filter((g) => g.questions.some(Boolean)).map((g) => g.model);
+    stream.send("done", {
+      rubric: rubricSummary(ctx.rubric),
+      ...(ctx.sampling.models.length > 1 ? { sampling: { samples: sampled.length, models: sampled } } : {}),
+    });
+    log("info", "Feedback streamed", { questionCount: sent.length, scored: sent.filter(Boolean).length, role: ctx.profile.id, rubric: ctx.rubric.id, provider: ctx.provider, samples: sampled.length });
+  } catch (err) {
+    log("error", "Feedback stream failed", { error: String(err) });
+    sent.forEach((question, i) => {
+      if (!question) stream.send("question_error", { index: i, error: "Feedback failed" });
+    });
+    stream.send("done", { rubric: rubricSummary(ctx.rubric) });
+  }
+  stream.end();
+}
+
+async function handler(req: ApiRequest<FeedbackRequest>, res: ApiResponse<GradedFeedback>) {
+  log("info", "Request received", { method: req.method });
+  const ctx = resolveFeedbackRequest(req.body);
+  if ("error" in ctx) return sendError(res, 400, ctx.error);
+
+  const missingKey = missingApiKey(graderRoute(ctx.provider));
+  if (missingKey) {
+    log("error", `${missingKey} not set`);
+    return sendError(res, 500, `${missingKey} not set`, { code: "not_configured" });
+  }
+  if (req.body?.stream === true) return streamFeedbackEvents(res, ctx);
+
+  try {
+    const input = buildFeedbackPrompt(ctx);
+    const format = buildSchema(ctx.questions.length, ctx.keys, ctx.competencyNames);
+    const { models } = ctx.sampling;
+
+    // One grader call per sample; a failed sample is dropped as long as another succeeds
+    const results = await Promise.allSettled(models.map((model) => requestFeedback({ input, format, model }, ctx.provider)));
+    const samples: GradedFeedback[] = [];
+    const sampledModels: string[] = [];
+    let lastError: unknown = null;
+    results.forEach((result, i) => {
+      if (result.status === "rejected") {
+        lastError = result.reason;
+        return;
+      }
+      try {
+        samples.push(finalizeFeedback(JSON.parse(result.value), ctx));
+        sampledModels.push(models[i]);
+      } catch {
+        lastError = Object.assign(new Error("AI returned invalid JSON"), { invalidJson: true });
+        log("error", "JSON parse failed", { rawText: result.value.slice(0, 300), model: models[i] });
+      }
+    });
+
+    if (samples.length === 0) {
+      if (isLlmError(lastError)) return sendError(res, upstreamStatus(lastError), lastError.message);
+      if ((lastError as { invalidJson?: boolean })?.invalidJson) return sendError(res, 502, "AI returned invalid JSON");
+      throw lastError;
+    }
+
+    const feedback = combineSamples(samples, sampledModels);
+
+    await repairQuotes(feedback, ctx.answers, ctx.provider);
+
+    log("info", "Feedback generated", { questionCount: feedback.questions.length, role: ctx.profile.id, rubric: ctx.rubric.id, difficulty: ctx.level, provider: ctx.provider, samples: samples.length });
+    return res.status(200).json(feedback);
+  } catch (err) {
+    log("error", "Feedback failed", { error: String(err) });
+    return sendError(res, 500, "Feedback failed");
+  }
+}
+
+export default withApi(
+  {
+    route: routes.feedback,
+    // Grading is the most expensive route; a session makes one call per question thread, plus retries
+    limits: { ip: 40, session: 30 },
+    maxBytes: 512 * 1024,
+  },
+  handler,
+);
@@ -0,0 +1,91 @@
+import { routes, type Difficulty, type FollowUpRequest, type FollowUpResponse } from "../shared/contract.js";
+import { normalizeDifficulty } from "./_lib/difficulty.js";
+import { resolveRole } from "./_lib/roles.js";
+import { chatJson, isLlmError, missingApiKey, upstreamStatus, type JsonFormat, type LlmRoute } from "./_lib/llm.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+const LLM_ROUTE: LlmRoute = { endpoint: "followup-question", provider: "groq", tier: "smart" };
+const FOLLOW_UPS_FORMAT: JsonFormat = {
+  name: "follow_ups",
+  schema: {
+    type: "object",
+    properties: { followUps: { type: "array", items: { type: "string" } } },
+    required: ["followUps"],
+    additionalProperties: false,
+  },
+};
+
+const MAX_FOLLOW_UPS = 2;
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+function log(level: "debug" | "info" | "warn" | "error", msg: string, data?: unknown) {
+  if (!IS_DEV && level === "debug") return;
+  const prefix = `[api/followup-question]`;
+  if (data) {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`, data);
+  } else {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`);
+  }
+}
+
+// Harder interviews probe more: easy never asks more than one follow-up.
+const FOLLOW_UP_LIMITS: Record<Difficulty, number> = { easy: 1, medium: 2, hard: 2 };
+
+async function handler(req: ApiRequest<FollowUpRequest>, res: ApiResponse<FollowUpResponse>) {
+  log("info", "Request received", { method: req.method });
+  const missingKey = missingApiKey(LLM_ROUTE);
+  if (missingKey) {
+    log("error", `${missingKey} not set`);
+    return sendError(res, 500, `${missingKey} not set`, { code: "not_configured" });
+  }
+
+  const { question, transcript, role, customRole, difficulty } = req.body;
+
+  const profile = resolveRole(role, customRole);
+  const level = normalizeDifficulty(difficulty);
+  const limit = Math.min(FOLLOW_UP_LIMITS[level], MAX_FOLLOW_UPS);
+
+  const prompt = `You are a behavioral interviewer for a ${profile.label} position. The candidate just answered a question. Decide whether a real interviewer would probe further, and if so write the follow-up questions.
+
+Question:
+${question.slice(0, 1000)}
+
+Candidate's answer (speech transcript):
+${transcript.slice(0, 6000)}
+
+RULES:
+- Return between 0 and ${limit} follow-up questions
+- Return 0 when the answer already covers the situation, the candidate's own actions, a concrete result, and what they learned
+- Each follow-up must target something specific that is missing or vague in THIS answer, e.g. the measurable result, what they personally did versus the team, what they would do differently, or how they handled a trade-off they mentioned
+- Refer to details from the answer so the candidate can tell it is about what they just said
+- One sentence each, under 30 words, spoken naturally — no numbering, no preamble
+- Do not repeat the original question or ask the candidate to reveal confidential information
+
+Respond with JSON only: {"followUps": ["..."]}`;
+
+  try {
+    const { data: parsed } = await chatJson<{ followUps: unknown[] }>({
+      ...LLM_ROUTE,
+      format: FOLLOW_UPS_FORMAT,
+      messages: [{ role: "user", content: prompt }],
+      temperature: 0.6,
+      maxTokens: 250,
+      timeoutMs: 12000,
+    });
+
+    const followUps = (Array.isArray(parsed.followUps) ? parsed.followUps : [])
+      .filter((q): q is string => typeof q === "string" && q.trim() !== "")
+      .map((q) => q.trim())
+      .slice(0, limit);
+
+    log("info", "Follow-ups generated", { count: followUps.length, role: profile.id, difficulty: level });
+    return res.status(200).json({ followUps });
+  } catch (err) {
+    if (isLlmError(err)) return sendError(res, upstreamStatus(err), err.message);
+    log("error", "Failed to generate follow-ups", { error: String(err) });
+    return sendError(res, 500, "Failed to generate follow-ups");
+  }
+}
+
+export default withApi({ route: routes.followUps }, handler);
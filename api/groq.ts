@@ -1,5 +1,10 @@
-const GROQ_URL = "https://api.groq.com/openai/v1/chat/completions";
-const MODEL = "llama-3.1-8b-instant";
+import { routes, type CoachCategoryFeedback, type CoachChatRequest, type CoachChatResponse, type CoachMessage } from "../shared/contract.js";
+import { chat, chatJson, isLlmError, missingApiKey, upstreamStatus, type ChatMessage, type LlmRoute } from "./_lib/llm.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+type Loose = Record<string, unknown>;
+
+const LLM_ROUTE: LlmRoute = { endpoint: "groq", provider: "groq", tier: "fast" };
 const OFF_TOPIC_REPLY =
   "I can only discuss your recent interview response, feedback, and related interview coaching topics.";
 const STOP_WORDS = new Set([
@@ -42,25 +47,10 @@ const STOP_WORDS = new Set([
 const INTERVIEW_TERMS =
   /\b(interview|question|answer|response|transcript|feedback|score|suggestion|follow[\s-]?up|coaching|star|situation|task|action|result|communication|pacing|improve|improvement|behavioral|technical|resume|recruiter|hiring|job|role|mock)\b/i;
 
-function parseMaybeJson(text) {
-  if (!text || typeof text !== "string") return null;
-  try {
-    return JSON.parse(text);
-  } catch {
-    const match = text.match(/\{[\s\S]*\}/);
-    if (!match) return null;
-    try {
-      return JSON.parse(match[0]);
-    } catch {
-      return null;
-    }
-  }
-}
-
-function sanitizeMessages(messages) {
+function sanitizeMessages(messages: unknown): CoachMessage[] {
   if (!Array.isArray(messages)) return [];
   return messages
-    .filter((m) => m && (m.role === "user" || m.role === "assistant"))
+    .filter((m): m is Loose & CoachMessage => m && (m.role === "user" || m.role === "assistant"))
     .map((m) => ({
       role: m.role,
       content: typeof m.content === "string" ? m.content.trim().slice(0, 2500) : "",
@@ -68,20 +58,20 @@ function sanitizeMessages(messages) {
     .filter((m) => m.content.length > 0);
 }
 
-function sanitizeStringArray(values, { maxItems = 12, maxLength = 300 } = {}) {
+function sanitizeStringArray(values: unknown, { maxItems = 12, maxLength = 300 } = {}): string[] {
   if (!Array.isArray(values)) return [];
   return values
-    .filter((value) => typeof value === "string")
+    .filter((value): value is string => typeof value === "string")
     .map((value) => value.trim())
     .filter(Boolean)
     .slice(0, maxItems)
     .map((value) => value.slice(0, maxLength));
 }
 
-function sanitizeCategoryFeedback(values) {
+function sanitizeCategoryFeedback(values: unknown): CoachCategoryFeedback[] {
   if (!Array.isArray(values)) return [];
   return values
-    .filter((item) => item && typeof item === "object")
+    .filter((item): item is Loose => item && typeof item === "object")
     .map((item) => ({
       key: typeof item.key === "string" ? item.key.trim().toLowerCase() : "",
       label: typeof item.label === "string" ? item.label.trim().slice(0, 40) : "",
@@ -97,7 +87,7 @@ function sanitizeCategoryFeedback(values) {
     .slice(0, 12);
 }
 
-function extractTokens(text) {
+function extractTokens(text: unknown): string[] {
   if (!text || typeof text !== "string") return [];
   return text
     .toLowerCase()
@@ -106,13 +96,21 @@ function extractTokens(text) {
     .filter((token) => token.length >= 3 && !STOP_WORDS.has(token));
 }
 
-function hasTokenOverlap(message, contextTokens) {
+function hasTokenOverlap(message: string, contextTokens: Set<string>): boolean {
   if (!contextTokens.size) return false;
   const messageTokens = extractTokens(message);
   return messageTokens.some((token) => contextTokens.has(token));
 }
 
-function classifyRelevanceByRules({ latestUserMessage, contextTokens, messages }) {
+function classifyRelevanceByRules({
+  latestUserMessage,
+  contextTokens,
+  messages,
+}: {
+  latestUserMessage: string;
+  contextTokens: Set<string>;
+  messages: CoachMessage[];
+}): { allowed: boolean; confident: boolean } {
   if (!latestUserMessage) return { allowed: false, confident: false };
 
   const lower = latestUserMessage.toLowerCase();
@@ -128,7 +126,7 @@ function classifyRelevanceByRules({ latestUserMessage, contextTokens, messages }
   return { allowed, confident };
 }
 
-function normalizeIsRelevant(value) {
+function normalizeIsRelevant(value: unknown): boolean {
   if (typeof value === "boolean") return value;
   if (typeof value === "string") {
     const normalized = value.trim().toLowerCase();
@@ -148,7 +146,17 @@ function buildInterviewContext({
   overallSummary,
   role,
   difficulty,
-}) {
+}: {
+  question: string;
+  transcript: string;
+  suggestions: string[];
+  followUp: string;
+  scoreSummary: string[];
+  categoryFeedback: CoachCategoryFeedback[];
+  overallSummary: string;
+  role: string;
+  difficulty: string;
+}): string {
   const categoryLines =
     Array.isArray(categoryFeedback) && categoryFeedback.length > 0
       ? categoryFeedback
@@ -171,51 +179,14 @@ function buildInterviewContext({
   ].join("\n");
 }
 
-async function callGroq({ apiKey, messages, temperature = 0.3, maxTokens = 500, timeoutMs = 20000, responseFormat }) {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), timeoutMs);
-  try {
-    const body = {
-      model: MODEL,
-      messages,
-      temperature,
-      max_tokens: maxTokens,
-    };
-    if (responseFormat) body.response_format = responseFormat;
-    const response = await fetch(GROQ_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify(body),
-      signal: controller.signal,
-    });
-    const data = await response.json().catch(() => ({}));
-    return { ok: response.ok, status: response.status, data };
-  } catch (error) {
-    if (error && typeof error === "object" && error.name === "AbortError") {
-      return { ok: false, status: 504, data: { error: { message: "Groq upstream timed out. Please retry." } } };
-    }
-    throw error;
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
-export default async function handler(req, res) {
-  if (req.method !== "POST") {
-    return res.status(405).json({ error: "Method not allowed" });
-  }
-
-  const apiKey = process.env.GROQ_API_KEY?.trim();
-
-  if (!apiKey) {
-    return res.status(500).json({ error: "GROQ_API_KEY is not configured" });
+async function handler(req: ApiRequest<CoachChatRequest>, res: ApiResponse<CoachChatResponse>) {
+  const missingKey = missingApiKey(LLM_ROUTE);
+  if (missingKey) {
+    return sendError(res, 500, `${missingKey} is not configured`, { code: "not_configured" });
   }
 
   try {
-    const body = typeof req.body === "string" ? JSON.parse(req.body) : req.body ?? {};
+    const body = req.body;
     const messages = sanitizeMessages(body.messages);
     const question = typeof body.question === "string" ? body.question : "";
     const transcript = typeof body.transcript === "string" ? body.transcript : "";
@@ -230,12 +201,12 @@ export default async function handler(req, res) {
       typeof body.difficulty === "string" ? body.difficulty.trim().slice(0, 40) : "";
 
     if (messages.length === 0) {
-      return res.status(400).json({ error: "No messages provided" });
+      return sendError(res, 400, "No messages provided");
     }
 
     const latestUserMessage = [...messages].reverse().find((m) => m.role === "user")?.content || "";
     if (!latestUserMessage) {
-      return res.status(400).json({ error: "No user message provided" });
+      return sendError(res, 400, "No user message provided");
     }
 
     const contextBlock = buildInterviewContext({
@@ -273,8 +244,8 @@ export default async function handler(req, res) {
         "Return JSON only: {\"isRelevant\": true|false, \"reason\": \"short reason\"}.",
       ].join(" ");
 
-      const relevanceCheck = await callGroq({
-        apiKey,
+      const { data: relevanceJson } = await chatJson({
+        ...LLM_ROUTE,
         messages: [
           { role: "system", content: relevancePrompt },
           {
@@ -284,17 +255,9 @@ export default async function handler(req, res) {
         ],
         temperature: 0,
         maxTokens: 120,
-        responseFormat: { type: "json_object" },
+        timeoutMs: 20000,
       });
 
-      if (!relevanceCheck.ok) {
-        return res.status(relevanceCheck.status).json({
-          error: relevanceCheck.data?.error?.message || "Groq relevance check failed",
-        });
-      }
-
-      const relevanceText = relevanceCheck.data?.choices?.[0]?.message?.content ?? "";
-      const relevanceJson = parseMaybeJson(relevanceText);
       const isRelevant = normalizeIsRelevant(relevanceJson?.isRelevant);
       if (!isRelevant) {
         return res.status(200).json({
@@ -318,33 +281,30 @@ export default async function handler(req, res) {
       "Never claim to have info outside this context.",
     ].join(" ");
 
-    const answerMessages = [
+    const answerMessages: ChatMessage[] = [
       { role: "system", content: coachPrompt },
       { role: "system", content: `Interview context:\n${contextBlock}` },
       ...messages,
     ];
 
-    const answer = await callGroq({
-      apiKey,
+    const { text: reply } = await chat({
+      ...LLM_ROUTE,
       messages: answerMessages,
       temperature: 0.6,
       maxTokens: 500,
+      timeoutMs: 20000,
     });
 
-    if (!answer.ok) {
-      return res.status(answer.status).json({
-        error: answer.data?.error?.message || "Groq request failed",
-      });
-    }
-
-    const reply = answer.data?.choices?.[0]?.message?.content?.trim();
     if (!reply) {
-      return res.status(502).json({ error: "No reply returned by Groq" });
+      return sendError(res, 502, "No reply returned by the model");
     }
 
     return res.status(200).json({ reply });
   } catch (error) {
+    if (isLlmError(error)) return sendError(res, upstreamStatus(error), error.message);
     const message = error instanceof Error ? error.message : "Unexpected server error";
-    return res.status(500).json({ error: message });
+    return sendError(res, 500, message);
   }
 }
+
+export default withApi({ route: routes.coachChat }, handler);
@@ -0,0 +1,87 @@
+import { routes, type ResumeQuestionRequest, type TailoredQuestionResponse } from "../shared/contract.js";
+import { competencyInstruction, normalizeCategory } from "./_lib/competencies.js";
+import { difficultyInstruction, normalizeDifficulty } from "./_lib/difficulty.js";
+import { resolveRole, roleInstruction } from "./_lib/roles.js";
+import { formatResume, normalizeResume } from "./_lib/resume.js";
+import { chatJson, isLlmError, missingApiKey, upstreamStatus, type JsonFormat, type LlmRoute } from "./_lib/llm.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+const LLM_ROUTE: LlmRoute = { endpoint: "jobdesc-question", provider: "groq", tier: "smart" };
+const QUESTION_FORMAT: JsonFormat = {
+  name: "interview_question",
+  schema: {
+    type: "object",
+    properties: { question: { type: "string" }, type: { type: "string" }, focus: { type: "string" } },
+    required: ["question", "type", "focus"],
+    additionalProperties: false,
+  },
+};
+
+async function handler(req: ApiRequest<ResumeQuestionRequest>, res: ApiResponse<TailoredQuestionResponse>) {
+  const missingKey = missingApiKey(LLM_ROUTE);
+  if (missingKey) {
+    return sendError(res, 500, `${missingKey} is not configured`, { code: "not_configured" });
+  }
+
+  const { role, customRole, jobDescription, resumeText, resume, candidateName, questionNumber, previousQuestions, category, competency: jobCompetency, difficulty } =
+    req.body;
+  const competency = normalizeCategory(category);
+  const level = normalizeDifficulty(difficulty);
+  const profile = resolveRole(role, customRole);
+  const structured = normalizeResume(resume);
+
+  const prevList =
+    Array.isArray(previousQuestions) && previousQuestions.length > 0
+      ? `\n\nPrevious questions already asked (do NOT repeat these):\n${previousQuestions.map((q, i) => `${i + 1}. ${q}`).join("\n")}`
+      : "";
+
+  const nameInstruction = candidateName
+    ? `\nThe candidate's name is ${candidateName}. Address them by name naturally in the question.`
+    : "";
+
+  const prompt = `You are a behavioral interview question generator. Given a job description for a ${profile.label} position (and optionally a candidate's resume for context), generate a single behavioral interview question focused on the job description's requirements.
+
+Job Description:
+${jobDescription.slice(0, 3000)}
+${structured
+  ? `\nCandidate Resume (for context only — if one of these projects or roles fits the requirement, you may name it in the question):\n${formatResume(structured)}`
+  : resumeText ? `\nCandidate Resume (for context only):\n${typeof resumeText === "string" ? resumeText.slice(0, 4000) : ""}` : ""}
+${prevList}${nameInstruction}${roleInstruction(profile)}${competencyInstruction(competency, jobCompetency)}${difficultyInstruction(level)}
+
+This is question number ${questionNumber || 1}.
+
+Generate ONE behavioral interview question. The question should:
+- START by briefly describing what the company/role does based on the job description, then ask about the candidate's relevant experience. Example: "At our company, we build scalable data pipelines for real-time analytics — tell me about a time when you worked on something similar." or "In this role, you'd be leading cross-functional design sprints — what experience do you have facilitating collaborative workshops?"
+- The company context should describe what they actually DO (from the JD), not just say "at our company" generically — give enough context so the candidate understands the work, then ask about their related experience
+- Keep the company context lead-in under 25 words, then transition to the behavioral question
+- Be relevant to the skills, responsibilities, or values mentioned in the job description
+- Follow a behavioral format (e.g. "Tell me about a time when..." or "How did you handle...")
+- Be challenging but fair, at the difficulty described above
+- Keep it concise but allow enough detail for context — aim for 25–50 words unless the difficulty allows more
+- Be NDA-conscious: do not ask the candidate to reveal proprietary details, trade secrets, or confidential info from previous employers. Frame questions about past experience to focus on the candidate's role, approach, and learnings rather than specific proprietary technologies or internal processes
+
+Respond with JSON only: {"question": "...", "type": "${competency ?? "behavioral"}", "focus": "brief focus area"}`;
+
+  try {
+    const { data: parsed } = await chatJson<TailoredQuestionResponse>({
+      ...LLM_ROUTE,
+      format: QUESTION_FORMAT,
+      messages: [{ role: "user", content: prompt }],
+      temperature: 0.7,
+      maxTokens: 300,
+      timeoutMs: 25000,
+    });
+
+    return res.status(200).json({
+      question: parsed.question || "",
+      type: competency ?? (parsed.type || "behavioral"),
+      focus: parsed.focus || "",
+    });
+  } catch (err) {
+    if (isLlmError(err)) return sendError(res, upstreamStatus(err), err.message);
+    console.error("[api/jobdesc-question] Error", String(err));
+    return sendError(res, 500, "Failed to generate question");
+  }
+}
+
+export default withApi({ route: routes.jobDescriptionQuestion }, handler);
@@ -0,0 +1,110 @@
+import { routes, type OverallFeedbackRequest, type OverallNarrative } from "../shared/contract.js";
+import { resolveRole } from "./_lib/roles.js";
+import { chatJson, isLlmError, missingApiKey, upstreamStatus, type JsonFormat, type LlmRoute } from "./_lib/llm.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+const LLM_ROUTE: LlmRoute = { endpoint: "overall-feedback", provider: "groq", tier: "smart" };
+const NARRATIVE_FORMAT: JsonFormat = {
+  name: "overall_narrative",
+  schema: {
+    type: "object",
+    properties: { what_went_well: { type: "string" }, needs_improvement: { type: "string" }, summary: { type: "string" } },
+    required: ["what_went_well", "needs_improvement", "summary"],
+    additionalProperties: false,
+  },
+};
+
+const MAX_QUESTIONS = 20;
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+function log(level: "debug" | "info" | "warn" | "error", msg: string, data?: unknown) {
+  if (!IS_DEV && level === "debug") return;
+  const prefix = `[api/overall-feedback]`;
+  if (data) {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`, data);
+  } else {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`);
+  }
+}
+
+const text = (v: unknown, max = 400) => (typeof v === "string" ? v.replace(/\s+/g, " ").trim().slice(0, max) : "");
+const num = (v: unknown) => (Number.isFinite(Number(v)) ? Math.round(Number(v)) : 0);
+
+/**
+ * Writes the overall narrative for an interview. The scores themselves are
+ * aggregated on the client (src/services/aggregation.ts); this only turns
+ * them and the per-question notes into one coherent debrief.
+ */
+async function handler(req: ApiRequest<OverallFeedbackRequest>, res: ApiResponse<OverallNarrative>) {
+  log("info", "Request received", { method: req.method });
+  const missingKey = missingApiKey(LLM_ROUTE);
+  if (missingKey) {
+    log("error", `${missingKey} not set`);
+    return sendError(res, 500, `${missingKey} not set`, { code: "not_configured" });
+  }
+
+  const { score, categories, questions, role, customRole } = req.body;
+  const profile = resolveRole(role, customRole);
+
+  const categoryLines = Object.entries(categories && typeof categories === "object" ? categories : {})
+    .map(([key, c]) => `- ${key}: ${num(c?.mean)} (varies ±${num(c?.stdDev)} between questions)`)
+    .join("\n");
+
+  const questionLines = questions
+    .slice(0, MAX_QUESTIONS)
+    .map((q, i) =>
+      [
+        `Q${i + 1} (score ${num(q?.score)}, ${Math.round(Number(q?.weight) * 100) || 0}% of the overall): ${text(q?.question, 200)}`,
+        `  Went well: ${text(q?.what_went_well)}`,
+        `  Needs improvement: ${text(q?.needs_improvement)}`,
+      ].join("\n"),
+    )
+    .join("\n");
+
+  const prompt = `You are ${profile.persona} writing the overall debrief for a practice interview for a ${profile.label} position. Address the candidate as "you".
+
+Overall score: ${num(score)}/100
+Category averages:
+${categoryLines}
+
+Per-question notes:
+${questionLines}
+
+Write ONE overall assessment — do not go question by question or repeat the notes verbatim. Look for patterns across answers (what kept working, what kept going wrong) and mention a category only when the scores back it up. Conversational tone.
+- "what_went_well": 1-2 sentences
+- "needs_improvement": 1-2 sentences with the single most useful thing to practice
+- "summary": 2-3 sentences tying the interview together
+
+Respond with JSON only:
+{"what_went_well": "...", "needs_improvement": "...", "summary": "..."}`;
+
+  try {
+    const { data: parsed, text: content } = await chatJson({
+      ...LLM_ROUTE,
+      format: NARRATIVE_FORMAT,
+      messages: [{ role: "user", content: prompt }],
+      temperature: 0.4,
+      maxTokens: 400,
+    });
+
+    const narrative = {
+      what_went_well: text(parsed?.what_went_well, 600),
+      needs_improvement: text(parsed?.needs_improvement, 600),
+      summary: text(parsed?.summary, 800),
+    };
+    if (!narrative.summary) {
+      log("error", "Empty narrative", { content: content.slice(0, 300) });
+      return sendError(res, 502, "AI returned an empty summary");
+    }
+
+    log("info", "Overall narrative generated", { questionCount: questions.length });
+    return res.status(200).json(narrative);
+  } catch (err) {
+    if (isLlmError(err)) return sendError(res, upstreamStatus(err), err.message);
+    log("error", "Synthesis failed", { error: String(err) });
+    return sendError(res, 500, "Failed to write overall feedback");
+  }
+}
+
+export default withApi({ route: routes.overallFeedback }, handler);
@@ -0,0 +1,63 @@
+import { routes, type PauseRequest, type PauseResponse } from "../shared/contract.js";
+import { chatJson, isLlmError, missingApiKey, upstreamStatus, type LlmRoute } from "./_lib/llm.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+const LLM_ROUTE: LlmRoute = { endpoint: "pause", provider: "groq", tier: "fast" };
+
+async function handler(req: ApiRequest<PauseRequest>, res: ApiResponse<PauseResponse>) {
+  const missingKey = missingApiKey(LLM_ROUTE);
+  if (missingKey) {
+    return sendError(res, 500, `${missingKey} is not configured`, { code: "not_configured" });
+  }
+
+  const { transcript } = req.body;
+
+  try {
+    const { data: parsed } = await chatJson({
+      ...LLM_ROUTE,
+      messages: [
+        {
+          role: "system",
+          content: `You analyze an interview candidate's transcript after they paused for several seconds. Decide what to do next. Be decisive — avoid "ask" unless truly necessary.
+
+Return "definitely_done" if you are >=60% confident the candidate has finished. This includes:
+- The candidate explicitly signals they are finished (e.g. "I'm done", "that's it", "that's all", "that's my answer", "yeah that's about it", "I think that covers it")
+- The answer has a concluding statement (wrapping up with a result, lesson learned, or summary) AND covers reasonable ground (30+ words)
+- The candidate has addressed the question and their last sentence feels like a natural stopping point
+- The transcript trails off after making a complete point, even without an explicit wrap-up
+- The answer is 50+ words and the last sentence is a complete thought
+
+Return "definitely_still_talking" ONLY if you are very confident the candidate is mid-thought:
+- The transcript ends mid-sentence with an incomplete clause
+- The last word is a conjunction or preposition (and, but, so, because, like, with, to, for, that, which)
+- The transcript is very short (under 15 words) and clearly just getting started
+
+Return "ask" ONLY as a last resort when you genuinely cannot decide. Strongly prefer "definitely_done" over "ask" — a pause of several seconds after a reasonable answer almost always means they're done.
+
+Return JSON only: {"verdict": "definitely_done" | "definitely_still_talking" | "ask"}`,
+        },
+        {
+          role: "user",
+          content: `Transcript so far: "${transcript}"`,
+        },
+      ],
+      temperature: 0,
+      maxTokens: 20,
+      timeoutMs: 10000,
+      // The candidate is waiting on this; a late verdict is no use
+      retries: 0,
+    });
+
+    const verdict = parsed.verdict;
+    if (verdict === "definitely_done" || verdict === "definitely_still_talking") {
+      return res.status(200).json({ verdict });
+    }
+    return res.status(200).json({ verdict: "ask" });
+  } catch (err) {
+    if (isLlmError(err)) return sendError(res, upstreamStatus(err), err.message);
+    console.error("[api/pause] Error", String(err));
+    return sendError(res, 500, "Pause analysis failed");
+  }
+}
+
+export default withApi({ route: routes.pause }, handler);
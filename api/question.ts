@@ -0,0 +1,80 @@
+import { routes, type QuestionRequest, type QuestionResponse } from "../shared/contract.js";
+import { competencyInstruction, normalizeCategory } from "./_lib/competencies.js";
+import { difficultyInstruction, normalizeDifficulty } from "./_lib/difficulty.js";
+import { resolveRole, roleInstruction } from "./_lib/roles.js";
+import { chat, isLlmError, missingApiKey, upstreamStatus, type LlmRoute } from "./_lib/llm.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+const LLM_ROUTE: LlmRoute = { endpoint: "question", provider: "groq", tier: "smart" };
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+function log(level: "debug" | "info" | "warn" | "error", msg: string, data?: unknown) {
+  if (!IS_DEV && level === "debug") return;
+  const prefix = `[api/question]`;
+  if (data) {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`, data);
+  } else {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`);
+  }
+}
+
+async function handler(req: ApiRequest<QuestionRequest>, res: ApiResponse<QuestionResponse>) {
+  log("info", "Request received", { method: req.method });
+  const missingKey = missingApiKey(LLM_ROUTE);
+  if (missingKey) {
+    log("error", `${missingKey} not set`);
+    return sendError(res, 500, `${missingKey} not set`, { code: "not_configured" });
+  }
+
+  const { role, customRole, questionNumber, previousQuestions, jobDescription, category, competency: jobCompetency, difficulty } = req.body;
+  const competency = normalizeCategory(category);
+  const level = normalizeDifficulty(difficulty);
+  const profile = resolveRole(role, customRole);
+
+  try {
+    const { text } = await chat({
+      ...LLM_ROUTE,
+      messages: [
+        {
+          role: "user",
+          content: `You are a behavioral interviewer conducting a mock interview.
+
+Generate exactly ONE interview question for a ${profile.label}.${roleInstruction(profile)}${jobDescription ? `\n\nJob Description:\n${jobDescription.slice(0, 3000)}` : ""}${competencyInstruction(competency, jobCompetency)}${difficultyInstruction(level)}
+
+STRICT RULES:
+- Output ONLY the question itself
+- Do NOT include explanations, conclusions, or preamble
+- Do NOT include phrases like "Sure!" or "Here is a question"
+- Do NOT include numbering
+- Keep it concise but allow enough detail for context — aim for 20–40 words unless the difficulty allows more
+- Do not ask questions requiring the candidate to reveal proprietary or confidential information${jobDescription ? '\n- Start with a brief, natural company/role context from the job description, e.g. "In this role you\'d be working on X — tell me about a time..." or "We value Y on our team — can you describe..." Keep the lead-in short (under 15 words) then ask the behavioral question' : '\n- A brief conversational lead-in like "Tell me about a time when..." is fine'}
+
+Previously asked questions:
+${previousQuestions?.join("\n") || "None"}
+
+Generate a NEW question that is different from the previous ones.`,
+        },
+      ],
+      temperature: 0.8,
+      maxTokens: 250,
+    });
+
+    // Cleanup: strip known LLM preamble patterns, quotes, numbering, and trailing meta-commentary
+    const question = text
+      .replace(/^(?:sure[!.]?\s*|of course[!.]?\s*|here(?:'s| is)(?: a| your| the)? (?:question|one)[^:\n]*[:]\s*|question\s*[:]\s*|\*{1,2}question\*{0,2}\s*[:]\s*)/i, "")
+      .replace(/^\d+\.\s*/, "")
+      .replace(/^["]+|["]+$/g, "")
+      .replace(/\n{2,}[\s\S]*$/, "")
+      .trim();
+
+    log("info", "Question generated", { questionNumber, role: profile.id, difficulty: level, category: competency, questionLength: question.length });
+    return res.status(200).json({ question, category: competency ?? "behavioral" });
+  } catch (err) {
+    if (isLlmError(err)) return sendError(res, upstreamStatus(err), err.message);
+    log("error", "Failed to generate question", { error: String(err) });
+    return sendError(res, 500, "Failed to generate question");
+  }
+}
+
+export default withApi({ route: routes.question }, handler);
@@ -1,105 +0,0 @@
-const GROQ_URL = "https://api.groq.com/openai/v1/chat/completions";
-const MODEL = "llama-3.3-70b-versatile";
-
-export default async function handler(req, res) {
-  if (req.method !== "POST") {
-    return res.status(405).json({ error: "Method not allowed" });
-  }
-
-  const apiKey = process.env.GROQ_API_KEY?.trim();
-  if (!apiKey) {
-    return res.status(500).json({ error: "GROQ_API_KEY is not configured" });
-  }
-
-  const { resumeText, jobDescription, questionNumber, previousQuestions, candidateName } =
-    req.body ?? {};
-
-  if (!resumeText || !jobDescription) {
-    return res
-      .status(400)
-      .json({ error: "resumeText and jobDescription are required" });
-  }
-
-  const prevList =
-    Array.isArray(previousQuestions) && previousQuestions.length > 0
-      ? `\n\nPrevious questions already asked (do NOT repeat these):\n${previousQuestions.map((q, i) => `${i + 1}. ${q}`).join("\n")}`
-      : "";
-
-  const nameInstruction = candidateName
-    ? `\nThe candidate's name is ${candidateName}. Address them by name naturally in the question.`
-    : "";
-
-  const prompt = `You are a behavioral interview question generator. Given a candidate's resume and a job description, generate a single behavioral interview question that is highly relevant to both the candidate's background and the target role.
-
-Resume:
-${typeof resumeText === "string" ? resumeText.slice(0, 6000) : ""}
-
-Job Description:
-${typeof jobDescription === "string" ? jobDescription.slice(0, 3000) : ""}
-${prevList}${nameInstruction}
-
-This is question number ${questionNumber || 1}.
-
-Generate ONE behavioral interview question. The question should:
-- START with a personal reference to something specific from the resume, e.g. "I noticed from your resume that you worked on X..." or "I see you have experience with Y..." — then transition into the behavioral question
-- Be specific to the candidate's experience mentioned in their resume
-- Be relevant to the skills or responsibilities in the job description
-- Follow a behavioral format (e.g. "Tell me about a time when..." or "How did you handle...")
-- Be challenging but fair
-- Keep it concise but allow enough detail for context — aim for 25–50 words
-- Be NDA-conscious: do not ask the candidate to reveal proprietary details, trade secrets, or confidential info from previous employers. Frame questions about past experience to focus on the candidate's role, approach, and learnings rather than specific proprietary technologies or internal processes
-
-Respond with JSON only: {"question": "...", "type": "behavioral", "focus": "brief focus area"}`;
-
-  try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 25000);
-
-    const response = await fetch(GROQ_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.7,
-        max_tokens: 300,
-        response_format: { type: "json_object" },
-      }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeout);
-
-    if (!response.ok) {
-      const errText = await response.text();
-      console.error("[api/resume-question] Groq error", response.status, errText);
-      return res.status(502).json({ error: "Groq API error" });
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content ?? "";
-
-    let parsed;
-    try {
-      parsed = JSON.parse(content);
-    } catch {
-      console.error("[api/resume-question] JSON parse failed", content.slice(0, 300));
-      return res.status(502).json({ error: "AI returned invalid JSON" });
-    }
-
-    return res.status(200).json({
-      question: parsed.question || "",
-      type: parsed.type || "behavioral",
-      focus: parsed.focus || "",
-    });
-  } catch (err) {
-    if (err && typeof err === "object" && err.name === "AbortError") {
-      return res.status(504).json({ error: "Groq request timed out" });
-    }
-    console.error("[api/resume-question] Error", String(err));
-    return res.status(500).json({ error: "Failed to generate question" });
-  }
-}
@@ -0,0 +1,100 @@
+import { routes, type ResumeQuestionRequest, type TailoredQuestionResponse } from "../shared/contract.js";
+import { competencyInstruction, normalizeCategory } from "./_lib/competencies.js";
+import { difficultyInstruction, normalizeDifficulty } from "./_lib/difficulty.js";
+import { resolveRole, roleInstruction } from "./_lib/roles.js";
+import { citableEntries, formatResume, normalizeResume } from "./_lib/resume.js";
+import { chatJson, isLlmError, missingApiKey, upstreamStatus, type JsonFormat, type LlmRoute } from "./_lib/llm.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+const LLM_ROUTE: LlmRoute = { endpoint: "resume-question", provider: "groq", tier: "smart" };
+const QUESTION_FORMAT: JsonFormat = {
+  name: "interview_question",
+  schema: {
+    type: "object",
+    properties: { question: { type: "string" }, type: { type: "string" }, focus: { type: "string" } },
+    required: ["question", "type", "focus"],
+    additionalProperties: false,
+  },
+};
+
+async function handler(req: ApiRequest<ResumeQuestionRequest>, res: ApiResponse<TailoredQuestionResponse>) {
+  const missingKey = missingApiKey(LLM_ROUTE);
+  if (missingKey) {
+    return sendError(res, 500, `${missingKey} is not configured`, { code: "not_configured" });
+  }
+
+  const { role, customRole, resumeText, resume, jobDescription, questionNumber, previousQuestions, candidateName, category, competency: jobCompetency, difficulty } =
+    req.body;
+  const competency = normalizeCategory(category);
+  const level = normalizeDifficulty(difficulty);
+  const profile = resolveRole(role, customRole);
+  const structured = normalizeResume(resume);
+
+  if (!resumeText?.trim() && !structured) {
+    return sendError(res, 400, "resume or resumeText is required");
+  }
+
+  // Structured sections let the question name a specific project instead of guessing from a text blob
+  const resumeBlock = structured
+    ? formatResume(structured)
+    : typeof resumeText === "string" ? resumeText.slice(0, 6000) : "";
+  const citeInstruction = structured
+    ? `
+
+CITE A SPECIFIC ENTRY: Build the question around exactly ONE of these projects or roles and mention it by name: ${citableEntries(structured).join("; ")}. Prefer one that the previous questions have not already asked about, and draw on its bullet points for detail.`
+    : "";
+
+  const prevList =
+    Array.isArray(previousQuestions) && previousQuestions.length > 0
+      ? `\n\nPrevious questions already asked (do NOT repeat these):\n${previousQuestions.map((q, i) => `${i + 1}. ${q}`).join("\n")}`
+      : "";
+
+  const nameInstruction = candidateName
+    ? `\nThe candidate's name is ${candidateName}. Address them by name naturally in the question.`
+    : "";
+
+  const prompt = `You are a behavioral interview question generator. Given a candidate's resume and a job description for a ${profile.label} position, generate a single behavioral interview question that is highly relevant to both the candidate's background and the target role.
+
+Resume:
+${resumeBlock}
+
+Job Description:
+${jobDescription.slice(0, 3000)}
+${prevList}${nameInstruction}${citeInstruction}${roleInstruction(profile)}${competencyInstruction(competency, jobCompetency)}${difficultyInstruction(level)}
+
+This is question number ${questionNumber || 1}.
+
+Generate ONE behavioral interview question. The question should:
+- START with a personal reference to something specific from the resume, e.g. "I noticed from your resume that you worked on X..." or "I see you have experience with Y..." — then transition into the behavioral question
+- Be specific to the candidate's experience mentioned in their resume
+- Be relevant to the skills or responsibilities in the job description
+- Follow a behavioral format (e.g. "Tell me about a time when..." or "How did you handle...")
+- Be challenging but fair, at the difficulty described above
+- Keep it concise but allow enough detail for context — aim for 25–50 words unless the difficulty allows more
+- Be NDA-conscious: do not ask the candidate to reveal proprietary details, trade secrets, or confidential info from previous employers. Frame questions about past experience to focus on the candidate's role, approach, and learnings rather than specific proprietary technologies or internal processes
+
+Respond with JSON only: {"question": "...", "type": "${competency ?? "behavioral"}", "focus": "brief focus area"}`;
+
+  try {
+    const { data: parsed } = await chatJson<TailoredQuestionResponse>({
+      ...LLM_ROUTE,
+      format: QUESTION_FORMAT,
+      messages: [{ role: "user", content: prompt }],
+      temperature: 0.7,
+      maxTokens: 300,
+      timeoutMs: 25000,
+    });
+
+    return res.status(200).json({
+      question: parsed.question || "",
+      type: competency ?? (parsed.type || "behavioral"),
+      focus: parsed.focus || "",
+    });
+  } catch (err) {
+    if (isLlmError(err)) return sendError(res, upstreamStatus(err), err.message);
+    console.error("[api/resume-question] Error", String(err));
+    return sendError(res, 500, "Failed to generate question");
+  }
+}
+
+export default withApi({ route: routes.resumeQuestion }, handler);
@@ -0,0 +1,51 @@
+import { routes, type ScriptDirective, type ScriptRequest, type TextResponse } from "../shared/contract.js";
+import { chat, isLlmError, missingApiKey, upstreamStatus, type ChatMessage, type LlmRoute } from "./_lib/llm.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+const LLM_ROUTE: LlmRoute = { endpoint: "script", provider: "groq", tier: "smart" };
+
+// The prompts are fixed here and the client only picks a directive by id, so the
+// route can't be used as a general-purpose chat proxy
+const SYSTEM_PROMPT = "You are Starly, a charismatic and energetic AI interview coach. You're hosting a live demo and should be warm, encouraging, and a little playful — think tech keynote energy, not corporate HR. Keep responses concise (1-3 sentences). Use the user's name if provided.";
+
+const DIRECTIVES: Record<ScriptDirective, (req: ScriptRequest) => string> = {
+  welcome: () => "The candidate just said hi. Welcome them to their practice interview, introduce yourself, and ask whether they're ready to start.",
+  kickoff: ({ questionCount }) => {
+    const questions = questionCount ? `${questionCount} behavioral question${questionCount === 1 ? "" : "s"}` : "a few behavioral questions";
+    return `The candidate is ready. Tell them you'll ask ${questions}, remind them to answer with the STAR framework, and that there's no rush.`;
+  },
+};
+
+async function handler(req: ApiRequest<ScriptRequest>, res: ApiResponse<TextResponse>) {
+  const missingKey = missingApiKey(LLM_ROUTE);
+  if (missingKey) {
+    return sendError(res, 500, `${missingKey} is not configured`, { code: "not_configured" });
+  }
+
+  const { directive, conversationContext } = req.body;
+
+  const messages: ChatMessage[] = [
+    { role: "system", content: SYSTEM_PROMPT },
+  ];
+  if (conversationContext) {
+    messages.push({ role: "user", content: `[Conversation so far]: ${conversationContext}` });
+  }
+  messages.push({ role: "user", content: DIRECTIVES[directive](req.body) });
+
+  try {
+    const { text } = await chat({
+      ...LLM_ROUTE,
+      messages,
+      temperature: 0.8,
+      maxTokens: 150,
+    });
+
+    return res.status(200).json({ text });
+  } catch (err) {
+    if (isLlmError(err)) return sendError(res, upstreamStatus(err), err.message);
+    console.error("[api/script] Error", String(err));
+    return sendError(res, 500, "Script generation failed");
+  }
+}
+
+export default withApi({ route: routes.script }, handler);
@@ -0,0 +1,95 @@
+import { STAR_LABELS, routes, type StarLabel, type StarSegmentsRequest, type StarSegmentsResponse } from "../shared/contract.js";
+import { chatJson, isLlmError, missingApiKey, upstreamStatus, type JsonFormat, type LlmRoute } from "./_lib/llm.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+const LLM_ROUTE: LlmRoute = { endpoint: "star-segments", provider: "groq", tier: "smart" };
+// Labels stay plain strings: normalizeLabels turns anything unexpected into "other"
+const LABELS_FORMAT: JsonFormat = {
+  name: "star_labels",
+  schema: {
+    type: "object",
+    properties: { labels: { type: "array", items: { type: "string" } } },
+    required: ["labels"],
+    additionalProperties: false,
+  },
+};
+
+const MAX_SENTENCES = 80;
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+function log(level: "debug" | "info" | "warn" | "error", msg: string, data?: unknown) {
+  if (!IS_DEV && level === "debug") return;
+  const prefix = `[api/star-segments]`;
+  if (data) {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`, data);
+  } else {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`);
+  }
+}
+
+/** One label per sentence, in order; anything the model skipped or mislabeled becomes "other". */
+function normalizeLabels(raw: { labels?: unknown } | null, count: number): StarLabel[] {
+  const labels: unknown[] = Array.isArray(raw?.labels) ? raw.labels : [];
+  return Array.from({ length: count }, (_, i) => {
+    const label = labels[i];
+    const cleaned = typeof label === "string" ? label.trim().toLowerCase() : "";
+    return STAR_LABELS.find((part) => part === cleaned) ?? "other";
+  });
+}
+
+async function handler(req: ApiRequest<StarSegmentsRequest>, res: ApiResponse<StarSegmentsResponse>) {
+  log("info", "Request received", { method: req.method });
+  const missingKey = missingApiKey(LLM_ROUTE);
+  if (missingKey) {
+    log("error", `${missingKey} not set`);
+    return sendError(res, 500, `${missingKey} not set`, { code: "not_configured" });
+  }
+
+  const { question, sentences } = req.body;
+  const count = Math.min(sentences.length, MAX_SENTENCES);
+
+  const numbered = sentences
+    .slice(0, count)
+    .map((s, i) => `${i + 1}. ${s.slice(0, 400)}`)
+    .join("\n");
+
+  const prompt = `You label the parts of a spoken behavioral interview answer using the STAR method.
+
+Interview question: ${typeof question === "string" ? question.slice(0, 500) : "(not given)"}
+
+The answer, one sentence per line:
+${numbered}
+
+Label EVERY sentence with exactly one of:
+- "situation": the context — when, where, who, what was going on or at stake
+- "task": what the speaker was responsible for or trying to achieve
+- "action": what the speaker did (steps, decisions, how they did it)
+- "result": the outcome, its impact or numbers, and what they learned
+- "other": filler, asides, restating the question, or anything off-topic
+
+Label by what the sentence does, not where it sits. A sentence that mixes parts gets the part it mostly describes.
+
+Respond with JSON only, one label per sentence in order (${count} labels):
+{"labels": ["situation", "task", "action", ...]}`;
+
+  try {
+    const { data: parsed } = await chatJson({
+      ...LLM_ROUTE,
+      format: LABELS_FORMAT,
+      messages: [{ role: "user", content: prompt }],
+      temperature: 0,
+      maxTokens: 20 + count * 6,
+    });
+
+    const labels = normalizeLabels(parsed, sentences.length);
+    log("info", "Answer segmented", { sentences: sentences.length });
+    return res.status(200).json({ labels });
+  } catch (err) {
+    if (isLlmError(err)) return sendError(res, upstreamStatus(err), err.message);
+    log("error", "Segmentation failed", { error: String(err) });
+    return sendError(res, 500, "Failed to segment answer");
+  }
+}
+
+export default withApi({ route: routes.starSegments }, handler);
@@ -0,0 +1,89 @@
+import { routes, type TtsRequest } from "../shared/contract.js";
+import { PROVIDERS } from "./_lib/llm.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+const TTS_MODEL = "gpt-4o-mini-tts-2025-12-15";
+const VOICES = ["alloy", "ash", "ballad", "coral", "echo", "fable", "nova", "onyx", "sage", "shimmer", "verse", "marin", "cedar"];
+const DEFAULT_VOICE = "marin";
+const DEFAULT_INSTRUCTIONS = "Casual American female voice. Relaxed, steady pacing with natural micro-pauses between phrases. Slight upward inflection when asking questions. No vocal fry. Do not sound like a narrator or announcer — sound like a real person talking across a table.";
+const TTS_TIMEOUT_MS = 20000;
+
+const IS_DEV = process.env.NODE_ENV !== "production";
+
+function log(level: "debug" | "info" | "warn" | "error", msg: string, data?: unknown) {
+  if (!IS_DEV && level === "debug") return;
+  const prefix = `[api/tts]`;
+  if (data) {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`, data);
+  } else {
+    console[level === "debug" ? "log" : level](`${prefix} ${msg}`);
+  }
+}
+
+/**
+ * Text-to-speech with the server's OpenAI key. Audio is passed through to the
+ * client as it arrives rather than buffered here.
+ */
+async function handler(req: ApiRequest<TtsRequest>, res: ApiResponse<Blob>) {
+  const apiKey = process.env.OPENAI_API_KEY?.trim();
+  if (!apiKey) {
+    log("error", "OPENAI_API_KEY not set");
+    return sendError(res, 500, "OPENAI_API_KEY not set", { code: "not_configured" });
+  }
+
+  const { text, voice, speed, instructions } = req.body;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), TTS_TIMEOUT_MS);
+  try {
+    const upstream = await fetch(`${PROVIDERS.openai.baseUrl()}/audio/speech`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
+      body: JSON.stringify({
+        model: TTS_MODEL,
+        voice: voice && VOICES.includes(voice) ? voice : DEFAULT_VOICE,
+        input: text,
+        instructions: instructions?.trim() ? instructions : DEFAULT_INSTRUCTIONS,
+        response_format: "mp3",
+        speed: speed ?? 1.0,
+      }),
+      signal: controller.signal,
+    });
+    if (!upstream.ok || !upstream.body) {
+      log("error", "OpenAI TTS error", { status: upstream.status, body: (await upstream.text()).slice(0, 300) });
+      return sendError(res, 502, "OpenAI API error");
+    }
+
+    res.setHeader("Content-Type", upstream.headers.get("content-type") ?? "audio/mpeg");
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200);
+    const reader = upstream.body.getReader();
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      res.write(Buffer.from(value));
+    }
+    return res.end();
+  } catch (err) {
+    if ((err as Error)?.name === "AbortError") {
+      if (res.headersSent) return res.end();
+      return sendError(res, 504, "OpenAI request timed out");
+    }
+    log("error", "TTS failed", { error: String(err) });
+    if (res.headersSent) return res.end();
+    return sendError(res, 500, "Text-to-speech failed");
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export default withApi(
+  {
+    route: routes.tts,
+    // Every line the interviewer speaks is a call. Setup prefetches the whole
+    // interview in one burst — at most 12 questions, their transitions, the
+    // closing nudge and the intro lines — so a session needs about 20 a minute
+    limits: { ip: 60, session: 30 },
+  },
+  handler,
+);
@@ -0,0 +1,44 @@
+import { routes, type TextResponse, type VoiceSummaryRequest } from "../shared/contract.js";
+import { chat, isLlmError, missingApiKey, upstreamStatus, type LlmRoute } from "./_lib/llm.js";
+import { sendError, withApi, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+
+const LLM_ROUTE: LlmRoute = { endpoint: "voice-summary", provider: "groq", tier: "smart" };
+
+async function handler(req: ApiRequest<VoiceSummaryRequest>, res: ApiResponse<TextResponse>) {
+  const missingKey = missingApiKey(LLM_ROUTE);
+  if (missingKey) {
+    return sendError(res, 500, `${missingKey} is not configured`, { code: "not_configured" });
+  }
+
+  const { overall, questions } = req.body;
+
+  const questionSummaries = questions
+    .map((q, i) => `Q${i + 1}: score ${Math.round(q.score)}% — ${q.summary}`)
+    .join("\n");
+
+  try {
+    const { text } = await chat({
+      ...LLM_ROUTE,
+      messages: [
+        {
+          role: "system",
+          content: "You are Starly, a friendly interview coach giving a brief spoken debrief after a practice interview. Keep it to 1-2 sentences. Mention the overall score and one quick takeaway, then encourage them to check out the guided review below. Write exactly how you'd say it out loud — casual, warm, no stiff or formal phrasing. Use contractions and natural speech patterns. This will be read aloud via TTS.",
+        },
+        {
+          role: "user",
+          content: `Overall score: ${Math.round(overall.score)}%\nStrengths: ${overall.what_went_well}\nAreas to improve: ${overall.needs_improvement}\n\nPer-question summaries:\n${questionSummaries}`,
+        },
+      ],
+      temperature: 0.7,
+      maxTokens: 100,
+    });
+
+    return res.status(200).json({ text });
+  } catch (err) {
+    if (isLlmError(err)) return sendError(res, upstreamStatus(err), err.message);
+    console.error("[api/voice-summary] Error", String(err));
+    return sendError(res, 500, "Voice summary failed");
+  }
+}
+
+export default withApi({ route: routes.voiceSummary }, handler);
@@ -0,0 +1,47 @@
+// `npm run dev:mock`: the app with no network. Starts the mock server on
+// :3000 (where Vite already proxies /api), points the handlers' model, TTS
+// and Deepgram token calls and the browser's Deepgram socket at it, then
+// runs Vite.
+// Arguments are passed through to Vite.
+
+import { spawn } from "node:child_process";
+import { fileURLToPath } from "node:url";
+import { createMockServer, loadFixtures } from "./server.js";
+
+const PORT = 3000;
+const ORIGIN = `http://localhost:${PORT}`;
+
+// Read by the api/ handlers, which run in this process
+Object.assign(process.env, {
+  OPENAI_API_KEY: "mock",
+  GROQ_API_KEY: "mock",
+  OPENAI_BASE_URL: `${ORIGIN}/v1`,
+  GROQ_BASE_URL: `${ORIGIN}/openai/v1`,
+  LLM_BASE_URL: `${ORIGIN}/v1`,
+  DEEPGRAM_API_KEY: "mock",
+  DEEPGRAM_BASE_URL: ORIGIN,
+});
+
+const server = createMockServer(await loadFixtures());
+await new Promise((resolve, reject) => {
+  server.once("error", reject);
+  server.listen(PORT, resolve);
+});
+console.log(`[mock] Listening on ${ORIGIN}`);
+
+// Environment variables win over .env files, so a Supabase project there goes unused
+const vite = spawn(process.execPath, [fileURLToPath(new URL("../node_modules/vite/bin/vite.js", import.meta.url)), ...process.argv.slice(2)], {
+  stdio: "inherit",
+  env: {
+    ...process.env,
+    VITE_DEEPGRAM_URL: `ws://localhost:${PORT}`,
+    VITE_SUPABASE_URL: "",
+    VITE_SUPABASE_ANON_KEY: "",
+  },
+});
+
+for (const signal of ["SIGINT", "SIGTERM"]) process.on(signal, () => vite.kill(signal));
+vite.on("exit", (code) => {
+  server.close();
+  process.exit(code ?? 0);
+});
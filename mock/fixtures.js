@@ -0,0 +1,92 @@
+// Scripted replies for the mock server (mock/server.js). `chat` is checked in
+// order: the first entry whose `endpoint` (the api/ handler the call came
+// from; omit for any) and `match` (tested against the whole prompt) fit
+// answers it. `reply` is a string, an object (sent as JSON) or a function of
+// the request — { endpoint, prompt, messages, schema, json, body, sample() }.
+// Anything no entry covers gets a schema-built value or a stock line.
+//
+// `transcripts` are read out over the mock Deepgram socket, one per
+// connection, in turn.
+
+const SCRIPTED_QUESTIONS = [
+  "Tell me about a time you had to deliver a project under a tight deadline.",
+  "Describe a situation where you disagreed with a teammate. How did you resolve it?",
+  "Tell me about a mistake you made and what you learned from it.",
+];
+
+let questionCount = 0;
+const nextQuestion = () => SCRIPTED_QUESTIONS[questionCount++ % SCRIPTED_QUESTIONS.length];
+
+const sentencesOf = (text) => text.match(/[^.!?]+[.!?]*/g)?.map((s) => s.trim()).filter(Boolean) ?? [];
+
+/** Per-answer feedback quoting the answers' own first and last sentences, scored by length. */
+function feedback(request) {
+  const graded = request.sample();
+  const answers = [...request.prompt.matchAll(/^Answer \d+: (.*)$/gm)].map((m) => m[1]);
+  graded.questions?.forEach((question, i) => {
+    const sentences = sentencesOf(answers[i] ?? "");
+    const score = Math.min(90, 55 + sentences.length * 5);
+    for (const category of Object.values(question.categories ?? {})) {
+      category.score = score;
+      category.reason = sentences.length > 2 ? "You gave specific detail to back this up." : "This needed more concrete detail.";
+    }
+    question.best_part_quote = sentences[0] ?? "";
+    question.best_part_explanation = "You opened by setting the scene clearly, which made the rest easy to follow.";
+    question.worst_part_quote = sentences.at(-1) ?? "";
+    question.worst_part_explanation = "Try closing with a measurable result so the impact lands.";
+    question.what_went_well = "Clear structure and a concrete example.";
+    question.needs_improvement = "Quantify the outcome.";
+    question.summary = "A solid answer that would be stronger with numbers.";
+    question.confidence_score = 80;
+  });
+  return graded;
+}
+
+export const chat = [
+  { endpoint: "question", reply: () => nextQuestion() },
+  { endpoint: "jobdesc-question", reply: () => ({ question: nextQuestion(), type: "behavioral", focus: "Ownership" }) },
+  { endpoint: "resume-question", reply: () => ({ question: nextQuestion(), type: "behavioral", focus: "Recent project" }) },
+  { endpoint: "followup-question", reply: { followUps: ["What was the measurable result of that?"] } },
+  { endpoint: "pause", reply: { verdict: "definitely_done" } },
+  { endpoint: "feedback", reply: feedback },
+  {
+    endpoint: "star-segments",
+    // One label per numbered sentence, walking through S, T, A, R
+    reply: (request) => ({
+      labels: [...request.prompt.matchAll(/^\d+\. /gm)].map((_, i) => ["situation", "task", "action", "result"][Math.min(i, 3)]),
+    }),
+  },
+  {
+    endpoint: "overall-feedback",
+    reply: {
+      what_went_well: "You kept your answers structured and grounded in real examples.",
+      needs_improvement: "Close each answer with a measurable result.",
+      summary: "A solid practice round — add numbers to make your impact stick.",
+    },
+  },
+  {
+    endpoint: "analyze-jobdesc",
+    reply: {
+      title: "Software Engineering Intern",
+      seniority: "intern",
+      role: "swe_intern",
+      skills: ["TypeScript", "React", "Node.js"],
+      competencies: [
+        { name: "Ownership", description: "Takes features from idea to production.", importance: "high" },
+        { name: "Cross-functional collaboration", description: "Works closely with design and product.", importance: "medium" },
+      ],
+      values: ["Customer focus"],
+    },
+  },
+  { endpoint: "factcheck", reply: { is_correct: true, result: "Correct", explanation: "The correction matches what was said." } },
+  { endpoint: "groq", match: /relevance gate/, reply: { isRelevant: true, reason: "Interview coaching" } },
+  { endpoint: "groq", reply: "Lead with the result, then walk back through what you did to get there." },
+  { endpoint: "voice-summary", reply: "Nice work! You scored well overall — check out the guided review below for a couple of quick wins." },
+  { endpoint: "script", reply: "Great to meet you! Let's warm up with a quick practice round." },
+];
+
+export const transcripts = [
+  "In my last role our team had two weeks to ship a payments integration. I owned the backend work and split it into daily milestones. I cut scope on reporting and shipped on time. We processed our first thousand payments with no failures.",
+  "A teammate wanted to rewrite our API while I wanted to patch it. We compared both plans against the release date. We agreed to patch now and schedule the rewrite. The release went out on time and the rewrite landed the next quarter.",
+  "I once deployed a migration without testing it on a copy of production. It locked a table for ten minutes. I rolled it back and wrote a checklist for migrations. We haven't had a migration outage since.",
+];
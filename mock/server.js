@@ -0,0 +1,390 @@
+// Offline stand-in for everything the app calls over the network, for
+// `npm run dev:mock` and the Playwright specs. One HTTP server answers:
+//
+//   /api/*                        the real serverless handlers from api/ (TypeScript: run under tsx)
+//   POST …/chat/completions       OpenAI / Groq / local chat completions, streamed or not
+//   POST …/responses              OpenAI responses API
+//   POST …/audio/speech           OpenAI TTS: silence roughly as long as the text
+//   POST /v1/auth/grant           Deepgram short-lived tokens
+//   WS   /v1/listen               Deepgram live transcription, reading out scripted answers
+//
+// Replies come from mock/fixtures.js (or the module MOCK_FIXTURES names),
+// picked by the endpoint the gateway tags each call with and a pattern on
+// the prompt. A JSON request no fixture covers gets a value built from its
+// schema, so every endpoint answers something valid.
+
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { createServer } from "node:http";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+const STREAM_CHUNK_CHARS = 24;
+const STREAM_DELAY_MS = 15;
+const WORD_SECONDS = 0.35;
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+function log(msg, data) {
+  if (data) console.log(`[mock] ${msg}`, data);
+  else console.log(`[mock] ${msg}`);
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Loads the fixture module: MOCK_FIXTURES when set, mock/fixtures.js otherwise. */
+export async function loadFixtures(file = process.env.MOCK_FIXTURES) {
+  const url = file ? pathToFileURL(path.resolve(file)).href : new URL("./fixtures.js", import.meta.url).href;
+  const { chat = [], transcripts = [] } = await import(url);
+  return { chat, transcripts };
+}
+
+/* ── Replies ── */
+
+/** A value that satisfies `schema`, with strings named after their field. */
+export function sampleFromSchema(schema, name = "value") {
+  if (!schema || typeof schema !== "object") return null;
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, value]) => [key, sampleFromSchema(value, key)]));
+    case "array": {
+      const count = Math.min(Math.max(schema.minItems ?? 1, 1), schema.maxItems ?? Infinity);
+      return Array.from({ length: count }, () => sampleFromSchema(schema.items, name));
+    }
+    case "string":
+      return `Mock ${name.replace(/_/g, " ")}.`;
+    case "number":
+      return 70;
+    case "integer":
+      return 1;
+    case "boolean":
+      return true;
+    default:
+      return null;
+  }
+}
+
+/** The schema a chat request asks for: strict structured outputs, or the gateway's prompted schema. */
+function requestedSchema(body, prompt) {
+  const format = body.response_format ?? body.text?.format;
+  if (format?.json_schema?.schema) return format.json_schema.schema;
+  if (format?.schema) return format.schema;
+  const prompted = prompt.match(/matching this JSON schema:\n(\{[\s\S]*\})/);
+  if (!prompted) return null;
+  try {
+    return JSON.parse(prompted[1]);
+  } catch {
+    return null;
+  }
+}
+
+const contentText = (content) =>
+  typeof content === "string" ? content : Array.isArray(content) ? content.map((part) => part?.text ?? "").join("") : "";
+
+/**
+ * What a fixture sees: the endpoint, the whole prompt as one string, the
+ * messages, the schema (if any) and `sample()` for a schema-valid default.
+ */
+function describeRequest(req, body, messages) {
+  const prompt = messages.map((m) => contentText(m.content)).join("\n\n");
+  const schema = requestedSchema(body, prompt);
+  const format = body.response_format ?? body.text?.format;
+  return {
+    endpoint: req.headers["x-llm-endpoint"] ?? null,
+    prompt,
+    messages,
+    schema,
+    json: Boolean(schema) || format?.type === "json_object",
+    body,
+    sample: () => sampleFromSchema(schema),
+  };
+}
+
+function replyFor(fixtures, request) {
+  const fixture = fixtures.chat.find(
+    (f) => (!f.endpoint || f.endpoint === request.endpoint) && (!f.match || f.match.test(request.prompt)),
+  );
+  let reply = fixture ? (typeof fixture.reply === "function" ? fixture.reply(request) : fixture.reply) : undefined;
+  if (reply === undefined) reply = request.json ? (request.schema ? request.sample() : {}) : "This is a mock reply.";
+  log(`${request.endpoint ?? "(untagged)"} → ${fixture ? "fixture" : "default"}`);
+  return typeof reply === "string" ? reply : JSON.stringify(reply);
+}
+
+/** Rough token counts, enough for the gateway's accounting. */
+function usageFor(prompt, text) {
+  const prompt_tokens = Math.ceil(prompt.length / 4);
+  const completion_tokens = Math.ceil(text.length / 4);
+  return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+}
+
+function chunksOf(text) {
+  return text.match(new RegExp(`[\\s\\S]{1,${STREAM_CHUNK_CHARS}}`, "g")) ?? [];
+}
+
+async function writeEvents(res, events) {
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+  for (const event of events) {
+    res.write(event);
+    await sleep(STREAM_DELAY_MS);
+  }
+  res.end();
+}
+
+async function chatCompletions(fixtures, req, res, body) {
+  const request = describeRequest(req, body, Array.isArray(body.messages) ? body.messages : []);
+  const text = replyFor(fixtures, request);
+  const usage = usageFor(request.prompt, text);
+  const base = { id: "chatcmpl-mock", created: Math.floor(Date.now() / 1000), model: body.model ?? "mock" };
+
+  if (!body.stream) {
+    return sendJson(res, 200, {
+      ...base,
+      object: "chat.completion",
+      choices: [{ index: 0, message: { role: "assistant", content: text }, finish_reason: "stop" }],
+      usage,
+    });
+  }
+
+  const chunk = (choices, extra = {}) => `data: ${JSON.stringify({ ...base, object: "chat.completion.chunk", choices, ...extra })}\n\n`;
+  await writeEvents(res, [
+    ...chunksOf(text).map((content) => chunk([{ index: 0, delta: { content }, finish_reason: null }])),
+    chunk([{ index: 0, delta: {}, finish_reason: "stop" }]),
+    ...(body.stream_options?.include_usage ? [chunk([], { usage })] : []),
+    "data: [DONE]\n\n",
+  ]);
+}
+
+async function responses(fixtures, req, res, body) {
+  const input = typeof body.input === "string" ? [{ role: "user", content: body.input }] : Array.isArray(body.input) ? body.input : [];
+  const messages = body.instructions ? [{ role: "system", content: body.instructions }, ...input] : input;
+  const request = describeRequest(req, body, messages);
+  const text = replyFor(fixtures, request);
+  const { prompt_tokens, completion_tokens, total_tokens } = usageFor(request.prompt, text);
+  const response = {
+    id: "resp_mock",
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    status: "completed",
+    model: body.model ?? "mock",
+    output: [{ id: "msg_mock", type: "message", role: "assistant", status: "completed", content: [{ type: "output_text", text, annotations: [] }] }],
+    output_text: text,
+    usage: { input_tokens: prompt_tokens, output_tokens: completion_tokens, total_tokens },
+  };
+
+  if (!body.stream) return sendJson(res, 200, response);
+
+  const event = (type, data) => `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+  await writeEvents(res, [
+    event("response.created", { response: { ...response, status: "in_progress", output: [] } }),
+    ...chunksOf(text).map((delta) => event("response.output_text.delta", { item_id: "msg_mock", output_index: 0, content_index: 0, delta })),
+    event("response.output_text.done", { item_id: "msg_mock", output_index: 0, content_index: 0, text }),
+    event("response.completed", { response }),
+  ]);
+}
+
+/** 8 kHz mono PCM silence, about as long as `text` would take to say (0.5–3 s). */
+function silentWav(text) {
+  const words = String(text ?? "").split(/\s+/).filter(Boolean).length;
+  const seconds = Math.min(3, Math.max(0.5, words * 0.15));
+  const sampleRate = 8000;
+  const dataBytes = Math.round(seconds * sampleRate) * 2;
+  const wav = Buffer.alloc(44 + dataBytes);
+  wav.write("RIFF", 0);
+  wav.writeUInt32LE(36 + dataBytes, 4);
+  wav.write("WAVEfmt ", 8);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(1, 22);
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write("data", 36);
+  wav.writeUInt32LE(dataBytes, 40);
+  return wav;
+}
+
+/* ── Serverless handlers ── */
+
+/** Adds the Vercel response helpers the handlers use. */
+function vercelResponse(res) {
+  res.status = (code) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.json = (data) => sendJson(res, res.statusCode || 200, data);
+  res.send = (data) => res.end(data);
+  return res;
+}
+
+async function serverless(req, res, name, body) {
+  const file = path.join(ROOT, "api", `${name}.ts`);
+  if (!/^[a-z][a-z0-9-]*$/.test(name) || !existsSync(file)) return sendJson(res, 404, { error: `No handler for /api/${name}` });
+  const { default: handler } = await import(pathToFileURL(file).href);
+  req.body = body;
+  await handler(req, vercelResponse(res));
+}
+
+/* ── Deepgram ── */
+
+/** One server-to-client WebSocket frame (unmasked). */
+function wsFrame(opcode, payload = Buffer.alloc(0)) {
+  const length = payload.length;
+  const extended = length < 126 ? 0 : length < 65536 ? 2 : 8;
+  const header = Buffer.alloc(2 + extended);
+  header[0] = 0x80 | opcode;
+  header[1] = extended === 0 ? length : extended === 2 ? 126 : 127;
+  if (extended === 2) header.writeUInt16BE(length, 2);
+  if (extended === 8) header.writeBigUInt64BE(BigInt(length), 2);
+  return Buffer.concat([header, payload]);
+}
+
+/** Splits client frames out of `buffer`; returns the opcodes of complete frames and what's left over. */
+function readFrames(buffer) {
+  const opcodes = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const masked = buffer[offset + 1] & 0x80;
+    let length = buffer[offset + 1] & 0x7f;
+    let header = 2;
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      header = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      header = 10;
+    }
+    const total = header + (masked ? 4 : 0) + length;
+    if (buffer.length - offset < total) break;
+    opcodes.push(buffer[offset] & 0x0f);
+    offset += total;
+  }
+  return { opcodes, rest: buffer.subarray(offset) };
+}
+
+/** Deepgram `Results` messages reading `text` out sentence by sentence: an interim half, then the final. */
+function transcriptMessages(text) {
+  const sentences = String(text).match(/[^.!?]+[.!?]*/g)?.map((s) => s.trim()).filter(Boolean) ?? [];
+  let clock = 0;
+  return sentences.flatMap((sentence) => {
+    const words = sentence.split(/\s+/).map((word) => {
+      const start = clock;
+      clock += WORD_SECONDS;
+      return { word: word.replace(/[^\w'-]/g, "").toLowerCase(), punctuated_word: word, start, end: start + WORD_SECONDS * 0.8, confidence: 0.99 };
+    });
+    const result = (slice, isFinal) => ({
+      type: "Results",
+      is_final: isFinal,
+      speech_final: isFinal,
+      start: slice[0].start,
+      duration: slice.at(-1).end - slice[0].start,
+      channel: { alternatives: [{ transcript: slice.map((w) => w.punctuated_word).join(" "), confidence: 0.99, words: slice }] },
+    });
+    const half = words.slice(0, Math.ceil(words.length / 2));
+    return [result(half, false), result(words, true)];
+  });
+}
+
+/**
+ * Accepts a Deepgram listen socket and, once audio starts arriving, reads the
+ * next fixture transcript out at speaking pace, then an UtteranceEnd.
+ */
+function deepgram(fixtures, req, socket, nextTranscript) {
+  const key = req.headers["sec-websocket-key"];
+  if (!key) return socket.destroy();
+  const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+  // The browser authenticates with a ["bearer", token] (or ["token", key]) subprotocol and needs it echoed
+  const protocols = String(req.headers["sec-websocket-protocol"] ?? "").split(",").map((p) => p.trim());
+  const scheme = ["bearer", "token"].find((p) => protocols.includes(p));
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n` +
+      (scheme ? `Sec-WebSocket-Protocol: ${scheme}\r\n` : "") +
+      "\r\n",
+  );
+
+  const transcript = fixtures.transcripts.length ? fixtures.transcripts[nextTranscript() % fixtures.transcripts.length] : "";
+  const timers = [];
+  let buffered = Buffer.alloc(0);
+  let started = false;
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    timers.forEach(clearTimeout);
+    socket.end(wsFrame(0x8, Buffer.from([0x03, 0xe8])));
+  };
+  const start = () => {
+    started = true;
+    const messages = [...transcriptMessages(transcript), { type: "UtteranceEnd" }];
+    messages.forEach((message, i) => {
+      timers.push(setTimeout(() => !closed && socket.write(wsFrame(0x1, Buffer.from(JSON.stringify(message)))), (i + 1) * 600));
+    });
+  };
+
+  socket.on("data", (data) => {
+    const { opcodes, rest } = readFrames(Buffer.concat([buffered, data]));
+    buffered = rest;
+    if (opcodes.includes(0x8)) return close();
+    if (!started && opcodes.includes(0x2)) start();
+  });
+  socket.on("error", () => timers.forEach(clearTimeout));
+  socket.on("close", () => timers.forEach(clearTimeout));
+}
+
+/* ── Server ── */
+
+function sendJson(res, status, data) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const raw = Buffer.concat(chunks).toString("utf8");
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+/** The mock server, not yet listening. */
+export function createMockServer(fixtures) {
+  let transcriptCount = 0;
+
+  const server = createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    try {
+      if (pathname.startsWith("/api/")) return await serverless(req, res, pathname.slice(5), await readBody(req));
+      if (req.method !== "POST") return sendJson(res, 404, { error: `Nothing mocked at ${pathname}` });
+      const body = await readBody(req);
+      if (pathname.endsWith("/chat/completions")) return await chatCompletions(fixtures, req, res, body);
+      if (pathname.endsWith("/responses")) return await responses(fixtures, req, res, body);
+      if (pathname.endsWith("/audio/speech")) {
+        res.writeHead(200, { "Content-Type": "audio/wav" });
+        return res.end(silentWav(body.input));
+      }
+      if (pathname.endsWith("/auth/grant")) return sendJson(res, 200, { access_token: "mock-deepgram-token", expires_in: body.ttl_seconds ?? 30 });
+      return sendJson(res, 404, { error: `Nothing mocked at ${pathname}` });
+    } catch (err) {
+      log(`${pathname} failed`, { error: String(err) });
+      if (!res.headersSent) sendJson(res, 500, { error: "Mock server error" });
+      else res.end();
+    }
+  });
+
+  server.on("upgrade", (req, socket) => {
+    if (!req.url?.startsWith("/v1/listen")) return socket.destroy();
+    deepgram(fixtures, req, socket, () => transcriptCount++);
+  });
+
+  return server;
+}
@@ -19,8 +19,9 @@ export default defineConfig({
       use: { ...devices['Desktop Chrome'] },
     },
   ],
+  // The app against mock/ (scripted models, TTS and Deepgram): no keys, no network
   webServer: {
-    command: 'npm run dev',
+    command: 'npm run dev:mock',
     url: 'http://localhost:5173',
     reuseExistingServer: !process.env.CI,
     timeout: 30000,
@@ -0,0 +1,673 @@
+// The API's wire contract, shared by the serverless routes (api/) and the
+// client (src/services/api.ts). Each route is declared once, in `routes`: its
+// path, the types of its request and response, and a schema (./schema.ts)
+// for each. withApi (api/_lib/http.ts) checks request bodies against the
+// request schema; the client checks JSON responses against the response
+// schema and rejects anything else before it reaches the UI.
+
+import type { Schema } from "./schema.js";
+
+/* ── Shared shapes ── */
+
+export const ROLE_IDS = ["swe_intern", "pm_intern", "ml_intern", "custom"] as const;
+/** Ids of the role registry (api/_lib/roles.ts); "custom" is described in free text. */
+export type Role = (typeof ROLE_IDS)[number];
+export const MAX_CUSTOM_ROLE_LENGTH = 500;
+
+export const DIFFICULTY_LEVELS = ["easy", "medium", "hard"] as const;
+export type Difficulty = (typeof DIFFICULTY_LEVELS)[number];
+
+/** Scoring rubrics /api/feedback can score against (api/_lib/rubrics.ts). */
+export const RUBRIC_IDS = ["general", "star"] as const;
+export type RubricId = (typeof RUBRIC_IDS)[number];
+
+export const SENIORITIES = ["intern", "entry", "mid", "senior", "lead"] as const;
+export type Seniority = (typeof SENIORITIES)[number];
+
+export const IMPORTANCE_LEVELS = ["high", "medium", "low"] as const;
+
+/** What /api/star-segments labels a sentence; "other" covers filler, asides and restating the question. */
+export const STAR_LABELS = ["situation", "task", "action", "result", "other"] as const;
+export type StarLabel = (typeof STAR_LABELS)[number];
+
+export const PAUSE_VERDICTS = ["definitely_done", "definitely_still_talking", "ask"] as const;
+export type PauseVerdict = (typeof PAUSE_VERDICTS)[number];
+
+/** Lines /api/script can write; the prompt for each is kept by the route (api/script.ts). */
+export const SCRIPT_DIRECTIVES = ["welcome", "kickoff"] as const;
+export type ScriptDirective = (typeof SCRIPT_DIRECTIVES)[number];
+
+/** Which grader scores an answer: OpenAI, or the Groq model the server falls back to on request. */
+export const FEEDBACK_PROVIDERS = ["openai", "groq"] as const;
+export type FeedbackProvider = (typeof FEEDBACK_PROVIDERS)[number];
+
+/** A session's questions, main and follow-up (12 main questions, up to 2 follow-ups each). */
+export const MAX_SESSION_QUESTIONS = 40;
+/** Grader samples one scoring call can take (consistency scoring). */
+export const MAX_SAMPLES = 5;
+
+/** One role, project or degree on a resume. */
+export interface ResumeEntry {
+  title: string;
+  /** Organization, degree or tech stack shown under the title. */
+  subtitle?: string;
+  dates?: string;
+  bullets: string[];
+}
+
+export interface ResumeData {
+  name: string | null;
+  skills: string[];
+  experience: ResumeEntry[];
+  projects: ResumeEntry[];
+  education: ResumeEntry[];
+}
+
+/** A soft-skill competency the job description asks for. */
+export interface JobCompetency {
+  name: string;
+  /** What the competency means in this particular job. */
+  description: string;
+  importance: (typeof IMPORTANCE_LEVELS)[number];
+}
+
+/** Structured view of a job description, from /api/analyze-jobdesc. */
+export interface JobProfile {
+  title: string;
+  seniority: Seniority;
+  /** Closest interview track; "custom" when none fits. */
+  role: Role;
+  skills: string[];
+  /** Most important first. */
+  competencies: JobCompetency[];
+  values: string[];
+}
+
+/** One scored category of a rubric. */
+export interface RubricDimension {
+  key: string;
+  label: string;
+}
+
+/** The rubric a scoring was done on, as returned by /api/feedback. */
+export interface RubricSummary {
+  id: RubricId;
+  label: string;
+  dimensions: RubricDimension[];
+}
+
+export interface CategoryScore {
+  score: number; // 0-100
+  /** One sentence on why this answer earned the score. */
+  reason: string;
+  /** [low, high] across grader samples (consistency scoring only). */
+  interval?: [number, number];
+}
+
+/**
+ * How measured delivery was blended into a category (see api/_lib/delivery.ts):
+ * score = (1 − weight) × model + weight × metric.
+ */
+export interface DeliveryBlend {
+  source: "pacing" | "presence";
+  /** The grader's score for the category. */
+  model: number;
+  /** Mean of the measured `parts`. */
+  metric: number;
+  weight: number;
+  /** Measured subscores (0-100), e.g. pace, fillers, eye_contact. */
+  parts: Record<string, number>;
+}
+
+/** Character offsets of a quote in the answer transcript, as aligned by /api/feedback. */
+export interface QuoteSpan {
+  start: number;
+  end: number;
+}
+
+export interface QuestionFeedback {
+  score: number; // weighted avg of the rubric's categories, 0-100
+  /** Per-category breakdown keyed by rubric dimension (missing in sessions saved before it was returned). */
+  categories?: Record<string, CategoryScore>;
+  best_part_quote: string;
+  best_part_explanation: string;
+  worst_part_quote: string;
+  worst_part_explanation: string;
+  /** Where the quotes sit in the transcript; missing when a quote couldn't be aligned (or in older sessions). */
+  best_part_span?: QuoteSpan;
+  worst_part_span?: QuoteSpan;
+  what_went_well: string;
+  needs_improvement: string;
+  summary: string;
+  confidence_score: number | null;
+  /** [low, high] of the score across grader samples; `score` is their median (consistency scoring only). */
+  score_interval?: [number, number];
+  /** The grader samples disagreed enough that the score should be read as rough. */
+  disagreement?: boolean;
+  /** Categories partly scored from measured delivery, keyed by rubric dimension. */
+  delivery?: Record<string, DeliveryBlend>;
+  /** Job-description competencies the answer gave evidence of (only when a job profile was sent). */
+  competencies_demonstrated?: string[];
+}
+
+/** How many grader samples a scoring took, and from which models. */
+export interface FeedbackSampling {
+  samples: number;
+  models: string[];
+}
+
+/** What was measured from an answer's recording. */
+export interface AnswerMetrics {
+  fillerCount: number;
+  wordsPerMinute: number;
+  speakingDurationSeconds: number;
+  faceMetrics?: { eyeContactPercent: number; nervousnessScore: number; confidenceScore: number };
+}
+
+/** The written part of the overall feedback. */
+export interface OverallNarrative {
+  what_went_well: string;
+  needs_improvement: string;
+  summary: string;
+}
+
+export interface FactCheckResult {
+  is_correct: boolean;
+  result: string;
+  explanation: string;
+}
+
+/** One turn of the coaching chat. */
+export interface CoachMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/** A scored category as the coaching chat is told about it. */
+export interface CoachCategoryFeedback {
+  key: string;
+  label: string;
+  percent: number;
+  level: string;
+  explanation: string;
+}
+
+/* ── Errors ── */
+
+/** The `code` of the error envelope every /api route fails with. */
+export type ApiErrorCode =
+  | "invalid_request"
+  | "not_found"
+  | "method_not_allowed"
+  | "payload_too_large"
+  | "rate_limited"
+  | "not_configured"
+  | "internal_error"
+  | "upstream_error"
+  | "upstream_timeout"
+  /** Set by the client: the route answered, but not with what the contract says. */
+  | "invalid_response";
+
+/** The code each status a route answers with defaults to. */
+export const STATUS_CODES: Partial<Record<number, ApiErrorCode>> = {
+  400: "invalid_request",
+  404: "not_found",
+  405: "method_not_allowed",
+  413: "payload_too_large",
+  429: "rate_limited",
+  500: "internal_error",
+  502: "upstream_error",
+  504: "upstream_timeout",
+};
+
+/** What a route sends with any error status. */
+export interface ErrorEnvelope {
+  error: string;
+  code: ApiErrorCode;
+  /** What was wrong with the request body (invalid_request). */
+  details?: string[];
+  /** Seconds until the route takes requests again (rate_limited); also the Retry-After header. */
+  retryAfter?: number;
+}
+
+/* ── Requests and responses ── */
+
+/** Settings every question generator takes. */
+interface QuestionSettings {
+  questionNumber?: number;
+  previousQuestions?: string[];
+  /** Competency chip id; omitted for "random". */
+  category?: string;
+  /** Job-description competency to assess; ignored when a category is set. */
+  competency?: JobCompetency;
+  difficulty?: Difficulty;
+}
+
+export interface QuestionRequest extends QuestionSettings {
+  role: Role;
+  /** Free-text role description when role is "custom". */
+  customRole?: string;
+  jobDescription?: string;
+}
+
+export interface QuestionResponse {
+  question: string;
+  category: string;
+}
+
+export interface ResumeQuestionRequest extends QuestionSettings {
+  /** Interview role; the question is grounded in its focus. Defaults to the default role. */
+  role?: Role;
+  /** Free-text role description when role is "custom". */
+  customRole?: string;
+  jobDescription: string;
+  resumeText?: string;
+  /** Reviewed resume sections, so the question can cite a specific entry. */
+  resume?: ResumeData;
+  candidateName?: string;
+}
+
+/** A job-description or resume question with what it probes. */
+export interface TailoredQuestionResponse {
+  question: string;
+  type: string;
+  focus: string;
+}
+
+export interface AnalyzeJobDescriptionRequest {
+  jobDescription: string;
+}
+
+export interface StarSegmentsRequest {
+  question?: string;
+  sentences: string[];
+}
+
+export interface StarSegmentsResponse {
+  /** One per sentence, in order. */
+  labels: StarLabel[];
+}
+
+export interface FollowUpRequest {
+  question: string;
+  transcript: string;
+  role?: Role;
+  customRole?: string;
+  difficulty?: Difficulty;
+}
+
+export interface FollowUpResponse {
+  followUps: string[];
+}
+
+export interface FeedbackRequest {
+  questions: string[];
+  answers: string[];
+  /** Send the result as server-sent events (FeedbackEvent) rather than one body. */
+  stream?: boolean;
+  /** Per question: index of the question it follows up on, or null. */
+  followUpOf?: (number | null)[];
+  /** Per question: delivery measured from the recording. */
+  metrics?: AnswerMetrics[];
+  resumeText?: string;
+  resume?: ResumeData;
+  jobDescription?: string;
+  /** Job-description competencies to check each answer against. */
+  competencies?: JobCompetency[];
+  role?: Role;
+  customRole?: string;
+  difficulty?: Difficulty;
+  rubric?: RubricId;
+  /** Grader samples to take; above 1 the response carries score intervals. */
+  samples?: number;
+  models?: string[];
+  provider?: FeedbackProvider;
+}
+
+/** The whole scoring, when `stream` isn't set. */
+export interface GradedFeedback {
+  questions: QuestionFeedback[];
+  overall?: OverallNarrative & { score: number; categories: Record<string, number>; confidence_score?: number };
+  rubric: RubricSummary;
+  sampling?: FeedbackSampling;
+}
+
+/** The events a streamed scoring sends, by event name. */
+export interface FeedbackEvents {
+  /** A question is scored (or re-sent after its quotes were repaired). */
+  question: { index: number; feedback: QuestionFeedback };
+  /** A question couldn't be scored. */
+  question_error: { index: number; error: string };
+  /** Closes the stream. */
+  done: { rubric?: RubricSummary; sampling?: FeedbackSampling };
+}
+
+export interface OverallFeedbackRequest {
+  score?: number;
+  /** Mean and spread per rubric dimension label. */
+  categories?: Record<string, { mean: number; stdDev: number }>;
+  questions: {
+    question: string;
+    score: number;
+    /** Share of the overall the question carried. */
+    weight: number;
+    what_went_well: string;
+    needs_improvement: string;
+  }[];
+  role?: Role;
+  customRole?: string;
+}
+
+export interface FactCheckRequest {
+  question: string;
+  answer: string;
+  correction: string;
+}
+
+export interface PauseRequest {
+  transcript: string;
+}
+
+export interface PauseResponse {
+  verdict: PauseVerdict;
+}
+
+export interface ScriptRequest {
+  directive: ScriptDirective;
+  /** Main questions in the interview, announced by "kickoff". */
+  questionCount?: number;
+  conversationContext?: string;
+}
+
+export interface VoiceSummaryRequest {
+  overall: { score: number; what_went_well: string; needs_improvement: string };
+  questions: { score: number; summary: string }[];
+}
+
+/** A line of generated speech. */
+export interface TextResponse {
+  text: string;
+}
+
+export interface CoachChatRequest {
+  messages: CoachMessage[];
+  question?: string;
+  transcript?: string;
+  suggestions?: string[];
+  followUp?: string;
+  scoreSummary?: string[];
+  overallSummary?: string;
+  categoryFeedback?: CoachCategoryFeedback[];
+  role?: string;
+  difficulty?: string;
+}
+
+export interface CoachChatResponse {
+  reply: string;
+  /** The message was off-topic and `reply` is the stock refusal. */
+  blocked?: boolean;
+}
+
+export interface TtsRequest {
+  text: string;
+  voice?: string;
+  /** 0.25-4.0 */
+  speed?: number;
+  instructions?: string;
+}
+
+export interface DeepgramTokenResponse {
+  token: string;
+  /** Seconds the token can open a socket for. */
+  expiresIn: number;
+}
+
+/* ── Schemas ── */
+
+/** A string of at most `maxLength` characters; `required` also rules out blank. */
+export const text = (maxLength: number, { required = false } = {}): Schema => ({ type: "string", maxLength, ...(required ? { minLength: 1 } : {}) });
+
+const string: Schema = { type: "string" };
+const number: Schema = { type: "number" };
+const integer: Schema = { type: "integer" };
+const strings: Schema = { type: "array", items: string };
+const numberPair: Schema = { type: "array", items: number, minItems: 2, maxItems: 2 };
+const object = (properties: Record<string, Schema>, required: string[] = Object.keys(properties)): Schema => ({ type: "object", properties, required });
+
+const role: Schema = { type: "string", enum: ROLE_IDS };
+const customRole = text(MAX_CUSTOM_ROLE_LENGTH);
+const difficulty: Schema = { type: "string", enum: DIFFICULTY_LEVELS };
+const jobDescription = text(20000);
+const resumeText = text(20000);
+/** Structured resume; the server drops anything it doesn't recognize. */
+const resume: Schema = { type: "object" };
+/** Competency chip id; unknown ones are ignored. */
+const category = text(60);
+const jobCompetencyRequest: Schema = {
+  type: "object",
+  properties: { name: text(100), description: text(500), importance: text(20) },
+};
+const questionSettings: Record<string, Schema> = {
+  questionNumber: { type: "integer", minimum: 1, maximum: MAX_SESSION_QUESTIONS },
+  previousQuestions: { type: "array", maxItems: MAX_SESSION_QUESTIONS, items: text(1000) },
+  category,
+  competency: jobCompetencyRequest,
+  difficulty,
+};
+
+const jobCompetency = object({ name: string, description: string, importance: { type: "string", enum: IMPORTANCE_LEVELS } });
+const rubricSummary = object({ id: { type: "string", enum: RUBRIC_IDS }, label: string, dimensions: { type: "array", items: object({ key: string, label: string }) } });
+const sampling = object({ samples: integer, models: strings });
+const quoteSpan = object({ start: integer, end: integer });
+const score: Schema = { type: "number", minimum: 0, maximum: 100 };
+
+const questionFeedback: Schema = {
+  type: "object",
+  properties: {
+    score,
+    categories: { type: "object", additionalProperties: { ...object({ score, reason: string }), properties: { score, reason: string, interval: numberPair } } },
+    best_part_quote: string,
+    best_part_explanation: string,
+    worst_part_quote: string,
+    worst_part_explanation: string,
+    best_part_span: quoteSpan,
+    worst_part_span: quoteSpan,
+    what_went_well: string,
+    needs_improvement: string,
+    summary: string,
+    confidence_score: { type: ["number", "null"] },
+    score_interval: numberPair,
+    disagreement: { type: "boolean" },
+    delivery: {
+      type: "object",
+      additionalProperties: object({ source: { type: "string", enum: ["pacing", "presence"] }, model: number, metric: number, weight: number, parts: { type: "object", additionalProperties: number } }),
+    },
+    competencies_demonstrated: strings,
+  },
+  required: [
+    "score",
+    "best_part_quote", "best_part_explanation",
+    "worst_part_quote", "worst_part_explanation",
+    "what_went_well", "needs_improvement", "summary", "confidence_score",
+  ],
+};
+
+const narrative = object({ what_went_well: string, needs_improvement: string, summary: string });
+
+/** Schemas of the events a streamed scoring sends. */
+export const FEEDBACK_EVENT_SCHEMAS: { [E in keyof FeedbackEvents]: Schema } = {
+  question: object({ index: integer, feedback: questionFeedback }),
+  question_error: object({ index: integer, error: string }),
+  done: object({ rubric: rubricSummary, sampling }, []),
+};
+
+/* ── Routes ── */
+
+export interface ApiRoute<Req, Res> {
+  path: `/api/${string}`;
+  /** What the body must match; withApi answers 400 otherwise. */
+  request?: Schema;
+  /** What a JSON response must match; routes that stream or send audio have none. */
+  response?: Schema;
+  /** Type-only, never set: carries the request and response types. */
+  readonly types?: { request: Req; response: Res };
+}
+
+export type RequestOf<R> = R extends ApiRoute<infer Req, unknown> ? Req : never;
+export type ResponseOf<R> = R extends ApiRoute<unknown, infer Res> ? Res : never;
+
+const route = <Req, Res>(path: `/api/${string}`, schemas: { request?: Schema; response?: Schema }): ApiRoute<Req, Res> => ({ path, ...schemas });
+
+const tailoredQuestionRequest: Schema = {
+  type: "object",
+  required: ["jobDescription"],
+  properties: {
+    ...questionSettings,
+    role,
+    customRole,
+    jobDescription: text(20000, { required: true }),
+    resumeText,
+    resume,
+    candidateName: text(100),
+  },
+};
+const tailoredQuestionResponse = object({ question: text(2000, { required: true }), type: string, focus: string });
+const textResponse = object({ text: string });
+
+export const routes = {
+  question: route<QuestionRequest, QuestionResponse>("/api/question", {
+    request: {
+      type: "object",
+      required: ["role"],
+      properties: { ...questionSettings, role, customRole, jobDescription },
+    },
+    response: object({ question: text(2000, { required: true }), category: string }),
+  }),
+  resumeQuestion: route<ResumeQuestionRequest, TailoredQuestionResponse>("/api/resume-question", {
+    request: tailoredQuestionRequest,
+    response: tailoredQuestionResponse,
+  }),
+  jobDescriptionQuestion: route<ResumeQuestionRequest, TailoredQuestionResponse>("/api/jobdesc-question", {
+    request: tailoredQuestionRequest,
+    response: tailoredQuestionResponse,
+  }),
+  analyzeJobDescription: route<AnalyzeJobDescriptionRequest, JobProfile>("/api/analyze-jobdesc", {
+    request: object({ jobDescription: text(20000, { required: true }) }),
+    response: object({
+      title: string,
+      seniority: { type: "string", enum: SENIORITIES },
+      role,
+      skills: strings,
+      competencies: { type: "array", items: jobCompetency },
+      values: strings,
+    }),
+  }),
+  starSegments: route<StarSegmentsRequest, StarSegmentsResponse>("/api/star-segments", {
+    request: object({ question: text(1000), sentences: { type: "array", minItems: 1, maxItems: 200, items: text(2000) } }, ["sentences"]),
+    response: object({ labels: { type: "array", items: { type: "string", enum: STAR_LABELS } } }),
+  }),
+  followUps: route<FollowUpRequest, FollowUpResponse>("/api/followup-question", {
+    request: object(
+      { question: text(1000, { required: true }), transcript: text(20000, { required: true }), role, customRole, difficulty },
+      ["question", "transcript"],
+    ),
+    response: object({ followUps: strings }),
+  }),
+  feedback: route<FeedbackRequest, GradedFeedback>("/api/feedback", {
+    request: object(
+      {
+        questions: { type: "array", maxItems: MAX_SESSION_QUESTIONS, items: text(2000) },
+        answers: { type: "array", maxItems: MAX_SESSION_QUESTIONS, items: text(20000) },
+        stream: { type: "boolean" },
+        followUpOf: { type: "array", maxItems: MAX_SESSION_QUESTIONS },
+        metrics: { type: "array", maxItems: MAX_SESSION_QUESTIONS },
+        resumeText,
+        resume,
+        jobDescription,
+        competencies: { type: "array", maxItems: 20, items: jobCompetencyRequest },
+        role,
+        customRole,
+        difficulty,
+        rubric: text(40),
+        samples: { type: "integer", minimum: 1, maximum: MAX_SAMPLES },
+        models: { type: "array", maxItems: MAX_SAMPLES, items: text(100) },
+        provider: { type: "string", enum: FEEDBACK_PROVIDERS },
+      },
+      ["questions", "answers"],
+    ),
+    response: object({ questions: { type: "array", items: questionFeedback }, rubric: rubricSummary, sampling }, ["questions", "rubric"]),
+  }),
+  overallFeedback: route<OverallFeedbackRequest, OverallNarrative>("/api/overall-feedback", {
+    request: object(
+      {
+        score: number,
+        categories: { type: "object" },
+        questions: { type: "array", minItems: 1, maxItems: MAX_SESSION_QUESTIONS, items: { type: "object" } },
+        role,
+        customRole,
+      },
+      ["questions"],
+    ),
+    response: narrative,
+  }),
+  factCheck: route<FactCheckRequest, FactCheckResult>("/api/factcheck", {
+    request: object({ question: text(1000, { required: true }), answer: text(20000, { required: true }), correction: text(2000, { required: true }) }),
+    response: object({ is_correct: { type: "boolean" }, result: string, explanation: string }),
+  }),
+  pause: route<PauseRequest, PauseResponse>("/api/pause", {
+    request: object({ transcript: text(20000, { required: true }) }),
+    response: object({ verdict: { type: "string", enum: PAUSE_VERDICTS } }),
+  }),
+  script: route<ScriptRequest, TextResponse>("/api/script", {
+    request: object(
+      {
+        directive: { type: "string", enum: SCRIPT_DIRECTIVES },
+        questionCount: { type: "integer", minimum: 1, maximum: MAX_SESSION_QUESTIONS },
+        conversationContext: text(4000),
+      },
+      ["directive"],
+    ),
+    response: textResponse,
+  }),
+  voiceSummary: route<VoiceSummaryRequest, TextResponse>("/api/voice-summary", {
+    request: object({
+      overall: object({ score: number, what_went_well: text(2000), needs_improvement: text(2000) }, []),
+      questions: { type: "array", maxItems: MAX_SESSION_QUESTIONS, items: object({ score: number, summary: text(2000) }, []) },
+    }),
+    response: textResponse,
+  }),
+  coachChat: route<CoachChatRequest, CoachChatResponse>("/api/groq", {
+    // Coarse bounds; the route trims what gets into the prompt
+    request: object(
+      {
+        messages: { type: "array", maxItems: 100, items: { type: "object", properties: { role: text(20), content: text(10000) } } },
+        question: text(2000),
+        transcript: text(20000),
+        suggestions: { type: "array", maxItems: 50, items: text(2000) },
+        followUp: text(2000),
+        scoreSummary: { type: "array", maxItems: 50, items: text(2000) },
+        categoryFeedback: { type: "array", maxItems: 50, items: { type: "object" } },
+        overallSummary: text(4000),
+        role: text(500),
+        difficulty: text(40),
+      },
+      ["messages"],
+    ),
+    response: object({ reply: text(10000, { required: true }), blocked: { type: "boolean" } }, ["reply"]),
+  }),
+  tts: route<TtsRequest, Blob>("/api/tts", {
+    request: object(
+      {
+        // The speech endpoint's input limit
+        text: text(4096, { required: true }),
+        voice: text(20),
+        speed: { type: "number", minimum: 0.25, maximum: 4.0 },
+        instructions: text(2000),
+      },
+      ["text"],
+    ),
+  }),
+  deepgramToken: route<Record<string, never>, DeepgramTokenResponse>("/api/deepgram-token", {
+    response: object({ token: text(4096, { required: true }), expiresIn: number }),
+  }),
+};
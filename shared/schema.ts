@@ -0,0 +1,72 @@
+// The subset of JSON schema the API checks values against: model replies in
+// the LLM gateway, request bodies in withApi (api/_lib/http.ts) and responses
+// in the client (src/services/api.ts).
+
+export type SchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+export interface Schema {
+  type?: SchemaType | SchemaType[];
+  description?: string;
+  enum?: readonly unknown[];
+  properties?: Record<string, Schema>;
+  required?: readonly string[];
+  /** A schema for keys `properties` doesn't name; `false` (for strict structured outputs) isn't enforced. */
+  additionalProperties?: Schema | boolean;
+  items?: Schema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+const typeOf = (value: unknown) => (value === null ? "null" : Array.isArray(value) ? "array" : typeof value);
+
+/**
+ * Checks `value` against `schema` (type, properties, required,
+ * additionalProperties, items, enum, minItems, maxItems, minLength, maxLength,
+ * minimum, maximum) and returns what doesn't match, as "path: problem"
+ * strings. Extra properties are allowed unless `additionalProperties` gives
+ * them a schema; minLength ignores surrounding whitespace, so it doubles as
+ * "not blank".
+ */
+export function validateSchema(value: unknown, schema: Schema | undefined, path = "$"): string[] {
+  if (!schema || typeof schema !== "object") return [];
+  const types = schema.type === undefined ? [] : ([] as SchemaType[]).concat(schema.type);
+  const actual = typeOf(value);
+  const matches = types.length === 0 || types.some((t) => t === actual || (t === "integer" && Number.isInteger(value)) || (t === "number" && actual === "number"));
+  if (!matches) return [`${path}: expected ${types.join(" or ")}, got ${actual}`];
+
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value)) errors.push(`${path}: not one of ${JSON.stringify(schema.enum)}`);
+  if (actual === "object") {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) errors.push(`${path}.${key}: missing`);
+    }
+    for (const [key, child] of Object.entries(schema.properties ?? {})) {
+      if (key in object) errors.push(...validateSchema(object[key], child, `${path}.${key}`));
+    }
+    const extra = schema.additionalProperties;
+    if (extra && typeof extra === "object") {
+      for (const [key, child] of Object.entries(object)) {
+        if (!schema.properties || !(key in schema.properties)) errors.push(...validateSchema(child, extra, `${path}.${key}`));
+      }
+    }
+  } else if (actual === "array") {
+    const array = value as unknown[];
+    if (schema.minItems !== undefined && array.length < schema.minItems) errors.push(`${path}: fewer than ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && array.length > schema.maxItems) errors.push(`${path}: more than ${schema.maxItems} items`);
+    if (schema.items) array.forEach((item, i) => errors.push(...validateSchema(item, schema.items, `${path}[${i}]`)));
+  } else if (actual === "string") {
+    const string = value as string;
+    if (schema.minLength !== undefined && string.trim().length < schema.minLength) errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && string.length > schema.maxLength) errors.push(`${path}: longer than ${schema.maxLength} characters`);
+  } else if (actual === "number") {
+    const number = value as number;
+    if (schema.minimum !== undefined && number < schema.minimum) errors.push(`${path}: below ${schema.minimum}`);
+    if (schema.maximum !== undefined && number > schema.maximum) errors.push(`${path}: above ${schema.maximum}`);
+  }
+  return errors;
+}
@@ -1,5 +1,7 @@
 interface FlowProgressProps {
   currentStep: 'setup' | 'interview' | 'feedback';
+  /** Shown under the Interview step; main questions only (see questionProgress). */
+  questionProgress?: { number: number; total: number };
 }
 
 const STEPS: Array<{ id: 'setup' | 'interview' | 'feedback'; label: string }> = [
@@ -14,7 +16,7 @@ const STEP_ORDER: Record<'setup' | 'interview' | 'feedback', number> = {
   feedback: 2,
 };
 
-export default function FlowProgress({ currentStep }: FlowProgressProps) {
+export default function FlowProgress({ currentStep, questionProgress }: FlowProgressProps) {
   const currentIndex = STEP_ORDER[currentStep];
 
   return (
@@ -151,6 +153,20 @@ export default function FlowProgress({ currentStep }: FlowProgressProps) {
               >
                 {step.label}
               </span>
+
+              {step.id === 'interview' && questionProgress && questionProgress.total > 1 && (
+                <span
+                  style={{
+                    marginTop: '3px',
+                    fontFamily: "'Josefin Sans', sans-serif",
+                    fontSize: '9px',
+                    letterSpacing: '0.06em',
+                    color: isCurrent ? '#a5b4fc' : 'rgba(255,255,255,0.2)',
+                  }}
+                >
+                  {isCompleted ? questionProgress.total : Math.min(questionProgress.number, questionProgress.total)} / {questionProgress.total}
+                </span>
+              )}
             </div>
           );
         })}
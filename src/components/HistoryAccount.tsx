@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import type { CSSProperties, FormEvent } from 'react';
+import { getHistoryOwner, linkHistoryEmail, type HistoryOwner } from '../services/supabase';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('HistoryAccount');
+
+type LinkStatus = 'idle' | 'sending' | 'sent' | 'error';
+
+const cardStyle: CSSProperties = {
+  marginTop: '1rem',
+  padding: '0.8rem 1rem',
+  borderRadius: '12px',
+  border: '1px solid rgba(255,255,255,0.08)',
+  background: 'rgba(8,8,8,0.6)',
+  fontSize: '0.75rem',
+  color: '#b3b3b3',
+};
+
+const inputStyle: CSSProperties = {
+  flex: 1,
+  padding: '0.45rem 0.7rem',
+  borderRadius: '8px',
+  border: '1px solid rgba(255,255,255,0.1)',
+  background: 'rgba(0,0,0,0.3)',
+  color: '#e2e8f0',
+  fontSize: '0.75rem',
+  outline: 'none',
+};
+
+const buttonStyle: CSSProperties = {
+  padding: '0.45rem 0.8rem',
+  borderRadius: '8px',
+  border: '1px solid rgba(203,255,112,0.3)',
+  background: 'rgba(203,255,112,0.08)',
+  color: '#cbff70',
+  fontSize: '0.7rem',
+  fontWeight: 600,
+  whiteSpace: 'nowrap',
+};
+
+/**
+ * Offers to keep synced history past this browser: an anonymous user is
+ * linked to an email, and anyone not signed in yet gets a sign-in link.
+ */
+export default function HistoryAccount() {
+  const [owner, setOwner] = useState<HistoryOwner | null | undefined>(undefined);
+  const [email, setEmail] = useState('');
+  const [status, setStatus] = useState<LinkStatus>('idle');
+
+  useEffect(() => {
+    let cancelled = false;
+    void getHistoryOwner().then((o) => {
+      if (!cancelled) setOwner(o);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const address = email.trim();
+    if (!address || status === 'sending') return;
+    setStatus('sending');
+    try {
+      await linkHistoryEmail(address);
+      setStatus('sent');
+    } catch (err) {
+      log.error('Account link failed', { error: String(err) });
+      setStatus('error');
+    }
+  };
+
+  if (owner === undefined) return null;
+  if (owner && !owner.anonymous) {
+    return <div style={cardStyle}>History is synced to {owner.email ?? 'your account'}.</div>;
+  }
+  if (status === 'sent') {
+    return <div style={cardStyle}>Check {email.trim()} for a link — following it keeps your history on any browser.</div>;
+  }
+
+  return (
+    <form style={cardStyle} onSubmit={(e) => void handleSubmit(e)}>
+      <p style={{ margin: '0 0 0.5rem' }}>
+        {owner
+          ? 'Your history is only kept in this browser. Add an email so clearing it doesn’t lose your sessions.'
+          : 'Sign in with your email to keep your history across browsers.'}
+      </p>
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+        <input
+          type="email"
+          placeholder="you@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          style={inputStyle}
+        />
+        <button
+          type="submit"
+          disabled={!email.trim() || status === 'sending'}
+          style={{ ...buttonStyle, cursor: email.trim() && status !== 'sending' ? 'pointer' : 'not-allowed', opacity: email.trim() && status !== 'sending' ? 1 : 0.5 }}
+        >
+          {status === 'sending' ? 'Sending...' : 'Email me a link'}
+        </button>
+      </div>
+      {status === 'error' && <p style={{ margin: '0.4rem 0 0', color: '#f87171' }}>Couldn't send the link. Try again.</p>}
+    </form>
+  );
+}
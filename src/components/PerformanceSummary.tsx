@@ -1,27 +1,23 @@
 import React from 'react';
 import type { CSSProperties } from 'react';
+import type { RubricDimension } from '../types';
 
 interface PerformanceSummaryProps {
   overallSummary: string;
+  /** Keys of the rubric's dimensions. */
   strongestDimension: string;
   weakestDimension: string;
   positiveCallouts: [string, string];
+  /** Dimensions of the rubric the interview was scored on, for their labels. */
+  dimensions: RubricDimension[];
 }
 
-const DIMENSION_LABELS: Record<string, string> = {
-  situation:     'Situation',
-  task:          'Task',
-  action:        'Action',
-  result:        'Result',
-  communication: 'Communication',
-  pacing:        'Pacing',
-};
-
 function PerformanceSummary({
   overallSummary,
   strongestDimension,
   weakestDimension,
   positiveCallouts,
+  dimensions,
 }: PerformanceSummaryProps) {
   const containerStyle: CSSProperties = {
     position: 'relative',
@@ -194,8 +190,9 @@ function PerformanceSummary({
     lineHeight: 1.6,
   };
 
-  const strongestLabel = DIMENSION_LABELS[strongestDimension] ?? strongestDimension;
-  const weakestLabel = DIMENSION_LABELS[weakestDimension] ?? weakestDimension;
+  const labelOf = (key: string) => dimensions.find((d) => d.key === key)?.label ?? key;
+  const strongestLabel = labelOf(strongestDimension);
+  const weakestLabel = labelOf(weakestDimension);
 
   return (
     <div style={containerStyle}>
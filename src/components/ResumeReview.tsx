@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import type { CSSProperties } from 'react';
+import type { ResumeData, ResumeEntry } from '../types';
+
+interface Props {
+  data: ResumeData;
+  onChange: (data: ResumeData) => void;
+}
+
+type EntrySection = 'experience' | 'projects' | 'education';
+
+const SECTIONS: Array<{ key: EntrySection; label: string; titlePlaceholder: string; subtitlePlaceholder: string }> = [
+  { key: 'experience', label: 'Experience', titlePlaceholder: 'Role', subtitlePlaceholder: 'Company' },
+  { key: 'projects', label: 'Projects', titlePlaceholder: 'Project name', subtitlePlaceholder: 'Tech stack' },
+  { key: 'education', label: 'Education', titlePlaceholder: 'School', subtitlePlaceholder: 'Degree' },
+];
+
+const inputStyle: CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  background: 'rgba(255,255,255,0.03)',
+  border: '1px solid rgba(255,255,255,0.12)',
+  borderRadius: '8px',
+  color: '#f5f5f5',
+  font: 'inherit',
+  fontSize: '0.8rem',
+  padding: '0.4rem 0.55rem',
+  outline: 'none',
+};
+
+const labelStyle: CSSProperties = {
+  fontFamily: "'Josefin Sans', sans-serif",
+  fontSize: '0.7rem',
+  letterSpacing: '0.12em',
+  textTransform: 'uppercase',
+  opacity: 0.55,
+};
+
+const linkButtonStyle: CSSProperties = {
+  background: 'none',
+  border: 'none',
+  color: '#cbff70',
+  cursor: 'pointer',
+  font: 'inherit',
+  fontSize: '0.75rem',
+  padding: 0,
+};
+
+/**
+ * Editable view of the parsed resume. Questions and feedback cite these
+ * entries by name, so the candidate gets a chance to fix misreads first.
+ */
+export default function ResumeReview({ data, onChange }: Props) {
+  const [open, setOpen] = useState(true);
+  const [skillsDraft, setSkillsDraft] = useState(data.skills.join(', '));
+
+  const updateEntry = (section: EntrySection, index: number, patch: Partial<ResumeEntry>) => {
+    onChange({ ...data, [section]: data[section].map((e, i) => (i === index ? { ...e, ...patch } : e)) });
+  };
+  const removeEntry = (section: EntrySection, index: number) => {
+    onChange({ ...data, [section]: data[section].filter((_, i) => i !== index) });
+  };
+  const addEntry = (section: EntrySection) => {
+    onChange({ ...data, [section]: [...data[section], { title: '', bullets: [] }] });
+  };
+
+  const entryCount = data.experience.length + data.projects.length + data.education.length;
+
+  return (
+    <div
+      style={{
+        marginTop: '1rem',
+        border: '1px solid rgba(255,255,255,0.12)',
+        borderRadius: '14px',
+        padding: '0.9rem 1rem',
+        textAlign: 'left',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: '1rem' }}>
+        <div>
+          <div style={{ fontFamily: "'Josefin Sans', sans-serif", fontWeight: 700, fontSize: '0.85rem' }}>
+            Review your resume
+          </div>
+          <div style={{ fontSize: '0.74rem', opacity: 0.55, marginTop: '0.2rem' }}>
+            {entryCount === 0
+              ? "We couldn't find any sections — add the roles and projects you want to be asked about."
+              : `Found ${data.experience.length} role${data.experience.length === 1 ? '' : 's'} and ${data.projects.length} project${data.projects.length === 1 ? '' : 's'}. Questions will reference these, so fix anything we misread.`}
+          </div>
+        </div>
+        <button type="button" style={linkButtonStyle} onClick={() => setOpen((o) => !o)} aria-expanded={open}>
+          {open ? 'Hide' : 'Edit'}
+        </button>
+      </div>
+
+      {open && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.9rem', marginTop: '0.9rem', maxHeight: '420px', overflowY: 'auto' }}>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+            <span style={labelStyle}>Name</span>
+            <input
+              style={inputStyle}
+              value={data.name ?? ''}
+              placeholder="Your name"
+              onChange={(e) => onChange({ ...data, name: e.target.value || null })}
+            />
+          </label>
+
+          <label style={{ display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+            <span style={labelStyle}>Skills</span>
+            <input
+              style={inputStyle}
+              value={skillsDraft}
+              placeholder="Comma-separated, e.g. Python, React, SQL"
+              onChange={(e) => setSkillsDraft(e.target.value)}
+              onBlur={() =>
+                onChange({ ...data, skills: skillsDraft.split(',').map((s) => s.trim()).filter(Boolean) })
+              }
+            />
+          </label>
+
+          {SECTIONS.map(({ key, label, titlePlaceholder, subtitlePlaceholder }) => (
+            <div key={key} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <span style={labelStyle}>{label}</span>
+                <button type="button" style={linkButtonStyle} onClick={() => addEntry(key)}>
+                  + Add
+                </button>
+              </div>
+              {data[key].map((entry, i) => (
+                <div
+                  key={i}
+                  style={{
+                    display: 'grid',
+                    gridTemplateColumns: '1fr 1fr 8rem auto',
+                    gap: '0.4rem',
+                    padding: '0.6rem',
+                    borderRadius: '10px',
+                    background: 'rgba(255,255,255,0.02)',
+                  }}
+                >
+                  <input
+                    style={inputStyle}
+                    value={entry.title}
+                    placeholder={titlePlaceholder}
+                    aria-label={`${label} ${i + 1} title`}
+                    onChange={(e) => updateEntry(key, i, { title: e.target.value })}
+                  />
+                  <input
+                    style={inputStyle}
+                    value={entry.subtitle ?? ''}
+                    placeholder={subtitlePlaceholder}
+                    aria-label={`${label} ${i + 1} ${subtitlePlaceholder.toLowerCase()}`}
+                    onChange={(e) => updateEntry(key, i, { subtitle: e.target.value || undefined })}
+                  />
+                  <input
+                    style={inputStyle}
+                    value={entry.dates ?? ''}
+                    placeholder="Dates"
+                    aria-label={`${label} ${i + 1} dates`}
+                    onChange={(e) => updateEntry(key, i, { dates: e.target.value || undefined })}
+                  />
+                  <button
+                    type="button"
+                    style={{ ...linkButtonStyle, color: '#f87171' }}
+                    aria-label={`Remove ${label.toLowerCase()} ${i + 1}`}
+                    onClick={() => removeEntry(key, i)}
+                  >
+                    ✕
+                  </button>
+                  <textarea
+                    style={{ ...inputStyle, gridColumn: '1 / -1', resize: 'vertical', lineHeight: 1.45 }}
+                    rows={Math.min(5, Math.max(2, entry.bullets.length))}
+                    value={entry.bullets.join('\n')}
+                    placeholder="One highlight per line"
+                    aria-label={`${label} ${i + 1} highlights`}
+                    onChange={(e) => updateEntry(key, i, { bullets: e.target.value.split('\n') })}
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
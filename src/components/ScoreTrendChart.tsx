@@ -1,17 +1,12 @@
-import type { FeedbackResponse, OverallFeedback } from '../types';
+import type { FeedbackResponse } from '../types';
+import { feedbackDimensions } from '../config/rubrics';
 
 /* ─────────────────────────────────────────────
    CONSTANTS
 ───────────────────────────────────────────── */
 
-const DIMENSIONS: { key: keyof Pick<OverallFeedback, 'response_organization' | 'technical_knowledge' | 'problem_solving' | 'position_application' | 'timing' | 'personability'>; label: string; color: string }[] = [
-  { key: 'response_organization', label: 'Organization',    color: '#22d3ee' },
-  { key: 'technical_knowledge',   label: 'Technical',       color: '#f59e0b' },
-  { key: 'problem_solving',       label: 'Problem Solving', color: '#a78bfa' },
-  { key: 'position_application',  label: 'Position Fit',    color: '#34d399' },
-  { key: 'timing',                label: 'Timing',          color: '#6366f1' },
-  { key: 'personability',         label: 'Personability',   color: '#ec4899' },
-];
+/** Sparkline colors, assigned to the rubric's dimensions in order. */
+const DIMENSION_COLORS = ['#22d3ee', '#f59e0b', '#a78bfa', '#34d399', '#6366f1', '#ec4899', '#f87171', '#facc15'];
 
 /* ─────────────────────────────────────────────
    SPARKLINE GEOMETRY
@@ -230,16 +225,20 @@ export interface ScoreTrendChartProps {
 }
 
 export default function ScoreTrendChart({ currentResult, previousAttempts }: ScoreTrendChartProps) {
-  if (previousAttempts.length === 0) return null;
+  // Only attempts scored on the same dimensions can share a trend line
+  const dimensions = feedbackDimensions(currentResult);
+  const comparable = previousAttempts.filter(r => dimensions.every(d => r.overall.categories?.[d.key] != null));
+  if (comparable.length === 0) return null;
 
-  const allAttempts = [...previousAttempts, currentResult];
+  const allAttempts = [...comparable, currentResult];
   const attemptLabels = allAttempts.map((_, i) =>
     i === allAttempts.length - 1 ? 'Now' : `#${i + 1}`
   );
 
-  const dimensionValues = DIMENSIONS.map(d => ({
+  const dimensionValues = dimensions.map((d, i) => ({
     ...d,
-    values: allAttempts.map(r => r.overall[d.key]),
+    color: DIMENSION_COLORS[i % DIMENSION_COLORS.length],
+    values: allAttempts.map(r => r.overall.categories[d.key]),
   }));
 
   const avgValues = allAttempts.map(r => r.overall.score);
@@ -0,0 +1,104 @@
+import React from 'react';
+import type { CSSProperties } from 'react';
+import { STAR_PARTS, type StarAnalysis, type StarLabel } from '../services/starSegments';
+
+interface StarBreakdownProps {
+  transcript: string;
+  analysis: StarAnalysis;
+}
+
+const STAR_COLORS: Record<StarLabel, string> = {
+  situation: '#60a5fa',
+  task: '#a78bfa',
+  action: '#4ade80',
+  result: '#fbbf24',
+  other: 'transparent',
+};
+
+const STAR_LABELS: Record<StarLabel, string> = {
+  situation: 'Situation',
+  task: 'Task',
+  action: 'Action',
+  result: 'Result',
+  other: 'Other',
+};
+
+const textStyle: CSSProperties = {
+  margin: 0,
+  lineHeight: 1.75,
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+};
+
+const legendStyle: CSSProperties = {
+  display: 'flex',
+  flexWrap: 'wrap',
+  alignItems: 'center',
+  gap: '12px',
+  marginTop: '10px',
+  fontFamily: "'Josefin Sans', sans-serif",
+  fontSize: '11px',
+  color: 'rgba(148,163,184,0.7)',
+};
+
+const issueStyle: CSSProperties = {
+  margin: '6px 0 0',
+  fontSize: '12px',
+  color: '#fbbf24',
+};
+
+function segmentStyle(label: StarLabel): CSSProperties {
+  if (label === 'other') return {};
+  return {
+    background: `${STAR_COLORS[label]}1f`,
+    borderBottom: `2px solid ${STAR_COLORS[label]}`,
+    borderRadius: '2px',
+    padding: '1px 2px',
+  };
+}
+
+/** Transcript color-coded by STAR part, with each part's share of the answer and what to fix. */
+function StarBreakdown({ transcript, analysis }: StarBreakdownProps) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  analysis.segments.forEach((segment, i) => {
+    if (segment.start > cursor) parts.push(transcript.slice(cursor, segment.start));
+    parts.push(
+      <span key={i} style={segmentStyle(segment.label)} title={STAR_LABELS[segment.label]}>
+        {transcript.slice(segment.start, segment.end)}
+      </span>,
+    );
+    cursor = segment.end;
+  });
+  if (cursor < transcript.length) parts.push(transcript.slice(cursor));
+
+  return (
+    <div>
+      <p style={textStyle}>{parts}</p>
+      <div style={legendStyle}>
+        {STAR_PARTS.map((part) => (
+          <span key={part} style={{ display: 'inline-flex', alignItems: 'center', gap: '5px' }}>
+            <span
+              style={{
+                display: 'inline-block',
+                width: '14px',
+                height: '8px',
+                background: `${STAR_COLORS[part]}33`,
+                borderBottom: `2px solid ${STAR_COLORS[part]}`,
+                borderRadius: '2px',
+              }}
+            />
+            {STAR_LABELS[part]} {Math.round(analysis.parts[part].share * 100)}%
+          </span>
+        ))}
+      </div>
+      {analysis.issues.map((issue) => (
+        <p key={`${issue.part}-${issue.kind}`} style={issueStyle}>
+          {issue.message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export default React.memo(StarBreakdown);
@@ -1,10 +1,53 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
+import StarBreakdown from './StarBreakdown';
+import type { StarAnalysis } from '../services/starSegments';
+import type { QuoteSpan } from '../types';
+
+type HighlightType = 'positive' | 'negative';
 
 interface TranscriptReviewProps {
   transcript: string;
   question: string;
   audioBlob?: Blob | null;
   highlights?: { positive: string[]; negative: string[] };
+  /** Exact spans to highlight (e.g. the aligned best/worst quotes); used instead of matching `highlights` text. */
+  highlightSpans?: { span: QuoteSpan; type: HighlightType }[];
+  /** STAR segmentation; when given, the transcript is color-coded by part instead of highlighted. */
+  star?: StarAnalysis | null;
+}
+
+function highlightStyle(type: HighlightType): React.CSSProperties {
+  const isPositive = type === 'positive';
+  return {
+    background: isPositive ? 'rgba(34, 197, 94, 0.15)' : 'rgba(245, 158, 11, 0.15)',
+    borderBottom: `2px solid ${isPositive ? '#22c55e' : '#f59e0b'}`,
+    borderRadius: '2px',
+    padding: '1px 2px',
+  };
+}
+
+function highlightSpans(
+  text: string,
+  spans: { span: QuoteSpan; type: HighlightType }[],
+): React.ReactNode {
+  const ordered = spans
+    .filter(({ span }) => span.start >= 0 && span.end <= text.length && span.end > span.start)
+    .sort((a, b) => a.span.start - b.span.start);
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ordered.forEach(({ span, type }, i) => {
+    // Overlapping spans keep the earlier highlight
+    if (span.start < cursor) return;
+    if (span.start > cursor) parts.push(text.slice(cursor, span.start));
+    parts.push(
+      <span key={i} style={highlightStyle(type)}>
+        {text.slice(span.start, span.end)}
+      </span>,
+    );
+    cursor = span.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return parts;
 }
 
 function highlightTranscript(
@@ -50,17 +93,10 @@ function highlightTranscript(
     const phraseInfo = validPhrases.find(
       p => p.text.toLowerCase() === matchedText.toLowerCase(),
     );
-    const isPositive = phraseInfo?.type === 'positive';
-
     parts.push(
       <span
         key={key++}
-        style={{
-          background: isPositive ? 'rgba(34, 197, 94, 0.15)' : 'rgba(245, 158, 11, 0.15)',
-          borderBottom: `2px solid ${isPositive ? '#22c55e' : '#f59e0b'}`,
-          borderRadius: '2px',
-          padding: '1px 2px',
-        }}
+        style={highlightStyle(phraseInfo?.type ?? 'negative')}
       >
         {matchedText}
       </span>,
@@ -81,13 +117,15 @@ function TranscriptReview({
   question,
   audioBlob,
   highlights,
+  highlightSpans: spans,
+  star,
 }: TranscriptReviewProps) {
   const wordCount = transcript.trim() === '' ? 0 : transcript.trim().split(/\s+/).length;
 
   // Memoize highlighted transcript to avoid re-running regex on every render
   const highlightedContent = useMemo(
-    () => highlightTranscript(transcript, highlights),
-    [transcript, highlights],
+    () => (spans?.length ? highlightSpans(transcript, spans) : highlightTranscript(transcript, highlights)),
+    [transcript, highlights, spans],
   );
 
   const [isPlaying, setIsPlaying] = useState(false);
@@ -122,8 +160,9 @@ function TranscriptReview({
   }, []);
 
   const hasHighlights =
-    highlights &&
-    (highlights.positive.length > 0 || highlights.negative.length > 0);
+    !star &&
+    (Boolean(spans?.length) ||
+      (highlights && (highlights.positive.length > 0 || highlights.negative.length > 0)));
 
   return (
     <div
@@ -229,6 +268,16 @@ function TranscriptReview({
           >
             No transcript captured.
           </p>
+        ) : star ? (
+          <div
+            style={{
+              fontFamily: "'Josefin Sans', sans-serif",
+              fontSize: '14px',
+              color: 'rgba(226,232,240,0.82)',
+            }}
+          >
+            <StarBreakdown transcript={transcript} analysis={star} />
+          </div>
         ) : (
           <p
             style={{
@@ -1,3 +1,5 @@
+import type { ScriptDirective, ScriptRequest } from '../../shared/contract';
+
 export interface ScriptStep {
   trigger: string;
   triggerAliases?: string[];
@@ -6,36 +8,48 @@ export interface ScriptStep {
   // Hybrid response: use ONE of these (or both — response is fallback if AI fails)
   // Use string[] to chunk into separate TTS calls (guarantees no truncation)
   response?: string | string[];
-  aiDirective?: string;
+  /** A line /api/script writes from its own prompt for this directive. */
+  aiDirective?: ScriptDirective;
+  /** Template parameters sent with aiDirective. */
+  aiParams?: Pick<ScriptRequest, 'questionCount'>;
 }
 
 export interface PreInterviewScript {
-  systemPrompt: string;
   steps: ScriptStep[];
 }
 
-export const defaultScript: PreInterviewScript = {
-  systemPrompt: `You are Starly, a charismatic and energetic AI interview coach. You're hosting a live demo and should be warm, encouraging, and a little playful — think tech keynote energy, not corporate HR. Keep responses concise (1-3 sentences). Use the user's name if provided.`,
-
-  steps: [
-    {
-      trigger: 'Hi Starly',
-      triggerAliases: ['Hey Starly', 'Hello Starly', 'Hi Starley', 'Hey Starley'],
-      response: [
-        "Hey, welcome! I'm Starly, your interview coach — so excited to work with you today.",
-        "Are you ready to crush this?",
-      ],
-    },
-    {
-      trigger: "I'm ready",
-      triggerAliases: ['Yes', 'Ready', "Let's go", "Let's do it", 'Yeah', 'Yep', 'Sure', "We're ready"],
-      response: [
-        "Love the energy! I'll ask you a couple behavioral questions — just use the STAR framework.",
-        "Take your time, there's no rush. Let's do this!",
-      ],
-    },
-  ],
-};
+const COUNT_WORDS = ['no', 'one', 'a couple of', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'];
+
+function describeQuestionCount(count: number): string {
+  const words = COUNT_WORDS[count] ?? String(count);
+  return `${words} behavioral question${count === 1 ? '' : 's'}`;
+}
+
+/** The intro script, telling the candidate how many questions are coming. */
+export function buildPreInterviewScript(questionCount: number): PreInterviewScript {
+  return {
+    steps: [
+      {
+        trigger: 'Hi Starly',
+        triggerAliases: ['Hey Starly', 'Hello Starly', 'Hi Starley', 'Hey Starley'],
+        response: [
+          "Hey, welcome! I'm Starly, your interview coach — so excited to work with you today.",
+          "Are you ready to crush this?",
+        ],
+      },
+      {
+        trigger: "I'm ready",
+        triggerAliases: ['Yes', 'Ready', "Let's go", "Let's do it", 'Yeah', 'Yep', 'Sure', "We're ready"],
+        response: [
+          `Love the energy! I'll ask you ${describeQuestionCount(questionCount)} — just use the STAR framework.`,
+          "Take your time, there's no rush. Let's do this!",
+        ],
+      },
+    ],
+  };
+}
+
+export const defaultScript: PreInterviewScript = buildPreInterviewScript(2);
 
 /** Flatten response chunks into individual strings for TTS prefetching */
 export function getPreInterviewPrefetchTexts(script: PreInterviewScript = defaultScript): string[] {
@@ -0,0 +1,18 @@
+import type { Role } from '../types';
+
+/**
+ * Display side of the role registry. Question prompts, rubric weights and the
+ * coaching persona for each role live server-side in api/_lib/roles.ts.
+ */
+export const ROLE_LABELS: Record<Role, string> = {
+  swe_intern: 'SWE Intern',
+  pm_intern: 'PM Intern',
+  ml_intern: 'Data / ML Intern',
+  custom: 'Custom Role',
+};
+
+/** Custom roles show the user's own description instead of the generic label. */
+export function roleLabel(role: Role, customRole?: string | null): string {
+  if (role === 'custom' && customRole?.trim()) return customRole.trim();
+  return ROLE_LABELS[role] ?? role;
+}
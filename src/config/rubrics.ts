@@ -0,0 +1,66 @@
+import type { DeliveryBlend, FeedbackResponse, OverallFeedback, RubricDimension, RubricId } from '../types';
+
+/**
+ * Display side of the rubric registry. Categories, weights, level descriptors
+ * and anchor answers live server-side in api/_lib/rubrics.ts; /api/feedback
+ * returns the dimensions it scored, so screens render from the response.
+ */
+export const RUBRIC_OPTIONS: Record<RubricId, { label: string; hint: string }> = {
+  general: { label: 'General', hint: 'Organization, technical depth, problem solving, fit, timing and personability' },
+  star: { label: 'STAR', hint: 'Situation, task, action and result, plus communication and pacing' },
+};
+
+export const DEFAULT_RUBRIC: RubricId = 'general';
+
+/** Grader samples /api/feedback takes per answer when consistency scoring is on. */
+export const CONSISTENCY_SAMPLES = 3;
+
+/** Dimensions of the general rubric — what every session scored before rubrics were configurable. */
+export const GENERAL_DIMENSIONS: RubricDimension[] = [
+  { key: 'response_organization', label: 'Organization' },
+  { key: 'technical_knowledge', label: 'Technical' },
+  { key: 'problem_solving', label: 'Problem Solving' },
+  { key: 'position_application', label: 'Position Fit' },
+  { key: 'timing', label: 'Timing' },
+  { key: 'personability', label: 'Personability' },
+];
+
+/** Names of the measured delivery subscores (api/_lib/delivery.ts). */
+export const DELIVERY_PART_LABELS: Record<string, string> = {
+  pace: 'pace',
+  length: 'length',
+  fillers: 'filler words',
+  eye_contact: 'eye contact',
+  composure: 'composure',
+  confidence: 'confidence',
+};
+
+/** The blend behind a delivery-scored category, e.g. "60% grader (80) + 40% measured (87: pace 78 · length 100)". */
+export function deliveryFormula(blend: DeliveryBlend): string {
+  const pct = (n: number) => `${Math.round(n * 100)}%`;
+  const parts = Object.entries(blend.parts)
+    .map(([key, value]) => `${DELIVERY_PART_LABELS[key] ?? key} ${Math.round(value)}`)
+    .join(' · ');
+  return `${pct(1 - blend.weight)} grader (${Math.round(blend.model)}) + ${pct(blend.weight)} measured (${Math.round(blend.metric)}: ${parts})`;
+}
+
+/** Dimensions to render for a result: the rubric it was scored on, else the general rubric. */
+export function feedbackDimensions(feedback: Pick<FeedbackResponse, 'rubric'> | null | undefined): RubricDimension[] {
+  return feedback?.rubric?.dimensions ?? GENERAL_DIMENSIONS;
+}
+
+/**
+ * Overall feedback saved before rubrics were configurable kept each general
+ * category as its own field; move them under `categories`.
+ */
+export function migrateLegacyOverall(overall: OverallFeedback): OverallFeedback {
+  if (!overall || overall.categories) return overall;
+  const legacy = overall as unknown as Record<string, unknown>;
+  const categories: Record<string, number> = {};
+  const rest: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(legacy)) {
+    if (GENERAL_DIMENSIONS.some((d) => d.key === key)) categories[key] = Number(value) || 0;
+    else rest[key] = value;
+  }
+  return { ...(rest as unknown as Omit<OverallFeedback, 'categories'>), categories };
+}
@@ -0,0 +1,68 @@
+import type { Question, SessionLength, SessionLengthPreset } from '../types';
+import { FOLLOW_UP_TRANSITION } from '../services/followUps';
+
+/**
+ * Interview length: a preset question count or a time budget in minutes.
+ * A time budget is turned into a question count up front and also enforced
+ * during the interview — once it runs out, the current answer is the last.
+ */
+
+export const SESSION_LENGTH_PRESETS: Record<SessionLengthPreset, { label: string; questions: number }> = {
+  quick: { label: 'Quick', questions: 2 },
+  standard: { label: 'Standard', questions: 5 },
+  full: { label: 'Full', questions: 8 },
+};
+
+export const DEFAULT_SESSION_LENGTH: SessionLength = { mode: 'preset', preset: 'quick' };
+
+/** Reading the question, answering and the transition — a rough average. */
+export const MINUTES_PER_QUESTION = 3;
+export const MIN_BUDGET_MINUTES = 3;
+export const MAX_BUDGET_MINUTES = 45;
+const MAX_QUESTIONS = 12;
+
+export function questionCountFor(length: SessionLength): number {
+  if (length.mode === 'preset') return SESSION_LENGTH_PRESETS[length.preset].questions;
+  return Math.min(MAX_QUESTIONS, Math.max(1, Math.floor(length.minutes / MINUTES_PER_QUESTION)));
+}
+
+/** Seconds of interview time available, or null when the length is a question count. */
+export function timeBudgetSeconds(length: SessionLength): number | null {
+  return length.mode === 'time' ? length.minutes * 60 : null;
+}
+
+export function describeSessionLength(length: SessionLength): string {
+  const count = questionCountFor(length);
+  if (length.mode === 'time') return `${length.minutes} min · ~${count} question${count === 1 ? '' : 's'}`;
+  return `${SESSION_LENGTH_PRESETS[length.preset].label} · ${count} questions`;
+}
+
+/* ── Spoken transitions ── */
+
+export const NEXT_QUESTION_TRANSITION = "Great, let's move on to the next question.";
+export const HALFWAY_TRANSITION = "Nice work, we're about halfway there. Here's the next one.";
+export const LAST_QUESTION_TRANSITION = "Great. This is the last question.";
+export const FINISHED_NUDGE = 'Are you finished, or would you like to keep going?';
+
+/**
+ * Phrase spoken before the question at `nextIndex`. Longer interviews mark
+ * the halfway point and the last question so the candidate can pace themselves.
+ */
+export function transitionPhrase(questions: Question[], nextIndex: number): string {
+  const next = questions[nextIndex];
+  if (next?.parentId) return FOLLOW_UP_TRANSITION;
+
+  const mains = questions.filter((q) => !q.parentId);
+  const number = questions.slice(0, nextIndex + 1).filter((q) => !q.parentId).length;
+  if (mains.length > 2 && number === mains.length) return LAST_QUESTION_TRANSITION;
+  if (mains.length >= 5 && number === Math.floor(mains.length / 2) + 1) return HALFWAY_TRANSITION;
+  return NEXT_QUESTION_TRANSITION;
+}
+
+/** Question texts plus every transition/nudge phrase the interview can speak, for TTS prefetch. */
+export function interviewPrefetchTexts(questions: Question[]): string[] {
+  const texts = questions.map((q) => q.text);
+  for (let i = 1; i < questions.length; i++) texts.push(transitionPhrase(questions, i));
+  texts.push(FINISHED_NUDGE);
+  return [...new Set(texts)];
+}
@@ -2,14 +2,19 @@ import { createContext, useContext, useReducer, useMemo, useEffect } from 'react
 import type { ReactNode, Dispatch } from 'react';
 import type { InterviewState, InterviewAction, Session } from '../types';
 import { createLogger, withReducerLogging } from '../utils/logger';
+import { insertFollowUps } from '../services/followUps';
+import { DEFAULT_SESSION_LENGTH } from '../config/sessionLength';
+import { DEFAULT_RUBRIC, RUBRIC_OPTIONS } from '../config/rubrics';
+import { fetchRemoteSessions, flushSessionQueue, loadSessions, mergeSessions, persistSessions } from '../services/sessionStore';
+import { resumeScoringRun, subscribeScoring } from '../services/scoringJobs';
 
 const log = createLogger('Context');
 
-const STORAGE_KEY_SESSIONS = 'polyprompts-sessions';
 const STORAGE_KEY_PREFS = 'polyprompts-prefs';
 
 const initialState: InterviewState = {
   role: 'swe_intern',
+  customRole: null,
   difficulty: 'medium',
   questions: [],
   currentQuestionIndex: 0,
@@ -28,17 +33,24 @@ const initialState: InterviewState = {
   resumeData: null,
   resumeText: null,
   jobDescription: null,
+  jobProfile: null,
   candidateName: null,
   sessionHistory: [],
   ttsVoice: 'marin',
   ttsSpeed: 1.0,
   voiceSummary: null,
+  adaptiveFollowUps: false,
+  sessionLength: DEFAULT_SESSION_LENGTH,
+  rubric: DEFAULT_RUBRIC,
+  consistencyScoring: false,
 };
 
 function interviewReducer(state: InterviewState, action: InterviewAction): InterviewState {
   switch (action.type) {
     case 'SET_ROLE':
       return { ...state, role: action.payload };
+    case 'SET_CUSTOM_ROLE':
+      return { ...state, customRole: action.payload };
     case 'SET_DIFFICULTY':
       return { ...state, difficulty: action.payload };
     case 'SET_QUESTION':
@@ -53,6 +65,13 @@ function interviewReducer(state: InterviewState, action: InterviewAction): Inter
         questionResults: [],
       };
     }
+    case 'INSERT_FOLLOW_UPS': {
+      const { afterIndex, questions: followUps } = action.payload;
+      const questions = insertFollowUps(state.questions, afterIndex, followUps);
+      return { ...state, questions, currentQuestion: questions[state.currentQuestionIndex] ?? null };
+    }
+    case 'END_AFTER_QUESTION':
+      return { ...state, questions: state.questions.slice(0, action.payload.lastIndex + 1) };
     case 'SAVE_QUESTION_RESULT':
       return {
         ...state,
@@ -62,7 +81,15 @@ function interviewReducer(state: InterviewState, action: InterviewAction): Inter
       const { index, feedback } = action.payload;
       const updatedResults = [...state.questionResults];
       if (updatedResults[index]) {
-        updatedResults[index] = { ...updatedResults[index], feedback };
+        updatedResults[index] = { ...updatedResults[index], feedback, scoringError: undefined };
+      }
+      return { ...state, questionResults: updatedResults };
+    }
+    case 'SET_QUESTION_SCORING_ERROR': {
+      const { index, error } = action.payload;
+      const updatedResults = [...state.questionResults];
+      if (updatedResults[index]) {
+        updatedResults[index] = { ...updatedResults[index], scoringError: error };
       }
       return { ...state, questionResults: updatedResults };
     }
@@ -88,6 +115,8 @@ function interviewReducer(state: InterviewState, action: InterviewAction): Inter
       return { ...state, resumeText: action.payload };
     case 'SET_JOB_DESCRIPTION':
       return { ...state, jobDescription: action.payload };
+    case 'SET_JOB_PROFILE':
+      return { ...state, jobProfile: action.payload };
     case 'SET_CANDIDATE_NAME':
       return { ...state, candidateName: action.payload };
     case 'START_RECORDING':
@@ -100,17 +129,32 @@ function interviewReducer(state: InterviewState, action: InterviewAction): Inter
       return { ...state, ...action.payload };
     case 'START_SCORING':
       return { ...state, isScoring: true };
+    case 'SCORING_FAILED':
+      return { ...state, isScoring: false };
+    case 'RESCORE_QUESTION': {
+      const updatedResults = [...state.questionResults];
+      if (updatedResults[action.payload.index]) {
+        updatedResults[action.payload.index] = { ...updatedResults[action.payload.index], scoringError: undefined };
+      }
+      // The overall and its voice summary are rebuilt once the question is scored
+      return { ...state, questionResults: updatedResults, isScoring: true, voiceSummary: null };
+    }
+    case 'RESTORE_SCORING':
+      return { ...state, questionResults: action.payload, isScoring: true, feedbackResponse: null, voiceSummary: null };
     case 'SET_FEEDBACK_RESPONSE':
       return { ...state, isScoring: false, feedbackResponse: action.payload };
     case 'SET_TOTAL_DURATION':
       return { ...state, totalDurationSeconds: action.payload };
     case 'SET_VOICE_SUMMARY':
       return { ...state, voiceSummary: action.payload };
-    case 'RETRY':
+    case 'RETRY': {
+      // Follow-ups belong to the previous answers; the retry generates its own
+      const questions = state.questions.filter((q) => !q.parentId);
       return {
         ...state,
+        questions,
         currentQuestionIndex: 0,
-        currentQuestion: state.questions[0] ?? state.currentQuestion,
+        currentQuestion: questions[0] ?? state.currentQuestion,
         questionResults: [],
         isRecording: false,
         liveTranscript: '',
@@ -126,14 +170,25 @@ function interviewReducer(state: InterviewState, action: InterviewAction): Inter
         speakingDurationSeconds: 0,
         totalDurationSeconds: 0,
       };
+    }
     case 'SET_TTS_VOICE':
       return { ...state, ttsVoice: action.payload };
     case 'SET_TTS_SPEED':
       return { ...state, ttsSpeed: action.payload };
+    case 'SET_ADAPTIVE_FOLLOW_UPS':
+      return { ...state, adaptiveFollowUps: action.payload };
+    case 'SET_SESSION_LENGTH':
+      return { ...state, sessionLength: action.payload };
+    case 'SET_RUBRIC':
+      return { ...state, rubric: action.payload };
+    case 'SET_CONSISTENCY_SCORING':
+      return { ...state, consistencyScoring: action.payload };
     case 'NEXT_QUESTION':
-      return { ...initialState, role: state.role, difficulty: state.difficulty, resumeData: state.resumeData, resumeText: state.resumeText, jobDescription: state.jobDescription, candidateName: state.candidateName, sessionHistory: state.sessionHistory, ttsVoice: state.ttsVoice, ttsSpeed: state.ttsSpeed };
+      return { ...initialState, role: state.role, customRole: state.customRole, difficulty: state.difficulty, resumeData: state.resumeData, resumeText: state.resumeText, jobDescription: state.jobDescription, jobProfile: state.jobProfile, candidateName: state.candidateName, sessionHistory: state.sessionHistory, ttsVoice: state.ttsVoice, ttsSpeed: state.ttsSpeed, adaptiveFollowUps: state.adaptiveFollowUps, sessionLength: state.sessionLength, rubric: state.rubric, consistencyScoring: state.consistencyScoring };
     case 'SAVE_SESSION':
-      return { ...state, sessionHistory: [...state.sessionHistory, action.payload] };
+      return { ...state, sessionHistory: mergeSessions(state.sessionHistory, [action.payload]) };
+    case 'MERGE_SESSIONS':
+      return { ...state, sessionHistory: mergeSessions(state.sessionHistory, action.payload) };
     default:
       return state;
   }
@@ -147,19 +202,12 @@ interface InterviewContextValue {
 const InterviewContext = createContext<InterviewContextValue | null>(null);
 
 export function InterviewProvider({ children }: { children: ReactNode }) {
-  const savedSessions = useMemo<Session[]>(() => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY_SESSIONS);
-      return stored ? (JSON.parse(stored) as Session[]) : [];
-    } catch {
-      return [];
-    }
-  }, []);
+  const savedSessions = useMemo<Session[]>(() => loadSessions(), []);
 
   const savedPrefs = useMemo(() => {
     try {
       const stored = localStorage.getItem(STORAGE_KEY_PREFS);
-      return stored ? (JSON.parse(stored) as { role?: InterviewState['role']; difficulty?: InterviewState['difficulty']; ttsVoice?: string; ttsSpeed?: number }) : {};
+      return stored ? (JSON.parse(stored) as { role?: InterviewState['role']; customRole?: string; difficulty?: InterviewState['difficulty']; ttsVoice?: string; ttsSpeed?: number; adaptiveFollowUps?: boolean; sessionLength?: InterviewState['sessionLength']; rubric?: InterviewState['rubric']; consistencyScoring?: boolean }) : {};
     } catch {
       return {};
     }
@@ -170,20 +218,67 @@ export function InterviewProvider({ children }: { children: ReactNode }) {
     ...initialState,
     sessionHistory: savedSessions,
     ...(savedPrefs.role ? { role: savedPrefs.role } : {}),
+    ...(savedPrefs.customRole ? { customRole: savedPrefs.customRole } : {}),
     ...(savedPrefs.difficulty ? { difficulty: savedPrefs.difficulty } : {}),
     ...(savedPrefs.ttsVoice ? { ttsVoice: savedPrefs.ttsVoice } : {}),
     ...(savedPrefs.ttsSpeed != null ? { ttsSpeed: savedPrefs.ttsSpeed } : {}),
+    ...(savedPrefs.adaptiveFollowUps != null ? { adaptiveFollowUps: savedPrefs.adaptiveFollowUps } : {}),
+    ...(savedPrefs.sessionLength ? { sessionLength: savedPrefs.sessionLength } : {}),
+    ...(savedPrefs.rubric && savedPrefs.rubric in RUBRIC_OPTIONS ? { rubric: savedPrefs.rubric } : {}),
+    ...(savedPrefs.consistencyScoring != null ? { consistencyScoring: savedPrefs.consistencyScoring } : {}),
   });
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_SESSIONS, JSON.stringify(state.sessionHistory));
-    log.debug('Persisted sessions', { count: state.sessionHistory.length });
+    persistSessions(state.sessionHistory);
   }, [state.sessionHistory]);
 
+  // Backend sync: push anything queued offline, then pull history this browser doesn't have
+  useEffect(() => {
+    let cancelled = false;
+    void flushSessionQueue().then(() => fetchRemoteSessions()).then((remote) => {
+      if (cancelled || remote.length === 0) return;
+      log.info('Merging remote sessions', { count: remote.length });
+      dispatch({ type: 'MERGE_SESSIONS', payload: remote });
+    });
+
+    const handleOnline = () => void flushSessionQueue();
+    window.addEventListener('online', handleOnline);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', handleOnline);
+    };
+  }, []);
+
+  // Scoring runs outlive the interview screen (and a reload); their results land here
+  useEffect(() => {
+    const unsubscribe = subscribeScoring((event) => {
+      switch (event.type) {
+        case 'question':
+          dispatch({ type: 'UPDATE_QUESTION_FEEDBACK', payload: { index: event.index, feedback: event.feedback } });
+          break;
+        case 'question_error':
+          dispatch({ type: 'SET_QUESTION_SCORING_ERROR', payload: { index: event.index, error: event.error } });
+          break;
+        case 'restored':
+          dispatch({ type: 'RESTORE_SCORING', payload: event.results });
+          break;
+        case 'complete':
+          dispatch({ type: 'SET_FEEDBACK_RESPONSE', payload: event.feedback });
+          dispatch({ type: 'SAVE_SESSION', payload: event.session });
+          break;
+        case 'failed':
+          dispatch({ type: 'SCORING_FAILED' });
+          break;
+      }
+    });
+    resumeScoringRun();
+    return unsubscribe;
+  }, []);
+
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_PREFS, JSON.stringify({ role: state.role, difficulty: state.difficulty, ttsVoice: state.ttsVoice, ttsSpeed: state.ttsSpeed }));
+    localStorage.setItem(STORAGE_KEY_PREFS, JSON.stringify({ role: state.role, customRole: state.customRole, difficulty: state.difficulty, ttsVoice: state.ttsVoice, ttsSpeed: state.ttsSpeed, adaptiveFollowUps: state.adaptiveFollowUps, sessionLength: state.sessionLength, rubric: state.rubric, consistencyScoring: state.consistencyScoring }));
     log.debug('Persisted prefs', { role: state.role, difficulty: state.difficulty });
-  }, [state.role, state.difficulty, state.ttsVoice, state.ttsSpeed]);
+  }, [state.role, state.customRole, state.difficulty, state.ttsVoice, state.ttsSpeed, state.adaptiveFollowUps, state.sessionLength, state.rubric, state.consistencyScoring]);
 
   useEffect(() => {
     log.info('Provider mounted', { savedSessions: savedSessions.length });
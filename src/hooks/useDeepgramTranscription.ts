@@ -1,5 +1,7 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { createLogger } from '../utils/logger';
+import { ApiError, requestApi } from '../services/api';
+import { routes } from '../../shared/contract';
 import type { TimestampedWord } from '../types';
 
 const log = createLogger('Deepgram');
@@ -15,14 +17,26 @@ const log = createLogger('Deepgram');
  *   getFullTranscript() — snapshot of accumulated text
  */
 
+// VITE_DEEPGRAM_URL points at the offline mock server under `npm run dev:mock`
 const DEEPGRAM_WS_URL =
-  'wss://api.deepgram.com/v1/listen?' +
+  (import.meta.env.VITE_DEEPGRAM_URL || 'wss://api.deepgram.com') + '/v1/listen?' +
   'model=nova-2&language=en-US&smart_format=true&filler_words=true' +
   '&interim_results=true&utterance_end_ms=1000' +
   '&encoding=linear16&sample_rate=16000&channels=1';
 
 const BUFFER_SIZE = 4096;
 
+/** A short-lived access token from /api/deepgram-token, or null (logged) when the server can't mint one. */
+async function fetchDeepgramToken(): Promise<string | null> {
+  try {
+    const { token } = await requestApi(routes.deepgramToken, 'Deepgram token request failed');
+    return token;
+  } catch (err) {
+    log.error('Deepgram token request failed', err instanceof ApiError ? { status: err.status, code: err.code, error: err.message } : { error: String(err) });
+    return null;
+  }
+}
+
 export function useDeepgramTranscription() {
   const [finalTranscript, setFinalTranscript] = useState('');
   const [interimTranscript, setInterimTranscript] = useState('');
@@ -41,15 +55,12 @@ export function useDeepgramTranscription() {
     setInterimTranscript('');
     wordsRef.current = [];
 
-    // 1. Get Deepgram API key from env
-    const dgKey = (import.meta.env.VITE_DEEPGRAM_API_KEY ?? '').trim();
-    if (!dgKey) {
-      log.error('No API key available. Set VITE_DEEPGRAM_API_KEY in .env');
-      return;
-    }
+    // 1. Get a short-lived Deepgram token from the server
+    const token = await fetchDeepgramToken();
+    if (!token || stoppedRef.current) return;
 
     // 2. Open WebSocket to Deepgram
-    const ws = new WebSocket(DEEPGRAM_WS_URL, ['token', dgKey]);
+    const ws = new WebSocket(DEEPGRAM_WS_URL, ['bearer', token]);
     wsRef.current = ws;
 
     ws.onopen = () => {
@@ -2,10 +2,18 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useInterview } from "../context/InterviewContext";
 import { useTTS } from "../hooks/useTTS";
-import { factCheck } from "../services/api";
-import { prefetchTTS } from "../services/openai";
-import { findQuoteTimeRange } from "../utils/quoteTimestamps";
-import type { FactCheckResult, FaceMetrics } from "../types";
+import { factCheck, labelStarSentences } from "../services/api";
+import { generateVoiceSummary, prefetchTTS } from "../services/openai";
+import { rescoreQuestion } from "../services/scoringJobs";
+import { roleLabel } from "../config/roles";
+import { deliveryFormula, feedbackDimensions } from "../config/rubrics";
+import { competencyCoverage, type CoverageStatus } from "../services/jobProfile";
+import { analyzeStar, splitSentences, type StarLabel } from "../services/starSegments";
+import StarBreakdown from "../components/StarBreakdown";
+import HistoryAccount from "../components/HistoryAccount";
+import { isSupabaseConfigured } from "../services/supabase";
+import { quoteTimeRange } from "../utils/quoteTimestamps";
+import type { FactCheckResult, FaceMetrics, QuoteSpan } from "../types";
 import "./FeedbackScreen.css";
 import { createLogger } from "../utils/logger";
 
@@ -13,18 +21,7 @@ const log = createLogger("Feedback");
 
 const FEEDBACK_TTS_INSTRUCTIONS = 'Calm, measured delivery. Speak like a thoughtful coach giving a one-on-one debrief — unhurried, direct, matter-of-fact. Pause briefly before key advice. No cheerfulness or hype.';
 
-const dimensions = [
-  { key: "response_organization", label: "Organization" },
-  { key: "technical_knowledge", label: "Technical" },
-  { key: "problem_solving", label: "Problem Solving" },
-  { key: "position_application", label: "Position Fit" },
-  { key: "timing", label: "Timing" },
-  { key: "personability", label: "Personability" },
-] as const;
-
-type DimensionKey = (typeof dimensions)[number]["key"];
-
-type GuidedPhase = 'idle' | 'intro' | 'clip-best' | 'narrate-best' | 'clip-worst' | 'narrate-worst' | 'outro';
+type GuidedPhase = 'idle' | 'intro' | 'clip-best' | 'narrate-best' | 'clip-worst' | 'narrate-worst' | 'narrate-star' | 'outro';
 
 const guidedPhaseLabel: Record<GuidedPhase, string> = {
   idle: '',
@@ -33,9 +30,17 @@ const guidedPhaseLabel: Record<GuidedPhase, string> = {
   'narrate-best': 'Explaining strength',
   'clip-worst': 'Playing area to improve',
   'narrate-worst': 'Explaining improvement',
+  'narrate-star': 'Checking STAR structure',
   outro: 'Closing summary',
 };
 
+function coverageLabel(status: CoverageStatus, questionNumbers: number[]): string {
+  const qs = questionNumbers.map((n) => `Q${n}`).join(", ");
+  if (status === "demonstrated") return `Demonstrated · ${qs}`;
+  if (status === "asked") return `Asked in ${qs} · not shown`;
+  return "Not covered";
+}
+
 export default function FeedbackScreen() {
   const { state, dispatch } = useInterview();
   const navigate = useNavigate();
@@ -45,9 +50,22 @@ export default function FeedbackScreen() {
   const hasMultipleResults = questionResults.length > 0;
   const feedbackResponse = state.feedbackResponse;
   const overall = feedbackResponse?.overall ?? null;
+  // Per-question feedback streams in before the overall; null until scored (or if scoring failed)
+  const questionFeedback = useMemo(() => questionResults.map((qr) => qr.feedback), [questionResults]);
+  const scoredCount = questionFeedback.filter(Boolean).length;
+  // Whatever the rubric the interview was scored on declares
+  const dimensions = feedbackDimensions(feedbackResponse);
+  const angleStep = 360 / dimensions.length;
 
   const overallPercent = overall ? Math.round(overall.score) : 0;
   const hasResult = Boolean(feedbackResponse);
+  const hasScores = hasResult || scoredCount > 0;
+
+  // Which of the job description's competencies the answers demonstrated
+  const coverage = useMemo(
+    () => (state.jobProfile?.competencies.length ? competencyCoverage(state.jobProfile, questionResults) : null),
+    [state.jobProfile, questionResults],
+  );
 
   // Average face metrics across all questions that have them
   const avgFaceMetrics = useMemo((): FaceMetrics | null => {
@@ -74,6 +92,41 @@ export default function FeedbackScreen() {
     };
   }, [questionResults]);
 
+  // STAR labels per answer and the transcript they label, fetched once feedback is in; null where segmentation failed
+  const [starLabels, setStarLabels] = useState<Record<number, { transcript: string; labels: StarLabel[] | null }>>({});
+  // Transcript each answer was last sent for (in flight or done), so each is labelled once
+  const starRequested = useRef(new Map<number, string>());
+
+  useEffect(() => {
+    if (!hasResult) return;
+    questionResults.forEach((qr, idx) => {
+      const { transcript } = qr;
+      if (starRequested.current.get(idx) === transcript) return;
+      const sentences = splitSentences(transcript).map((s) => s.text);
+      if (sentences.length === 0) return;
+      starRequested.current.set(idx, transcript);
+      const settle = (labels: StarLabel[] | null) => {
+        // A newer transcript for this answer was sent meanwhile
+        if (starRequested.current.get(idx) !== transcript) return;
+        setStarLabels((prev) => ({ ...prev, [idx]: { transcript, labels } }));
+      };
+      labelStarSentences(qr.question.text, sentences)
+        .then(settle)
+        .catch((err) => {
+          log.warn("STAR segmentation failed", { questionIdx: idx, error: String(err) });
+          settle(null);
+        });
+    });
+  }, [hasResult, questionResults]);
+
+  const starAnalyses = useMemo(
+    () => questionResults.map((qr, idx) => {
+      const entry = starLabels[idx];
+      return entry?.labels && entry.transcript === qr.transcript ? analyzeStar(qr.transcript, entry.labels, qr.wordTimestamps) : null;
+    }),
+    [questionResults, starLabels],
+  );
+
   // ─── Video blob URL management ───
   const [videoBlobUrls, setVideoBlobUrls] = useState<Record<number, string>>({});
   const [playingVideoIdx, setPlayingVideoIdx] = useState<number | null>(null);
@@ -88,7 +141,7 @@ export default function FeedbackScreen() {
   const guidedCancelledRef = useRef(false);
   const clipResolveRef = useRef<(() => void) | null>(null);
 
-  const handlePlayClip = useCallback((questionIdx: number, quote: string) => {
+  const handlePlayClip = useCallback((questionIdx: number, quote: string, span?: QuoteSpan) => {
     // Cancel guided review if active
     if (guidedPhase !== 'idle') {
       guidedCancelledRef.current = true;
@@ -103,7 +156,7 @@ export default function FeedbackScreen() {
     const qr = questionResults[questionIdx];
     if (!qr?.wordTimestamps?.length) return;
 
-    const range = findQuoteTimeRange(quote, qr.wordTimestamps);
+    const range = quoteTimeRange(quote, qr.wordTimestamps, qr.transcript, span);
     if (!range) {
       log.warn('No matching time range for quote', { questionIdx, quote: quote.slice(0, 50) });
       return;
@@ -117,7 +170,7 @@ export default function FeedbackScreen() {
     void video.play();
   }, [questionResults, guidedPhase, stopPlayback]);
 
-  const playClipAsync = useCallback((questionIdx: number, quote: string): Promise<void> => {
+  const playClipAsync = useCallback((questionIdx: number, quote: string, span?: QuoteSpan): Promise<void> => {
     return new Promise<void>((resolve) => {
       const qr = questionResults[questionIdx];
       if (!qr?.wordTimestamps?.length || !videoBlobUrls[questionIdx]) {
@@ -125,7 +178,7 @@ export default function FeedbackScreen() {
         return;
       }
 
-      const range = findQuoteTimeRange(quote, qr.wordTimestamps);
+      const range = quoteTimeRange(quote, qr.wordTimestamps, qr.transcript, span);
       if (!range) {
         log.warn('Guided: no matching time range', { questionIdx });
         resolve();
@@ -165,10 +218,10 @@ export default function FeedbackScreen() {
 
   const runGuidedReview = useCallback(async () => {
     const { ttsVoice } = state;
-    const questions = feedbackResponse?.questions ?? [];
+    const questions = questionFeedback;
     const overallData = feedbackResponse?.overall;
 
-    if (!overallData || questions.length === 0) return;
+    if (!overallData || scoredCount === 0) return;
 
     guidedCancelledRef.current = false;
     setReviewOpen(true);
@@ -181,10 +234,12 @@ export default function FeedbackScreen() {
     const introText = `Let's review your interview. You scored ${Math.round(overallData.score)}% overall. Let me walk you through each question.`;
     const outroText = overallData.summary || 'That completes your interview review. Keep practicing!';
     const allTexts = [introText];
-    for (const q of questions) {
-      if (q.best_part_explanation) allTexts.push(q.best_part_explanation);
-      if (q.worst_part_explanation) allTexts.push(q.worst_part_explanation);
-    }
+    questions.forEach((q, idx) => {
+      if (q?.best_part_explanation) allTexts.push(q.best_part_explanation);
+      if (q?.worst_part_explanation) allTexts.push(q.worst_part_explanation);
+      const starIssue = starAnalyses[idx]?.issues[0];
+      if (starIssue) allTexts.push(starIssue.message);
+    });
     allTexts.push(outroText);
     prefetchTTS(allTexts, ttsVoice, 1.0, FEEDBACK_TTS_INSTRUCTIONS);
 
@@ -199,6 +254,7 @@ export default function FeedbackScreen() {
       if (guidedCancelledRef.current) return;
 
       const qFeedback = questions[idx];
+      if (!qFeedback) continue;
       setGuidedQuestionIdx(idx);
 
       // Scroll question into view
@@ -209,7 +265,7 @@ export default function FeedbackScreen() {
       // Best part
       if (qFeedback.best_part_quote) {
         setGuidedPhase('clip-best');
-        await playClipAsync(idx, qFeedback.best_part_quote);
+        await playClipAsync(idx, qFeedback.best_part_quote, qFeedback.best_part_span);
         if (guidedCancelledRef.current) return;
 
         setGuidedPhase('narrate-best');
@@ -220,13 +276,21 @@ export default function FeedbackScreen() {
       // Worst part
       if (qFeedback.worst_part_quote) {
         setGuidedPhase('clip-worst');
-        await playClipAsync(idx, qFeedback.worst_part_quote);
+        await playClipAsync(idx, qFeedback.worst_part_quote, qFeedback.worst_part_span);
         if (guidedCancelledRef.current) return;
 
         setGuidedPhase('narrate-worst');
         try { await speak(qFeedback.worst_part_explanation, { voice: ttsVoice, speed: 1.0, instructions: FEEDBACK_TTS_INSTRUCTIONS }); } catch { /* interrupted */ }
         if (guidedCancelledRef.current) return;
       }
+
+      // The most important STAR problem, e.g. a missing or one-line Result
+      const starIssue = starAnalyses[idx]?.issues[0];
+      if (starIssue) {
+        setGuidedPhase('narrate-star');
+        try { await speak(starIssue.message, { voice: ttsVoice, speed: 1.0, instructions: FEEDBACK_TTS_INSTRUCTIONS }); } catch { /* interrupted */ }
+        if (guidedCancelledRef.current) return;
+      }
     }
 
     // Outro
@@ -237,7 +301,32 @@ export default function FeedbackScreen() {
 
     setGuidedPhase('idle');
     setGuidedQuestionIdx(0);
-  }, [state, feedbackResponse, speak, playClipAsync]);
+  }, [state, feedbackResponse, questionFeedback, scoredCount, speak, playClipAsync, starAnalyses]);
+
+  // ─── Voice summary: written (and its audio prefetched) once the overall is in ───
+  const summarizedForRef = useRef<typeof feedbackResponse>(null);
+
+  useEffect(() => {
+    if (!feedbackResponse || state.voiceSummary || summarizedForRef.current === feedbackResponse) return;
+    summarizedForRef.current = feedbackResponse;
+    generateVoiceSummary(feedbackResponse)
+      .then((summaryText) => {
+        prefetchTTS([summaryText], state.ttsVoice, 1.0, FEEDBACK_TTS_INSTRUCTIONS);
+        dispatch({ type: 'SET_VOICE_SUMMARY', payload: summaryText });
+        log.info('Voice summary ready', { length: summaryText.length });
+      })
+      .catch((err) => {
+        log.warn('Voice summary generation failed', { error: String(err) });
+      });
+  }, [feedbackResponse, state.voiceSummary, state.ttsVoice, dispatch]);
+
+  const handleRescore = useCallback((idx: number) => {
+    if (!rescoreQuestion(idx)) {
+      log.warn('Nothing to re-score for this question', { idx });
+      return;
+    }
+    dispatch({ type: 'RESCORE_QUESTION', payload: { index: idx } });
+  }, [dispatch]);
 
   // ─── Auto-play voice summary on mount ───
   const hasPlayedSummaryRef = useRef(false);
@@ -299,6 +388,8 @@ export default function FeedbackScreen() {
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   const [radarProgress, setRadarProgress] = useState(0);
+  // null shows the whole interview; otherwise the index of the question the radar breaks down
+  const [selectedQuestion, setSelectedQuestion] = useState<number | null>(null);
   const animationRef = useRef<number | null>(null);
   const [reviewOpen, setReviewOpen] = useState(false);
 
@@ -312,7 +403,7 @@ export default function FeedbackScreen() {
       cancelAnimationFrame(animationRef.current);
     }
 
-    if (!feedbackResponse) {
+    if (!hasScores) {
       setRadarProgress(0);
       return;
     }
@@ -339,7 +430,7 @@ export default function FeedbackScreen() {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [feedbackResponse]);
+  }, [hasScores, feedbackResponse, selectedQuestion]);
 
   // Prefetch all guided review TTS as soon as feedback arrives
   useEffect(() => {
@@ -360,15 +451,23 @@ export default function FeedbackScreen() {
     prefetchTTS(allTexts, state.ttsVoice, 1.0, FEEDBACK_TTS_INSTRUCTIONS);
   }, [feedbackResponse, state.ttsSpeed, state.ttsVoice]);
 
-  const getDimensionValue = (key: DimensionKey): number => {
-    if (!overall) return 0;
-    return (overall[key] ?? 0) / 100;
+  const selectedFeedback = selectedQuestion !== null ? questionFeedback[selectedQuestion] ?? null : null;
+  const selectedCategories = selectedFeedback?.categories ?? null;
+  const shownScore = selectedFeedback ? selectedFeedback.score : overall?.score ?? 0;
+  const shownConfidence = selectedFeedback ? selectedFeedback.confidence_score : overall?.confidence_score;
+  // Dimensions that some question scored partly from measured delivery
+  const deliveryLabels = dimensions
+    .filter((d) => questionFeedback.some((q) => q?.delivery?.[d.key]))
+    .map((d) => d.label);
+
+  const getDimensionScore = (key: string): number => {
+    if (selectedCategories) return selectedCategories[key]?.score ?? 0;
+    return overall?.categories[key] ?? 0;
   };
 
-  const getDimensionPercent = (key: DimensionKey): number => {
-    if (!overall) return 0;
-    return Math.round(overall[key] ?? 0);
-  };
+  const getDimensionValue = (key: string): number => getDimensionScore(key) / 100;
+
+  const getDimensionPercent = (key: string): number => Math.round(getDimensionScore(key));
 
   const radarPoints = () => {
     const center = 150;
@@ -377,7 +476,7 @@ export default function FeedbackScreen() {
     const hasAnyScore = rawRatios.some((value) => value > 0);
     return dimensions
       .map((_dimension, index) => {
-        const angle = (-90 + index * 60) * (Math.PI / 180);
+        const angle = (-90 + index * angleStep) * (Math.PI / 180);
         const baseValue = rawRatios[index];
         const value = hasAnyScore && baseValue === 0 ? 0.02 : baseValue;
         const r = radius * value * radarProgress;
@@ -393,7 +492,7 @@ export default function FeedbackScreen() {
     const radius = 110 * ratio;
     return dimensions
       .map((_, index) => {
-        const angle = (-90 + index * 60) * (Math.PI / 180);
+        const angle = (-90 + index * angleStep) * (Math.PI / 180);
         const x = center + radius * Math.cos(angle);
         const y = center + radius * Math.sin(angle);
         return `${x},${y}`;
@@ -454,6 +553,36 @@ export default function FeedbackScreen() {
 
         <section className="feedback__main">
           <div className="feedback__left">
+            {questionFeedback.some((q) => q?.categories) && (
+              <div className="scoreboard__tabs" role="tablist" aria-label="Score breakdown">
+                <button
+                  type="button"
+                  role="tab"
+                  aria-selected={selectedQuestion === null}
+                  className={`scoreboard__tab${selectedQuestion === null ? " scoreboard__tab--active" : ""}`}
+                  onClick={() => setSelectedQuestion(null)}
+                >
+                  Overall
+                </button>
+                {questionFeedback.map((q, idx) => (
+                  <button
+                    key={idx}
+                    type="button"
+                    role="tab"
+                    aria-selected={selectedQuestion === idx}
+                    className={`scoreboard__tab${selectedQuestion === idx ? " scoreboard__tab--active" : ""}${q?.disagreement ? " scoreboard__tab--uncertain" : ""}`}
+                    onClick={() => setSelectedQuestion(idx)}
+                    disabled={!q?.categories}
+                    title={questionResults[idx]?.scoringError ?? questionResults[idx]?.question.text}
+                  >
+                    Q{idx + 1}
+                    {questionResults[idx]?.question.parentId ? " · follow-up" : ""}
+                    {q?.disagreement ? " · ~" : ""}
+                    {!q && (questionResults[idx]?.scoringError ? " · failed" : " · …")}
+                  </button>
+                ))}
+              </div>
+            )}
             <div className="scoreboard">
             <div className="scoreboard__radar">
               <svg
@@ -513,7 +642,7 @@ export default function FeedbackScreen() {
                 />
 
                 {dimensions.map((_, index) => {
-                  const angle = (-90 + index * 60) * (Math.PI / 180);
+                  const angle = (-90 + index * angleStep) * (Math.PI / 180);
                   const x = 150 + 110 * Math.cos(angle);
                   const y = 150 + 110 * Math.sin(angle);
                   return (
@@ -537,11 +666,11 @@ export default function FeedbackScreen() {
                   strokeWidth="1.2"
                   filter="url(#softGlow)"
                   className="scoreboard__shape"
-                  opacity={hasResult ? 0.9 : 0.15}
+                  opacity={hasResult || selectedFeedback ? 0.9 : 0.15}
                 />
 
                 {dimensions.map((dimension, index) => {
-                  const angle = (-90 + index * 60) * (Math.PI / 180);
+                  const angle = (-90 + index * angleStep) * (Math.PI / 180);
                   const labelRadius = 120;
                   const x = 150 + labelRadius * Math.cos(angle);
                   const y = 150 + labelRadius * Math.sin(angle);
@@ -573,12 +702,18 @@ export default function FeedbackScreen() {
               </svg>
 
               <div className="scoreboard__overall">
-                <span>Overall</span>
-                <strong>{overallPercent}%</strong>
+                <span>{selectedFeedback ? `Question ${(selectedQuestion ?? 0) + 1}` : "Overall"}</span>
+                <strong>{Math.round(shownScore)}%</strong>
                 <em>
-                  {hasResult ? "Composite score" : "Awaiting scoring"}
+                  {selectedFeedback
+                    ? "Question score"
+                    : hasResult
+                      ? "Composite score"
+                      : state.isScoring
+                        ? `Scoring answers · ${scoredCount}/${questionResults.length}`
+                        : "Awaiting scoring"}
                 </em>
-                {hasResult && overall?.confidence_score != null && (
+                {(hasResult || selectedFeedback) && shownConfidence != null && (
                   <span style={{
                     fontSize: '0.75rem',
                     color: '#b3b3b3',
@@ -586,21 +721,41 @@ export default function FeedbackScreen() {
                     display: 'block',
                     letterSpacing: '0.1em',
                   }}>
-                    {Math.round(overall.confidence_score)}% confidence
+                    {Math.round(shownConfidence)}% confidence
                   </span>
                 )}
+                {selectedFeedback?.score_interval && (
+                  <span className="scoreboard__interval">
+                    {Math.round(selectedFeedback.score_interval[0])}–{Math.round(selectedFeedback.score_interval[1])} across {feedbackResponse?.sampling?.samples ?? "several"} gradings
+                  </span>
+                )}
+                {selectedFeedback?.disagreement && (
+                  <span className="scoreboard__uncertain">The gradings disagreed on this answer — read the score as rough</span>
+                )}
               </div>
             </div>
 
             <div className="scoreboard__list">
               {dimensions.map((dimension) => {
                 const percent = getDimensionPercent(dimension.key);
+                const reason = selectedCategories?.[dimension.key]?.reason;
+                // Range across grader samples (consistency scoring, question view only)
+                const range = selectedCategories?.[dimension.key]?.interval;
+                const blend = selectedFeedback?.delivery?.[dimension.key];
+                // How much this category moved between questions (overall view only)
+                const spread = !selectedFeedback && (feedbackResponse?.questions.length ?? 0) > 1
+                  ? overall?.aggregation?.category_std_dev[dimension.key]
+                  : undefined;
                 return (
                   <div key={dimension.key} className="scoreboard__row">
                     <div className="scoreboard__row-header">
                       <div>
                         <p>{dimension.label}</p>
-                        <span>{percent > 0 ? `${percent}/100` : "Pending"}</span>
+                        <span>
+                          {percent > 0 ? `${percent}/100` : "Pending"}
+                          {percent > 0 && spread != null ? ` · ±${Math.round(spread)} across questions` : ""}
+                          {percent > 0 && range ? ` · ${Math.round(range[0])}–${Math.round(range[1])} across gradings` : ""}
+                        </span>
                       </div>
                       <strong>{percent}%</strong>
                     </div>
@@ -609,10 +764,23 @@ export default function FeedbackScreen() {
                         className="scoreboard__bar-fill"
                         style={{ width: `${percent}%` }}
                       />
+                      {range && range[1] > range[0] && (
+                        <div
+                          className="scoreboard__bar-range"
+                          style={{ left: `${range[0]}%`, width: `${range[1] - range[0]}%` }}
+                        />
+                      )}
                     </div>
+                    {blend && <p className="scoreboard__formula">= {deliveryFormula(blend)}</p>}
+                    {reason && <p className="scoreboard__note">{reason}</p>}
                   </div>
                 );
               })}
+              {!selectedFeedback && deliveryLabels.length > 0 && (
+                <p className="scoreboard__formula">
+                  {deliveryLabels.join(" and ")} blend the grader&apos;s score with measured pace, filler words and eye contact — pick a question to see the formula.
+                </p>
+              )}
             </div>
           </div>
           <div className="feedback__card feedback__card--review">
@@ -686,7 +854,7 @@ export default function FeedbackScreen() {
                 )}
                 {hasMultipleResults ? (
                   questionResults.map((qr, idx) => {
-                    const qFeedback = feedbackResponse?.questions[idx] ?? null;
+                    const qFeedback = qr.feedback;
                     const fcResult = factcheckResults[idx];
                     const fcLoading = factcheckLoading[idx];
                     return (
@@ -706,12 +874,20 @@ export default function FeedbackScreen() {
                         }}
                       >
                         <div className="feedback__review-block">
-                          <span>Question {idx + 1}</span>
+                          <span>
+                            Question {idx + 1}
+                            {qr.question.parentId ? ' · follow-up' : ''}
+                            {qr.question.category && qr.question.category !== 'behavioral' ? ` · ${qr.question.category}` : ''}
+                          </span>
                           <p>{qr.question.text}</p>
                         </div>
                         <div className="feedback__review-block">
                           <span>Your Response</span>
-                          <p>{qr.transcript || "Response will appear after recording."}</p>
+                          {starAnalyses[idx] ? (
+                            <StarBreakdown transcript={qr.transcript} analysis={starAnalyses[idx]} />
+                          ) : (
+                            <p>{qr.transcript || "Response will appear after recording."}</p>
+                          )}
                         </div>
                         {videoBlobUrls[idx] && (
                           <div style={{ position: 'relative', borderRadius: '10px', overflow: 'hidden' }}>
@@ -792,6 +968,38 @@ export default function FeedbackScreen() {
                             )}
                           </div>
                         )}
+                        {!qFeedback && (qr.scoringError || state.isScoring) && (
+                          <p style={{
+                            margin: 0,
+                            padding: '0.7rem 0.9rem',
+                            borderRadius: '10px',
+                            fontSize: '0.75rem',
+                            color: qr.scoringError ? '#f87171' : '#9e9e9e',
+                            background: 'rgba(255,255,255,0.02)',
+                            border: `1px solid ${qr.scoringError ? 'rgba(248,113,113,0.2)' : 'rgba(255,255,255,0.06)'}`,
+                          }}>
+                            {qr.scoringError
+                              ? `Couldn't score this answer (${qr.scoringError}). It's left out of the overall score.`
+                              : 'Scoring this answer…'}
+                            {qr.scoringError && (
+                              <button
+                                onClick={() => handleRescore(idx)}
+                                style={{
+                                  marginLeft: '0.6rem',
+                                  padding: '2px 10px',
+                                  borderRadius: '999px',
+                                  border: '1px solid rgba(248,113,113,0.3)',
+                                  background: 'rgba(248,113,113,0.08)',
+                                  color: '#f87171',
+                                  fontSize: '0.62rem',
+                                  cursor: 'pointer',
+                                }}
+                              >
+                                Re-score this question
+                              </button>
+                            )}
+                          </p>
+                        )}
                         {qFeedback && (
                           <div style={{
                             display: 'flex',
@@ -834,7 +1042,7 @@ export default function FeedbackScreen() {
                                   {qr.wordTimestamps?.length && videoBlobUrls[idx] && (
                                     <button
                                       type="button"
-                                      onClick={() => handlePlayClip(idx, qFeedback.best_part_quote)}
+                                      onClick={() => handlePlayClip(idx, qFeedback.best_part_quote, qFeedback.best_part_span)}
                                       style={{
                                         padding: '2px 10px',
                                         borderRadius: '999px',
@@ -865,7 +1073,7 @@ export default function FeedbackScreen() {
                                   {qr.wordTimestamps?.length && videoBlobUrls[idx] && (
                                     <button
                                       type="button"
-                                      onClick={() => handlePlayClip(idx, qFeedback.worst_part_quote)}
+                                      onClick={() => handlePlayClip(idx, qFeedback.worst_part_quote, qFeedback.worst_part_span)}
                                       style={{
                                         padding: '2px 10px',
                                         borderRadius: '999px',
@@ -1035,7 +1243,7 @@ export default function FeedbackScreen() {
             <div className="feedback__meta">
               <div>
                 <span>Role</span>
-                <strong>{state.role.replace("_", " ")}</strong>
+                <strong>{roleLabel(state.role, state.customRole)}</strong>
               </div>
               <div>
                 <span>Difficulty</span>
@@ -1108,6 +1316,20 @@ export default function FeedbackScreen() {
             </div>
           )}
 
+          {coverage && (
+            <div className="feedback__card feedback__card--coverage">
+              <h2>Competency Coverage</h2>
+              <ul className="coverage__list">
+                {coverage.map(({ competency, status, questionNumbers }) => (
+                  <li key={competency.name} className={`coverage__row coverage__row--${status}`} title={competency.description}>
+                    <span className="coverage__name">{competency.name}</span>
+                    <span className="coverage__status">{coverageLabel(status, questionNumbers)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="feedback__actions">
             <button className="feedback__button" onClick={handleRetry}>
               Try Again
@@ -1120,6 +1342,8 @@ export default function FeedbackScreen() {
             </button>
           </div>
 
+          {hasResult && isSupabaseConfigured() && <HistoryAccount />}
+
           </div>
         </section>
 
@@ -5,10 +5,21 @@ import { useTTS } from '../hooks/useTTS';
 import { useDeepgramTranscription } from '../hooks/useDeepgramTranscription';
 import { useAudioRecorder } from '../hooks/useAudioRecorder';
 import { useFaceDetection } from '../hooks/useFaceDetection';
-import { analyzePause, prefetchTTS, generateVoiceSummary } from '../services/openai';
-import { getFeedback } from '../services/api';
+import { analyzePause, prefetchTTS } from '../services/openai';
+import { generateFollowUps } from '../services/api';
+import { finishScoringRun, scoreThread, startScoringRun, type ScoringOptions } from '../services/scoringJobs';
+import { CONSISTENCY_SAMPLES } from '../config/rubrics';
+import { FINISHED_NUDGE, timeBudgetSeconds, transitionPhrase } from '../config/sessionLength';
+import {
+  FOLLOW_UP_TRANSITION,
+  insertFollowUps,
+  isThreadComplete,
+  questionProgress,
+  threadStart,
+  toFollowUpQuestions,
+} from '../services/followUps';
 import { countFillers } from '../hooks/useFillerDetection';
-import type { QuestionResult, FeedbackResponse, OverallFeedback } from '../types';
+import type { Question, QuestionResult, InterviewState } from '../types';
 import ParticleVisualizer from '../components/ParticleVisualizer';
 import TypewriterQuestion from '../components/TypewriterQuestion';
 import SilenceNudge from '../components/SilenceNudge';
@@ -21,7 +32,22 @@ import { createLogger, setSessionId } from '../utils/logger';
 const log = createLogger('Interview');
 
 const INTERVIEW_TTS_INSTRUCTIONS = 'Casual American female voice. Relaxed, steady pacing with natural micro-pauses between phrases. Slight upward inflection when asking questions. No vocal fry. Do not sound like a narrator or announcer — sound like a real person talking across a table.';
-const FEEDBACK_TTS_INSTRUCTIONS = 'Calm, measured delivery. Speak like a thoughtful coach giving a one-on-one debrief — unhurried, direct, matter-of-fact. Pause briefly before key advice. No cheerfulness or hype.';
+
+/** The interview settings a scoring run sends with every job. */
+function scoringOptions(state: InterviewState): ScoringOptions {
+  return {
+    role: state.role,
+    customRole: state.customRole ?? undefined,
+    difficulty: state.difficulty,
+    rubric: state.rubric,
+    ...(state.consistencyScoring ? { samples: CONSISTENCY_SAMPLES } : {}),
+    resumeText: state.resumeText ?? undefined,
+    resume: state.resumeData ?? undefined,
+    jobDescription: state.jobDescription ?? undefined,
+    competencies: state.jobProfile?.competencies,
+    attemptNumber: state.previousAttempts.length + 1,
+  };
+}
 
 // ─── Phase state machine ───
 type ScreenPhase =
@@ -75,9 +101,10 @@ export default function InterviewScreen() {
   const analyzingRef = useRef(false);
   const finishingRef = useRef(false);
   const handleDoneRef = useRef<() => Promise<void>>(async () => {});
-  const beginNextQuestionRef = useRef<() => Promise<void>>(async () => {});
+  const beginNextQuestionRef = useRef<(queue?: Question[]) => Promise<void>>(async () => {});
   const activeRef = useRef(false);
   const recordingStartRef = useRef<number>(0);
+  const interviewStartRef = useRef<number>(0);
   const speakRef = useRef(speak);
   speakRef.current = speak;
   const stateRef = useRef(state);
@@ -85,8 +112,10 @@ export default function InterviewScreen() {
   const silenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const audioCtxRef = useRef<AudioContext | null>(null);
 
-  // Background scoring: fire off per-question feedback calls as each answer completes
-  const backgroundScoringRef = useRef<Promise<FeedbackResponse>[]>([]);
+  // Background scoring: fire off one feedback call per thread (a question plus its
+  // follow-ups) as soon as its last answer completes. Each settles to the
+  // thread's per-question results, with null where scoring failed.
+  const scoringRunRef = useRef<string | null>(null);
 
   // ─── Video recording refs ───
   const videoRecorderRef = useRef<MediaRecorder | null>(null);
@@ -306,7 +335,7 @@ export default function InterviewScreen() {
       setStatusText('Waiting for you...');
       setSilenceMessage("Are you finished? Press Space when you're done.");
       try {
-        await speakRef.current("Are you finished, or would you like to keep going?", stateRef.current.ttsVoice, stateRef.current.ttsSpeed);
+        await speakRef.current(FINISHED_NUDGE, stateRef.current.ttsVoice, stateRef.current.ttsSpeed);
       } catch (e) {
         log.warn('TTS nudge failed', { error: String(e) });
       }
@@ -354,6 +383,7 @@ export default function InterviewScreen() {
     if (!state.currentQuestion || activeRef.current) return;
 
     setSessionId();
+    interviewStartRef.current = Date.now();
     log.info('Interview starting', { questionId: state.currentQuestion.id, role: state.role, difficulty: state.difficulty });
 
     const audioCtx = audioCtxRef.current ?? new AudioContext();
@@ -432,15 +462,17 @@ export default function InterviewScreen() {
   }, [location.state, phase, state.currentQuestion]);
 
   // ─── beginNextQuestion: TTS transition + start recording for next question ───
-  const beginNextQuestion = async () => {
+  // handleDone passes the queue explicitly when it just inserted follow-ups,
+  // since `state` in this closure predates that dispatch.
+  const beginNextQuestion = async (queue: Question[] = state.questions) => {
     const nextIdx = state.currentQuestionIndex + 1;
-    const nextQuestion = state.questions[nextIdx];
+    const nextQuestion = queue[nextIdx];
     if (!nextQuestion) {
-      log.warn('beginNextQuestion: no next question', { nextIdx, totalQuestions: state.questions.length });
+      log.warn('beginNextQuestion: no next question', { nextIdx, totalQuestions: queue.length });
       return;
     }
 
-    log.info('beginNextQuestion', { nextIdx, questionId: nextQuestion.id, totalQuestions: state.questions.length });
+    log.info('beginNextQuestion', { nextIdx, questionId: nextQuestion.id, totalQuestions: queue.length });
 
     const audioCtx = audioCtxRef.current ?? new AudioContext();
     audioCtxRef.current = audioCtx;
@@ -450,9 +482,9 @@ export default function InterviewScreen() {
 
     // Brief transition phrase
     setPhase('transitioning');
-    setStatusText('Moving to next question...');
+    setStatusText(nextQuestion.parentId ? 'Following up...' : 'Moving to next question...');
     try {
-      await speak("Great, let's move on to the next question.", { voice: state.ttsVoice, speed: 1.0, instructions: INTERVIEW_TTS_INSTRUCTIONS });
+      await speak(transitionPhrase(queue, nextIdx), { voice: state.ttsVoice, speed: 1.0, instructions: INTERVIEW_TTS_INSTRUCTIONS });
     } catch (e) {
       log.warn('Transition TTS failed', { error: String(e) });
     }
@@ -528,15 +560,22 @@ export default function InterviewScreen() {
     const currentState = stateRef.current;
     const currentIdx = currentState.currentQuestionIndex;
     const isLastQuestion = currentIdx >= currentState.questions.length - 1;
+    // A time budget ends the interview after the answer that uses it up
+    const budget = timeBudgetSeconds(currentState.sessionLength);
+    const outOfTime = budget !== null && (Date.now() - interviewStartRef.current) / 1000 >= budget;
+    // Follow-ups never spawn follow-ups of their own
+    const mayFollowUp = currentState.adaptiveFollowUps && !currentState.currentQuestion?.parentId && !outOfTime;
 
     log.info('handleDone decision', {
       currentIdx,
       totalQuestions: currentState.questions.length,
       isLastQuestion,
+      mayFollowUp,
+      outOfTime,
       questionIds: currentState.questions.map(q => q.id),
     });
 
-    if (isLastQuestion) {
+    if ((isLastQuestion && !mayFollowUp) || outOfTime) {
       setPhase('finished');
     }
 
@@ -555,9 +594,29 @@ export default function InterviewScreen() {
         dispatch({ type: 'UPDATE_TRANSCRIPT', payload: transcript });
       }
 
+      // The interview is over: head to the feedback screen right away; it fills in as
+      // each question's score streams in, and the overall once every thread is done
+      const finishInterview = (results: QuestionResult[]) => {
+        setPhase('finished');
+        dispatch({ type: 'START_SCORING' });
+        scoringRunRef.current ??= startScoringRun(scoringOptions(currentState));
+        finishScoringRun(scoringRunRef.current, results);
+
+        log.info('Navigating to feedback');
+        navigate('/feedback');
+      };
+
+      let questions = currentState.questions;
+      if (outOfTime && currentIdx < questions.length - 1) {
+        log.info('Time budget used up, ending interview', { budget, answered: currentIdx + 1, planned: questions.length });
+        dispatch({ type: 'END_AFTER_QUESTION', payload: { lastIndex: currentIdx } });
+        questions = questions.slice(0, currentIdx + 1);
+      }
+
       const question = currentState.currentQuestion;
       if (!transcript || !question) {
-        if (isLastQuestion) navigate('/feedback');
+        // Nothing to save for this answer, but the ones before it still get their overall
+        if (isLastQuestion || outOfTime) finishInterview(currentState.questionResults);
         return;
       }
 
@@ -578,99 +637,41 @@ export default function InterviewScreen() {
       };
       dispatch({ type: 'SAVE_QUESTION_RESULT', payload: questionResult });
 
-      if (isLastQuestion) {
-        // Final question: score this question in background, then merge all results
-        dispatch({ type: 'START_SCORING' });
-        try {
-          const feedbackOpts = {
-            resumeText: currentState.resumeText ?? undefined,
-            jobDescription: currentState.jobDescription ?? undefined,
-          };
-
-          // Fire off scoring for the last question
-          const lastQuestionPromise = getFeedback([question.text], [transcript], feedbackOpts);
-          backgroundScoringRef.current.push(lastQuestionPromise);
-
-          // Wait for all per-question scoring to complete in parallel
-          const perQuestionResults = await Promise.all(backgroundScoringRef.current);
-          backgroundScoringRef.current = [];
-
-          // Merge per-question feedback into a single response
-          const allQuestionFeedback = perQuestionResults.flatMap(r => r.questions);
-          const avgScore = allQuestionFeedback.reduce((sum, q) => sum + q.score, 0) / allQuestionFeedback.length;
-
-          // Average category scores across all per-question overalls
-          const categoryKeys = ['response_organization', 'technical_knowledge', 'problem_solving', 'position_application', 'timing', 'personability'] as const;
-          const avgCategories = {} as Record<typeof categoryKeys[number], number>;
-          for (const key of categoryKeys) {
-            avgCategories[key] = Number((perQuestionResults.reduce((sum, r) => sum + (r.overall[key] ?? 0), 0) / perQuestionResults.length).toFixed(1));
-          }
-
-          const mergedOverall: OverallFeedback = {
-            ...avgCategories,
-            score: Number(avgScore.toFixed(1)),
-            what_went_well: perQuestionResults.map(r => r.overall.what_went_well).join(' '),
-            needs_improvement: perQuestionResults.map(r => r.overall.needs_improvement).join(' '),
-            summary: perQuestionResults.map(r => r.overall.summary).join(' '),
-          };
-
-          const feedbackResponse: FeedbackResponse = {
-            questions: allQuestionFeedback,
-            overall: mergedOverall,
-          };
-
-          // Update each question result with its individual feedback
-          feedbackResponse.questions.forEach((qFeedback, idx) => {
-            dispatch({ type: 'UPDATE_QUESTION_FEEDBACK', payload: { index: idx, feedback: qFeedback } });
-          });
-
-          dispatch({ type: 'SET_FEEDBACK_RESPONSE', payload: feedbackResponse });
-          dispatch({
-            type: 'SAVE_SESSION',
-            payload: {
-              id: crypto.randomUUID(),
-              questionId: question.id,
-              attemptNumber: currentState.previousAttempts.length + 1,
-              transcript,
-              scores: feedbackResponse,
-              durationSeconds: totalDuration,
-              createdAt: new Date().toISOString(),
-            },
-          });
-
-          // Fire voice summary generation + TTS prefetch in background (non-blocking)
-          generateVoiceSummary(feedbackResponse)
-            .then((summaryText) => {
-              prefetchTTS([summaryText], currentState.ttsVoice, 1.0, FEEDBACK_TTS_INSTRUCTIONS);
-              dispatch({ type: 'SET_VOICE_SUMMARY', payload: summaryText });
-              log.info('Voice summary ready', { length: summaryText.length });
-            })
-            .catch((err) => {
-              log.warn('Voice summary generation failed', { error: String(err) });
-            });
-        } catch (err) {
-          log.error('Scoring failed', { error: String(err) });
-          backgroundScoringRef.current = [];
+      // Adaptive mode: let the interviewer probe this answer before moving on
+      if (mayFollowUp) {
+        setPhase('transitioning');
+        setStatusText('Thinking of a follow-up...');
+        const texts = await generateFollowUps(question.text, transcript, {
+          role: currentState.role,
+          customRole: currentState.customRole ?? undefined,
+          difficulty: currentState.difficulty,
+        }).catch(err => {
+          log.warn('Follow-up generation failed, moving on', { error: String(err) });
+          return [] as string[];
+        });
+        if (texts.length > 0) {
+          const followUps = toFollowUpQuestions(question, texts);
+          dispatch({ type: 'INSERT_FOLLOW_UPS', payload: { afterIndex: currentIdx, questions: followUps } });
+          questions = insertFollowUps(questions, currentIdx, followUps);
+          log.info('Follow-ups inserted', { parentId: question.id, count: followUps.length });
         }
+      }
+      const isFinal = currentIdx >= questions.length - 1;
+
+      // Score the thread (main question + its follow-ups) once its last answer is in
+      if (isThreadComplete(questions, currentIdx)) {
+        const start = threadStart(questions, currentIdx);
+        const thread = [...currentState.questionResults, questionResult].slice(start, currentIdx + 1);
+        log.info('Starting background scoring for thread', { start, end: currentIdx });
+        scoringRunRef.current ??= startScoringRun(scoringOptions(currentState));
+        scoreThread(scoringRunRef.current, start, thread);
+      }
 
-        log.info('Navigating to feedback');
-        navigate('/feedback');
+      if (isFinal) {
+        finishInterview([...currentState.questionResults, questionResult]);
       } else {
-        // Non-final question: fire off background scoring for this question while user moves on
-        const feedbackOpts = {
-          resumeText: currentState.resumeText ?? undefined,
-          jobDescription: currentState.jobDescription ?? undefined,
-        };
-        log.info('Starting background scoring for question', { questionIndex: currentIdx });
-        backgroundScoringRef.current.push(
-          getFeedback([question.text], [transcript], feedbackOpts).catch(err => {
-            log.error('Background scoring failed for question', { questionIndex: currentIdx, error: String(err) });
-            throw err;
-          })
-        );
-
         finishingRef.current = false;
-        await beginNextQuestionRef.current();
+        await beginNextQuestionRef.current(questions);
         return;
       }
     } finally {
@@ -732,13 +733,11 @@ export default function InterviewScreen() {
     const nextIdx = state.currentQuestionIndex + 1;
     const nextQuestion = state.questions[nextIdx];
 
-    const texts = [
-      "Great, let's move on to the next question.",
-      "Are you finished, or would you like to keep going?",
-    ];
-    if (nextQuestion) texts.push(nextQuestion.text);
+    const texts = [FINISHED_NUDGE];
+    if (state.adaptiveFollowUps) texts.push(FOLLOW_UP_TRANSITION);
+    if (nextQuestion) texts.push(transitionPhrase(state.questions, nextIdx), nextQuestion.text);
     prefetchTTS(texts, state.ttsVoice, 1.0, INTERVIEW_TTS_INSTRUCTIONS);
-  }, [phase, state.currentQuestionIndex, state.questions, state.ttsVoice, state.ttsSpeed]);
+  }, [phase, state.currentQuestionIndex, state.questions, state.ttsVoice, state.ttsSpeed, state.adaptiveFollowUps]);
 
   // Keep context transcript in sync
   useEffect(() => {
@@ -815,9 +814,12 @@ export default function InterviewScreen() {
 
   // ─── Phase badge config ───
   // ─── Question progress indicator ───
-  const questionLabel = state.questions.length > 1
-    ? `Q${state.currentQuestionIndex + 1}/${state.questions.length}`
-    : '';
+  const progress = questionProgress(state.questions, state.currentQuestionIndex);
+  const questionLabel = progress.isFollowUp
+    ? `Q${progress.number} follow-up`
+    : progress.total > 1
+      ? `Q${progress.number}/${progress.total}`
+      : '';
 
   const phaseLabel: Record<ScreenPhase, string> = {
     ready: 'Ready',
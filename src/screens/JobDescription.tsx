@@ -3,10 +3,30 @@ import type { FormEvent, KeyboardEvent as ReactKeyboardEvent, DragEvent } from "
 import { useNavigate } from "react-router-dom";
 import { useInterview } from "../context/InterviewContext";
 import { useSpeechRecognition } from "../hooks/useSpeechRecognition";
+import {
+  DOCUMENT_ACCEPT,
+  DOCUMENT_FORMATS_LABEL,
+  extractDocumentText,
+  validateDocument,
+} from "../services/documentText";
+import { analyzeJobDescription } from "../services/api";
 import { loadQuestions } from "../services/questionLoader";
 import { prefetchTTS } from "../services/openai";
-import { getPreInterviewPrefetchTexts } from "../config/preInterviewScript";
+import { buildPreInterviewScript, getPreInterviewPrefetchTexts } from "../config/preInterviewScript";
+import {
+  MAX_BUDGET_MINUTES,
+  MIN_BUDGET_MINUTES,
+  SESSION_LENGTH_PRESETS,
+  describeSessionLength,
+  interviewPrefetchTexts,
+  questionCountFor,
+} from "../config/sessionLength";
+import ResumeReview from "../components/ResumeReview";
+import { roleLabel } from "../config/roles";
+import { RUBRIC_OPTIONS } from "../config/rubrics";
+import type { Difficulty, JobProfile, ResumeData, Role, RubricId, SessionLengthPreset, Seniority } from "../types";
 import { createLogger } from "../utils/logger";
+import { cleanResumeData, isResumeEmpty, parseResume } from "../utils/resumeParser";
 import starlyIcon from "../Icons/StarlyLogo.png";
 import importResumeIcon from "../Icons/ImportResume.png";
 import microphoneOnIcon from "../Icons/microphoneOn.png";
@@ -18,55 +38,18 @@ const log = createLogger("JobDescription");
 const INTERVIEW_TTS_INSTRUCTIONS =
   "Casual American female voice. Relaxed, steady pacing with natural micro-pauses between phrases. Slight upward inflection when asking questions. No vocal fry. Do not sound like a narrator or announcer — sound like a real person talking across a table.";
 
-/* ── PDF extraction (reused from SetupScreen) ── */
-let pdfJsLoaded = false;
-function loadPdfJs(): Promise<void> {
-  if (pdfJsLoaded && (window as any).pdfjsLib) return Promise.resolve();
-  return new Promise((resolve, reject) => {
-    const script = document.createElement("script");
-    script.src =
-      "https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js";
-    script.onload = () => {
-      const lib = (window as any).pdfjsLib;
-      if (lib) {
-        lib.GlobalWorkerOptions.workerSrc =
-          "https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js";
-        pdfJsLoaded = true;
-        resolve();
-      } else {
-        reject(new Error("pdf.js failed to load"));
-      }
-    };
-    script.onerror = () => reject(new Error("Failed to load pdf.js from CDN"));
-    document.head.appendChild(script);
-  });
-}
+/* ── Job description analysis ── */
+// Short snippets ("SWE intern at a fintech") aren't worth an analysis call
+const MIN_ANALYZE_LENGTH = 80;
+const ANALYZE_DEBOUNCE_MS = 1200;
 
-async function extractPDFText(file: File): Promise<string> {
-  await loadPdfJs();
-  const lib = (window as any).pdfjsLib;
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await lib.getDocument({ data: arrayBuffer }).promise;
-  const pages: string[] = [];
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const content = await page.getTextContent();
-    const text = content.items.map((item: any) => item.str).join(" ");
-    pages.push(text);
-  }
-  const fullText = pages.join("\n");
-  if (!fullText.trim()) {
-    throw new Error(
-      "No text found — this may be a scanned/image PDF. Please use a text-based PDF.",
-    );
-  }
-  return fullText;
-}
-
-async function extractFileText(file: File): Promise<string> {
-  if (file.name.match(/\.pdf$/i)) return extractPDFText(file);
-  return file.text();
-}
+const SENIORITY_LABELS: Record<Seniority, string> = {
+  intern: "Internship",
+  entry: "Entry level",
+  mid: "Mid level",
+  senior: "Senior",
+  lead: "Lead",
+};
 
 /* ── Fallback questions ── */
 function buildFallbackQuestions({
@@ -74,8 +57,8 @@ function buildFallbackQuestions({
   difficulty,
   jobDescription,
 }: {
-  role: "swe_intern" | "pm_intern";
-  difficulty: "easy" | "medium" | "hard";
+  role: Role;
+  difficulty: Difficulty;
   jobDescription: string;
 }) {
   const excerpt = jobDescription.replace(/\s+/g, " ").trim().slice(0, 180);
@@ -106,11 +89,23 @@ export default function JobDescription() {
   const [submitting, setSubmitting] = useState(false);
   const [resumeFile, setResumeFile] = useState<File | null>(null);
   const [resumeText, setResumeText] = useState<string | null>(null);
+  const [resumeData, setResumeData] = useState<ResumeData | null>(null);
   const [extracting, setExtracting] = useState(false);
+  const [importingPosting, setImportingPosting] = useState(false);
   const [dragActive, setDragActive] = useState(false);
+  const [analysis, setAnalysis] = useState<{
+    text: string;
+    profile: JobProfile | null;
+    pending: boolean;
+  } | null>(null);
+  const [budgetDraft, setBudgetDraft] = useState(
+    state.sessionLength.mode === "time" ? String(state.sessionLength.minutes) : "",
+  );
   const formRef = useRef<HTMLFormElement | null>(null);
   const resumeInputRef = useRef<HTMLInputElement | null>(null);
+  const postingInputRef = useRef<HTMLInputElement | null>(null);
   const speechSeedRef = useRef("");
+  const analysisRef = useRef<{ text: string; promise: Promise<JobProfile | null> } | null>(null);
   const { start, stop, transcript, isListening, isAvailable } =
     useSpeechRecognition();
 
@@ -128,6 +123,29 @@ export default function JobDescription() {
     setPrompt(seed ? `${seed} ${spoken}` : spoken);
   }, [isListening, transcript]);
 
+  // One analysis per distinct text; failures resolve to null so the interview can go ahead without it
+  const analyze = useCallback((text: string) => {
+    if (analysisRef.current?.text === text) return analysisRef.current.promise;
+    const promise = analyzeJobDescription(text).catch((err) => {
+      log.warn("Job description analysis failed", { error: String(err) });
+      return null;
+    });
+    analysisRef.current = { text, promise };
+    setAnalysis((prev) => ({ text, profile: prev?.profile ?? null, pending: true }));
+    promise.then((profile) => {
+      if (analysisRef.current?.text !== text) return; // stale
+      setAnalysis({ text, profile, pending: false });
+    });
+    return promise;
+  }, []);
+
+  useEffect(() => {
+    const text = prompt.trim();
+    if (isListening || text.length < MIN_ANALYZE_LENGTH) return;
+    const t = setTimeout(() => analyze(text), ANALYZE_DEBOUNCE_MS);
+    return () => clearTimeout(t);
+  }, [prompt, isListening, analyze]);
+
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     const trimmed = prompt.trim();
@@ -144,14 +162,37 @@ export default function JobDescription() {
     if (resumeText) {
       dispatch({ type: "SET_RESUME_TEXT", payload: resumeText });
     }
+    const reviewedResume = resumeData ? cleanResumeData(resumeData) : null;
+    const structuredResume = reviewedResume && !isResumeEmpty(reviewedResume) ? reviewedResume : null;
+    if (structuredResume) {
+      dispatch({ type: "SET_RESUME_DATA", payload: structuredResume });
+    }
+    if (reviewedResume?.name) {
+      dispatch({ type: "SET_CANDIDATE_NAME", payload: reviewedResume.name });
+    }
+
+    // The role is inferred from the posting; without an analysis, keep the saved preference
+    const jobProfile = trimmed.length >= MIN_ANALYZE_LENGTH ? await analyze(trimmed) : null;
+    dispatch({ type: "SET_JOB_PROFILE", payload: jobProfile });
+    const role = jobProfile?.role ?? state.role;
+    const customRole = jobProfile?.role === "custom" ? jobProfile.title : state.customRole;
+    if (jobProfile) {
+      dispatch({ type: "SET_ROLE", payload: role });
+      if (role === "custom" && customRole) dispatch({ type: "SET_CUSTOM_ROLE", payload: customRole });
+    }
 
+    const count = questionCountFor(state.sessionLength);
     try {
       const generatedQuestions = await loadQuestions({
-        role: state.role,
+        role,
         difficulty: state.difficulty,
-        count: 2,
+        count,
+        ...(role === "custom" && customRole ? { customRole } : {}),
         jobDescription: trimmed,
+        ...(jobProfile ? { jobProfile } : {}),
         ...(resumeText ? { resumeText } : {}),
+        ...(structuredResume ? { resumeData: structuredResume } : {}),
+        ...(reviewedResume?.name ? { candidateName: reviewedResume.name } : {}),
       });
 
       if (!generatedQuestions.length) {
@@ -160,24 +201,19 @@ export default function JobDescription() {
 
       dispatch({ type: "SET_QUESTIONS", payload: generatedQuestions });
 
-      // Prefetch TTS for interview questions
-      const textsToCache = generatedQuestions.map((q) => q.text);
-      if (generatedQuestions.length > 1) {
-        textsToCache.push("Great, let's move on to the next question.");
-      }
-      textsToCache.push("Are you finished, or would you like to keep going?");
-      prefetchTTS(textsToCache, "marin", 1.0, INTERVIEW_TTS_INSTRUCTIONS);
+      // Prefetch TTS for interview questions + transition/nudge phrases
+      prefetchTTS(interviewPrefetchTexts(generatedQuestions), "marin", 1.0, INTERVIEW_TTS_INSTRUCTIONS);
     } catch (submitError) {
       log.warn("Question generation failed, using fallbacks", { error: String(submitError) });
       const fallbackQuestions = buildFallbackQuestions({
-        role: state.role,
+        role,
         difficulty: state.difficulty,
         jobDescription: trimmed,
       });
       dispatch({ type: "SET_QUESTIONS", payload: fallbackQuestions });
     } finally {
       // Prefetch pre-interview script TTS
-      prefetchTTS(getPreInterviewPrefetchTexts(), "marin", 1.0);
+      prefetchTTS(getPreInterviewPrefetchTexts(buildPreInterviewScript(count)), "marin", 1.0);
       navigate("/pre-interview");
       setSubmitting(false);
     }
@@ -214,21 +250,9 @@ export default function JobDescription() {
       const file = fileList?.[0] ?? null;
       if (!file) return;
 
-      const ACCEPTED = [
-        "application/pdf",
-        "application/msword",
-        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-        "text/plain",
-      ];
-      if (
-        !ACCEPTED.includes(file.type) &&
-        !file.name.match(/\.(pdf|doc|docx|txt)$/i)
-      ) {
-        setError("Please upload a PDF, DOCX, or TXT file.");
-        return;
-      }
-      if (file.size > 5 * 1024 * 1024) {
-        setError("File too large — max 5 MB.");
+      const invalid = validateDocument(file);
+      if (invalid) {
+        setError(invalid);
         return;
       }
 
@@ -237,11 +261,15 @@ export default function JobDescription() {
       setError("");
 
       try {
-        const text = await extractFileText(file);
+        const text = await extractDocumentText(file);
+        const parsed = parseResume(text);
         setResumeText(text);
+        setResumeData(parsed);
         log.info("Resume text extracted", {
           name: file.name,
           length: text.length,
+          experience: parsed.experience.length,
+          projects: parsed.projects.length,
         });
       } catch (err) {
         setError(
@@ -251,6 +279,7 @@ export default function JobDescription() {
         );
         setResumeFile(null);
         setResumeText(null);
+        setResumeData(null);
       } finally {
         setExtracting(false);
       }
@@ -258,9 +287,30 @@ export default function JobDescription() {
     [],
   );
 
+  // A saved job posting (HTML page, Markdown, PDF, ...) fills the prompt
+  const handlePostingPicked = async (fileList: FileList | null) => {
+    const file = fileList?.[0] ?? null;
+    if (!file) return;
+    setImportingPosting(true);
+    setError("");
+    try {
+      const text = await extractDocumentText(file);
+      setPrompt(text.trim());
+      log.info("Job posting imported", { name: file.name, length: text.length });
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to extract text from file.",
+      );
+    } finally {
+      setImportingPosting(false);
+      if (postingInputRef.current) postingInputRef.current.value = "";
+    }
+  };
+
   const handleRemoveResume = () => {
     setResumeFile(null);
     setResumeText(null);
+    setResumeData(null);
   };
 
   return (
@@ -282,6 +332,25 @@ export default function JobDescription() {
               rows={4}
             />
             <div className="job-description__actions">
+              <input
+                ref={postingInputRef}
+                className="job-description__dropzone-input"
+                type="file"
+                accept={DOCUMENT_ACCEPT}
+                onChange={(event) => handlePostingPicked(event.target.files)}
+              />
+              <button
+                type="button"
+                className="job-description__voice job-description__import"
+                onClick={() => postingInputRef.current?.click()}
+                disabled={importingPosting}
+                aria-label="Import job posting from a file"
+                title={`Import job posting (${DOCUMENT_FORMATS_LABEL})`}
+              >
+                <svg viewBox="0 0 24 24" aria-hidden="true" focusable="false">
+                  <path d="M12 4v11M7 10l5 5 5-5M5 19h14" />
+                </svg>
+              </button>
               <button
                 type="button"
                 className={`job-description__voice ${isListening ? "job-description__voice--active" : ""}`}
@@ -309,6 +378,48 @@ export default function JobDescription() {
             </div>
           </div>
         </form>
+        {analysis && (analysis.pending || analysis.profile) && (
+          <section className="job-description__profile" aria-live="polite">
+            {analysis.profile ? (
+              <>
+                <div className="job-description__profile-head">
+                  <strong>{analysis.profile.title}</strong>
+                  <span>
+                    {SENIORITY_LABELS[analysis.profile.seniority]} ·{" "}
+                    {roleLabel(analysis.profile.role, analysis.profile.title)}
+                    {analysis.pending ? " · updating…" : ""}
+                  </span>
+                </div>
+                {analysis.profile.competencies.length > 0 && (
+                  <ul className="job-description__profile-competencies">
+                    {analysis.profile.competencies.map((c) => (
+                      <li key={c.name} title={c.description}>
+                        <span className={`job-description__importance job-description__importance--${c.importance}`}>
+                          {c.importance}
+                        </span>
+                        {c.name}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {analysis.profile.skills.length > 0 && (
+                  <p className="job-description__profile-line">
+                    <span>Skills</span>
+                    {analysis.profile.skills.join(" · ")}
+                  </p>
+                )}
+                {analysis.profile.values.length > 0 && (
+                  <p className="job-description__profile-line">
+                    <span>Values</span>
+                    {analysis.profile.values.join(" · ")}
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="job-description__profile-line">Reading the job description…</p>
+            )}
+          </section>
+        )}
         <div className="job-description__or">
           <span>we also recommend</span>
         </div>
@@ -370,7 +481,7 @@ export default function JobDescription() {
               ref={resumeInputRef}
               className="job-description__dropzone-input"
               type="file"
-              accept=".pdf,.doc,.docx,.txt"
+              accept={DOCUMENT_ACCEPT}
               onChange={(event) => handleResumePicked(event.target.files)}
             />
             <img
@@ -386,11 +497,92 @@ export default function JobDescription() {
             ) : (
               <>
                 <p>Import resume</p>
-                <span>PDF, DOC, DOCX, TXT</span>
+                <span>{DOCUMENT_FORMATS_LABEL}</span>
               </>
             )}
           </div>
         )}
+        {resumeFile && resumeData && !extracting && (
+          <ResumeReview data={resumeData} onChange={setResumeData} />
+        )}
+        <div className="job-description__length" role="group" aria-label="Interview length">
+          <span className="job-description__length-label">Length</span>
+          {(Object.keys(SESSION_LENGTH_PRESETS) as SessionLengthPreset[]).map((preset) => (
+            <button
+              key={preset}
+              type="button"
+              className={`job-description__length-option ${state.sessionLength.mode === "preset" && state.sessionLength.preset === preset ? "is-selected" : ""}`}
+              onClick={() => {
+                setBudgetDraft("");
+                dispatch({ type: "SET_SESSION_LENGTH", payload: { mode: "preset", preset } });
+              }}
+            >
+              {SESSION_LENGTH_PRESETS[preset].label} · {SESSION_LENGTH_PRESETS[preset].questions}
+            </button>
+          ))}
+          <label
+            className={`job-description__length-option ${state.sessionLength.mode === "time" ? "is-selected" : ""}`}
+          >
+            <input
+              type="number"
+              min={MIN_BUDGET_MINUTES}
+              max={MAX_BUDGET_MINUTES}
+              value={budgetDraft}
+              placeholder="—"
+              aria-label="Time budget in minutes"
+              onChange={(event) => setBudgetDraft(event.target.value)}
+              onBlur={() => {
+                const minutes = Number(budgetDraft);
+                if (!budgetDraft.trim() || !Number.isFinite(minutes) || minutes <= 0) return;
+                const clamped = Math.min(MAX_BUDGET_MINUTES, Math.max(MIN_BUDGET_MINUTES, Math.round(minutes)));
+                setBudgetDraft(String(clamped));
+                dispatch({ type: "SET_SESSION_LENGTH", payload: { mode: "time", minutes: clamped } });
+              }}
+            />
+            min
+          </label>
+          <span className="job-description__length-summary">{describeSessionLength(state.sessionLength)}</span>
+        </div>
+        <div className="job-description__length" role="group" aria-label="Scoring rubric">
+          <span className="job-description__length-label">Scoring</span>
+          {(Object.keys(RUBRIC_OPTIONS) as RubricId[]).map((rubric) => (
+            <button
+              key={rubric}
+              type="button"
+              className={`job-description__length-option ${state.rubric === rubric ? "is-selected" : ""}`}
+              onClick={() => dispatch({ type: "SET_RUBRIC", payload: rubric })}
+            >
+              {RUBRIC_OPTIONS[rubric].label}
+            </button>
+          ))}
+          <span className="job-description__length-summary">{RUBRIC_OPTIONS[state.rubric].hint}</span>
+        </div>
+        <label className="job-description__option">
+          <input
+            type="checkbox"
+            checked={state.adaptiveFollowUps}
+            onChange={(event) =>
+              dispatch({ type: "SET_ADAPTIVE_FOLLOW_UPS", payload: event.target.checked })
+            }
+          />
+          <span>
+            <strong>Adaptive follow-ups</strong>
+            The interviewer may probe your answers with up to two follow-up questions.
+          </span>
+        </label>
+        <label className="job-description__option">
+          <input
+            type="checkbox"
+            checked={state.consistencyScoring}
+            onChange={(event) =>
+              dispatch({ type: "SET_CONSISTENCY_SCORING", payload: event.target.checked })
+            }
+          />
+          <span>
+            <strong>Consistency check</strong>
+            Each answer is graded several times; you'll see the range of scores and which ones the graders disagreed on.
+          </span>
+        </label>
         {error && <p className="job-description__error">{error}</p>}
       </section>
     </main>
@@ -1,10 +1,10 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useInterview } from '../context/InterviewContext';
 import { useTTS } from '../hooks/useTTS';
 import { useDeepgramTranscription } from '../hooks/useDeepgramTranscription';
 import { prefetchTTS, generateScriptResponse } from '../services/openai';
-import { defaultScript, getPreInterviewPrefetchTexts } from '../config/preInterviewScript';
+import { buildPreInterviewScript, getPreInterviewPrefetchTexts } from '../config/preInterviewScript';
 import { fuzzyMatchTrigger } from '../utils/fuzzyMatch';
 import ParticleVisualizer from '../components/ParticleVisualizer';
 import starlyIcon from '../Icons/StarlyLogo.png';
@@ -33,7 +33,8 @@ export default function PreInterviewScreen() {
   const stepIndexRef = useRef(0);
   stepIndexRef.current = stepIndex;
 
-  const script = defaultScript;
+  const questionCount = state.questions.length;
+  const script = useMemo(() => buildPreInterviewScript(questionCount), [questionCount]);
 
   // Guard: redirect to /setup if no questions in context
   useEffect(() => {
@@ -108,11 +109,7 @@ export default function PreInterviewScreen() {
       if (step.aiDirective) {
         try {
           const transcriptContext = deepgram.getFullTranscript();
-          const aiResponse = await generateScriptResponse(
-            script.systemPrompt,
-            step.aiDirective,
-            transcriptContext,
-          );
+          const aiResponse = await generateScriptResponse(step.aiDirective, transcriptContext, step.aiParams);
           chunks = [aiResponse];
           log.info('AI response generated', { length: aiResponse.length });
         } catch (err) {
@@ -1,12 +1,15 @@
 import { useState, useEffect, useRef, useCallback, type DragEvent, type ReactNode } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useInterview } from '../context/InterviewContext';
+import { DOCUMENT_ACCEPT, DOCUMENT_FORMATS_LABEL, extractDocumentText, validateDocument } from '../services/documentText';
 import { loadQuestions } from '../services/questionLoader';
 import { prefetchTTS } from '../services/openai';
-import { getPreInterviewPrefetchTexts } from '../config/preInterviewScript';
-import type { Difficulty, Role } from '../types';
+import { buildPreInterviewScript, getPreInterviewPrefetchTexts } from '../config/preInterviewScript';
+import { SESSION_LENGTH_PRESETS, interviewPrefetchTexts, questionCountFor } from '../config/sessionLength';
+import { RUBRIC_OPTIONS } from '../config/rubrics';
+import type { Difficulty, ResumeData, Role, RubricId, SessionLengthPreset } from '../types';
 import { createLogger } from '../utils/logger';
-import { extractNameFromResume } from '../utils/resumeName';
+import { isResumeEmpty, parseResume } from '../utils/resumeParser';
 
 const log = createLogger('Setup');
 
@@ -27,9 +30,9 @@ type UiRole = (typeof ROLES)[number]['id'];
 type Mode = 'generic' | 'resume';
 
 const DIFFICULTIES = [
-  { id: 'easy', label: 'Easy', glyph: '○', color: '#34d399', hint: 'Entry-level prompts, light context required' },
-  { id: 'medium', label: 'Medium', glyph: '◑', color: '#f59e0b', hint: 'Moderate complexity, clear STAR needed' },
-  { id: 'hard', label: 'Hard', glyph: '●', color: '#f87171', hint: 'Nuanced scenarios, strong structure wins' },
+  { id: 'easy', label: 'Easy', glyph: '○', color: '#34d399', hint: 'Entry-level prompts, forgiving scoring' },
+  { id: 'medium', label: 'Medium', glyph: '◑', color: '#f59e0b', hint: 'Real trade-offs, clear STAR needed' },
+  { id: 'hard', label: 'Hard', glyph: '●', color: '#f87171', hint: 'Multi-part, ambiguous prompts, bar-raiser scoring' },
 ] as const;
 
 const CATEGORIES = [
@@ -40,6 +43,20 @@ const CATEGORIES = [
   { id: 'failure', label: 'Failure / Mistake', icon: '🌀' },
 ] as const;
 
+const LENGTH_ICONS: Record<SessionLengthPreset, string> = { quick: '⚡', standard: '◷', full: '🏁' };
+const LENGTHS = (Object.keys(SESSION_LENGTH_PRESETS) as SessionLengthPreset[]).map((id) => ({
+  id,
+  label: `${SESSION_LENGTH_PRESETS[id].label} · ${SESSION_LENGTH_PRESETS[id].questions}`,
+  icon: LENGTH_ICONS[id],
+}));
+
+const RUBRIC_ICONS: Record<RubricId, string> = { general: '◎', star: '★' };
+const RUBRICS = (Object.keys(RUBRIC_OPTIONS) as RubricId[]).map((id) => ({
+  id,
+  label: RUBRIC_OPTIONS[id].label,
+  icon: RUBRIC_ICONS[id],
+}));
+
 const STAR_ITEMS = [
   { letter: 'S', word: 'Situation', color: '#22d3ee', desc: 'Set the scene — time, place, stakes. Keep it tight.' },
   { letter: 'T', word: 'Task', color: '#f59e0b', desc: 'Your specific responsibility. What was expected of YOU?' },
@@ -294,7 +311,7 @@ function DifficultyPill({
 /* ─────────────────────────────────────────────
    CATEGORY CHIP
 ───────────────────────────────────────────── */
-function CategoryChip({ cat, selected, onClick }: { cat: (typeof CATEGORIES)[number]; selected: boolean; onClick: () => void }) {
+function CategoryChip({ cat, selected, onClick }: { cat: { label: string; icon: string }; selected: boolean; onClick: () => void }) {
   const [hov, setHov] = useState(false);
   return (
     <button
@@ -342,48 +359,7 @@ function CategoryChip({ cat, selected, onClick }: { cat: (typeof CATEGORIES)[num
 interface ResumeResult {
   name: string;
   text: string;
-}
-
-// Dynamically load pdf.js from CDN
-let pdfJsLoaded = false;
-function loadPdfJs(): Promise<void> {
-  if (pdfJsLoaded && (window as any).pdfjsLib) return Promise.resolve();
-  return new Promise((resolve, reject) => {
-    const script = document.createElement('script');
-    script.src = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
-    script.onload = () => {
-      const lib = (window as any).pdfjsLib;
-      if (lib) {
-        lib.GlobalWorkerOptions.workerSrc =
-          'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
-        pdfJsLoaded = true;
-        resolve();
-      } else {
-        reject(new Error('pdf.js failed to load'));
-      }
-    };
-    script.onerror = () => reject(new Error('Failed to load pdf.js from CDN'));
-    document.head.appendChild(script);
-  });
-}
-
-async function extractPDFText(file: File): Promise<string> {
-  await loadPdfJs();
-  const lib = (window as any).pdfjsLib;
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await lib.getDocument({ data: arrayBuffer }).promise;
-  const pages: string[] = [];
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const content = await page.getTextContent();
-    const text = content.items.map((item: any) => item.str).join(' ');
-    pages.push(text);
-  }
-  const fullText = pages.join('\n');
-  if (!fullText.trim()) {
-    throw new Error('No text found — this may be a scanned/image PDF. Please use a text-based PDF.');
-  }
-  return fullText;
+  data: ResumeData;
 }
 
 function ResumeUpload({
@@ -404,13 +380,6 @@ function ResumeUpload({
   const inputRef = useRef<HTMLInputElement | null>(null);
   const scanRef = useRef<number | null>(null);
 
-  const ACCEPTED = [
-    'application/pdf',
-    'application/msword',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'text/plain',
-  ];
-
   useEffect(
     () => () => {
       if (scanRef.current !== null) window.clearInterval(scanRef.current);
@@ -431,13 +400,7 @@ function ResumeUpload({
       setScanPct(Math.min(pct, 90));
     }, 100);
 
-    const isPdf = file.name.match(/\.pdf$/i);
-
-    const extractPromise = isPdf
-      ? extractPDFText(file)
-      : file.text(); // .txt / .doc fallback
-
-    extractPromise
+    extractDocumentText(file)
       .then((text) => {
         if (scanRef.current !== null) window.clearInterval(scanRef.current);
         setScanPct(100);
@@ -446,6 +409,7 @@ function ResumeUpload({
           onFileAccepted(file, {
             name: file.name.replace(/\.[^/.]+$/, ''),
             text,
+            data: parseResume(text),
           });
         }, 350);
       })
@@ -459,12 +423,9 @@ function ResumeUpload({
 
   const accept = useCallback(
     (file: File) => {
-      if (!ACCEPTED.includes(file.type) && !file.name.match(/\.(pdf|doc|docx|txt)$/i)) {
-        setError('Please upload a PDF, DOCX, or TXT file.');
-        return;
-      }
-      if (file.size > 5 * 1024 * 1024) {
-        setError('File too large — max 5 MB.');
+      const invalid = validateDocument(file);
+      if (invalid) {
+        setError(invalid);
         return;
       }
       realExtract(file);
@@ -789,7 +750,7 @@ function ResumeUpload({
       <input
         ref={inputRef}
         type="file"
-        accept=".pdf,.doc,.docx,.txt"
+        accept={DOCUMENT_ACCEPT}
         style={{ display: 'none' }}
         onChange={(e) => {
           const file = e.target.files?.[0];
@@ -829,7 +790,7 @@ function ResumeUpload({
           {dragging ? 'Drop it here!' : 'Drop your resume here'}
         </div>
         <div style={{ fontFamily: "'Josefin Sans', sans-serif", fontSize: '11px', color: '#374151' }}>
-          or <span style={{ color: '#6366f1', textDecoration: 'underline' }}>browse files</span> · PDF, DOCX, TXT · max 5 MB
+          or <span style={{ color: '#6366f1', textDecoration: 'underline' }}>browse files</span> · {DOCUMENT_FORMATS_LABEL} · max 5 MB
         </div>
       </div>
 
@@ -1145,10 +1106,13 @@ function SectionLabel({ step, children, optional }: { step: string; children: Re
    MAIN
 ───────────────────────────────────────────── */
 export default function SetupScreen() {
-  const { dispatch } = useInterview();
+  const { state, dispatch } = useInterview();
   const navigate = useNavigate();
+  const questionCount = questionCountFor(state.sessionLength);
 
   const [role, setRole] = useState<UiRole | null>(null);
+  const [customRole, setCustomRole] = useState(state.customRole ?? '');
+  const [settledCustomRole, setSettledCustomRole] = useState(customRole.trim());
   const [difficulty, setDifficulty] = useState<Difficulty>('medium');
   const [category, setCategory] = useState<(typeof CATEGORIES)[number]['id']>('random');
   const [mode, setMode] = useState<Mode>('generic');
@@ -1162,9 +1126,17 @@ export default function SetupScreen() {
 
   const toInterviewRole = (uiRole: UiRole): Role => {
     if (uiRole === 'pm') return 'pm_intern';
+    if (uiRole === 'ml') return 'ml_intern';
+    if (uiRole === 'custom') return 'custom';
     return 'swe_intern';
   };
 
+  // Debounced so typing a custom role doesn't refire the question prefetch on every keystroke
+  useEffect(() => {
+    const t = setTimeout(() => setSettledCustomRole(customRole.trim()), 600);
+    return () => clearTimeout(t);
+  }, [customRole]);
+
   // Pre-generate questions in the background as soon as inputs are ready
   const prefetchedQuestionsRef = useRef<{
     key: string;
@@ -1177,29 +1149,29 @@ export default function SetupScreen() {
     const isResumeReady = mode === 'resume' && resumeResult && jobDescription.trim();
     const isGenericReady = mode === 'generic';
     if (!isResumeReady && !isGenericReady) return;
+    if (mappedRole === 'custom' && !settledCustomRole) return;
 
-    const candidateName = mode === 'resume' && resumeResult ? extractNameFromResume(resumeResult.text) : null;
-    const cacheKey = `${mappedRole}:${difficulty}:${mode}:${resumeResult?.text?.slice(0, 50) ?? ''}:${jobDescription.slice(0, 50)}`;
+    const candidateName = mode === 'resume' && resumeResult ? resumeResult.data.name : null;
+    const cacheKey = `${mappedRole}:${difficulty}:${category}:${questionCount}:${mode}:${resumeResult?.text?.slice(0, 50) ?? ''}:${jobDescription.slice(0, 50)}:${mappedRole === 'custom' ? settledCustomRole : ''}`;
     if (prefetchedQuestionsRef.current?.key === cacheKey) return;
 
-    log.info('Prefetching questions in background', { role: mappedRole, difficulty, mode });
+    log.info('Prefetching questions in background', { role: mappedRole, difficulty, category, mode });
     const promise = loadQuestions({
       role: mappedRole,
       difficulty,
-      count: 2,
-      ...(mode === 'resume' && resumeResult ? { resumeText: resumeResult.text, jobDescription: jobDescription.trim(), ...(candidateName ? { candidateName } : {}) } : {}),
+      category,
+      count: questionCount,
+      ...(mappedRole === 'custom' ? { customRole: settledCustomRole } : {}),
+      ...(mode === 'resume' && resumeResult ? { resumeText: resumeResult.text, ...(isResumeEmpty(resumeResult.data) ? {} : { resumeData: resumeResult.data }), jobDescription: jobDescription.trim(), ...(candidateName ? { candidateName } : {}) } : {}),
     });
     prefetchedQuestionsRef.current = { key: cacheKey, promise };
 
     // Also prefetch TTS as soon as questions resolve
     promise.then(questions => {
       if (prefetchedQuestionsRef.current?.key !== cacheKey) return; // stale
-      const textsToCache = questions.map(q => q.text);
-      if (questions.length > 1) textsToCache.push("Great, let's move on to the next question.");
-      textsToCache.push("Are you finished, or would you like to keep going?");
-      prefetchTTS(textsToCache, 'marin', 1.0, INTERVIEW_TTS_INSTRUCTIONS);
+      prefetchTTS(interviewPrefetchTexts(questions), 'marin', 1.0, INTERVIEW_TTS_INSTRUCTIONS);
     }).catch(() => { /* will retry in handleStart */ });
-  }, [role, difficulty, mode, resumeResult, jobDescription]);
+  }, [role, settledCustomRole, difficulty, category, questionCount, mode, resumeResult, jobDescription]);
 
   useEffect(() => {
     const t = setTimeout(() => setMounted(true), 60);
@@ -1208,7 +1180,7 @@ export default function SetupScreen() {
 
   const selectedRole = ROLES.find((r) => r.id === role);
   const selectedDiff = DIFFICULTIES.find((d) => d.id === difficulty);
-  const canStart = Boolean(role) && (mode === 'generic' || (mode === 'resume' && resumeResult && jobDescription.trim()));
+  const canStart = Boolean(role) && (role !== 'custom' || Boolean(customRole.trim())) && (mode === 'generic' || (mode === 'resume' && resumeResult && jobDescription.trim()));
 
   const handleStart = async () => {
     if (!canStart || launching || !role) return;
@@ -1216,32 +1188,37 @@ export default function SetupScreen() {
     log.info('Interview starting', { role, difficulty, category, mode, hasResume: !!resumeResult });
 
     const mappedRole = toInterviewRole(role);
+    const trimmedCustomRole = customRole.trim();
     dispatch({ type: 'SET_ROLE', payload: mappedRole });
+    if (mappedRole === 'custom') dispatch({ type: 'SET_CUSTOM_ROLE', payload: trimmedCustomRole });
     dispatch({ type: 'SET_DIFFICULTY', payload: difficulty });
 
     // Dispatch resume context if in resume mode
     if (mode === 'resume' && resumeResult && jobDescription.trim()) {
       dispatch({ type: 'SET_RESUME_TEXT', payload: resumeResult.text });
       dispatch({ type: 'SET_JOB_DESCRIPTION', payload: jobDescription.trim() });
-      const name = extractNameFromResume(resumeResult.text);
+      if (!isResumeEmpty(resumeResult.data)) dispatch({ type: 'SET_RESUME_DATA', payload: resumeResult.data });
+      const name = resumeResult.data.name;
       if (name) dispatch({ type: 'SET_CANDIDATE_NAME', payload: name });
     }
 
     try {
       // Use prefetched questions if the cache key matches, otherwise generate fresh
-      const cacheKey = `${mappedRole}:${difficulty}:${mode}:${resumeResult?.text?.slice(0, 50) ?? ''}:${jobDescription.slice(0, 50)}`;
+      const cacheKey = `${mappedRole}:${difficulty}:${category}:${questionCount}:${mode}:${resumeResult?.text?.slice(0, 50) ?? ''}:${jobDescription.slice(0, 50)}:${mappedRole === 'custom' ? trimmedCustomRole : ''}`;
       let questions: import('../types').Question[];
       if (prefetchedQuestionsRef.current?.key === cacheKey) {
         log.info('Using prefetched questions');
         questions = await prefetchedQuestionsRef.current.promise;
       } else {
         log.info('Prefetch miss, generating questions fresh');
-        const freshName = mode === 'resume' && resumeResult ? extractNameFromResume(resumeResult.text) : null;
+        const freshName = mode === 'resume' && resumeResult ? resumeResult.data.name : null;
         questions = await loadQuestions({
           role: mappedRole,
           difficulty,
-          count: 2,
-          ...(mode === 'resume' && resumeResult ? { resumeText: resumeResult.text, jobDescription: jobDescription.trim(), ...(freshName ? { candidateName: freshName } : {}) } : {}),
+          category,
+          count: questionCount,
+          ...(mappedRole === 'custom' ? { customRole: trimmedCustomRole } : {}),
+          ...(mode === 'resume' && resumeResult ? { resumeText: resumeResult.text, ...(isResumeEmpty(resumeResult.data) ? {} : { resumeData: resumeResult.data }), jobDescription: jobDescription.trim(), ...(freshName ? { candidateName: freshName } : {}) } : {}),
         });
       }
 
@@ -1249,14 +1226,9 @@ export default function SetupScreen() {
       if (questions.length > 0) {
         dispatch({ type: 'SET_QUESTIONS', payload: questions });
         // Fire-and-forget: prefetch TTS audio for all questions + transition/nudge phrases
-        const textsToCache = questions.map(q => q.text);
-        if (questions.length > 1) {
-          textsToCache.push("Great, let's move on to the next question.");
-        }
-        textsToCache.push("Are you finished, or would you like to keep going?");
-        prefetchTTS(textsToCache, 'marin', 1.0, INTERVIEW_TTS_INSTRUCTIONS);
+        prefetchTTS(interviewPrefetchTexts(questions), 'marin', 1.0, INTERVIEW_TTS_INSTRUCTIONS);
         // Prefetch pre-interview script TTS alongside question TTS
-        prefetchTTS(getPreInterviewPrefetchTexts(), 'marin', 1.0);
+        prefetchTTS(getPreInterviewPrefetchTexts(buildPreInterviewScript(questions.length)), 'marin', 1.0);
         navigate('/pre-interview');
       } else {
         log.warn('No questions matched filters', { role: mappedRole, difficulty, category });
@@ -1284,7 +1256,7 @@ export default function SetupScreen() {
     setResumeResult(null);
   };
 
-  const progressItems = [role, 'diff', 'cat', mode === 'resume' ? (resumeResult && jobDescription.trim() ? 'done' : null) : 'skip'];
+  const progressItems = [role === 'custom' && !customRole.trim() ? null : role, 'diff', 'cat', mode === 'resume' ? (resumeResult && jobDescription.trim() ? 'done' : null) : 'skip'];
 
   return (
     <>
@@ -1499,6 +1471,33 @@ export default function SetupScreen() {
                   <RoleCard key={r.id} role={r} selected={role === r.id} onClick={() => setRole(r.id)} />
                 ))}
               </div>
+              {role === 'custom' && (
+                <textarea
+                  value={customRole}
+                  onChange={(e) => setCustomRole(e.target.value)}
+                  placeholder="Describe the role, e.g. 'Hardware engineering intern working on embedded firmware'"
+                  rows={2}
+                  maxLength={500}
+                  style={{
+                    width: '100%',
+                    marginTop: '12px',
+                    background: 'rgba(255,255,255,0.02)',
+                    border: `1.5px solid ${customRole.trim() ? '#34d39955' : '#1c1c1c'}`,
+                    borderRadius: '12px',
+                    padding: '12px 14px',
+                    fontFamily: "'Josefin Sans', sans-serif",
+                    fontSize: '12px',
+                    color: '#d1d5db',
+                    resize: 'vertical',
+                    outline: 'none',
+                    transition: 'border-color 0.2s',
+                    lineHeight: 1.5,
+                    animation: 'fadeUp 0.2s ease forwards',
+                  }}
+                  onFocus={(e) => { e.currentTarget.style.borderColor = '#34d39977'; }}
+                  onBlur={(e) => { e.currentTarget.style.borderColor = customRole.trim() ? '#34d39955' : '#1c1c1c'; }}
+                />
+              )}
             </div>
 
             <div style={{ marginBottom: '28px', ...stagger(3) }}>
@@ -1542,7 +1541,47 @@ export default function SetupScreen() {
             </div>
 
             <div style={{ marginBottom: '28px', ...stagger(5) }}>
-              <SectionLabel step="4" optional>
+              <SectionLabel step="4">Length</SectionLabel>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+                {LENGTHS.map((l) => (
+                  <CategoryChip
+                    key={l.id}
+                    cat={l}
+                    selected={state.sessionLength.mode === 'preset' && state.sessionLength.preset === l.id}
+                    onClick={() => dispatch({ type: 'SET_SESSION_LENGTH', payload: { mode: 'preset', preset: l.id } })}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div style={{ marginBottom: '28px', ...stagger(6) }}>
+              <SectionLabel step="5">Scoring</SectionLabel>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '10px' }}>
+                {RUBRICS.map((r) => (
+                  <CategoryChip
+                    key={r.id}
+                    cat={r}
+                    selected={state.rubric === r.id}
+                    onClick={() => dispatch({ type: 'SET_RUBRIC', payload: r.id })}
+                  />
+                ))}
+              </div>
+              <div
+                style={{
+                  fontFamily: "'Josefin Sans', sans-serif",
+                  fontSize: '11px',
+                  color: '#4b5563',
+                  fontStyle: 'italic',
+                  paddingLeft: '2px',
+                  minHeight: '16px',
+                }}
+              >
+                {RUBRIC_OPTIONS[state.rubric].hint}
+              </div>
+            </div>
+
+            <div style={{ marginBottom: '28px', ...stagger(7) }}>
+              <SectionLabel step="6" optional>
                 Resume
               </SectionLabel>
 
@@ -1655,7 +1694,7 @@ export default function SetupScreen() {
               }}
             />
 
-            <div style={{ ...stagger(6) }}>
+            <div style={{ ...stagger(8) }}>
               <button
                 className="start-btn"
                 onClick={handleStart}
@@ -1720,7 +1759,7 @@ export default function SetupScreen() {
             </div>
           </div>
 
-          <div style={{ ...stagger(7), display: 'flex', justifyContent: 'center', gap: '32px', marginTop: '28px' }}>
+          <div style={{ ...stagger(9), display: 'flex', justifyContent: 'center', gap: '32px', marginTop: '28px' }}>
             {[
               { val: 'STAR', label: 'framework' },
               { val: '< 30s', label: 'feedback' },
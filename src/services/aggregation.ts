@@ -0,0 +1,122 @@
+import type { Difficulty, OverallAggregation, OverallFeedback, Question, QuestionFeedback, RubricDimension } from '../types';
+
+/**
+ * Combines per-question feedback into the interview's overall scores.
+ *
+ * Deterministic so the same answers always produce the same overall, and
+ * auditable: the weight each question carried and how much the scores varied
+ * are kept on the result. The narrative is written separately
+ * (/api/overall-feedback); `fallbackNarrative` covers when that call fails.
+ */
+
+/** Harder questions say more about the candidate, so they count for more. */
+const DIFFICULTY_WEIGHT: Record<Difficulty, number> = { easy: 0.8, medium: 1, hard: 1.25 };
+
+/**
+ * Answers shorter than this many words count proportionally less (a two-line
+ * follow-up shouldn't swing the overall as much as a full story); longer
+ * answers are not rewarded beyond it.
+ */
+const FULL_ANSWER_WORDS = 120;
+const MIN_LENGTH_FACTOR = 0.25;
+
+export interface AggregationItem {
+  question: Pick<Question, 'difficulty'>;
+  transcript: string;
+  feedback: QuestionFeedback;
+}
+
+export interface Aggregate {
+  mean: number;
+  stdDev: number;
+}
+
+export interface Aggregation {
+  /** Normalized weights in item order (sum to 1). */
+  weights: number[];
+  score: Aggregate;
+  /** Per rubric dimension, averaged over the questions that carry a category breakdown. */
+  categories: Record<string, Aggregate>;
+}
+
+const round1 = (n: number) => Number(n.toFixed(1));
+
+function wordCount(text: string): number {
+  return text.trim() ? text.trim().split(/\s+/).length : 0;
+}
+
+/** Unnormalized weight of one answer: difficulty × length factor. */
+export function questionWeight(item: Pick<AggregationItem, 'question' | 'transcript'>): number {
+  const length = Math.min(1, Math.max(MIN_LENGTH_FACTOR, wordCount(item.transcript) / FULL_ANSWER_WORDS));
+  return (DIFFICULTY_WEIGHT[item.question.difficulty] ?? 1) * length;
+}
+
+/** Weighted mean and (population) standard deviation; weights need not sum to 1. */
+export function weightedStats(values: number[], weights: number[]): Aggregate {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (values.length === 0 || total <= 0) return { mean: 0, stdDev: 0 };
+  const mean = values.reduce((sum, v, i) => sum + v * weights[i], 0) / total;
+  const variance = values.reduce((sum, v, i) => sum + weights[i] * (v - mean) ** 2, 0) / total;
+  return { mean: round1(mean), stdDev: round1(Math.sqrt(variance)) };
+}
+
+export function aggregateFeedback(items: AggregationItem[], dimensions: RubricDimension[]): Aggregation {
+  const raw = items.map(questionWeight);
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  const weights = raw.map((w) => (total > 0 ? Number((w / total).toFixed(4)) : 0));
+
+  const score = weightedStats(items.map((it) => it.feedback.score), raw);
+
+  const withCategories = items.map((it, i) => ({ categories: it.feedback.categories, weight: raw[i] })).filter((it) => it.categories);
+  const categories: Record<string, Aggregate> = {};
+  for (const { key } of dimensions) {
+    categories[key] = weightedStats(
+      withCategories.map((it) => it.categories?.[key]?.score ?? 0),
+      withCategories.map((it) => it.weight),
+    );
+  }
+
+  return { weights, score, categories };
+}
+
+/** Audit trail stored on OverallFeedback. */
+export function toOverallAggregation(aggregation: Aggregation): OverallAggregation {
+  return {
+    weights: aggregation.weights,
+    score_std_dev: aggregation.score.stdDev,
+    category_std_dev: Object.fromEntries(Object.entries(aggregation.categories).map(([k, c]) => [k, c.stdDev])),
+  };
+}
+
+/** Mean per dimension, as stored on OverallFeedback. */
+export function categoryMeans(aggregation: Aggregation): Record<string, number> {
+  return Object.fromEntries(Object.entries(aggregation.categories).map(([k, c]) => [k, c.mean]));
+}
+
+/** Highest and lowest scoring dimensions, for the narrative. */
+export function extremeCategories(aggregation: Aggregation, dimensions: RubricDimension[]): { strongest: RubricDimension; weakest: RubricDimension } {
+  const sorted = [...dimensions].sort((a, b) => (aggregation.categories[b.key]?.mean ?? 0) - (aggregation.categories[a.key]?.mean ?? 0));
+  return { strongest: sorted[0], weakest: sorted[sorted.length - 1] };
+}
+
+export type OverallNarrative = Pick<OverallFeedback, 'what_went_well' | 'needs_improvement' | 'summary'>;
+
+/**
+ * Narrative built from the per-question text when the synthesis call fails:
+ * the best answer's strength, the weakest answer's fix, and a one-line summary.
+ */
+export function fallbackNarrative(items: AggregationItem[], aggregation: Aggregation, dimensions: RubricDimension[]): OverallNarrative {
+  if (items.length === 0) return { what_went_well: '', needs_improvement: '', summary: '' };
+  const byScore = [...items].sort((a, b) => b.feedback.score - a.feedback.score);
+  const count = `${items.length} question${items.length === 1 ? '' : 's'}`;
+  let summary = `You averaged ${Math.round(aggregation.score.mean)} across ${count}`;
+  if (dimensions.length > 1) {
+    const { strongest, weakest } = extremeCategories(aggregation, dimensions);
+    summary += `, strongest in ${strongest.label.toLowerCase()} and weakest in ${weakest.label.toLowerCase()}`;
+  }
+  return {
+    what_went_well: byScore[0].feedback.what_went_well,
+    needs_improvement: byScore[byScore.length - 1].feedback.needs_improvement,
+    summary: `${summary}.`,
+  };
+}
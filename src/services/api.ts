@@ -1,51 +1,141 @@
-import type { FeedbackResponse, FactCheckResult } from '../types';
-import { createLogger } from '../utils/logger';
+import type { Difficulty, FactCheckResult, FeedbackSampling, JobCompetency, JobProfile, QuestionFeedback, QuestionMetrics, ResumeData, Role, RubricDimension, RubricId, RubricSummary } from '../types';
+import type { Aggregation, OverallNarrative } from './aggregation';
+import type { StarLabel } from './starSegments';
+import { FEEDBACK_EVENT_SCHEMAS, STATUS_CODES, routes, type ApiErrorCode, type ApiRoute, type FeedbackEvents, type FeedbackProvider } from '../../shared/contract';
+import { validateSchema } from '../../shared/schema';
+import { readEventStream } from '../utils/eventStream';
+import { createLogger, getSessionId } from '../utils/logger';
 
 const log = createLogger('API');
 
+export type { ApiErrorCode, FeedbackProvider };
+
+/** Schema problems an invalid_response error lists at most. */
+const MAX_DETAILS = 10;
+
+/** A failed /api call, read from the route's error envelope. */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  /** What was wrong with the request body (invalid_request) or the response (invalid_response). */
+  readonly details?: string[];
+  /** Seconds until the route takes requests again (rate_limited). */
+  readonly retryAfter?: number;
+
+  constructor(message: string, opts: { status: number; code?: ApiErrorCode; details?: string[]; retryAfter?: number }) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = opts.status;
+    this.code = opts.code ?? STATUS_CODES[opts.status] ?? 'internal_error';
+    this.details = opts.details;
+    this.retryAfter = opts.retryAfter;
+  }
+}
+
+/** Reads a failed response's envelope into an ApiError; `failure` names the call when the body has no message. */
+export async function toApiError(res: Response, failure: string): Promise<ApiError> {
+  const body = await res.json().catch(() => ({}));
+  const retryAfter = Number(body.retryAfter ?? res.headers.get('Retry-After'));
+  return new ApiError(typeof body.error === 'string' && body.error ? body.error : `${failure} (${res.status})`, {
+    status: res.status,
+    code: body.code,
+    details: Array.isArray(body.details) ? body.details : undefined,
+    retryAfter: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined,
+  });
+}
+
+/**
+ * POSTs `body` as JSON to an /api route, with the session id the server
+ * rate-limits by. Resolves to the response when it's ok and throws an
+ * ApiError when it isn't.
+ */
+export async function postApi<Req, Res>(route: ApiRoute<Req, Res>, failure: string, body?: NoInfer<Req>, init?: { signal?: AbortSignal }): Promise<Response> {
+  const res = await fetch(route.path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Session-Id': getSessionId() },
+    ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+    signal: init?.signal,
+  });
+  if (!res.ok) throw await toApiError(res, failure);
+  return res;
+}
+
+/**
+ * postApi for a route that answers JSON. Resolves to the body once it matches
+ * the route's response schema; anything else is an invalid_response ApiError,
+ * so a malformed reply never reaches the UI.
+ */
+export async function requestApi<Req, Res>(route: ApiRoute<Req, Res>, failure: string, body?: NoInfer<Req>, init?: { signal?: AbortSignal }): Promise<Res> {
+  const res = await postApi(route, failure, body, init);
+  const data: unknown = await res.json().catch(() => undefined);
+  const errors = data === undefined ? ['$: not JSON'] : validateSchema(data, route.response);
+  if (errors.length) {
+    log.error('Response broke the contract', { path: route.path, errors: errors.slice(0, MAX_DETAILS) });
+    throw new ApiError(`${failure} (unexpected response)`, { status: res.status, code: 'invalid_response', details: errors.slice(0, MAX_DETAILS) });
+  }
+  return data as Res;
+}
+
+/** Settings from SetupScreen that shape every generated question. */
+export interface QuestionGenOptions {
+  /** Competency chip id; omitted for 'random'. */
+  category?: string;
+  difficulty?: Difficulty;
+  /** Free-text role description when role is 'custom'. */
+  customRole?: string;
+  /** Reviewed resume sections, so resume-aware questions can cite specific entries. */
+  resume?: ResumeData;
+  /** Job-description competency to assess; ignored when a category is set. */
+  competency?: JobCompetency;
+}
+
 export async function generateQuestion(
-  role: string,
+  role: Role,
   questionNumber: number,
   previousQuestions: string[],
   jobDescription?: string,
-): Promise<string> {
+  opts?: QuestionGenOptions,
+): Promise<{ question: string; category: string }> {
   const stopTimer = log.time('generateQuestion');
-  const res = await fetch('/api/question', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ role, questionNumber, previousQuestions, ...(jobDescription ? { jobDescription } : {}) }),
+  const data = await requestApi(routes.question, 'Question generation failed', {
+    role,
+    questionNumber,
+    previousQuestions,
+    ...(jobDescription ? { jobDescription } : {}),
+    ...(opts?.category ? { category: opts.category } : {}),
+    ...(opts?.difficulty ? { difficulty: opts.difficulty } : {}),
+    ...(opts?.customRole ? { customRole: opts.customRole } : {}),
+    ...(opts?.competency ? { competency: opts.competency } : {}),
   });
-
-  if (!res.ok) {
-    const err = await res.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(err.error || `Question generation failed (${res.status})`);
-  }
-
-  const data = await res.json();
   stopTimer();
-  return data.question;
+  return { question: data.question, category: data.category || 'behavioral' };
 }
 
+/** QuestionGenOptions for the resume and job-description generators, plus the interview role. */
+type TailoredQuestionOptions = Pick<QuestionGenOptions, 'category' | 'difficulty' | 'customRole' | 'resume' | 'competency'> & { role?: Role };
+
 export async function generateResumeQuestion(
   resumeText: string,
   jobDescription: string,
   questionNumber: number,
   previousQuestions: string[],
   candidateName?: string,
+  opts?: TailoredQuestionOptions,
 ): Promise<{ question: string; type: string; focus: string }> {
   const stopTimer = log.time('generateResumeQuestion');
-  const res = await fetch('/api/resume-question', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ resumeText, jobDescription, questionNumber, previousQuestions, ...(candidateName ? { candidateName } : {}) }),
+  const data = await requestApi(routes.resumeQuestion, 'Resume question generation failed', {
+    resumeText,
+    jobDescription,
+    questionNumber,
+    previousQuestions,
+    ...(candidateName ? { candidateName } : {}),
+    ...(opts?.role ? { role: opts.role } : {}),
+    ...(opts?.customRole ? { customRole: opts.customRole } : {}),
+    ...(opts?.category ? { category: opts.category } : {}),
+    ...(opts?.difficulty ? { difficulty: opts.difficulty } : {}),
+    ...(opts?.resume ? { resume: opts.resume } : {}),
+    ...(opts?.competency ? { competency: opts.competency } : {}),
   });
-
-  if (!res.ok) {
-    const err = await res.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(err.error || `Resume question generation failed (${res.status})`);
-  }
-
-  const data = await res.json();
   stopTimer();
   return data;
 }
@@ -56,53 +146,186 @@ export async function generateJobDescQuestion(
   previousQuestions: string[],
   resumeText?: string,
   candidateName?: string,
+  opts?: TailoredQuestionOptions,
 ): Promise<{ question: string; type: string; focus: string }> {
   const stopTimer = log.time('generateJobDescQuestion');
-  const res = await fetch('/api/jobdesc-question', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      jobDescription,
-      questionNumber,
-      previousQuestions,
-      ...(resumeText ? { resumeText } : {}),
-      ...(candidateName ? { candidateName } : {}),
-    }),
+  const data = await requestApi(routes.jobDescriptionQuestion, 'Job description question generation failed', {
+    jobDescription,
+    questionNumber,
+    previousQuestions,
+    ...(resumeText ? { resumeText } : {}),
+    ...(candidateName ? { candidateName } : {}),
+    ...(opts?.role ? { role: opts.role } : {}),
+    ...(opts?.customRole ? { customRole: opts.customRole } : {}),
+    ...(opts?.category ? { category: opts.category } : {}),
+    ...(opts?.difficulty ? { difficulty: opts.difficulty } : {}),
+    ...(opts?.resume ? { resume: opts.resume } : {}),
+    ...(opts?.competency ? { competency: opts.competency } : {}),
   });
+  stopTimer();
+  return data;
+}
 
-  if (!res.ok) {
-    const err = await res.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(err.error || `Job description question generation failed (${res.status})`);
-  }
-
-  const data = await res.json();
+/** Title, seniority, skills, competencies and values extracted from a job description. */
+export async function analyzeJobDescription(jobDescription: string): Promise<JobProfile> {
+  const stopTimer = log.time('analyzeJobDescription');
+  const data = await requestApi(routes.analyzeJobDescription, 'Job description analysis failed', { jobDescription });
   stopTimer();
   return data;
 }
 
-export async function getFeedback(
+/** STAR label for each sentence of an answer, in order. */
+export async function labelStarSentences(question: string, sentences: string[]): Promise<StarLabel[]> {
+  const stopTimer = log.time('labelStarSentences');
+  const data = await requestApi(routes.starSegments, 'STAR segmentation failed', { question, sentences });
+  stopTimer();
+  return data.labels;
+}
+
+/** 0–2 follow-up questions probing what the answer left out (adaptive mode). */
+export async function generateFollowUps(
+  question: string,
+  transcript: string,
+  opts?: { role?: Role; customRole?: string; difficulty?: Difficulty },
+): Promise<string[]> {
+  const stopTimer = log.time('generateFollowUps');
+  const data = await requestApi(routes.followUps, 'Follow-up generation failed', {
+    question,
+    transcript,
+    ...(opts?.role ? { role: opts.role } : {}),
+    ...(opts?.customRole ? { customRole: opts.customRole } : {}),
+    ...(opts?.difficulty ? { difficulty: opts.difficulty } : {}),
+  });
+  stopTimer();
+  return data.followUps;
+}
+
+function isFeedbackEvent(event: string): event is keyof FeedbackEvents {
+  return Object.hasOwn(FEEDBACK_EVENT_SCHEMAS, event);
+}
+
+/** Per-question results of a streamed scoring call, in question order; null where scoring failed. */
+export interface FeedbackStreamResult {
+  questions: (QuestionFeedback | null)[];
+  rubric?: RubricSummary;
+  sampling?: FeedbackSampling;
+}
+
+/**
+ * Scores a thread, reporting each question through `onQuestion` as soon as the
+ * grader has it and each one that couldn't be scored through `onQuestionError`.
+ * Rejects only when the request fails outright.
+ */
+export async function streamFeedback(
   questions: string[],
   answers: string[],
-  opts?: { resumeText?: string; jobDescription?: string },
-): Promise<FeedbackResponse> {
-  const stopTimer = log.time('getFeedback');
-  const res = await fetch('/api/feedback', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      questions,
-      answers,
-      ...(opts?.resumeText ? { resumeText: opts.resumeText } : {}),
-      ...(opts?.jobDescription ? { jobDescription: opts.jobDescription } : {}),
-    }),
+  opts: {
+    resumeText?: string;
+    resume?: ResumeData;
+    jobDescription?: string;
+    /** Job-description competencies to check each answer against. */
+    competencies?: JobCompetency[];
+    role?: Role;
+    customRole?: string;
+    difficulty?: Difficulty;
+    /** Per question: index of the question it follows up on, or null. */
+    followUpOf?: (number | null)[];
+    rubric?: RubricId;
+    /** Grader samples to take; above 1 the response carries score intervals. */
+    samples?: number;
+    /** Per question: delivery measured from the recording. */
+    metrics?: QuestionMetrics[];
+    provider?: FeedbackProvider;
+    onQuestion?: (index: number, feedback: QuestionFeedback) => void;
+    onQuestionError?: (index: number, error: string) => void;
+  } = {},
+): Promise<FeedbackStreamResult> {
+  const stopTimer = log.time('streamFeedback');
+  const res = await postApi(routes.feedback, 'Feedback failed', {
+    questions,
+    answers,
+    stream: true,
+    ...(opts.resumeText ? { resumeText: opts.resumeText } : {}),
+    ...(opts.resume ? { resume: opts.resume } : {}),
+    ...(opts.jobDescription ? { jobDescription: opts.jobDescription } : {}),
+    ...(opts.competencies?.length ? { competencies: opts.competencies } : {}),
+    ...(opts.role ? { role: opts.role } : {}),
+    ...(opts.customRole ? { customRole: opts.customRole } : {}),
+    ...(opts.difficulty ? { difficulty: opts.difficulty } : {}),
+    ...(opts.followUpOf?.some((p) => p !== null) ? { followUpOf: opts.followUpOf } : {}),
+    ...(opts.rubric ? { rubric: opts.rubric } : {}),
+    ...(opts.samples && opts.samples > 1 ? { samples: opts.samples } : {}),
+    ...(opts.metrics?.length ? { metrics: opts.metrics } : {}),
+    ...(opts.provider === 'groq' ? { provider: 'groq' as const } : {}),
   });
+  if (!res.body) throw new ApiError('Feedback failed (empty response)', { status: res.status, code: 'upstream_error' });
 
-  if (!res.ok) {
-    const err = await res.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(err.error || `Feedback failed (${res.status})`);
-  }
+  const result: FeedbackStreamResult = { questions: questions.map(() => null) };
+  const reported = new Set<number>();
+  await readEventStream(res.body, ({ event, data }) => {
+    if (!isFeedbackEvent(event)) return;
+    let payload: unknown;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      payload = undefined;
+    }
+    const errors = validateSchema(payload, FEEDBACK_EVENT_SCHEMAS[event]);
+    const index = (payload as { index?: unknown } | undefined)?.index;
+    if (event === 'done') {
+      if (errors.length) {
+        log.warn('Malformed done event', { errors: errors.slice(0, MAX_DETAILS) });
+        return;
+      }
+      const done = payload as FeedbackEvents['done'];
+      if (done.rubric) result.rubric = done.rubric;
+      if (done.sampling) result.sampling = done.sampling;
+      return;
+    }
+    if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= questions.length) return;
+    reported.add(index);
+    if (errors.length) {
+      // A malformed score is a failed one, so it gets retried rather than shown
+      log.error('Malformed feedback event', { event, index, errors: errors.slice(0, MAX_DETAILS) });
+      if (!result.questions[index]) opts.onQuestionError?.(index, 'Feedback came back malformed');
+    } else if (event === 'question') {
+      const { feedback } = payload as FeedbackEvents['question'];
+      result.questions[index] = feedback;
+      opts.onQuestion?.(index, feedback);
+    } else if (!result.questions[index]) {
+      opts.onQuestionError?.(index, (payload as FeedbackEvents['question_error']).error || 'Feedback failed');
+    }
+  });
+
+  // The stream can end early (e.g. the function timed out); anything unreported failed
+  questions.forEach((_, i) => {
+    if (!reported.has(i)) opts.onQuestionError?.(i, 'Scoring was interrupted');
+  });
+  stopTimer();
+  return result;
+}
 
-  const data: FeedbackResponse = await res.json();
+/** One short call that writes the overall narrative from the aggregated scores and per-question notes. */
+export async function synthesizeOverall(
+  aggregation: Aggregation,
+  dimensions: RubricDimension[],
+  questions: { question: string; feedback: QuestionFeedback }[],
+  opts?: { role?: Role; customRole?: string },
+): Promise<OverallNarrative> {
+  const stopTimer = log.time('synthesizeOverall');
+  const data = await requestApi(routes.overallFeedback, 'Overall feedback failed', {
+    score: aggregation.score.mean,
+    categories: Object.fromEntries(dimensions.map((d) => [d.label, aggregation.categories[d.key]])),
+    questions: questions.map((q, i) => ({
+      question: q.question,
+      score: q.feedback.score,
+      weight: aggregation.weights[i],
+      what_went_well: q.feedback.what_went_well,
+      needs_improvement: q.feedback.needs_improvement,
+    })),
+    ...(opts?.role ? { role: opts.role } : {}),
+    ...(opts?.customRole ? { customRole: opts.customRole } : {}),
+  });
   stopTimer();
   return data;
 }
@@ -113,18 +336,7 @@ export async function factCheck(
   correction: string,
 ): Promise<FactCheckResult> {
   const stopTimer = log.time('factCheck');
-  const res = await fetch('/api/factcheck', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ question, answer, correction }),
-  });
-
-  if (!res.ok) {
-    const err = await res.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(err.error || `Factcheck failed (${res.status})`);
-  }
-
-  const data: FactCheckResult = await res.json();
+  const data = await requestApi(routes.factCheck, 'Factcheck failed', { question, answer, correction });
   stopTimer();
   return data;
 }
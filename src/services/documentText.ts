@@ -0,0 +1,197 @@
+/**
+ * Document ingestion for resumes and job postings.
+ *
+ * Turns an uploaded PDF, DOCX, Markdown, HTML or plain-text file into plain
+ * text with line breaks preserved (the resume parser relies on them). The
+ * PDF and DOCX parsers are bundled and loaded on demand, so uploads work
+ * offline and don't pull a third-party script into the page.
+ */
+
+export type DocumentKind = 'pdf' | 'docx' | 'markdown' | 'html' | 'text';
+
+/** `accept` attribute for file inputs. */
+export const DOCUMENT_ACCEPT = '.pdf,.docx,.md,.markdown,.html,.htm,.txt';
+/** Formats as listed to the user. */
+export const DOCUMENT_FORMATS_LABEL = 'PDF, DOCX, MD, HTML, TXT';
+export const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
+/** Fewer readable characters per page than this, on average, and the PDF is treated as scanned. */
+const MIN_CHARS_PER_PAGE = 20;
+
+const EXTENSIONS: Array<[RegExp, DocumentKind]> = [
+  [/\.pdf$/i, 'pdf'],
+  [/\.docx$/i, 'docx'],
+  [/\.(md|markdown)$/i, 'markdown'],
+  [/\.html?$/i, 'html'],
+  [/\.txt$/i, 'text'],
+];
+
+const MIME_TYPES: Record<string, DocumentKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'text/plain': 'text',
+};
+
+export function documentKind(file: Pick<File, 'name' | 'type'>): DocumentKind | null {
+  for (const [pattern, kind] of EXTENSIONS) {
+    if (pattern.test(file.name)) return kind;
+  }
+  return MIME_TYPES[file.type] ?? null;
+}
+
+/** Returns a user-facing reason the file can't be ingested, or null if it looks fine. */
+export function validateDocument(file: Pick<File, 'name' | 'type' | 'size'>): string | null {
+  if (/\.doc$/i.test(file.name) || file.type === 'application/msword') {
+    return 'Legacy .doc files aren\'t supported — save it as DOCX or PDF and try again.';
+  }
+  if (!documentKind(file)) return `Please upload a ${DOCUMENT_FORMATS_LABEL} file.`;
+  if (file.size > MAX_DOCUMENT_BYTES) return 'File too large — max 5 MB.';
+  return null;
+}
+
+/**
+ * True when a PDF's pages carry almost no text — a scan or an exported image,
+ * which needs OCR we don't do.
+ */
+export function isImageOnly(pageTexts: string[]): boolean {
+  if (pageTexts.length === 0) return true;
+  const chars = pageTexts.join('').replace(/\s+/g, '').length;
+  return chars < MIN_CHARS_PER_PAGE * pageTexts.length;
+}
+
+/* ── Format-specific extraction ── */
+
+async function extractPdf(file: File): Promise<string> {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  }
+
+  let pdf;
+  try {
+    pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  } catch (err) {
+    if (err instanceof Error && err.name === 'PasswordException') {
+      throw new Error('This PDF is password-protected. Remove the password or upload a DOCX instead.');
+    }
+    throw new Error('This PDF could not be read — it may be damaged. Try re-exporting it.');
+  }
+
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    // Keep pdf.js line breaks so the resume parser can find section headings
+    const text = content.items
+      .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+      .join('');
+    pages.push(text);
+  }
+  await pdf.destroy();
+
+  if (isImageOnly(pages)) {
+    throw new Error(
+      'This PDF looks scanned or image-only, so there is no text to read. Upload a text-based PDF (export it from your editor rather than scanning it) or a DOCX.',
+    );
+  }
+  return pages.join('\n');
+}
+
+async function extractDocx(file: File): Promise<string> {
+  const { default: mammoth } = await import('mammoth');
+  try {
+    const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+    return result.value;
+  } catch {
+    throw new Error('This DOCX could not be read — it may be damaged. Try re-saving it or upload a PDF.');
+  }
+}
+
+/** Strips Markdown syntax, keeping headings and list items on their own lines. */
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/gm, '$1')
+    .replace(/^\s{0,3}>\s?/gm, '')
+    .replace(/^\s*([-*_]\s*){3,}$/gm, '')
+    .replace(/^\s*([-*+]|\d+[.)])\s+/gm, '• ')
+    // Tables: drop the separator row, keep cells pipe-separated
+    .replace(/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/gm, '')
+    .replace(/^\s*\|(.*)\|\s*$/gm, (_m, row: string) => row.split('|').map((c) => c.trim()).join(' | '))
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])([*_])(\S(?:.*?\S)?)\2(?![\w*])/gm, '$1$3')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const HTML_SKIP = 'script, style, noscript, template, svg, nav, header, footer, form, button, iframe';
+const HTML_BLOCKS = new Set(['P', 'DIV', 'SECTION', 'ARTICLE', 'BR', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'TR', 'UL', 'OL', 'LI', 'DT', 'DD', 'TABLE', 'BLOCKQUOTE', 'PRE', 'MAIN']);
+
+/** Readable text of a saved job posting page: boilerplate removed, blocks on their own lines. */
+export function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll(HTML_SKIP).forEach((el) => el.remove());
+  const root = doc.querySelector('main, article, [role="main"]') ?? doc.body;
+
+  const parts: string[] = [];
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parts.push(node.textContent?.replace(/\s+/g, ' ') ?? '');
+      return;
+    }
+    if (!(node instanceof Element)) return;
+    const block = HTML_BLOCKS.has(node.tagName);
+    if (block) parts.push('\n');
+    if (node.tagName === 'LI') parts.push('• ');
+    node.childNodes.forEach(walk);
+    if (block) parts.push('\n');
+  };
+  if (root) walk(root);
+
+  return parts
+    .join('')
+    .split('\n')
+    .map((l) => l.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Extracts plain text from an uploaded document. Throws an Error with a
+ * message that can be shown to the user as-is.
+ */
+export async function extractDocumentText(file: File): Promise<string> {
+  const invalid = validateDocument(file);
+  if (invalid) throw new Error(invalid);
+
+  let text: string;
+  switch (documentKind(file)) {
+    case 'pdf':
+      text = await extractPdf(file);
+      break;
+    case 'docx':
+      text = await extractDocx(file);
+      break;
+    case 'markdown':
+      text = markdownToText(await file.text());
+      break;
+    case 'html':
+      text = htmlToText(await file.text());
+      break;
+    default:
+      text = await file.text();
+  }
+
+  if (!text.trim()) throw new Error('No text found in this file.');
+  return text;
+}
@@ -0,0 +1,57 @@
+import type { Question } from '../types';
+
+/**
+ * Adaptive follow-ups.
+ *
+ * In adaptive mode the interviewer may probe an answer with up to two
+ * follow-up questions. They are inserted into the queue right after the
+ * question they probe and carry its id as `parentId`; a main question plus
+ * its follow-ups forms a thread that is scored in a single feedback call.
+ */
+
+/** Spoken instead of the usual "next question" transition before a follow-up. */
+export const FOLLOW_UP_TRANSITION = 'Let me follow up on that.';
+
+export function toFollowUpQuestions(parent: Question, texts: string[]): Question[] {
+  return texts.map((text, i) => ({
+    id: `${parent.id}-followup-${i + 1}`,
+    text,
+    role: parent.role,
+    difficulty: parent.difficulty,
+    ...(parent.category ? { category: parent.category } : {}),
+    ...(parent.competency ? { competency: parent.competency } : {}),
+    parentId: parent.id,
+  }));
+}
+
+/** Returns a new queue with the follow-ups placed right after `afterIndex`. */
+export function insertFollowUps(questions: Question[], afterIndex: number, followUps: Question[]): Question[] {
+  return [...questions.slice(0, afterIndex + 1), ...followUps, ...questions.slice(afterIndex + 1)];
+}
+
+/** Index of the main question that starts the thread containing `index`. */
+export function threadStart(questions: Question[], index: number): number {
+  let start = index;
+  while (start > 0 && questions[start]?.parentId) start--;
+  return start;
+}
+
+/** True when the question after `index` is not part of the same thread. */
+export function isThreadComplete(questions: Question[], index: number): boolean {
+  return !questions[index + 1]?.parentId;
+}
+
+/**
+ * `followUpOf` for /api/feedback: for each question in a thread, the index
+ * (within the thread) of the question it follows up on, or null.
+ */
+export function threadFollowUpOf(thread: Question[]): (number | null)[] {
+  return thread.map((q) => (q.parentId ? 0 : null));
+}
+
+/** Progress counts main questions only; follow-ups share their parent's number. */
+export function questionProgress(questions: Question[], index: number): { number: number; total: number; isFollowUp: boolean } {
+  const total = questions.filter((q) => !q.parentId).length;
+  const number = questions.slice(0, index + 1).filter((q) => !q.parentId).length;
+  return { number, total, isFollowUp: Boolean(questions[index]?.parentId) };
+}
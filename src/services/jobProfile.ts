@@ -0,0 +1,51 @@
+import type { JobCompetency, JobProfile, QuestionResult } from '../types';
+
+/**
+ * Competency coverage for job-description interviews.
+ *
+ * The analyzer ranks the posting's competencies by importance; questions are
+ * assigned to them in that order so a short interview still covers the ones
+ * that matter most, and feedback reports which of them the answers showed.
+ */
+
+/** Competency each of `count` questions should assess, most important first, cycling when there are more questions than competencies. */
+export function competencyPlan(profile: JobProfile | null | undefined, count: number): (JobCompetency | undefined)[] {
+  const competencies = profile?.competencies ?? [];
+  return Array.from({ length: count }, (_, i) => (competencies.length ? competencies[i % competencies.length] : undefined));
+}
+
+export type CoverageStatus = 'demonstrated' | 'asked' | 'missed';
+
+export interface CompetencyCoverage {
+  competency: JobCompetency;
+  status: CoverageStatus;
+  /** 1-based numbers of the main questions that targeted or demonstrated it. */
+  questionNumbers: number[];
+}
+
+const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * demonstrated — some answer gave evidence of it (per /api/feedback);
+ * asked — a question targeted it but no answer showed it;
+ * missed — no question reached it.
+ */
+export function competencyCoverage(profile: JobProfile, results: QuestionResult[]): CompetencyCoverage[] {
+  // Follow-ups share their parent's number
+  let number = 0;
+  const numbered = results.map((r) => {
+    if (!r.question.parentId) number++;
+    return { result: r, number };
+  });
+
+  return profile.competencies.map((competency) => {
+    const demonstratedIn = numbered.filter(({ result }) =>
+      result.feedback?.competencies_demonstrated?.some((c) => same(c, competency.name)),
+    );
+    const askedIn = numbered.filter(({ result }) => result.question.competency && same(result.question.competency, competency.name));
+
+    const status: CoverageStatus = demonstratedIn.length ? 'demonstrated' : askedIn.length ? 'asked' : 'missed';
+    const questionNumbers = [...new Set((demonstratedIn.length ? demonstratedIn : askedIn).map((n) => n.number))];
+    return { competency, status, questionNumbers };
+  });
+}
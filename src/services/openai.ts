@@ -1,21 +1,11 @@
 import { createLogger } from '../utils/logger';
+import { postApi, requestApi } from './api';
+import { routes, type PauseVerdict, type ScriptDirective, type ScriptRequest } from '../../shared/contract';
+import type { FeedbackResponse } from '../types';
 
 const log = createLogger('OpenAI');
 
-// Lazy-load the OpenAI SDK to avoid blocking initial page load
-let _openai: import('openai').default | null = null;
-
-async function getClient() {
-  if (_openai) return _openai;
-  const OpenAI = (await import('openai')).default;
-  _openai = new OpenAI({
-    apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-    dangerouslyAllowBrowser: true,
-  });
-  return _openai;
-}
-
-// --- TTS ---
+// --- TTS --- via the /api/tts proxy (the OpenAI key stays on the server)
 const ttsCache = new Map<string, Blob>();
 
 export async function textToSpeech(text: string, voice: string = 'marin', speed: number = 1.0, instructions?: string): Promise<Blob> {
@@ -26,17 +16,9 @@ export async function textToSpeech(text: string, voice: string = 'marin', speed:
     return cached;
   }
 
-  const openai = await getClient();
-  const response = await openai.audio.speech.create({
-    model: 'gpt-4o-mini-tts-2025-12-15',
-    voice: voice as 'alloy' | 'nova' | 'shimmer' | 'echo' | 'onyx' | 'fable' | 'marin',
-    input: text,
-    instructions: instructions ?? 'Casual American female voice. Relaxed, steady pacing with natural micro-pauses between phrases. Slight upward inflection when asking questions. No vocal fry. Do not sound like a narrator or announcer — sound like a real person talking across a table.',
-    response_format: 'mp3',
-    speed: Math.max(0.25, Math.min(4.0, speed)), // OpenAI TTS supports 0.25-4.0
-  });
+  const response = await postApi(routes.tts, 'Text-to-speech failed', { text, voice, speed, instructions });
 
-  const blob = new Blob([await response.arrayBuffer()], { type: 'audio/mpeg' });
+  const blob = new Blob([await response.arrayBuffer()], { type: response.headers.get('Content-Type') ?? 'audio/mpeg' });
   ttsCache.set(cacheKey, blob);
   return blob;
 }
@@ -52,47 +34,32 @@ export function prefetchTTS(texts: string[], voice: string = 'marin', speed: num
 
 // --- Script Response (Pre-Interview) --- via Groq serverless
 export async function generateScriptResponse(
-  systemPrompt: string,
-  directive: string,
+  directive: ScriptDirective,
   conversationContext?: string,
+  params: Pick<ScriptRequest, 'questionCount'> = {},
 ): Promise<string> {
   const stopTimer = log.time('generateScriptResponse');
 
-  const response = await fetch('/api/script', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ systemPrompt, directive, conversationContext }),
+  const { text } = await requestApi(routes.script, 'Script generation failed', {
+    directive,
+    ...params,
+    // The route takes the last 4000 characters of context at most
+    ...(conversationContext ? { conversationContext: conversationContext.slice(-4000) } : {}),
   });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({}));
-    throw new Error(err.error || 'Script generation failed');
-  }
-
-  const data = await response.json();
-  const text = data.text ?? '';
   stopTimer();
   log.info('Script response generated', { length: text.length });
   return text;
 }
 
 // --- Voice Summary (post-interview debrief) --- via Groq serverless
-export async function generateVoiceSummary(feedback: import('../types').FeedbackResponse): Promise<string> {
+export async function generateVoiceSummary(feedback: FeedbackResponse): Promise<string> {
   const stopTimer = log.time('generateVoiceSummary');
 
-  const response = await fetch('/api/voice-summary', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ overall: feedback.overall, questions: feedback.questions }),
+  const { text } = await requestApi(routes.voiceSummary, 'Voice summary failed', {
+    overall: { score: feedback.overall.score, what_went_well: feedback.overall.what_went_well, needs_improvement: feedback.overall.needs_improvement },
+    // Only what the debrief reads, so a long session stays well under the body limit
+    questions: feedback.questions.map((q) => ({ score: q.score, summary: q.summary })),
   });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({}));
-    throw new Error(err.error || 'Voice summary failed');
-  }
-
-  const data = await response.json();
-  const text = data.text ?? '';
   stopTimer();
   log.info('Voice summary generated', { length: text.length });
   return text;
@@ -103,26 +70,12 @@ export async function generateVoiceSummary(feedback: import('../types').Feedback
 //   'definitely_done'          — auto-submit the answer (extremely high confidence)
 //   'definitely_still_talking' — stay silent, don't interrupt (extremely high confidence)
 //   'ask'                      — ask the user if they're finished (anything in between)
-export async function analyzePause(transcript: string): Promise<'definitely_done' | 'definitely_still_talking' | 'ask'> {
+export async function analyzePause(transcript: string): Promise<PauseVerdict> {
   const stopTimer = log.time('analyzePause');
   log.info('analyzePause called', { transcriptLength: transcript.length });
 
-  const response = await fetch('/api/pause', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ transcript }),
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({}));
-    throw new Error(err.error || 'Pause analysis failed');
-  }
-
-  const data = await response.json();
-  const verdict = data.verdict;
+  const { verdict } = await requestApi(routes.pause, 'Pause analysis failed', { transcript });
   stopTimer();
   log.info('analyzePause verdict', { verdict });
-  if (verdict === 'definitely_done') return 'definitely_done';
-  if (verdict === 'definitely_still_talking') return 'definitely_still_talking';
-  return 'ask';
+  return verdict;
 }
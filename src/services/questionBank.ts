@@ -0,0 +1,72 @@
+import type { Difficulty, Question, Role } from '../types';
+
+/**
+ * Curated question bank.
+ *
+ * The bank is read through the `QuestionBank` interface so the loader does not
+ * care whether rows come from Supabase (see `supabase.ts`) or from the
+ * in-memory adapter the unit suites use (see `setQuestionBank()` in
+ * `questionLoader.ts`). Without Supabase there is no bank: every question is
+ * generated.
+ */
+
+/** Row shape of the `questions` table (see supabase/schema.sql). */
+export interface QuestionBankRow {
+  id: string;
+  text: string;
+  role: Role;
+  difficulty: Difficulty;
+  category: string | null;
+}
+
+export interface QuestionBankFilter {
+  role: Role;
+  difficulty: Difficulty;
+  /** Competency chip from SetupScreen. Omitted or 'random' means any category. */
+  category?: string;
+}
+
+export interface QuestionBank {
+  fetchQuestions(filter: QuestionBankFilter): Promise<QuestionBankRow[]>;
+}
+
+/** Categories that actually narrow the bank — 'random' is a UI-only choice. */
+export function normalizeCategory(category?: string | null): string | undefined {
+  if (!category || category === 'random') return undefined;
+  return category;
+}
+
+export function rowToQuestion(row: QuestionBankRow): Question {
+  return {
+    id: `bank-${row.id}`,
+    text: row.text,
+    role: row.role,
+    difficulty: row.difficulty,
+    category: row.category ?? 'behavioral',
+  };
+}
+
+/** Fisher–Yates shuffle; returns a new array. */
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/** In-memory adapter with the same filtering semantics as the Supabase query. */
+export function createInMemoryQuestionBank(rows: QuestionBankRow[]): QuestionBank {
+  return {
+    async fetchQuestions({ role, difficulty, category }) {
+      const wanted = normalizeCategory(category);
+      return rows.filter(
+        (row) =>
+          row.role === role &&
+          row.difficulty === difficulty &&
+          (!wanted || row.category === wanted),
+      );
+    },
+  };
+}
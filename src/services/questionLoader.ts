@@ -1,5 +1,8 @@
-import type { Difficulty, Question, Role } from '../types';
+import type { Difficulty, JobCompetency, JobProfile, Question, ResumeData, Role } from '../types';
 import { generateQuestion, generateResumeQuestion, generateJobDescQuestion } from './api';
+import { supabaseQuestionBank } from './supabase';
+import { normalizeCategory, rowToQuestion, shuffle, type QuestionBank } from './questionBank';
+import { competencyPlan } from './jobProfile';
 import { createLogger } from '../utils/logger';
 
 const log = createLogger('QuestionLoader');
@@ -9,8 +12,16 @@ export interface QuestionLoadConfig {
   difficulty: Difficulty;
   count: number;
   resumeText?: string;
+  /** Parsed and reviewed resume; lets questions cite specific projects and roles. */
+  resumeData?: ResumeData;
   jobDescription?: string;
+  /** Analyzed job description; questions are spread over its top competencies. */
+  jobProfile?: JobProfile;
   candidateName?: string;
+  /** Category chip from SetupScreen ('random' or omitted = any). */
+  category?: string;
+  /** Free-text role description, required when role is 'custom'. */
+  customRole?: string;
 }
 
 /* ── Similarity check ── */
@@ -57,12 +68,22 @@ function questionsSimilar(a: string, b: string): boolean {
 
 const MAX_REGEN_ATTEMPTS = 2;
 
+let questionBank: QuestionBank = supabaseQuestionBank;
+
+/** Read curated questions from `bank` instead of Supabase (the unit suites use the in-memory adapter). */
+export function setQuestionBank(bank: QuestionBank): void {
+  questionBank = bank;
+}
+
 async function generateForIndex(
   i: number,
   config: QuestionLoadConfig,
   previousQuestions: string[],
+  competency: JobCompetency | undefined,
 ): Promise<{ text: string; category: string }> {
-  const { role, resumeText, jobDescription, candidateName } = config;
+  const { role, difficulty, resumeText, resumeData, jobDescription, candidateName, customRole } = config;
+  const category = normalizeCategory(config.category);
+  const focus = competency ? { competency } : {};
   const useResume = Boolean(resumeText && jobDescription);
 
   if (useResume && i === 0) {
@@ -73,6 +94,7 @@ async function generateForIndex(
       i + 1,
       previousQuestions,
       candidateName,
+      { category, difficulty, role, customRole, ...(resumeData ? { resume: resumeData } : {}), ...focus },
     );
     return { text: result.question, category: result.type || 'behavioral' };
   } else if (useResume && i >= 1) {
@@ -83,30 +105,58 @@ async function generateForIndex(
       previousQuestions,
       resumeText,
       candidateName,
+      { category, difficulty, role, customRole, ...(resumeData ? { resume: resumeData } : {}), ...focus },
     );
     return { text: result.question, category: result.type || 'behavioral' };
   } else {
-    const text = await generateQuestion(role, i + 1, previousQuestions, jobDescription);
-    return { text, category: 'behavioral' };
+    const result = await generateQuestion(role, i + 1, previousQuestions, jobDescription, { category, difficulty, customRole, ...focus });
+    return { text: result.question, category: result.category };
+  }
+}
+
+/**
+ * Curated bank questions only fit the generic flow — resume and job-description
+ * interviews need questions written against that context, and custom roles
+ * need questions written against the user's description. Returns an empty
+ * list when the bank is unavailable (or Supabase isn't configured); the AI
+ * generators then write every question.
+ */
+async function loadFromBank(config: QuestionLoadConfig): Promise<Question[]> {
+  if (config.resumeText || config.jobDescription || config.role === 'custom') return [];
+  const { role, difficulty, category, count } = config;
+  let matches: Question[];
+  try {
+    matches = (await questionBank.fetchQuestions({ role, difficulty, category })).map(rowToQuestion);
+  } catch (err) {
+    log.warn('Question bank unavailable, generating with AI', { error: String(err) });
+    return [];
+  }
+  log.debug('Question bank matches', { role, difficulty, category, count: matches.length });
+  if (matches.length < count) {
+    log.info('Question bank has too few matches, topping up with AI', { matches: matches.length, count, category });
   }
+  return shuffle(matches).slice(0, count);
 }
 
 export async function loadQuestions(config: QuestionLoadConfig): Promise<Question[]> {
   const { role, difficulty, count } = config;
-  const questions: Question[] = [];
-  const previousQuestions: string[] = [];
+  const questions: Question[] = await loadFromBank(config);
+  const previousQuestions: string[] = questions.map(q => q.text);
+  // A category chip overrides job-description competencies
+  const plan = normalizeCategory(config.category) ? [] : competencyPlan(config.jobProfile, count);
 
-  // Generate questions sequentially so each call can avoid duplicates
-  for (let i = 0; i < count; i++) {
-    let { text, category } = await generateForIndex(i, config, previousQuestions);
+  // Generate the remainder sequentially so each call can avoid duplicates
+  for (let i = questions.length; i < count; i++) {
+    const competency = plan[i];
+    let { text, category } = await generateForIndex(i, config, previousQuestions, competency);
 
     // Similarity guard: if this question is too similar to a previous one, regenerate
-    if (i > 0) {
+    if (previousQuestions.length > 0) {
       let attempts = 0;
       while (attempts < MAX_REGEN_ATTEMPTS && previousQuestions.some(prev => questionsSimilar(prev, text))) {
         log.info('Question too similar, regenerating', { attempt: attempts + 1, questionIndex: i });
         const strengthenedPrev = [...previousQuestions, text];
-        const regen = await generateForIndex(i, config, strengthenedPrev);
+        const regen = await generateForIndex(i, config, strengthenedPrev, competency);
         text = regen.text;
         category = regen.category;
         attempts++;
@@ -120,6 +170,7 @@ export async function loadQuestions(config: QuestionLoadConfig): Promise<Questio
       role,
       difficulty,
       category,
+      ...(competency ? { competency: competency.name } : {}),
     });
   }
 
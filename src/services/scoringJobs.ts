@@ -0,0 +1,436 @@
+import type {
+  Difficulty,
+  FeedbackResponse,
+  JobCompetency,
+  OverallFeedback,
+  Question,
+  QuestionFeedback,
+  QuestionMetrics,
+  QuestionResult,
+  ResumeData,
+  Role,
+  RubricId,
+  RubricSummary,
+  Session,
+  TimestampedWord,
+} from '../types';
+import { ApiError, streamFeedback, synthesizeOverall, type FeedbackProvider } from './api';
+import { aggregateFeedback, categoryMeans, fallbackNarrative, toOverallAggregation } from './aggregation';
+import { buildSession, enqueueSessionSync } from './sessionStore';
+import { feedbackDimensions } from '../config/rubrics';
+import { threadFollowUpOf } from './followUps';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Scoring job manager.
+ *
+ * An interview's answers are scored by jobs: one per thread (a question and
+ * its follow-ups) as soon as its last answer is in, then one per question for
+ * anything that failed, retried with backoff and falling back from OpenAI to
+ * Groq. The run — answers, results and pending jobs — is kept in localStorage
+ * so a reload picks up where it left off. Once the interview is over and no
+ * jobs are left, the overall is aggregated and the session saved; re-scoring
+ * a question later does both again.
+ */
+
+const log = createLogger('ScoringJobs');
+
+const STORAGE_KEY_SCORING_RUN = 'polyprompts-scoring-run';
+
+/** Each retry of a failed question: how long to wait first and which grader to use. Past the end, it fails. */
+export const RETRY_PLAN: { delayMs: number; provider: FeedbackProvider }[] = [
+  { delayMs: 2000, provider: 'openai' },
+  { delayMs: 5000, provider: 'groq' },
+  { delayMs: 15000, provider: 'groq' },
+];
+
+/** Interview settings every scoring call of a run is sent with. */
+export interface ScoringOptions {
+  role: Role;
+  customRole?: string;
+  difficulty: Difficulty;
+  rubric: RubricId;
+  /** Grader samples per call (consistency scoring); the Groq fallback always takes one. */
+  samples?: number;
+  resumeText?: string;
+  resume?: ResumeData;
+  jobDescription?: string;
+  competencies?: JobCompetency[];
+  attemptNumber: number;
+}
+
+/** What a run keeps of an answer; media blobs stay in memory only. */
+export interface ScoringAnswer {
+  question: Question;
+  transcript: string;
+  metrics: QuestionMetrics;
+  wordTimestamps?: TimestampedWord[];
+}
+
+export interface ScoringJob {
+  id: string;
+  /** Interview indices of the questions this job scores. */
+  indices: number[];
+  /** 0 for the first try, n for the nth retry (see RETRY_PLAN). */
+  attempt: number;
+  /** Epoch ms before which the job doesn't start. */
+  notBefore: number;
+}
+
+export interface ScoringRun {
+  /** Also the id of the session the run is saved as. */
+  id: string;
+  options: ScoringOptions;
+  /** By interview index; null until the answer's thread is sent for scoring. */
+  answers: (ScoringAnswer | null)[];
+  feedback: (QuestionFeedback | null)[];
+  /** Why an answer couldn't be scored, once its retries ran out. */
+  errors: (string | null)[];
+  /** Jobs not yet settled, including ones in flight. */
+  jobs: ScoringJob[];
+  /** Every answer is in; the overall is built once no jobs are left. */
+  complete: boolean;
+  /** The overall was built (or every answer failed) with no jobs left; a new job clears it. */
+  finalized?: boolean;
+  rubric?: RubricSummary;
+  sampling?: FeedbackResponse['sampling'];
+}
+
+export type ScoringEvent =
+  | { type: 'question'; index: number; feedback: QuestionFeedback }
+  | { type: 'question_error'; index: number; error: string }
+  /** A run was picked up after a reload; these are its answers with what's been scored so far. */
+  | { type: 'restored'; results: QuestionResult[] }
+  | { type: 'complete'; feedback: FeedbackResponse; session: Session }
+  /** No answer could be scored. */
+  | { type: 'failed' };
+
+/* ── Job payloads ── */
+
+/**
+ * The questions a job sends, as interview indices: its own, plus the main
+ * question of any follow-up so the grader sees what is being followed up on.
+ * Jobs are a whole thread or a single question, so this is always a thread
+ * (or the start of one). Only the job's own results are kept.
+ */
+function jobQuestionIndices(answers: (ScoringAnswer | null)[], indices: number[]): number[] {
+  const sent = new Set<number>();
+  for (const index of indices) {
+    const parentId = answers[index]?.question.parentId;
+    const parent = parentId ? answers.findIndex((a) => a?.question.id === parentId) : -1;
+    if (parent >= 0) sent.add(parent);
+    sent.add(index);
+  }
+  return [...sent].sort((a, b) => a - b);
+}
+
+/* ── Run state ── */
+
+let run: ScoringRun | null = null;
+const running = new Set<string>();
+const listeners = new Set<(event: ScoringEvent) => void>();
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+let finalizing = false;
+let finalizeAgain = false;
+
+function emit(event: ScoringEvent): void {
+  for (const listener of listeners) listener(event);
+}
+
+// undefined fields are dropped by JSON.stringify
+function withoutWordTimestamps(current: ScoringRun): ScoringRun {
+  return { ...current, answers: current.answers.map((a) => (a ? { ...a, wordTimestamps: undefined } : a)) };
+}
+
+/** Save the run; on quota errors, try again without word timestamps. */
+function persist(): void {
+  if (!run) return;
+  for (const attempt of [run, withoutWordTimestamps(run)]) {
+    try {
+      localStorage.setItem(STORAGE_KEY_SCORING_RUN, JSON.stringify(attempt));
+      return;
+    } catch (err) {
+      log.warn('Scoring run persist failed', { runId: run.id, error: String(err) });
+    }
+  }
+}
+
+function loadRun(): ScoringRun | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_SCORING_RUN);
+    const parsed = stored ? (JSON.parse(stored) as ScoringRun) : null;
+    return parsed && Array.isArray(parsed.jobs) && Array.isArray(parsed.answers) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function toResult(answer: ScoringAnswer, feedback: QuestionFeedback | null, error: string | null): QuestionResult {
+  return { ...answer, feedback, ...(error ? { scoringError: error } : {}) };
+}
+
+/** Listen for scoring results; returns the unsubscribe function. */
+export function subscribeScoring(listener: (event: ScoringEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Start scoring a new interview; any run still in progress is abandoned. Returns the run id. */
+export function startScoringRun(options: ScoringOptions): string {
+  if (run && (run.jobs.length > 0 || !run.complete)) log.warn('Abandoning unfinished scoring run', { runId: run.id });
+  run = { id: crypto.randomUUID(), options, answers: [], feedback: [], errors: [], jobs: [], complete: false };
+  persist();
+  log.info('Scoring run started', { runId: run.id });
+  return run.id;
+}
+
+function setAnswers(current: ScoringRun, results: QuestionResult[], start: number): void {
+  results.forEach((r, i) => {
+    current.answers[start + i] = { question: r.question, transcript: r.transcript, metrics: r.metrics, wordTimestamps: r.wordTimestamps };
+    current.feedback[start + i] ??= null;
+    current.errors[start + i] ??= null;
+  });
+}
+
+function addJob(current: ScoringRun, indices: number[], attempt: number, delayMs = 0): void {
+  current.jobs.push({ id: crypto.randomUUID(), indices, attempt, notBefore: Date.now() + delayMs });
+  current.finalized = false;
+}
+
+/** Queue a thread's answers (interview indices `start`…) for scoring. */
+export function scoreThread(runId: string, start: number, results: QuestionResult[]): void {
+  if (run?.id !== runId) {
+    log.warn('Ignoring thread for a stale scoring run', { runId });
+    return;
+  }
+  setAnswers(run, results, start);
+  addJob(run, results.map((_, i) => start + i), 0);
+  persist();
+  pump();
+}
+
+/**
+ * Every answer of the interview is in; the overall follows once its jobs
+ * settle. Answers never sent for scoring — a thread cut short by an empty
+ * last answer — are queued now.
+ */
+export function finishScoringRun(runId: string, results: QuestionResult[]): void {
+  if (run?.id !== runId) {
+    log.warn('Ignoring finish for a stale scoring run', { runId });
+    return;
+  }
+  const current = run;
+  const unsent = results.flatMap((_, i) => (current.answers[i] ? [] : [i]));
+  setAnswers(run, results, 0);
+  if (unsent.length > 0) addJob(run, unsent, 0);
+  run.answers.length = results.length;
+  run.complete = true;
+  persist();
+  pump();
+}
+
+/** Score a question again (after its retries ran out). Returns false if it isn't part of the current run. */
+export function rescoreQuestion(index: number): boolean {
+  if (!run?.answers[index] || run.jobs.some((j) => j.indices.includes(index))) return false;
+  run.errors[index] = null;
+  addJob(run, [index], 0);
+  persist();
+  log.info('Re-scoring question', { runId: run.id, index });
+  pump();
+  return true;
+}
+
+/**
+ * Pick up a run saved before a reload. Runs of interviews that never finished
+ * are dropped — their answers can't be completed — and so are finalized ones,
+ * whose session is already saved. A finished run with no jobs left that was
+ * reloaded while its overall was being written is finalized now.
+ */
+export function resumeScoringRun(): void {
+  if (run) return;
+  const saved = loadRun();
+  if (!saved) return;
+  if (!saved.complete) {
+    log.info('Dropping scoring run of an unfinished interview', { runId: saved.id });
+    localStorage.removeItem(STORAGE_KEY_SCORING_RUN);
+    return;
+  }
+  if (saved.finalized) {
+    localStorage.removeItem(STORAGE_KEY_SCORING_RUN);
+    return;
+  }
+
+  run = saved;
+  log.info('Resuming scoring run', { runId: saved.id, jobs: saved.jobs.length });
+  emit({
+    type: 'restored',
+    results: saved.answers.flatMap((a, i) => (a ? [toResult(a, saved.feedback[i], saved.errors[i])] : [])),
+  });
+  pump();
+}
+
+/* ── Running jobs ── */
+
+/** Start every job that's due, wake up for the next one, and build the overall when nothing's left. */
+function pump(): void {
+  const current = run;
+  if (!current) return;
+  if (wakeTimer) clearTimeout(wakeTimer);
+  wakeTimer = null;
+
+  const now = Date.now();
+  let nextDue = Infinity;
+  for (const job of current.jobs) {
+    if (running.has(job.id)) continue;
+    if (job.notBefore <= now) void runJob(current, job);
+    else nextDue = Math.min(nextDue, job.notBefore);
+  }
+  if (nextDue < Infinity) wakeTimer = setTimeout(pump, nextDue - now);
+
+  if (current.complete && current.jobs.length === 0) void finalizeRun(current);
+}
+
+async function runJob(current: ScoringRun, job: ScoringJob): Promise<void> {
+  running.add(job.id);
+  const { options, answers } = current;
+  const sent = jobQuestionIndices(answers, job.indices);
+  const own = new Set(job.indices);
+  const provider = job.attempt > 0 ? RETRY_PLAN[job.attempt - 1].provider : 'openai';
+  const failed = new Map<number, string>();
+  // A rate-limited request says when to come back; retries wait at least that long
+  let retryAfterMs = 0;
+
+  try {
+    const result = await streamFeedback(
+      sent.map((i) => answers[i]?.question.text ?? ''),
+      sent.map((i) => answers[i]?.transcript ?? ''),
+      {
+        resumeText: options.resumeText,
+        resume: options.resume,
+        jobDescription: options.jobDescription,
+        competencies: options.competencies,
+        role: options.role,
+        customRole: options.customRole,
+        difficulty: options.difficulty,
+        followUpOf: threadFollowUpOf(sent.map((i) => answers[i]?.question).filter((q) => q !== undefined)),
+        rubric: options.rubric,
+        samples: provider === 'openai' ? options.samples : undefined,
+        metrics: sent.map((i) => answers[i]?.metrics ?? { fillerCount: 0, wordsPerMinute: 0, speakingDurationSeconds: 0 }),
+        provider,
+        onQuestion: (position, feedback) => {
+          const index = sent[position];
+          if (!own.has(index) || run !== current) return;
+          current.feedback[index] = feedback;
+          current.errors[index] = null;
+          failed.delete(index);
+          persist();
+          emit({ type: 'question', index, feedback });
+        },
+        onQuestionError: (position, error) => {
+          const index = sent[position];
+          if (own.has(index) && !current.feedback[index]) failed.set(index, error);
+        },
+      },
+    );
+    current.rubric ??= result.rubric;
+    current.sampling ??= result.sampling;
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    if (err instanceof ApiError && err.retryAfter) retryAfterMs = err.retryAfter * 1000;
+    for (const index of job.indices) {
+      if (!current.feedback[index]) failed.set(index, error);
+    }
+  }
+
+  running.delete(job.id);
+  // A new interview started meanwhile; this run is abandoned
+  if (run !== current) return;
+
+  current.jobs = current.jobs.filter((j) => j.id !== job.id);
+  for (const [index, error] of failed) {
+    const retry = RETRY_PLAN[job.attempt];
+    if (retry) {
+      log.warn('Question scoring failed, retrying', { index, attempt: job.attempt + 1, provider: retry.provider, delayMs: retry.delayMs, error });
+      addJob(current, [index], job.attempt + 1, Math.max(retry.delayMs, retryAfterMs));
+    } else {
+      log.error('Question scoring failed, giving up', { index, error });
+      current.errors[index] = error;
+      emit({ type: 'question_error', index, error });
+    }
+  }
+  persist();
+  pump();
+}
+
+/** Aggregate the scored answers into the overall and save the session; unscored answers are left out. */
+async function finalizeRun(current: ScoringRun): Promise<void> {
+  if (finalizing) {
+    finalizeAgain = true;
+    return;
+  }
+  finalizing = true;
+  try {
+    const results = current.answers.flatMap((a, i) => (a ? [toResult(a, current.feedback[i], current.errors[i])] : []));
+    const items = results.flatMap((r) => (r.feedback ? [{ question: r.question, transcript: r.transcript, feedback: r.feedback }] : []));
+    const unscored = results.flatMap((r, i) => (r.feedback ? [] : [i]));
+    if (items.length === 0) {
+      log.error('Scoring failed for every question', { runId: current.id });
+      current.finalized = true;
+      persist();
+      emit({ type: 'failed' });
+      return;
+    }
+
+    const dimensions = feedbackDimensions(current);
+    const aggregation = aggregateFeedback(items, dimensions);
+    const narrative = await synthesizeOverall(
+      aggregation,
+      dimensions,
+      items.map((it) => ({ question: it.question.text, feedback: it.feedback })),
+      { role: current.options.role, customRole: current.options.customRole },
+    ).catch((err) => {
+      log.warn('Overall synthesis failed, using per-question notes', { error: String(err) });
+      return fallbackNarrative(items, aggregation, dimensions);
+    });
+    // Jobs queued (e.g. a re-score) while the narrative was written make this overall
+    // stale, as does one that already finished and asked for another overall
+    if (run !== current || current.jobs.length > 0 || finalizeAgain) return;
+
+    const overall: OverallFeedback = {
+      score: aggregation.score.mean,
+      categories: categoryMeans(aggregation),
+      ...narrative,
+      aggregation: toOverallAggregation(aggregation),
+    };
+    const feedback: FeedbackResponse = {
+      questions: items.map((it) => it.feedback),
+      overall,
+      ...(current.rubric ? { rubric: current.rubric } : {}),
+      ...(current.sampling ? { sampling: current.sampling } : {}),
+      ...(unscored.length ? { unscored } : {}),
+    };
+    const session = buildSession({
+      id: current.id,
+      role: current.options.role,
+      customRole: current.options.customRole,
+      difficulty: current.options.difficulty,
+      attemptNumber: current.options.attemptNumber,
+      questionResults: results,
+      feedback,
+      durationSeconds: results.reduce((sum, r) => sum + r.metrics.speakingDurationSeconds, 0),
+    });
+    enqueueSessionSync(session);
+    current.finalized = true;
+    persist();
+    log.info('Scoring run complete', { runId: current.id, scored: items.length, unscored: unscored.length });
+    emit({ type: 'complete', feedback, session });
+  } finally {
+    finalizing = false;
+    if (finalizeAgain) {
+      finalizeAgain = false;
+      pump();
+    }
+  }
+}
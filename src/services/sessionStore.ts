@@ -0,0 +1,236 @@
+import type { Difficulty, FeedbackResponse, QuestionResult, Role, Session, SessionQuestion } from '../types';
+import { fetchSessions, isSupabaseConfigured, saveSession } from './supabase';
+import { migrateLegacyOverall } from '../config/rubrics';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Local-first session history.
+ *
+ * Completed sessions are written to localStorage immediately and also queued
+ * for the backend. The queue is flushed on enqueue, on app start and when the
+ * browser comes back online; entries are only removed once Supabase accepts
+ * them, so a failed write is retried on the next flush.
+ */
+
+const log = createLogger('SessionStore');
+
+const STORAGE_KEY_SESSIONS = 'polyprompts-sessions';
+const STORAGE_KEY_SYNC_QUEUE = 'polyprompts-session-queue';
+
+/** localStorage is ~5 MB per origin — keep history bounded. */
+export const MAX_STORED_SESSIONS = 20;
+
+/* ── Local history ── */
+
+interface LegacySession {
+  id: string;
+  questionId: string;
+  attemptNumber: number;
+  transcript: string;
+  scores: FeedbackResponse;
+  durationSeconds: number;
+  createdAt: string;
+}
+
+/** Sessions saved before per-question detail only kept the last question. */
+function migrateLegacySession(raw: LegacySession): Session {
+  const role: Role = 'swe_intern';
+  const difficulty: Difficulty = 'medium';
+  return {
+    id: raw.id,
+    role,
+    difficulty,
+    attemptNumber: raw.attemptNumber,
+    questions: [{
+      question: { id: raw.questionId, text: '', role, difficulty },
+      transcript: raw.transcript,
+      feedback: raw.scores?.questions?.[raw.scores.questions.length - 1] ?? null,
+      metrics: { fillerCount: 0, wordsPerMinute: 0, speakingDurationSeconds: raw.durationSeconds },
+    }],
+    scores: raw.scores,
+    durationSeconds: raw.durationSeconds,
+    createdAt: raw.createdAt,
+  };
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Sessions saved before rubrics were configurable store each category as its own overall field. */
+function migrateLegacyScores(session: Session): Session {
+  if (!session.scores?.overall || session.scores.overall.categories) return session;
+  return { ...session, scores: { ...session.scores, overall: migrateLegacyOverall(session.scores.overall) } };
+}
+
+export function loadSessions(): Session[] {
+  const raw = readJson<Array<Session | LegacySession>>(STORAGE_KEY_SESSIONS, []);
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((s) => ('questions' in s && Array.isArray(s.questions) ? s : migrateLegacySession(s as LegacySession)))
+    .map(migrateLegacyScores);
+}
+
+/** Merge by id (incoming wins), oldest first, capped to the newest MAX_STORED_SESSIONS. */
+export function mergeSessions(existing: Session[], incoming: Session[]): Session[] {
+  const byId = new Map<string, Session>();
+  for (const s of existing) byId.set(s.id, s);
+  for (const s of incoming) byId.set(s.id, s);
+  return [...byId.values()]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .slice(-MAX_STORED_SESSIONS);
+}
+
+// undefined fields are dropped by JSON.stringify
+function stripWordTimestamps(session: Session): Session {
+  return { ...session, questions: session.questions.map((q) => ({ ...q, wordTimestamps: undefined })) };
+}
+
+/**
+ * Write history to localStorage. On quota errors, retry without word
+ * timestamps (the bulkiest field) and then with half the sessions.
+ */
+export function persistSessions(sessions: Session[]): void {
+  const recent = sessions.slice(-MAX_STORED_SESSIONS);
+  const attempts: Session[][] = [
+    recent,
+    recent.map(stripWordTimestamps),
+    recent.slice(-Math.ceil(MAX_STORED_SESSIONS / 2)).map(stripWordTimestamps),
+  ];
+
+  for (const attempt of attempts) {
+    try {
+      localStorage.setItem(STORAGE_KEY_SESSIONS, JSON.stringify(attempt));
+      log.debug('Persisted sessions', { count: attempt.length });
+      return;
+    } catch (err) {
+      log.warn('Session persist failed, trimming', { count: attempt.length, error: String(err) });
+    }
+  }
+}
+
+/* ── Building a session ── */
+
+export interface BuildSessionInput {
+  /** Reuse an id so saving again (e.g. after a re-score) replaces the earlier snapshot. */
+  id?: string;
+  role: Role;
+  customRole?: string | null;
+  difficulty: Difficulty;
+  attemptNumber: number;
+  questionResults: QuestionResult[];
+  feedback: FeedbackResponse;
+  durationSeconds: number;
+}
+
+/** Snapshot a finished interview; feedback is matched to results by index, skipping unscored answers. */
+export function buildSession(input: BuildSessionInput): Session {
+  const unscored = input.feedback.unscored ?? [];
+  const questions: SessionQuestion[] = input.questionResults.map((qr, idx) => ({
+    question: qr.question,
+    transcript: qr.transcript,
+    feedback: unscored.includes(idx)
+      ? null
+      : input.feedback.questions[idx - unscored.filter((u) => u < idx).length] ?? qr.feedback,
+    metrics: qr.metrics,
+    ...(qr.wordTimestamps?.length ? { wordTimestamps: qr.wordTimestamps } : {}),
+  }));
+
+  return {
+    id: input.id ?? crypto.randomUUID(),
+    role: input.role,
+    ...(input.role === 'custom' && input.customRole ? { customRole: input.customRole } : {}),
+    difficulty: input.difficulty,
+    attemptNumber: input.attemptNumber,
+    questions,
+    scores: input.feedback,
+    durationSeconds: input.durationSeconds,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/* ── Backend sync ── */
+
+/** Where history syncs to. */
+export interface SessionBackend {
+  isConfigured(): boolean;
+  save(session: Session): Promise<void>;
+  fetch(limit: number): Promise<Session[]>;
+}
+
+let backend: SessionBackend = { isConfigured: isSupabaseConfigured, save: saveSession, fetch: fetchSessions };
+
+/** Sync to `next` instead of Supabase (the unit suites use a stub). */
+export function setSessionBackend(next: SessionBackend): void {
+  backend = next;
+}
+
+let flushing: Promise<number> | null = null;
+
+function readQueue(): Session[] {
+  const queue = readJson<Session[]>(STORAGE_KEY_SYNC_QUEUE, []);
+  return Array.isArray(queue) ? queue : [];
+}
+
+function writeQueue(queue: Session[]): void {
+  try {
+    if (queue.length === 0) localStorage.removeItem(STORAGE_KEY_SYNC_QUEUE);
+    else localStorage.setItem(STORAGE_KEY_SYNC_QUEUE, JSON.stringify(queue));
+  } catch (err) {
+    log.warn('Sync queue write failed', { size: queue.length, error: String(err) });
+  }
+}
+
+/** Queue a session for the backend and try to flush right away. */
+export function enqueueSessionSync(session: Session): void {
+  if (!backend.isConfigured()) return;
+  const queue = readQueue().filter((s) => s.id !== session.id);
+  writeQueue([...queue, session].slice(-MAX_STORED_SESSIONS));
+  void flushSessionQueue();
+}
+
+/**
+ * Push queued sessions to Supabase in order. Stops at the first failure so
+ * ordering is preserved; resolves with the number of sessions synced.
+ */
+export function flushSessionQueue(): Promise<number> {
+  if (!backend.isConfigured()) return Promise.resolve(0);
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    let synced = 0;
+    for (const session of readQueue()) {
+      try {
+        await backend.save(session);
+      } catch (err) {
+        log.warn('Session sync failed, will retry', { sessionId: session.id, error: String(err) });
+        break;
+      }
+      // Re-read so sessions queued during the await are kept
+      writeQueue(readQueue().filter((s) => s.id !== session.id));
+      synced++;
+    }
+    if (synced > 0) log.info('Sessions synced', { synced });
+    return synced;
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+}
+
+/** Remote history for rehydrating a fresh browser; empty when offline or unconfigured. */
+export async function fetchRemoteSessions(): Promise<Session[]> {
+  if (!backend.isConfigured()) return [];
+  try {
+    return (await backend.fetch(MAX_STORED_SESSIONS)).map(migrateLegacyScores);
+  } catch (err) {
+    log.warn('Remote session fetch failed', { error: String(err) });
+    return [];
+  }
+}
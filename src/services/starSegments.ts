@@ -0,0 +1,169 @@
+import type { TimestampedWord } from '../types';
+
+/**
+ * Turns per-sentence STAR labels (/api/star-segments) into colored spans of
+ * the transcript, how much of the answer each part took, and the problems a
+ * coach would point out: a missing part, a long setup, a one-line result.
+ *
+ * Time shares come from word timestamps when the recording has them, so a
+ * slow, rambling setup counts for what it cost; otherwise word counts are used.
+ */
+
+export type StarPart = 'situation' | 'task' | 'action' | 'result';
+export type StarLabel = StarPart | 'other';
+
+export const STAR_PARTS: StarPart[] = ['situation', 'task', 'action', 'result'];
+
+/** Situation + task beyond this share of the answer is a long setup. */
+const MAX_SETUP_SHARE = 0.4;
+/** Action under this share is too thin — it's the part interviewers weigh most. */
+const MIN_ACTION_SHARE = 0.25;
+/** A one-sentence result under this share gets called out. */
+const MIN_RESULT_SHARE = 0.15;
+
+export interface Sentence {
+  text: string;
+  /** Character offsets into the transcript. */
+  start: number;
+  end: number;
+}
+
+export interface StarSegment {
+  label: StarLabel;
+  text: string;
+  start: number;
+  end: number;
+  sentenceCount: number;
+  /** Seconds into the recording, when word timestamps were available. */
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface StarPartStats {
+  sentences: number;
+  words: number;
+  /** Speaking time, when word timestamps were available. */
+  seconds: number | null;
+  /** Share of the answer (by time when known, else by words), 0-1. */
+  share: number;
+}
+
+export interface StarIssue {
+  part: StarPart;
+  kind: 'missing' | 'long' | 'short';
+  /** Second-person coaching line, also read out in the guided review. */
+  message: string;
+}
+
+export interface StarAnalysis {
+  segments: StarSegment[];
+  parts: Record<StarPart, StarPartStats>;
+  issues: StarIssue[];
+}
+
+const MISSING_MESSAGES: Record<StarPart, string> = {
+  situation: 'You never set the scene. Open with one sentence on where you were and what was at stake.',
+  task: "You didn't say what you were responsible for. Name your own goal before the actions.",
+  action: 'There were no clear actions. Walk through what you personally did, step by step.',
+  result: 'Your answer had no Result. Finish with what happened, ideally with a number, and what you learned.',
+};
+
+const wordsIn = (text: string) => (text.trim() ? text.trim().split(/\s+/).length : 0);
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+/** Sentences of the transcript with their offsets; a trailing fragment without punctuation counts as one. */
+export function splitSentences(transcript: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  for (const match of transcript.matchAll(/[^.!?]+(?:[.!?]+|$)/g)) {
+    const raw = match[0];
+    const text = raw.trim();
+    if (!/[a-z0-9]/i.test(text)) continue;
+    const start = (match.index ?? 0) + raw.indexOf(text);
+    sentences.push({ text, start, end: start + text.length });
+  }
+  return sentences;
+}
+
+/**
+ * Time range of each sentence, mapping transcript words onto the timestamped
+ * words by position. Skipped when the two disagree too much to line up.
+ */
+function sentenceTimes(sentences: Sentence[], words: TimestampedWord[] | undefined): ({ start: number; end: number } | null)[] {
+  const counts = sentences.map((s) => wordsIn(s.text));
+  const total = counts.reduce((a, b) => a + b, 0);
+  if (!words?.length || total === 0 || Math.abs(words.length - total) > total * 0.2) return sentences.map(() => null);
+  const scale = words.length / total;
+  let offset = 0;
+  return counts.map((count) => {
+    const first = Math.min(words.length - 1, Math.round(offset * scale));
+    const last = Math.min(words.length - 1, Math.max(first, Math.round((offset + count) * scale) - 1));
+    offset += count;
+    return { start: words[first].start, end: words[last].end };
+  });
+}
+
+export function analyzeStar(transcript: string, labels: StarLabel[], words?: TimestampedWord[]): StarAnalysis {
+  const sentences = splitSentences(transcript);
+  const times = sentenceTimes(sentences, words);
+  const labelOf = (i: number): StarLabel => labels[i] ?? 'other';
+
+  // Consecutive sentences with the same label form one segment
+  const segments: StarSegment[] = [];
+  sentences.forEach((sentence, i) => {
+    const label = labelOf(i);
+    const time = times[i];
+    const last = segments[segments.length - 1];
+    if (last && last.label === label) {
+      last.end = sentence.end;
+      last.text = transcript.slice(last.start, last.end);
+      last.sentenceCount++;
+      if (time) last.endTime = time.end;
+      return;
+    }
+    segments.push({
+      label,
+      text: sentence.text,
+      start: sentence.start,
+      end: sentence.end,
+      sentenceCount: 1,
+      ...(time ? { startTime: time.start, endTime: time.end } : {}),
+    });
+  });
+
+  const timed = times.every(Boolean) && times.length > 0;
+  const totalWords = sentences.reduce((sum, s) => sum + wordsIn(s.text), 0);
+  const totalSeconds = timed ? times.reduce((sum, t) => sum + ((t?.end ?? 0) - (t?.start ?? 0)), 0) : 0;
+
+  const parts = Object.fromEntries(
+    STAR_PARTS.map((part) => {
+      const indices = sentences.map((_, i) => i).filter((i) => labelOf(i) === part);
+      const partWords = indices.reduce((sum, i) => sum + wordsIn(sentences[i].text), 0);
+      const seconds = timed ? indices.reduce((sum, i) => sum + ((times[i]?.end ?? 0) - (times[i]?.start ?? 0)), 0) : null;
+      const share = timed && totalSeconds > 0 ? (seconds ?? 0) / totalSeconds : totalWords > 0 ? partWords / totalWords : 0;
+      return [part, { sentences: indices.length, words: partWords, seconds: seconds === null ? null : Number(seconds.toFixed(1)), share: Number(share.toFixed(3)) }];
+    }),
+  ) as Record<StarPart, StarPartStats>;
+
+  const issues: StarIssue[] = [];
+  if (sentences.length > 0) {
+    for (const part of STAR_PARTS) {
+      if (parts[part].sentences === 0) issues.push({ part, kind: 'missing', message: MISSING_MESSAGES[part] });
+    }
+    const setup = parts.situation.share + parts.task.share;
+    if (setup > MAX_SETUP_SHARE) {
+      issues.push({
+        part: parts.situation.share >= parts.task.share ? 'situation' : 'task',
+        kind: 'long',
+        message: `Your setup took ${percent(setup)} of the answer. Get to what you did sooner.`,
+      });
+    }
+    if (parts.action.sentences > 0 && parts.action.share < MIN_ACTION_SHARE) {
+      issues.push({ part: 'action', kind: 'short', message: `Your Action was only ${percent(parts.action.share)} of the answer, and it's the part interviewers weigh most.` });
+    }
+    if (parts.result.sentences === 1 && parts.result.share < MIN_RESULT_SHARE) {
+      issues.push({ part: 'result', kind: 'short', message: 'Your Result was only one sentence. Add the impact, a number if you have one, and what you learned.' });
+    }
+  }
+
+  return { segments, parts, issues };
+}
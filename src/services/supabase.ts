@@ -1,33 +1,205 @@
 import { createClient } from '@supabase/supabase-js';
-import type { Question, Session, Role, Difficulty } from '../types';
+import type { Session, SessionQuestion, Role, Difficulty, OverallFeedback, QuestionFeedback, QuestionMetrics, TimestampedWord, FaceMetrics } from '../types';
+import { normalizeCategory } from './questionBank';
+import type { QuestionBank, QuestionBankRow } from './questionBank';
 
-const supabase = createClient(
-  import.meta.env.VITE_SUPABASE_URL,
-  import.meta.env.VITE_SUPABASE_ANON_KEY
-);
+// Undefined outside Vite (the unit suites), which leaves Supabase unconfigured
+const SUPABASE_URL = import.meta.env?.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env?.VITE_SUPABASE_ANON_KEY;
+
+// createClient throws on an empty URL, so the client only exists when the
+// project is configured. Every caller must handle `null` (local dev, demos).
+const supabase = SUPABASE_URL && SUPABASE_ANON_KEY
+  ? createClient(SUPABASE_URL, SUPABASE_ANON_KEY)
+  : null;
+
+export function isSupabaseConfigured(): boolean {
+  return supabase !== null;
+}
+
+/** Question bank backed by the `questions` table. */
+export const supabaseQuestionBank: QuestionBank = {
+  async fetchQuestions({ role, difficulty, category }) {
+    if (!supabase) return [];
+
+    let query = supabase
+      .from('questions')
+      .select('id, text, role, difficulty, category')
+      .eq('role', role)
+      .eq('difficulty', difficulty);
+
+    const wanted = normalizeCategory(category);
+    if (wanted) query = query.eq('category', wanted);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Question bank query failed: ${error.message}`);
+    return (data ?? []) as QuestionBankRow[];
+  },
+};
+
+/* ── Sessions ── */
+
+interface SessionQuestionRow {
+  position: number;
+  question_id: string;
+  question_text: string;
+  category: string | null;
+  transcript: string;
+  feedback: QuestionFeedback | null;
+  metrics: QuestionMetrics;
+  face_metrics: FaceMetrics | null;
+  word_timestamps: TimestampedWord[] | null;
+}
+
+interface SessionRow {
+  id: string;
+  role: Role;
+  custom_role: string | null;
+  difficulty: Difficulty;
+  attempt_number: number;
+  duration_seconds: number;
+  overall: OverallFeedback;
+  created_at: string;
+  session_questions: SessionQuestionRow[];
+}
 
 /**
- * Fetch questions from the bank, filtered by role and difficulty.
- *
- * TODO: Implement Supabase query
- * - SELECT * FROM questions WHERE role = role AND difficulty = difficulty
- * - Fallback: generate questions via AI API
+ * Sessions are owned by the Supabase auth user (RLS: owner_id = auth.uid()).
+ * Only saving signs in: without a user we fall back to an anonymous one so
+ * history still syncs. That user lives in this browser's storage — clearing
+ * it loses the user and, with RLS, the history — until `linkHistoryEmail()`
+ * ties it to an email.
  */
-export async function getQuestions(role: Role, difficulty: Difficulty): Promise<Question[]> {
-  void role;
-  void difficulty;
-  throw new Error('getQuestions not implemented');
+async function ensureAuthUser(): Promise<void> {
+  if (!supabase) throw new Error('Supabase is not configured');
+  const { data } = await supabase.auth.getSession();
+  if (data.session) return;
+  const { error } = await supabase.auth.signInAnonymously();
+  if (error) throw new Error(`Supabase sign-in failed: ${error.message}`);
+}
+
+function toQuestionRow(sessionId: string, q: SessionQuestion, position: number) {
+  return {
+    session_id: sessionId,
+    position,
+    question_id: q.question.id,
+    question_text: q.question.text,
+    category: q.question.category ?? null,
+    transcript: q.transcript,
+    feedback: q.feedback,
+    metrics: q.metrics,
+    face_metrics: q.metrics.faceMetrics ?? null,
+    word_timestamps: q.wordTimestamps ?? null,
+  };
+}
+
+function fromSessionRow(row: SessionRow): Session {
+  const questions: SessionQuestion[] = [...(row.session_questions ?? [])]
+    .sort((a, b) => a.position - b.position)
+    .map((q) => ({
+      question: {
+        id: q.question_id,
+        text: q.question_text,
+        role: row.role,
+        difficulty: row.difficulty,
+        ...(q.category ? { category: q.category } : {}),
+      },
+      transcript: q.transcript,
+      feedback: q.feedback,
+      metrics: { ...q.metrics, ...(q.face_metrics ? { faceMetrics: q.face_metrics } : {}) },
+      ...(q.word_timestamps ? { wordTimestamps: q.word_timestamps } : {}),
+    }));
+
+  return {
+    id: row.id,
+    role: row.role,
+    ...(row.custom_role ? { customRole: row.custom_role } : {}),
+    difficulty: row.difficulty,
+    attemptNumber: row.attempt_number,
+    questions,
+    scores: {
+      questions: questions.map((q) => q.feedback).filter((f): f is QuestionFeedback => f !== null),
+      overall: row.overall,
+    },
+    durationSeconds: row.duration_seconds,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Save a completed interview session (and one row per question) to Supabase.
+ * Upserts by id, so replaying a queued write is safe.
+ */
+export async function saveSession(session: Session): Promise<void> {
+  if (!supabase) throw new Error('Supabase is not configured');
+  await ensureAuthUser();
+
+  const { error: sessionError } = await supabase.from('sessions').upsert({
+    id: session.id,
+    role: session.role,
+    custom_role: session.customRole ?? null,
+    difficulty: session.difficulty,
+    attempt_number: session.attemptNumber,
+    duration_seconds: session.durationSeconds,
+    overall: session.scores.overall,
+    created_at: session.createdAt,
+  });
+  if (sessionError) throw new Error(`Session insert failed: ${sessionError.message}`);
+
+  if (session.questions.length === 0) return;
+  const { error: questionsError } = await supabase
+    .from('session_questions')
+    .upsert(session.questions.map((q, i) => toQuestionRow(session.id, q, i)), { onConflict: 'session_id,position' });
+  if (questionsError) throw new Error(`Session questions insert failed: ${questionsError.message}`);
+}
+
+/** Most recent sessions for the current user, oldest first; empty when nobody is signed in. */
+export async function fetchSessions(limit: number): Promise<Session[]> {
+  if (!supabase) return [];
+  // Nothing has been synced from this browser yet, so there's no history to read
+  const { data: auth } = await supabase.auth.getSession();
+  if (!auth.session) return [];
+
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('id, role, custom_role, difficulty, attempt_number, duration_seconds, overall, created_at, session_questions (*)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`Session query failed: ${error.message}`);
+  return ((data ?? []) as SessionRow[]).map(fromSessionRow).reverse();
+}
+
+/* ── Account ── */
+
+/** Who synced history belongs to; null when nobody is signed in yet. */
+export interface HistoryOwner {
+  /** Anonymous users only exist in this browser's storage. */
+  anonymous: boolean;
+  email?: string;
+}
+
+export async function getHistoryOwner(): Promise<HistoryOwner | null> {
+  if (!supabase) return null;
+  const { data } = await supabase.auth.getSession();
+  const user = data.session?.user;
+  if (!user) return null;
+  return { anonymous: Boolean(user.is_anonymous), ...(user.email ? { email: user.email } : {}) };
 }
 
 /**
- * Save a completed interview session to Supabase.
- *
- * TODO: Implement Supabase insert
- * - INSERT INTO sessions (question_id, attempt_number, transcript, scores, duration_seconds)
+ * Tie history to an email so it survives cleared storage and other browsers.
+ * An anonymous user is linked in place, keeping the sessions it owns; once the
+ * emailed confirmation is followed it's a permanent account. Without a user,
+ * a sign-in link is sent instead.
  */
-export async function saveSession(session: Omit<Session, 'id' | 'createdAt'>): Promise<void> {
-  void session;
-  throw new Error('saveSession not implemented');
+export async function linkHistoryEmail(email: string): Promise<void> {
+  if (!supabase) throw new Error('Supabase is not configured');
+  const emailRedirectTo = window.location.origin;
+  const { data } = await supabase.auth.getSession();
+  const { error } = data.session?.user.is_anonymous
+    ? await supabase.auth.updateUser({ email }, { emailRedirectTo })
+    : await supabase.auth.signInWithOtp({ email, options: { emailRedirectTo } });
+  if (error) throw new Error(`Account link failed: ${error.message}`);
 }
 
 export default supabase;
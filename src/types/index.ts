@@ -1,4 +1,24 @@
 export type { FaceMetrics } from './faceDetection';
+// Wire types, shared with the api/ routes
+export type {
+  CategoryScore,
+  DeliveryBlend,
+  Difficulty,
+  FactCheckResult,
+  FeedbackSampling,
+  JobCompetency,
+  JobProfile,
+  QuestionFeedback,
+  QuoteSpan,
+  ResumeData,
+  ResumeEntry,
+  Role,
+  RubricDimension,
+  RubricId,
+  RubricSummary,
+  Seniority,
+} from '../../shared/contract';
+import type { Difficulty, FeedbackSampling, JobProfile, QuestionFeedback, ResumeData, Role, RubricId, RubricSummary } from '../../shared/contract';
 
 export interface TimestampedWord {
   word: string;
@@ -6,15 +26,11 @@ export interface TimestampedWord {
   end: number;   // seconds
 }
 
-export type Role = 'swe_intern' | 'pm_intern';
-export type Difficulty = 'easy' | 'medium' | 'hard';
-
-export interface ResumeData {
-  skills: string[];
-  experience: string[];
-  projects: string[];
-  education: string;
-}
+export type SessionLengthPreset = 'quick' | 'standard' | 'full';
+/** Preset question count, or a time budget in minutes (see config/sessionLength.ts). */
+export type SessionLength =
+  | { mode: 'preset'; preset: SessionLengthPreset }
+  | { mode: 'time'; minutes: number };
 
 export interface ResumeQuestionMeta {
   question: string;
@@ -28,45 +44,50 @@ export interface Question {
   role: Role;
   difficulty: Difficulty;
   category?: string;
+  /** Set on adaptive follow-ups: id of the question being probed. */
+  parentId?: string;
+  /** Job-description competency the question was written to assess. */
+  competency?: string;
 }
 
 // --- Feedback types (numeric 0-100 scoring) ---
 
-export interface QuestionFeedback {
-  score: number;  // avg of 6 categories, 0-100
-  best_part_quote: string;
-  best_part_explanation: string;
-  worst_part_quote: string;
-  worst_part_explanation: string;
-  what_went_well: string;
-  needs_improvement: string;
-  summary: string;
-  confidence_score: number | null;
+/** How the overall was derived from the per-question feedback (see src/services/aggregation.ts). */
+export interface OverallAggregation {
+  /** Share of the overall each question carried, in question order. */
+  weights: number[];
+  /** Spread of the question scores around the overall score. */
+  score_std_dev: number;
+  category_std_dev: Record<string, number>;
 }
 
 export interface OverallFeedback {
   score: number;
-  response_organization: number;
-  technical_knowledge: number;
-  problem_solving: number;
-  position_application: number;
-  timing: number;
-  personability: number;
+  /** 0-100 per rubric dimension. */
+  categories: Record<string, number>;
   what_went_well: string;
   needs_improvement: string;
   summary: string;
   confidence_score?: number;
+  aggregation?: OverallAggregation;
 }
 
 export interface FeedbackResponse {
   questions: QuestionFeedback[];
   overall: OverallFeedback;
+  /** Missing in sessions saved before rubrics were configurable (those used the general rubric). */
+  rubric?: RubricSummary;
+  /** Present when the answers were scored with several grader samples. */
+  sampling?: FeedbackSampling;
+  /** Indices of answers that couldn't be scored; `questions` skips them. */
+  unscored?: number[];
 }
 
-export interface FactCheckResult {
-  is_correct: boolean;
-  result: string;
-  explanation: string;
+export interface QuestionMetrics {
+  fillerCount: number;
+  wordsPerMinute: number;
+  speakingDurationSeconds: number;
+  faceMetrics?: import('./faceDetection').FaceMetrics;
 }
 
 export interface QuestionResult {
@@ -75,20 +96,29 @@ export interface QuestionResult {
   audioBlob?: Blob;
   videoBlob?: Blob;
   feedback: QuestionFeedback | null;
+  /** Why scoring this answer failed; the rest of the interview is still scored. */
+  scoringError?: string;
+  wordTimestamps?: TimestampedWord[];
+  metrics: QuestionMetrics;
+}
+
+/** Serializable slice of a QuestionResult (no media blobs) kept in session history. */
+export interface SessionQuestion {
+  question: Question;
+  transcript: string;
+  feedback: QuestionFeedback | null;
+  metrics: QuestionMetrics;
   wordTimestamps?: TimestampedWord[];
-  metrics: {
-    fillerCount: number;
-    wordsPerMinute: number;
-    speakingDurationSeconds: number;
-    faceMetrics?: import('./faceDetection').FaceMetrics;
-  };
 }
 
 export interface Session {
   id: string;
-  questionId: string;
+  role: Role;
+  /** Free-text description when role is 'custom'. */
+  customRole?: string;
+  difficulty: Difficulty;
   attemptNumber: number;
-  transcript: string;
+  questions: SessionQuestion[];
   scores: FeedbackResponse;
   durationSeconds: number;
   createdAt: string;
@@ -96,6 +126,7 @@ export interface Session {
 
 export interface InterviewState {
   role: Role;
+  customRole: string | null;
   difficulty: Difficulty;
   questions: Question[];
   currentQuestionIndex: number;
@@ -114,35 +145,56 @@ export interface InterviewState {
   resumeData: ResumeData | null;
   resumeText: string | null;
   jobDescription: string | null;
+  jobProfile: JobProfile | null;
   candidateName: string | null;
   sessionHistory: Session[];
   ttsVoice: string;
   ttsSpeed: number;
   voiceSummary: string | null;
+  /** Let the interviewer probe answers with generated follow-up questions. */
+  adaptiveFollowUps: boolean;
+  sessionLength: SessionLength;
+  rubric: RubricId;
+  /** Score each answer with several grader samples and show how much they agreed. */
+  consistencyScoring: boolean;
 }
 
 export type InterviewAction =
   | { type: 'SET_ROLE'; payload: Role }
+  | { type: 'SET_CUSTOM_ROLE'; payload: string }
   | { type: 'SET_DIFFICULTY'; payload: Difficulty }
   | { type: 'SET_QUESTION'; payload: Question }
   | { type: 'SET_QUESTIONS'; payload: Question[] }
+  | { type: 'INSERT_FOLLOW_UPS'; payload: { afterIndex: number; questions: Question[] } }
+  /** Drop questions after `lastIndex` — used when a time budget runs out. */
+  | { type: 'END_AFTER_QUESTION'; payload: { lastIndex: number } }
   | { type: 'SAVE_QUESTION_RESULT'; payload: QuestionResult }
   | { type: 'UPDATE_QUESTION_FEEDBACK'; payload: { index: number; feedback: QuestionFeedback } }
   | { type: 'ADVANCE_QUESTION' }
   | { type: 'SET_RESUME_DATA'; payload: ResumeData }
   | { type: 'SET_RESUME_TEXT'; payload: string }
   | { type: 'SET_JOB_DESCRIPTION'; payload: string }
+  | { type: 'SET_JOB_PROFILE'; payload: JobProfile | null }
   | { type: 'SET_CANDIDATE_NAME'; payload: string }
   | { type: 'START_RECORDING' }
   | { type: 'STOP_RECORDING'; payload: Blob }
   | { type: 'UPDATE_TRANSCRIPT'; payload: string }
   | { type: 'UPDATE_METRICS'; payload: { fillerCount: number; wordsPerMinute: number; speakingDurationSeconds: number } }
   | { type: 'START_SCORING' }
+  | { type: 'SET_QUESTION_SCORING_ERROR'; payload: { index: number; error: string } }
+  | { type: 'SCORING_FAILED' }
+  | { type: 'RESCORE_QUESTION'; payload: { index: number } }
+  | { type: 'RESTORE_SCORING'; payload: QuestionResult[] }
   | { type: 'SET_FEEDBACK_RESPONSE'; payload: FeedbackResponse }
   | { type: 'SET_TOTAL_DURATION'; payload: number }
   | { type: 'RETRY' }
   | { type: 'NEXT_QUESTION' }
   | { type: 'SAVE_SESSION'; payload: Session }
+  | { type: 'MERGE_SESSIONS'; payload: Session[] }
   | { type: 'SET_TTS_VOICE'; payload: string }
   | { type: 'SET_TTS_SPEED'; payload: number }
-  | { type: 'SET_VOICE_SUMMARY'; payload: string };
+  | { type: 'SET_VOICE_SUMMARY'; payload: string }
+  | { type: 'SET_ADAPTIVE_FOLLOW_UPS'; payload: boolean }
+  | { type: 'SET_SESSION_LENGTH'; payload: SessionLength }
+  | { type: 'SET_RUBRIC'; payload: RubricId }
+  | { type: 'SET_CONSISTENCY_SCORING'; payload: boolean };
@@ -0,0 +1,40 @@
+export interface StreamEvent {
+  event: string;
+  data: string;
+}
+
+function parseEvent(block: string): StreamEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+  }
+  return data.length ? { event, data: data.join('\n') } : null;
+}
+
+/**
+ * Read a server-sent event stream to the end, calling onEvent for each event
+ * as it arrives. Same framing as readEventStream in api/_lib/stream.ts.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: StreamEvent) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    let boundary: number;
+    while ((boundary = buffer.search(/\r?\n\r?\n/)) >= 0) {
+      const parsed = parseEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+      if (parsed) onEvent(parsed);
+    }
+    if (done) break;
+  }
+  const rest = parseEvent(buffer);
+  if (rest) onEvent(rest);
+}
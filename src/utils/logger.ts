@@ -14,7 +14,8 @@
 
 type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
-const IS_DEV = import.meta.env.DEV;
+// import.meta.env is Vite's; it's undefined when a module runs under plain tsx (the unit suites)
+const IS_DEV = import.meta.env?.DEV ?? false;
 
 let sessionId = generateId();
 
@@ -1,4 +1,4 @@
-import type { TimestampedWord } from '../types';
+import type { QuoteSpan, TimestampedWord } from '../types';
 
 export interface TimeRange {
   start: number;
@@ -29,6 +29,42 @@ function lcsLength(a: string[], b: string[]): number {
   return prev[n];
 }
 
+const wordCount = (text: string) => (text.trim() ? text.trim().split(/\s+/).length : 0);
+
+/**
+ * Time range of an exact character span of the transcript, mapping transcript
+ * words onto the timestamped words by position. Returns null when the two
+ * word counts disagree too much to line up.
+ */
+export function spanTimeRange(
+  transcript: string,
+  span: QuoteSpan,
+  words: TimestampedWord[],
+): TimeRange | null {
+  const total = wordCount(transcript);
+  if (words.length === 0 || total === 0 || Math.abs(words.length - total) > total * 0.2) return null;
+  const before = wordCount(transcript.slice(0, span.start));
+  const inside = wordCount(transcript.slice(span.start, span.end));
+  if (inside === 0) return null;
+  const scale = words.length / total;
+  const first = Math.min(words.length - 1, Math.round(before * scale));
+  const last = Math.min(words.length - 1, Math.max(first, Math.round((before + inside) * scale) - 1));
+  return { start: words[first].start, end: words[last].end };
+}
+
+/**
+ * Time range of a quote: its exact span when the server aligned one,
+ * otherwise the best fuzzy match.
+ */
+export function quoteTimeRange(
+  quote: string,
+  words: TimestampedWord[],
+  transcript?: string,
+  span?: QuoteSpan,
+): TimeRange | null {
+  return (span && transcript ? spanTimeRange(transcript, span, words) : null) ?? findQuoteTimeRange(quote, words);
+}
+
 /**
  * Normalize a word for matching: lowercase, strip leading/trailing punctuation.
  */
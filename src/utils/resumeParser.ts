@@ -0,0 +1,189 @@
+import type { ResumeData, ResumeEntry } from '../types';
+import { extractNameFromResume } from './resumeName';
+
+/**
+ * Heuristic resume parser: splits extracted resume text into sections
+ * (experience, projects, skills, education) and each section into entries
+ * with a title line, optional subtitle/dates and bullet points.
+ *
+ * It only has to be good enough to pre-fill the review step — the candidate
+ * corrects anything it gets wrong before the interview starts.
+ */
+
+type SectionKey = 'experience' | 'projects' | 'skills' | 'education' | 'ignored';
+
+const SECTION_HEADINGS: Array<[SectionKey, RegExp]> = [
+  ['experience', /^(work |professional |relevant |industry |research )?experience$|^employment( history)?$|^work history$|^internships?$|^(leadership|activities|leadership (and|&) activities|extracurriculars?|volunteer(ing)?( experience)?)$/i],
+  ['projects', /^(personal |academic |selected |technical |side )?projects?$|^portfolio$/i],
+  ['skills', /^(technical |core |key )?skills( (and|&) (interests|technologies|tools))?$|^technologies$|^tools$|^languages (and|&) (tools|technologies)$/i],
+  ['education', /^education( (and|&) (training|certifications?))?$|^academic background$/i],
+  ['ignored', /^(summary|objective|profile|about( me)?|awards?|honou?rs( (and|&) awards)?|certifications?|publications?|interests|references|coursework|relevant coursework)$/i],
+];
+
+// Headings a PDF extractor may have run into the surrounding text; only
+// matched in ALL CAPS so ordinary words like "experience" in a bullet survive.
+const INLINE_HEADING = /\s(WORK EXPERIENCE|PROFESSIONAL EXPERIENCE|RELEVANT EXPERIENCE|EXPERIENCE|PROJECTS|TECHNICAL SKILLS|SKILLS|EDUCATION|LEADERSHIP|ACTIVITIES|AWARDS|CERTIFICATIONS|SUMMARY)\s/g;
+
+const BULLET = /^[•●▪◦‣∙·*\-–—]\s*/;
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE = `(?:${MONTH}\\s+)?(?:\\d{1,2}/)?\\d{4}`;
+const DATE_RANGE = new RegExp(`(${DATE}\\s*(?:-|–|—|to)\\s*(?:${DATE}|present|current|now))|(${MONTH}\\s+\\d{4})|((?:summer|fall|spring|winter)\\s+\\d{4})|(\\b(?:19|20)\\d{2}\\b)`, 'i');
+
+const MAX_ENTRIES_PER_SECTION = 12;
+const MAX_SKILL_LENGTH = 40;
+
+function headingFor(line: string): SectionKey | null {
+  const cleaned = line.replace(/[:|_=#*]+/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!cleaned || cleaned.length > 45) return null;
+  for (const [key, pattern] of SECTION_HEADINGS) {
+    if (pattern.test(cleaned)) return key;
+  }
+  return null;
+}
+
+function toLines(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(INLINE_HEADING, (_m, heading: string) => `\n${heading}\n`)
+    // Bullets glued onto one line by PDF extraction
+    .replace(/\s+([•●▪◦‣])\s+/g, '\n$1 ')
+    .split('\n')
+    .map((l) => l.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+/** Pulls a date or date range out of a header line. */
+function splitDates(line: string): { text: string; dates?: string } {
+  const match = line.match(DATE_RANGE);
+  if (!match || match.index === undefined) return { text: line };
+  const dates = match[0].trim();
+  const text = (line.slice(0, match.index) + line.slice(match.index + match[0].length))
+    .replace(/\s*[|,–—-]\s*$/, '')
+    .replace(/^\s*[|,–—-]\s*/, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+  return { text, dates };
+}
+
+function parseEntries(lines: string[]): ResumeEntry[] {
+  const entries: ResumeEntry[] = [];
+  let current: ResumeEntry | null = null;
+  let headerLines = 0;
+
+  const startEntry = (line: string) => {
+    const { text, dates } = splitDates(line);
+    const [title, ...rest] = text.split(/\s+\|\s+|\s+[–—]\s+/);
+    current = {
+      title: title.trim() || text,
+      ...(rest.length ? { subtitle: rest.join(', ').trim() } : {}),
+      ...(dates ? { dates } : {}),
+      bullets: [],
+    };
+    headerLines = 1;
+    entries.push(current);
+  };
+
+  for (const line of lines) {
+    const isBullet = BULLET.test(line);
+    const body = line.replace(BULLET, '').trim();
+    if (!body) continue;
+
+    if (!current) {
+      startEntry(body);
+      continue;
+    }
+    const entry: ResumeEntry = current;
+
+    if (isBullet) {
+      entry.bullets.push(body);
+    } else if (entry.bullets.length === 0 && headerLines < 2 && body.length <= 90) {
+      // Second header line: organization / degree / location, often with dates
+      const { text, dates } = splitDates(body);
+      if (text) entry.subtitle = entry.subtitle ? `${entry.subtitle}, ${text}` : text;
+      if (dates && !entry.dates) entry.dates = dates;
+      headerLines++;
+    } else if (body.length > 90 || /^[a-z]/.test(body)) {
+      // Long prose or a wrapped line continues the entry
+      if (entry.bullets.length > 0 && /^[a-z]/.test(body)) {
+        entry.bullets[entry.bullets.length - 1] += ` ${body}`;
+      } else {
+        entry.bullets.push(body);
+      }
+    } else {
+      startEntry(body);
+    }
+  }
+
+  return entries.slice(0, MAX_ENTRIES_PER_SECTION);
+}
+
+function parseSkills(lines: string[]): string[] {
+  const skills = lines
+    .map((l) => l.replace(BULLET, ''))
+    // "Languages: Python, Go" → "Python, Go"
+    .map((l) => l.replace(/^[A-Za-z &/]{2,30}:\s*/, ''))
+    .flatMap((l) => l.split(/\s*[,;|•·]\s*/))
+    .map((s) => s.replace(/\.$/, '').trim())
+    .filter((s) => s.length > 0 && s.length <= MAX_SKILL_LENGTH);
+
+  const seen = new Set<string>();
+  return skills.filter((s) => {
+    const key = s.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function emptyResumeData(): ResumeData {
+  return { name: null, skills: [], experience: [], projects: [], education: [] };
+}
+
+export function parseResume(text: string): ResumeData {
+  const sections: Record<SectionKey, string[]> = { experience: [], projects: [], skills: [], education: [], ignored: [] };
+  let section: SectionKey | null = null;
+
+  for (const line of toLines(text)) {
+    const heading = headingFor(line);
+    if (heading) {
+      section = heading;
+      continue;
+    }
+    // Contact block before the first heading is skipped
+    if (section) sections[section].push(line);
+  }
+
+  return {
+    name: extractNameFromResume(text),
+    skills: parseSkills(sections.skills),
+    experience: parseEntries(sections.experience),
+    projects: parseEntries(sections.projects),
+    education: parseEntries(sections.education),
+  };
+}
+
+/** True when the parser found nothing worth reviewing. */
+export function isResumeEmpty(data: ResumeData): boolean {
+  return data.skills.length === 0 && data.experience.length === 0 && data.projects.length === 0 && data.education.length === 0;
+}
+
+/** Trims edits from the review step and drops blank entries and bullets. */
+export function cleanResumeData(data: ResumeData): ResumeData {
+  const cleanEntries = (entries: ResumeEntry[]) =>
+    entries
+      .map((e) => ({
+        title: e.title.trim(),
+        ...(e.subtitle?.trim() ? { subtitle: e.subtitle.trim() } : {}),
+        ...(e.dates?.trim() ? { dates: e.dates.trim() } : {}),
+        bullets: e.bullets.map((b) => b.trim()).filter(Boolean),
+      }))
+      .filter((e) => e.title || e.bullets.length > 0);
+
+  return {
+    name: data.name?.trim() || null,
+    skills: data.skills.map((s) => s.trim()).filter(Boolean),
+    experience: cleanEntries(data.experience),
+    projects: cleanEntries(data.projects),
+    education: cleanEntries(data.education),
+  };
+}
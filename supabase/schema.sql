@@ -0,0 +1,97 @@
+-- PolyPrompts Supabase schema.
+-- Apply with the SQL editor or `psql "$DATABASE_URL" -f supabase/schema.sql`.
+
+-- ─── Question bank ───
+-- Read by src/services/supabase.ts → supabaseQuestionBank. `role` is a registry id
+-- (swe_intern, pm_intern, ml_intern; custom roles always use the AI generator)
+-- and `category` matches the SetupScreen chip ids (teamwork, leadership,
+-- conflict, failure).
+create table if not exists questions (
+  id          text primary key,
+  text        text not null,
+  role        text not null,
+  difficulty  text not null check (difficulty in ('easy', 'medium', 'hard')),
+  category    text,
+  created_at  timestamptz not null default now()
+);
+
+create index if not exists questions_role_difficulty_idx
+  on questions (role, difficulty, category);
+
+alter table questions enable row level security;
+
+drop policy if exists "questions are readable" on questions;
+create policy "questions are readable" on questions
+  for select using (true);
+
+-- ─── Sessions ───
+-- Written by src/services/sessionStore.ts (local-first queue) through
+-- supabase.ts → saveSession(). Rows belong to the Supabase auth user
+-- (anonymous sign-in on the first save; linkHistoryEmail() ties it to an email).
+create table if not exists sessions (
+  id                uuid primary key,
+  owner_id          uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  role              text not null,
+  custom_role       text,
+  difficulty        text not null,
+  attempt_number    integer not null default 1,
+  duration_seconds  integer not null default 0,
+  overall           jsonb not null,
+  created_at        timestamptz not null default now()
+);
+
+-- Added with custom roles; no-op on fresh installs.
+alter table sessions add column if not exists custom_role text;
+
+create index if not exists sessions_owner_created_idx
+  on sessions (owner_id, created_at desc);
+
+create table if not exists session_questions (
+  session_id       uuid not null references sessions (id) on delete cascade,
+  position         integer not null,
+  question_id      text not null,
+  question_text    text not null,
+  category         text,
+  transcript       text not null,
+  feedback         jsonb,
+  metrics          jsonb not null,
+  face_metrics     jsonb,
+  word_timestamps  jsonb,
+  primary key (session_id, position)
+);
+
+alter table sessions enable row level security;
+alter table session_questions enable row level security;
+
+drop policy if exists "own sessions" on sessions;
+create policy "own sessions" on sessions
+  for all using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+
+drop policy if exists "own session questions" on session_questions;
+create policy "own session questions" on session_questions
+  for all using (
+    exists (select 1 from sessions s where s.id = session_id and s.owner_id = auth.uid())
+  ) with check (
+    exists (select 1 from sessions s where s.id = session_id and s.owner_id = auth.uid())
+  );
+
+-- ─── Seed ───
+insert into questions (id, text, role, difficulty, category) values
+  ('swe-easy-teamwork-1',    'Tell me about a time you worked with a classmate or teammate to finish a coding project. What was your part, and how did you split the work?', 'swe_intern', 'easy', 'teamwork'),
+  ('swe-easy-failure-1',     'Describe a bug you introduced that made it further than it should have. How did you find it, and what did you change afterwards?', 'swe_intern', 'easy', 'failure'),
+  ('swe-medium-teamwork-1',  'Tell me about a time a teammate''s code review pushed back on your approach. How did you work through the disagreement and what did you ship?', 'swe_intern', 'medium', 'teamwork'),
+  ('swe-medium-leadership-1','Describe a time you took ownership of a technical problem nobody else was picking up. How did you get others on board?', 'swe_intern', 'medium', 'leadership'),
+  ('swe-medium-conflict-1',  'Tell me about a time you disagreed with a senior engineer about a design decision. How did you raise it, and how did it resolve?', 'swe_intern', 'medium', 'conflict'),
+  ('swe-medium-failure-1',   'Tell me about a project deadline you missed. What went wrong, what did you do once you realized it, and what would you do differently?', 'swe_intern', 'medium', 'failure'),
+  ('swe-hard-leadership-1',  'Describe a time you had to drive a technical decision with incomplete information and a tight deadline. How did you weigh the trade-offs, and how did you measure whether it was the right call?', 'swe_intern', 'hard', 'leadership'),
+  ('swe-hard-conflict-1',    'Tell me about a time two teams you depended on had conflicting priorities that blocked your work. How did you get it unblocked without escalating first?', 'swe_intern', 'hard', 'conflict'),
+  ('pm-easy-teamwork-1',     'Tell me about a group project where you helped the team agree on what to build first. How did you make that call together?', 'pm_intern', 'easy', 'teamwork'),
+  ('pm-medium-leadership-1', 'Describe a time you led a project without formal authority. How did you keep engineers and designers aligned on the goal?', 'pm_intern', 'medium', 'leadership'),
+  ('pm-medium-conflict-1',   'Tell me about a time two stakeholders wanted opposite things from the same feature. How did you decide, and how did you communicate it?', 'pm_intern', 'medium', 'conflict'),
+  ('pm-medium-failure-1',    'Describe a feature or initiative you pushed for that did not land the way you expected. What did the data tell you and what did you change?', 'pm_intern', 'medium', 'failure'),
+  ('pm-hard-leadership-1',   'Tell me about a time you had to cut scope late in a project. How did you decide what to drop, and how did you bring the team and stakeholders along?', 'pm_intern', 'hard', 'leadership'),
+  ('ml-easy-teamwork-1',     'Tell me about a class or research project where you worked with others on a dataset or model. How did you divide the work?', 'ml_intern', 'easy', 'teamwork'),
+  ('ml-medium-failure-1',    'Describe a model or analysis that looked great offline but did not hold up in practice. How did you find out, and what did you change?', 'ml_intern', 'medium', 'failure'),
+  ('ml-medium-conflict-1',   'Tell me about a time a stakeholder disagreed with what your data showed. How did you handle it?', 'ml_intern', 'medium', 'conflict'),
+  ('ml-hard-leadership-1',   'Describe a time you had to decide whether an experiment result was strong enough to act on. How did you make the call and get others to trust it?', 'ml_intern', 'hard', 'leadership')
+on conflict (id) do nothing;
@@ -0,0 +1,105 @@
+/**
+ * Overall Aggregation Test
+ *
+ * Checks how per-question feedback is weighted into the overall score, the
+ * spread reported alongside it, and the narrative used when the synthesis
+ * call fails. Pure functions only — no network.
+ *
+ * Usage:
+ *   npx tsx tests/aggregation.test.ts
+ */
+
+import {
+  aggregateFeedback,
+  fallbackNarrative,
+  questionWeight,
+  toOverallAggregation,
+  weightedStats,
+  type AggregationItem,
+} from '../src/services/aggregation';
+import { GENERAL_DIMENSIONS } from '../src/config/rubrics';
+import type { CategoryScore, Difficulty, QuestionFeedback, RubricDimension } from '../src/types';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const KEYS = GENERAL_DIMENSIONS.map((d) => d.key);
+
+const words = (n: number) => Array.from({ length: n }, () => 'word').join(' ');
+
+function categories(score: number, overrides: Partial<Record<string, number>> = {}): Record<string, CategoryScore> {
+  return Object.fromEntries(
+    KEYS.map((k) => [k, { score: overrides[k] ?? score, reason: `${k} reason` }]),
+  ) as Record<string, CategoryScore>;
+}
+
+function item(score: number, opts: { difficulty?: Difficulty; wordCount?: number; withCategories?: boolean; overrides?: Partial<Record<string, number>> } = {}): AggregationItem {
+  const feedback = {
+    score,
+    what_went_well: `went well at ${score}`,
+    needs_improvement: `improve at ${score}`,
+    summary: '',
+    ...(opts.withCategories === false ? {} : { categories: categories(score, opts.overrides) }),
+  } as QuestionFeedback;
+  return {
+    question: { difficulty: opts.difficulty ?? 'medium' },
+    transcript: words(opts.wordCount ?? 150),
+    feedback,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  // Weighting
+  check('full-length medium answer weighs 1', questionWeight(item(70)) === 1);
+  check('hard answers weigh more than easy ones', questionWeight(item(70, { difficulty: 'hard' })) > questionWeight(item(70, { difficulty: 'easy' })));
+  check('short answers weigh less', questionWeight(item(70, { wordCount: 30 })) === 0.25);
+  check('rambling is not rewarded', questionWeight(item(70, { wordCount: 600 })) === questionWeight(item(70, { wordCount: 120 })));
+  check('an empty answer still counts a little', questionWeight(item(0, { wordCount: 0 })) > 0);
+
+  // Stats
+  const flat = weightedStats([60, 80], [1, 1]);
+  check('equal weights give the plain mean', flat.mean === 70 && flat.stdDev === 10, flat);
+  const skewed = weightedStats([60, 80], [3, 1]);
+  check('weights pull the mean', skewed.mean === 65, skewed);
+  check('no values gives zeros', weightedStats([], []).mean === 0);
+
+  // Aggregation
+  const agg = aggregateFeedback([item(90, { difficulty: 'hard' }), item(50, { wordCount: 30 })], GENERAL_DIMENSIONS);
+  check('weights are normalized', Math.abs(agg.weights.reduce((a, b) => a + b, 0) - 1) < 0.001, agg.weights);
+  check('a long hard answer outweighs a short one', agg.weights[0] > agg.weights[1], agg.weights);
+  check('overall leans toward the heavier answer', agg.score.mean > 70, agg.score);
+  check('score spread is reported', agg.score.stdDev > 0, agg.score);
+  check('same answers, same result', JSON.stringify(aggregateFeedback([item(90, { difficulty: 'hard' }), item(50, { wordCount: 30 })], GENERAL_DIMENSIONS)) === JSON.stringify(agg));
+
+  const mixed = aggregateFeedback([item(80, { overrides: { timing: 40 } }), item(60, { withCategories: false })], GENERAL_DIMENSIONS);
+  check('questions without a breakdown are skipped for categories', mixed.categories.technical_knowledge.mean === 80, mixed.categories);
+  check('but still count toward the score', mixed.score.mean === 70, mixed.score);
+
+  // Any rubric's dimensions aggregate the same way
+  const star: RubricDimension[] = [{ key: 'action', label: 'Action' }, { key: 'result', label: 'Result' }];
+  const starItem = (action: number, result: number) => {
+    const it = item(0);
+    it.feedback.categories = { action: { score: action, reason: '' }, result: { score: result, reason: '' } };
+    return it;
+  };
+  const starAgg = aggregateFeedback([starItem(80, 40), starItem(60, 60)], star);
+  check('custom rubric dimensions are averaged', starAgg.categories.action.mean === 70 && starAgg.categories.result.mean === 50, starAgg.categories);
+  check('only the rubric\'s dimensions are reported', Object.keys(starAgg.categories).join() === 'action,result', Object.keys(starAgg.categories));
+
+  const audit = toOverallAggregation(agg);
+  check('audit keeps every category spread', KEYS.every((k) => typeof audit.category_std_dev[k] === 'number'), audit);
+
+  // Fallback narrative
+  const items = [item(55, { overrides: { timing: 30 } }), item(85, { overrides: { timing: 30, personability: 95 } })];
+  const narrative = fallbackNarrative(items, aggregateFeedback(items, GENERAL_DIMENSIONS), GENERAL_DIMENSIONS);
+  check('strength comes from the best answer', narrative.what_went_well === 'went well at 85', narrative);
+  check('fix comes from the weakest answer', narrative.needs_improvement === 'improve at 55', narrative);
+  check('summary names the strongest and weakest categories', narrative.summary.includes('strongest in personability') && narrative.summary.includes('weakest in timing'), narrative.summary);
+  check('no items, empty narrative', fallbackNarrative([], aggregateFeedback([], GENERAL_DIMENSIONS), GENERAL_DIMENSIONS).summary === '');
+}
+
+run('Overall aggregation test', main);
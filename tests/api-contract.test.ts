@@ -0,0 +1,126 @@
+/**
+ * API Contract Test
+ *
+ * Checks shared/contract.ts, the one place each route's request and response
+ * is declared: request schemas reject what withApi should turn away, response
+ * and streamed-event schemas reject the malformed replies the client refuses
+ * to pass on, and real handlers answer with bodies that match their route's
+ * response schema. The model calls are stubbed — no network.
+ *
+ * Usage:
+ *   npx tsx tests/api-contract.test.ts
+ */
+
+import { FEEDBACK_EVENT_SCHEMAS, routes } from '../shared/contract';
+import { validateSchema } from '../shared/schema';
+import factCheckHandler from '../api/factcheck';
+import pauseHandler from '../api/pause';
+import questionHandler from '../api/question';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const QUESTION_FEEDBACK = {
+  score: 72.5,
+  categories: { response_organization: { score: 70, reason: 'Clear steps.' } },
+  best_part_quote: 'I owned the payments service.',
+  best_part_explanation: 'Specific.',
+  worst_part_quote: 'We shipped on time.',
+  worst_part_explanation: 'No numbers.',
+  best_part_span: { start: 0, end: 29 },
+  what_went_well: 'Concrete.',
+  needs_improvement: 'Quantify.',
+  summary: 'Solid.',
+  confidence_score: 80,
+};
+
+const RUBRIC = { id: 'general', label: 'General', dimensions: [{ key: 'response_organization', label: 'Organization' }] };
+
+interface SentBody {
+  statusCode: number;
+  body: unknown;
+}
+
+/** Runs `route` with `content` as the model's reply; resolves to what it answered. */
+async function callWithReply(route: (req: unknown, res: unknown) => Promise<unknown>, body: unknown, content: string): Promise<SentBody> {
+  const realFetch = globalThis.fetch;
+  const realKeys = { openai: process.env.OPENAI_API_KEY, groq: process.env.GROQ_API_KEY };
+  process.env.OPENAI_API_KEY = 'test-key';
+  process.env.GROQ_API_KEY = 'test-key';
+  globalThis.fetch = (async () =>
+    new Response(JSON.stringify({ choices: [{ message: { content } }], usage: { prompt_tokens: 10, completion_tokens: 5 } }))) as typeof fetch;
+  const sent: SentBody = { statusCode: 0, body: null };
+  const res = {
+    setHeader: () => {},
+    status(code: number) { sent.statusCode = code; return this; },
+    json: (data: unknown) => { sent.body = data; },
+    end: () => {},
+  };
+  try {
+    await route({ method: 'POST', body, headers: {} }, res);
+  } finally {
+    globalThis.fetch = realFetch;
+    for (const [name, value] of [['OPENAI_API_KEY', realKeys.openai], ['GROQ_API_KEY', realKeys.groq]] as const) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  }
+  return sent;
+}
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  // Routes
+  const paths = Object.values(routes).map((r) => r.path);
+  check('every route has its own path', new Set(paths).size === paths.length, paths);
+  check('every route but TTS declares a response schema', Object.entries(routes).every(([name, r]) => name === 'tts' || r.response !== undefined));
+
+  // Requests
+  check('a feedback request needs questions and answers', validateSchema({}, routes.feedback.request, 'body').join() === 'body.questions: missing,body.answers: missing');
+  check('a feedback request takes a known provider only', validateSchema({ questions: [], answers: [], provider: 'anthropic' }, routes.feedback.request).length === 1);
+  check('a question request takes a known role only', validateSchema({ role: 'astronaut' }, routes.question.request).length === 1);
+  check('a well-formed feedback request passes', validateSchema({ questions: ['Q'], answers: ['A'], stream: true, role: 'swe_intern', samples: 3 }, routes.feedback.request).length === 0);
+
+  // Responses
+  const graded = { questions: [QUESTION_FEEDBACK], rubric: RUBRIC, sampling: { samples: 3, models: ['gpt-4o-mini'] } };
+  check('a well-formed grading passes', validateSchema(graded, routes.feedback.response).length === 0, validateSchema(graded, routes.feedback.response));
+  const stringScore = { ...graded, questions: [{ ...QUESTION_FEEDBACK, score: '72' }] };
+  check('a score that is a string is rejected', validateSchema(stringScore, routes.feedback.response).some((e) => e.includes('score')), validateSchema(stringScore, routes.feedback.response));
+  const outOfRange = { ...graded, questions: [{ ...QUESTION_FEEDBACK, score: 140 }] };
+  check('a score above 100 is rejected', validateSchema(outOfRange, routes.feedback.response).length > 0);
+  const noSummary: Partial<typeof QUESTION_FEEDBACK> = { ...QUESTION_FEEDBACK };
+  delete noSummary.summary;
+  check('a question missing its summary is rejected', validateSchema({ ...graded, questions: [noSummary] }, routes.feedback.response).some((e) => e.endsWith('summary: missing')));
+  check('a grading without its rubric is rejected', validateSchema({ questions: [] }, routes.feedback.response).join() === '$.rubric: missing');
+  check('a blank question is rejected', validateSchema({ question: ' ', category: 'behavioral' }, routes.question.response).length === 1);
+  check('an unknown pause verdict is rejected', validateSchema({ verdict: 'maybe' }, routes.pause.response).length === 1);
+  check('an unknown STAR label is rejected', validateSchema({ labels: ['action', 'conclusion'] }, routes.starSegments.response).length === 1);
+  check('a Deepgram token must be a string', validateSchema({ token: 42, expiresIn: 30 }, routes.deepgramToken.response).length === 1);
+
+  // Streamed events
+  check('a question event passes', validateSchema({ index: 0, feedback: QUESTION_FEEDBACK }, FEEDBACK_EVENT_SCHEMAS.question).length === 0);
+  check('a question event without feedback is rejected', validateSchema({ index: 0 }, FEEDBACK_EVENT_SCHEMAS.question).length === 1);
+  check('a question event with a fractional index is rejected', validateSchema({ index: 0.5, feedback: QUESTION_FEEDBACK }, FEEDBACK_EVENT_SCHEMAS.question).length === 1);
+  check('a question_error event needs its message', validateSchema({ index: 1 }, FEEDBACK_EVENT_SCHEMAS.question_error).length === 1);
+  check('an empty done event passes', validateSchema({}, FEEDBACK_EVENT_SCHEMAS.done).length === 0);
+  check('a done event with a malformed rubric is rejected', validateSchema({ rubric: { id: 'general' } }, FEEDBACK_EVENT_SCHEMAS.done).length > 0);
+
+  // Handlers answer what their route declares
+  const pause = await callWithReply(pauseHandler, { transcript: 'And that is how we shipped it.' }, JSON.stringify({ verdict: 'definitely_done' }));
+  check('/api/pause answers its response schema', pause.statusCode === 200 && validateSchema(pause.body, routes.pause.response).length === 0, pause);
+
+  const factCheck = await callWithReply(
+    factCheckHandler,
+    { question: 'What is a mutex?', answer: 'A lock.', correction: 'It guards shared state.' },
+    JSON.stringify({ is_correct: true, result: 'Correct', explanation: 'A mutex guards shared state.' }),
+  );
+  check('/api/factcheck answers its response schema', factCheck.statusCode === 200 && validateSchema(factCheck.body, routes.factCheck.response).length === 0, factCheck);
+
+  const question = await callWithReply(questionHandler, { role: 'swe_intern', difficulty: 'easy' }, 'Tell me about a time you disagreed with a teammate.');
+  check('/api/question answers its response schema', question.statusCode === 200 && validateSchema(question.body, routes.question.response).length === 0, question);
+}
+
+run('API contract test', main);
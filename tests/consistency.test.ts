@@ -0,0 +1,80 @@
+/**
+ * Consistency Scoring Test
+ *
+ * Checks how /api/feedback resolves a request's grader samples and models,
+ * and how several finalized samples are merged into median scores with
+ * intervals and disagreement flags. No network.
+ *
+ * Usage:
+ *   npx tsx tests/consistency.test.ts
+ */
+
+import { DISAGREEMENT_SPREAD, MAX_SAMPLES, SAMPLING_MODELS, combineSamples, median, resolveSampling } from '../api/_lib/consistency';
+import type { FeedbackResponse, QuestionFeedback } from '../src/types';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+function question(score: number, categories: Record<string, number>, note = `note at ${score}`): QuestionFeedback {
+  return {
+    score,
+    categories: Object.fromEntries(Object.entries(categories).map(([k, v]) => [k, { score: v, reason: `${k} at ${v}` }])),
+    best_part_quote: note,
+    best_part_explanation: '',
+    worst_part_quote: '',
+    worst_part_explanation: '',
+    what_went_well: note,
+    needs_improvement: '',
+    summary: '',
+    confidence_score: 80,
+  };
+}
+
+function sample(questions: QuestionFeedback[], overallScore: number): FeedbackResponse {
+  return {
+    questions,
+    overall: { score: overallScore, categories: { action: overallScore }, what_went_well: '', needs_improvement: '', summary: '' },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  // Sampling options
+  check('no samples means one call to the default model', JSON.stringify(resolveSampling(undefined, undefined)) === JSON.stringify({ samples: 1, models: [SAMPLING_MODELS[0]] }));
+  check('samples are capped', resolveSampling(50).samples === MAX_SAMPLES);
+  check('non-integer samples fall back to one', resolveSampling('3').samples === 1 && resolveSampling(2.5).samples === 1);
+  const crossModel = resolveSampling(3, ['gpt-4o-mini', 'gpt-4o', 'not-a-model']);
+  check('samples alternate across allowed models', crossModel.models.join() === 'gpt-4o-mini,gpt-4o,gpt-4o-mini', crossModel);
+
+  // Median
+  check('median of an odd count', median([70, 50, 90]) === 70);
+  check('median of an even count', median([60, 80, 70, 50]) === 65);
+
+  // Merging
+  const single = sample([question(70, { action: 70 })], 70);
+  check('a single sample is returned unchanged', combineSamples([single], ['gpt-4o-mini']) === single);
+
+  const merged = combineSamples(
+    [
+      sample([question(70, { action: 72, result: 60 }, 'first'), question(40, { action: 40, result: 40 })], 60),
+      sample([question(74, { action: 76, result: 66 }, 'second'), question(80, { action: 85, result: 75 })], 70),
+      sample([question(66, { action: 70, result: 58 }, 'third'), question(55, { action: 55, result: 50 })], 65),
+    ],
+    ['gpt-4o-mini', 'gpt-4o-mini', 'gpt-4o-mini'],
+  );
+  const [steady, noisy] = merged.questions;
+  check('question score is the sample median', steady.score === 70, steady.score);
+  check('score interval spans the samples', steady.score_interval?.join() === '66,74', steady.score_interval);
+  check('category score is its own median', steady.categories?.action.score === 72 && steady.categories?.result.score === 60, steady.categories);
+  check('category interval spans the samples', steady.categories?.result.interval?.join() === '58,66', steady.categories?.result);
+  check('written feedback comes from the sample nearest the median', steady.what_went_well === 'first', steady.what_went_well);
+  check('close samples are not flagged', steady.disagreement === false);
+  check(`a spread over ${DISAGREEMENT_SPREAD} points is flagged`, noisy.disagreement === true, noisy.score_interval);
+  check('overall score is the median', merged.overall.score === 65 && merged.overall.categories.action === 65, merged.overall);
+  check('sampling is reported', merged.sampling?.samples === 3 && merged.sampling.models.length === 3, merged.sampling);
+}
+
+run('Consistency scoring test', main);
@@ -0,0 +1,71 @@
+/**
+ * Delivery Metrics Test
+ *
+ * Checks how measured delivery (pace, length, filler words, eye contact) is
+ * sanitized, turned into subscores and blended into the rubric categories
+ * that declare one, and the formula the feedback screen shows. No network.
+ *
+ * Usage:
+ *   npx tsx tests/delivery.test.ts
+ */
+
+import { DELIVERY_BLEND, blendDelivery, deliverySubscores, describeDelivery, normalizeDeliveryMetrics } from '../api/_lib/delivery';
+import { resolveRubric } from '../api/_lib/rubrics';
+import { deliveryFormula } from '../src/config/rubrics';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const steady = {
+  fillerCount: 2,
+  wordsPerMinute: 140,
+  speakingDurationSeconds: 90,
+  faceMetrics: { eyeContactPercent: 80, headStability: 90, nervousnessScore: 20, confidenceScore: 75 },
+};
+
+const GENERAL_SCORES = {
+  response_organization: 70,
+  technical_knowledge: 70,
+  problem_solving: 70,
+  position_application: 70,
+  timing: 60,
+  personability: 60,
+};
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  // Sanitizing
+  check('missing metrics are null', normalizeDeliveryMetrics(undefined) === null && normalizeDeliveryMetrics({}) === null);
+  check('an unmeasured pace (0 wpm) is dropped', normalizeDeliveryMetrics({ ...steady, wordsPerMinute: 0 }).wordsPerMinute === null);
+  check('out-of-range face metrics are dropped', normalizeDeliveryMetrics({ faceMetrics: { eyeContactPercent: 140 } }) === null);
+
+  // Subscores
+  const good = deliverySubscores(normalizeDeliveryMetrics(steady));
+  check('a steady, well-paced answer scores full pacing', good.pacing.score === 100, good.pacing);
+  check('presence averages eye contact, composure and confidence', good.presence.score === 78.3, good.presence);
+  const rushed = deliverySubscores(normalizeDeliveryMetrics({ fillerCount: 12, wordsPerMinute: 210, speakingDurationSeconds: 25 }));
+  check('fast, short, filler-heavy answers lose pacing', rushed.pacing.score < 50, rushed.pacing);
+  check('no camera, no presence subscore', rushed.presence === null);
+
+  // Blending
+  const general = resolveRubric('general');
+  const blended = blendDelivery(general, GENERAL_SCORES, normalizeDeliveryMetrics(steady));
+  const expectedTiming = Number(((1 - DELIVERY_BLEND.pacing) * 60 + DELIVERY_BLEND.pacing * 100).toFixed(1));
+  check('timing blends the grader with measured pacing', blended.scores.timing === expectedTiming, blended.scores);
+  check('personability blends in presence', blended.scores.personability > 60 && blended.breakdown.personability.source === 'presence', blended.breakdown);
+  check('other categories are untouched', blended.scores.technical_knowledge === 70 && !('technical_knowledge' in blended.breakdown));
+  check('nothing measured, nothing blended', Object.keys(blendDelivery(general, GENERAL_SCORES, null).breakdown).length === 0);
+
+  const star = blendDelivery(resolveRubric('star'), { situation: 70, task: 70, action: 70, result: 70, communication: 60, pacing: 60 }, normalizeDeliveryMetrics(steady));
+  check('the STAR rubric blends pacing and communication', Object.keys(star.breakdown).sort().join() === 'communication,pacing', star.breakdown);
+
+  // Prompt and display
+  check('the prompt line lists what was measured', describeDelivery(normalizeDeliveryMetrics(steady)).includes('140 words per minute'));
+  const formula = deliveryFormula(blended.breakdown.timing);
+  check('the formula names both shares and the parts', formula.startsWith('60% grader (60) + 40% measured (100') && formula.includes('filler words'), formula);
+}
+
+run('Delivery metrics test', main);
@@ -0,0 +1,62 @@
+/**
+ * Difficulty Test
+ *
+ * Checks api/_lib/difficulty.ts: request values normalize to a known level,
+ * and each level's question and scoring prompt fragments are the ones the
+ * generators and /api/feedback send. The calibration harness
+ * (tests/scoring-calibration.test.ts) measures what the scoring fragments do
+ * to the model's scores.
+ *
+ * Usage:
+ *   npx tsx tests/difficulty.test.ts
+ */
+
+import { DIFFICULTY_LEVELS } from '../shared/contract';
+import { DEFAULT_DIFFICULTY, DIFFICULTIES, difficultyInstruction, normalizeDifficulty, scoringCalibration } from '../api/_lib/difficulty';
+import { buildFeedbackPrompt, resolveFeedbackRequest } from '../api/feedback';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const QUESTION = 'Describe a difficult bug you tracked down.';
+const ANSWER = 'Two tabs refreshed the auth token at once, so I added a lock and the logouts stopped.';
+
+function feedbackPrompt(difficulty: unknown): string {
+  return buildFeedbackPrompt(resolveFeedbackRequest({ questions: [QUESTION], answers: [ANSWER], role: 'swe_intern', difficulty }));
+}
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  // normalizeDifficulty
+  check('every contract level has prompts', DIFFICULTY_LEVELS.every((id) => Object.hasOwn(DIFFICULTIES, id)), Object.keys(DIFFICULTIES));
+  check('known levels pass through', DIFFICULTY_LEVELS.every((id) => normalizeDifficulty(id) === id));
+  check('levels are read case- and space-insensitively', normalizeDifficulty('  HARD ') === 'hard');
+  check('an unknown level falls back to medium', normalizeDifficulty('extreme') === DEFAULT_DIFFICULTY && DEFAULT_DIFFICULTY === 'medium');
+  check('a missing level falls back to medium', normalizeDifficulty(undefined) === 'medium');
+  check('a non-string level falls back to medium', normalizeDifficulty(3) === 'medium');
+  check('inherited object keys are not levels', normalizeDifficulty('constructor') === 'medium');
+
+  // Prompt fragments
+  for (const id of DIFFICULTY_LEVELS) {
+    check(`${id}: scoringCalibration carries its scoring guidance`, scoringCalibration(id) === `\n\nSCORING CALIBRATION: ${DIFFICULTIES[id].scoring}`);
+    check(`${id}: difficultyInstruction carries its question guidance`, difficultyInstruction(id) === `\n\nDIFFICULTY: ${DIFFICULTIES[id].question}`);
+  }
+  check('an unknown level is calibrated as medium', scoringCalibration('extreme') === scoringCalibration('medium'));
+  check('each level calibrates differently', new Set(DIFFICULTY_LEVELS.map((id) => scoringCalibration(id))).size === DIFFICULTY_LEVELS.length);
+  check('each level states its expected score band', DIFFICULTY_LEVELS.every((id) => /\d+–\d+/.test(DIFFICULTIES[id].scoring)));
+
+  // /api/feedback scores with the requested level's calibration
+  for (const id of DIFFICULTY_LEVELS) {
+    const prompt = feedbackPrompt(id);
+    check(
+      `${id}: the feedback prompt is calibrated for ${id} only`,
+      prompt.includes(scoringCalibration(id)) && DIFFICULTY_LEVELS.filter((other) => other !== id).every((other) => !prompt.includes(DIFFICULTIES[other].scoring)),
+    );
+  }
+  check('the feedback prompt calibrates a missing level as medium', feedbackPrompt(undefined).includes(scoringCalibration('medium')));
+}
+
+run('Difficulty test', main);
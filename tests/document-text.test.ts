@@ -0,0 +1,69 @@
+/**
+ * Document Ingestion Test
+ *
+ * Checks file-type detection, upload validation, the scanned-PDF heuristic
+ * and Markdown stripping in the shared document-ingestion module. The PDF,
+ * DOCX and HTML paths need a browser and are not exercised here.
+ *
+ * Usage:
+ *   npx tsx tests/document-text.test.ts
+ */
+
+import { documentKind, isImageOnly, markdownToText, validateDocument } from '../src/services/documentText';
+import { parseResume } from '../src/utils/resumeParser';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const MARKDOWN_RESUME = `# Jordan Lee
+
+[jordan@example.com](mailto:jordan@example.com) · [GitHub](https://github.com/jlee)
+
+## Experience
+
+**Software Engineering Intern** | Acme Corp | Jun 2025 – Sep 2025
+
+- Built a *caching layer* that cut p95 latency by 40%
+- Shipped \`snake_case_config\` migration
+
+---
+
+## Skills
+
+| Area | Tools |
+|------|-------|
+| Languages | Python, Go |
+`;
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  check('pdf by extension', documentKind({ name: 'Resume.PDF', type: '' }) === 'pdf');
+  check('docx by extension', documentKind({ name: 'resume.docx', type: '' }) === 'docx');
+  check('markdown by extension', documentKind({ name: 'resume.md', type: '' }) === 'markdown');
+  check('html job posting by extension', documentKind({ name: 'posting.htm', type: '' }) === 'html');
+  check('falls back to the MIME type', documentKind({ name: 'download', type: 'text/html' }) === 'html');
+  check('unknown types are rejected', documentKind({ name: 'photo.png', type: 'image/png' }) === null);
+
+  check('legacy .doc gets its own message', validateDocument({ name: 'old.doc', type: '', size: 10 })?.includes('.doc') === true);
+  check('oversized files are rejected', validateDocument({ name: 'big.pdf', type: '', size: 6 * 1024 * 1024 }) !== null);
+  check('a normal upload passes', validateDocument({ name: 'resume.pdf', type: 'application/pdf', size: 1024 }) === null);
+
+  check('pages with no text look scanned', isImageOnly(['', ' \n ', '']));
+  check('a page number alone still looks scanned', isImageOnly(['1', '2']));
+  check('real text is not scanned', !isImageOnly(['Jordan Lee\nSoftware Engineering Intern at Acme Corp\nBuilt a caching layer']));
+
+  const text = markdownToText(MARKDOWN_RESUME);
+  check('headings keep their text', text.startsWith('Jordan Lee\n'), text.slice(0, 40));
+  check('links keep their label', text.includes('jordan@example.com · GitHub') && !text.includes('https://'), text);
+  check('list items become bullets', text.includes('• Built a caching layer that cut p95 latency by 40%'), text);
+  check('identifiers with underscores survive', text.includes('snake_case_config'), text);
+  check('tables keep their cells', text.includes('Languages | Python, Go') && !text.includes('|---'), text);
+
+  const resume = parseResume(text);
+  check('markdown output feeds the resume parser', resume.experience[0]?.title === 'Software Engineering Intern' && resume.experience[0]?.bullets.length === 2, resume.experience);
+}
+
+run('Document ingestion test', main);
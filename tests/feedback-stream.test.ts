@@ -0,0 +1,174 @@
+/**
+ * Feedback Streaming Test
+ *
+ * Checks the pieces behind `stream: true` on /api/feedback: picking finished
+ * question objects out of the grader's streamed JSON, reading event streams
+ * (server and client readers), and the events the handler sends when a
+ * grading completes, is cut off, or one of several samples fails, and when
+ * it's graded by the Groq fallback. The OpenAI and Groq calls are stubbed —
+ * no network.
+ *
+ * Usage:
+ *   npx tsx tests/feedback-stream.test.ts
+ */
+
+import { createArrayItemReader, readEventStream as readServerEvents } from '../api/_lib/stream';
+import handler from '../api/feedback';
+import { readEventStream, type StreamEvent } from '../src/utils/eventStream';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const CATEGORY_KEYS = ['response_organization', 'technical_knowledge', 'problem_solving', 'position_application', 'timing', 'personability'];
+
+const ANSWERS = [
+  'I owned the payments service. We shipped on time with zero failed payments.',
+  'I fixed the flaky test by mocking the clock.',
+];
+
+function gradedQuestion(quote: string, score: number) {
+  return {
+    categories: Object.fromEntries(CATEGORY_KEYS.map((k) => [k, { score, reason: 'Clear "steps" {with} [brackets]' }])),
+    best_part_quote: quote,
+    best_part_explanation: 'Specific.',
+    worst_part_quote: quote,
+    worst_part_explanation: 'Could say more.',
+    what_went_well: 'Concrete.',
+    needs_improvement: 'Quantify.',
+    summary: 'Solid.',
+    confidence_score: 80,
+  };
+}
+
+const GRADING = JSON.stringify({
+  questions: [gradedQuestion('I owned the payments service.', 80), gradedQuestion('I fixed the flaky test by mocking the clock.', 60)],
+  overall: { categories: Object.fromEntries(CATEGORY_KEYS.map((k) => [k, 70])), what_went_well: '', needs_improvement: '', summary: '', confidence_score: 75 },
+});
+
+/** A body that delivers `text` in `size`-character chunks. */
+function chunked(text: string, size: number): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < text.length; i += size) controller.enqueue(encoder.encode(text.slice(i, i + size)));
+      controller.close();
+    },
+  });
+}
+
+/** The streamed chat completion for `json`, optionally cut off after `fraction` of it. */
+function gradingStream(json: string, fraction = 1): string {
+  const deltas = json.slice(0, Math.floor(json.length * fraction)).match(/[\s\S]{1,23}/g) ?? [];
+  const chunks = deltas.map((content) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`).join('');
+  return fraction < 1 ? chunks : `${chunks}data: [DONE]\n\n`;
+}
+
+/** A complete (not streamed) chat completion replying with `content`. */
+function completion(content: string): Response {
+  return new Response(JSON.stringify({ choices: [{ message: { content } }], usage: { prompt_tokens: 10, completion_tokens: 5 } }));
+}
+
+/** Runs the handler in stream mode with `respond` standing in for OpenAI (and Groq); resolves to the events it wrote. */
+async function runStream(body: Record<string, unknown>, respond: (model: string) => Response): Promise<StreamEvent[]> {
+  const realFetch = globalThis.fetch;
+  const realKeys = { openai: process.env.OPENAI_API_KEY, groq: process.env.GROQ_API_KEY };
+  process.env.OPENAI_API_KEY = 'test-key';
+  process.env.GROQ_API_KEY = 'test-key';
+  globalThis.fetch = (async (url: string, init: { body: string }) => {
+    const request = JSON.parse(init.body);
+    if (url.includes('groq')) return respond(request.model);
+    // The quote re-ask isn't streamed; answer "none fit"
+    if (!request.stream) return completion('{"choices":[]}');
+    return respond(request.model);
+  }) as typeof fetch;
+
+  let written = '';
+  const headers: Record<string, string> = {};
+  const res = {
+    statusCode: 0,
+    setHeader: (name: string, value: string) => { headers[name] = value; },
+    write: (chunk: string) => { written += chunk; },
+    end: () => {},
+    status(code: number) { this.statusCode = code; return this; },
+    json: (data: unknown) => { written += JSON.stringify(data); },
+  };
+  try {
+    await handler({ method: 'POST', body: { questions: ['Tell me about a launch.', 'Tell me about a bug.'], answers: ANSWERS, stream: true, ...body } }, res);
+  } finally {
+    globalThis.fetch = realFetch;
+    process.env.OPENAI_API_KEY = realKeys.openai;
+    process.env.GROQ_API_KEY = realKeys.groq;
+  }
+  if (!headers['Content-Type']?.startsWith('text/event-stream')) throw new Error(`not an event stream: ${written.slice(0, 200)}`);
+
+  const events: StreamEvent[] = [];
+  await readEventStream(chunked(written, 64), (e) => events.push(e));
+  return events;
+}
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  // Streamed JSON
+  const items: { item: { best_part_quote: string }; index: number }[] = [];
+  const reader = createArrayItemReader('questions', (item: { best_part_quote: string }, index: number) => items.push({ item, index }));
+  const withDecoy = GRADING.replace('{"questions":', '{"note":"not the \\"questions\\": [{}] you want","questions":');
+  for (let i = 0; i < withDecoy.length; i += 5) reader.push(withDecoy.slice(i, i + 5));
+  check('each question comes out once its object closes', items.length === 2 && items[1].index === 1, items.map((i) => i.index));
+  check('braces and quotes inside strings are skipped', items[0]?.item.best_part_quote === 'I owned the payments service.', items[0]);
+  const partial: unknown[] = [];
+  const cut = createArrayItemReader('questions', (item: unknown) => partial.push(item));
+  cut.push(GRADING.slice(0, Math.floor(GRADING.length * 0.7)));
+  check('an unfinished question is held back', partial.length === 1, partial.length);
+
+  // Event streams
+  const raw = 'event: question\r\ndata: {"index":0}\r\n\r\nevent: note\ndata: line one\ndata: line two\n\n: comment\n\nevent: done\ndata: {}';
+  for (const [name, read] of [['server', readServerEvents], ['client', readEventStream]] as const) {
+    const events: StreamEvent[] = [];
+    await read(chunked(raw, 3), (e: StreamEvent) => events.push(e));
+    check(`${name} reader splits events across chunk boundaries`, events.map((e) => e.event).join() === 'question,note,done', events);
+    check(`${name} reader joins multi-line data`, events[1]?.data === 'line one\nline two', events[1]);
+  }
+
+  // Handler: a complete grading
+  const complete = await runStream({}, () => new Response(chunked(gradingStream(GRADING), 40)));
+  const scored = complete.filter((e) => e.event === 'question').map((e) => JSON.parse(e.data));
+  check('every question is sent as it is graded', scored.length === 2 && scored[0].index === 0 && scored[1].index === 1, complete.map((e) => e.event));
+  check('streamed questions are finalized (weighted score, aligned quote)', scored[0]?.feedback.score === 80 && scored[0]?.feedback.best_part_span?.start === 0, scored[0]?.feedback);
+  const done = complete.at(-1);
+  check('the stream ends with done and the rubric', done?.event === 'done' && JSON.parse(done.data).rubric?.id === 'general', done);
+
+  // Handler: a grading cut off after the first question
+  const truncated = await runStream({}, () => new Response(chunked(gradingStream(GRADING, 0.7), 40)));
+  check('questions graded before the cut still arrive', truncated.some((e) => e.event === 'question' && JSON.parse(e.data).index === 0));
+  const missing = truncated.find((e) => e.event === 'question_error');
+  check('the missing question gets its own error', missing !== undefined && JSON.parse(missing.data).index === 1, truncated.map((e) => e.event));
+
+  // Handler: one of two samples fails
+  const sampled = await runStream({ samples: 2, models: ['gpt-4o-mini', 'gpt-4o'] }, (model) =>
+    model === 'gpt-4o' ? new Response('overloaded', { status: 503 }) : new Response(chunked(gradingStream(GRADING), 40)),
+  );
+  check('a failed sample is dropped, not the questions', sampled.filter((e) => e.event === 'question').length === 2, sampled.map((e) => e.event));
+  const sampledDone = JSON.parse(sampled.at(-1)?.data ?? '{}');
+  check('done reports which samples scored', sampledDone.sampling?.samples === 1 && sampledDone.sampling.models[0] === 'gpt-4o-mini', sampledDone);
+
+  // Handler: the grader is down
+  const down = await runStream({}, () => new Response('down', { status: 500 }));
+  const errors = down.filter((e) => e.event === 'question_error').map((e) => JSON.parse(e.data));
+  check('every question reports the failure', errors.length === 2 && errors[0].error === 'OpenAI API error', errors);
+
+  // Handler: graded by the Groq fallback
+  const requested: string[] = [];
+  const groq = await runStream({ provider: 'groq', samples: 3 }, (model) => {
+    requested.push(model);
+    return completion(GRADING);
+  });
+  check('the Groq fallback takes a single sample', requested.join() === 'llama-3.3-70b-versatile', requested);
+  check('Groq-graded questions are sent and finalized', groq.filter((e) => e.event === 'question').length === 2, groq.map((e) => e.event));
+  const groqDone = JSON.parse(groq.at(-1)?.data ?? '{}');
+  check('done reports no sampling for the fallback', groq.at(-1)?.event === 'done' && groqDone.sampling === undefined, groqDone);
+}
+
+run('Feedback streaming test', main);
@@ -0,0 +1,58 @@
+/**
+ * Follow-up Queue Test
+ *
+ * Checks how adaptive follow-ups are inserted into the question queue and
+ * grouped into threads for scoring. Pure functions only — no network.
+ *
+ * Usage:
+ *   npx tsx tests/follow-ups.test.ts
+ */
+
+import {
+  insertFollowUps,
+  isThreadComplete,
+  questionProgress,
+  threadFollowUpOf,
+  threadStart,
+  toFollowUpQuestions,
+} from '../src/services/followUps';
+import type { Question } from '../src/types';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const Q1: Question = { id: 'q1', text: 'Tell me about a conflict.', role: 'swe_intern', difficulty: 'medium', category: 'conflict' };
+const Q2: Question = { id: 'q2', text: 'Tell me about a failure.', role: 'swe_intern', difficulty: 'medium' };
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  const followUps = toFollowUpQuestions(Q1, ['What was the result?', 'What would you change?']);
+  check('follow-ups link to their parent', followUps.every(q => q.parentId === 'q1'), followUps);
+  check('follow-ups get unique ids', new Set(followUps.map(q => q.id)).size === 2, followUps.map(q => q.id));
+  check('follow-ups inherit category', followUps.every(q => q.category === 'conflict'));
+
+  const queue = insertFollowUps([Q1, Q2], 0, followUps);
+  check(
+    'follow-ups are inserted right after the parent',
+    queue.map(q => q.id).join(',') === 'q1,q1-followup-1,q1-followup-2,q2',
+    queue.map(q => q.id),
+  );
+
+  check('thread is open while follow-ups remain', !isThreadComplete(queue, 0) && !isThreadComplete(queue, 1));
+  check('thread completes on its last follow-up', isThreadComplete(queue, 2));
+  check('question without follow-ups is its own thread', isThreadComplete(queue, 3) && threadStart(queue, 3) === 3);
+  check('thread starts at the parent', threadStart(queue, 2) === 0);
+
+  const thread = queue.slice(threadStart(queue, 2), 3);
+  check('followUpOf points follow-ups at the first item', threadFollowUpOf(thread).join(',') === ',0,0', threadFollowUpOf(thread));
+
+  const p = questionProgress(queue, 2);
+  check('progress counts main questions only', p.number === 1 && p.total === 2 && p.isFollowUp, p);
+  const p2 = questionProgress(queue, 3);
+  check('progress after a thread moves to the next main question', p2.number === 2 && !p2.isFollowUp, p2);
+}
+
+run('Follow-up queue test', main);
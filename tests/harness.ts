@@ -0,0 +1,40 @@
+/**
+ * Assertion harness for the tsx unit suites (tests/*.test.ts).
+ *
+ * Each suite is a plain script: `check()` records a result, and `run()`
+ * prints the suite's heading, runs it, lists what failed and exits non-zero
+ * if anything did. `npm run test:unit` runs every suite, one process each.
+ */
+
+const failures: string[] = [];
+
+/** Prints PASS or FAIL for `name`; `detail` is reported with a failure. */
+export function check(name: string, condition: boolean, detail?: unknown) {
+  if (condition) {
+    console.log(`  PASS  ${name}`);
+  } else {
+    console.log(`  FAIL  ${name}`);
+    failures.push(detail === undefined ? name : `${name}: ${JSON.stringify(detail)}`);
+  }
+}
+
+/** Runs `suite` under `title`, then reports; exits 1 if a check failed or the suite threw. */
+export function run(title: string, suite: () => Promise<void> | void) {
+  console.log(title);
+  console.log('='.repeat(title.length));
+  Promise.resolve()
+    .then(suite)
+    .then(() => {
+      console.log();
+      if (failures.length > 0) {
+        console.log(`RESULT: FAIL — ${failures.length} check(s) failed:`);
+        for (const f of failures) console.log(`  ${f}`);
+        process.exit(1);
+      }
+      console.log('RESULT: PASS');
+    })
+    .catch((err) => {
+      console.error('Unhandled error:', err);
+      process.exit(1);
+    });
+}
@@ -22,7 +22,8 @@
  * API mocking
  * ───────────
  * The app calls:
- *   • https://api.openai.com/**  (TTS, analyzePause, scoreAnswer)
+ *   • /api/tts  (TTS)
+ *   • https://api.openai.com/**  (analyzePause, scoreAnswer)
  *
  * All tests that proceed past the ready phase intercept those calls with
  * page.route() to return minimal, valid mock responses so no real network
@@ -66,13 +67,13 @@ const SILENT_WAV = Buffer.from([
 /**
  * Intercept every OpenAI API call that the app makes.
  *
- * • POST .../audio/speech  → return a silent WAV binary (TTS)
+ * • POST /api/tts  → return a silent WAV binary (TTS)
  * • POST .../chat/completions → return a minimal JSON with role:"assistant"
  *   and content:"continue" (used by analyzePause and scoreAnswer)
  */
 async function mockOpenAI(page: Page) {
-  // TTS endpoint
-  await page.route('**/api.openai.com/v1/audio/speech', async (route) => {
+  // TTS proxy
+  await page.route('**/api/tts', async (route) => {
     await route.fulfill({
       status: 200,
       contentType: 'audio/wav',
@@ -0,0 +1,79 @@
+/**
+ * Job Profile Coverage Test
+ *
+ * Checks how questions are spread over the competencies extracted from a job
+ * description, and how answers map back onto the coverage shown on the
+ * feedback screen. Pure functions only — no network.
+ *
+ * Usage:
+ *   npx tsx tests/job-profile.test.ts
+ */
+
+import { competencyCoverage, competencyPlan } from '../src/services/jobProfile';
+import { toFollowUpQuestions } from '../src/services/followUps';
+import type { JobProfile, Question, QuestionFeedback, QuestionResult } from '../src/types';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const PROFILE: JobProfile = {
+  title: 'Software Engineering Intern',
+  seniority: 'intern',
+  role: 'swe_intern',
+  skills: ['TypeScript', 'React'],
+  competencies: [
+    { name: 'Ownership', description: 'Drive features end to end', importance: 'high' },
+    { name: 'Collaboration', description: 'Work with design and PM', importance: 'medium' },
+    { name: 'Customer focus', description: 'Talk to users', importance: 'low' },
+  ],
+  values: ['Bias for action'],
+};
+
+function question(id: string, competency?: string): Question {
+  return { id, text: `Question ${id}`, role: 'swe_intern', difficulty: 'medium', ...(competency ? { competency } : {}) };
+}
+
+function result(q: Question, demonstrated?: string[]): QuestionResult {
+  const feedback = demonstrated
+    ? ({ score: 70, competencies_demonstrated: demonstrated } as QuestionFeedback)
+    : null;
+  return {
+    question: q,
+    transcript: '',
+    feedback,
+    metrics: { fillerCount: 0, wordsPerMinute: 0, speakingDurationSeconds: 0 },
+  } as QuestionResult;
+}
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  const two = competencyPlan(PROFILE, 2).map(c => c?.name);
+  check('short interviews cover the most important competencies', two.join(',') === 'Ownership,Collaboration', two);
+  const five = competencyPlan(PROFILE, 5).map(c => c?.name);
+  check('longer interviews cycle through them', five.join(',') === 'Ownership,Collaboration,Customer focus,Ownership,Collaboration', five);
+  check('no profile means no targets', competencyPlan(null, 3).every(c => c === undefined));
+
+  const q1 = question('q1', 'Ownership');
+  const [f1] = toFollowUpQuestions(q1, ['What was the result?']);
+  check('follow-ups keep the competency they probe', f1.competency === 'Ownership', f1);
+
+  const q2 = question('q2', 'Collaboration');
+  const coverage = competencyCoverage(PROFILE, [
+    result(q1, []),
+    result(f1, ['ownership']),
+    result(q2, []),
+  ]);
+  const byName = Object.fromEntries(coverage.map(c => [c.competency.name, c]));
+
+  check('evidence in a follow-up counts for the main question', byName['Ownership'].status === 'demonstrated' && byName['Ownership'].questionNumbers.join() === '1', byName['Ownership']);
+  check('targeted but not shown is "asked"', byName['Collaboration'].status === 'asked' && byName['Collaboration'].questionNumbers.join() === '2', byName['Collaboration']);
+  check('untargeted competencies are "missed"', byName['Customer focus'].status === 'missed' && byName['Customer focus'].questionNumbers.length === 0, byName['Customer focus']);
+
+  const incidental = competencyCoverage(PROFILE, [result(q2, ['Customer focus'])]);
+  check('a competency shown without being targeted still counts', incidental[2].status === 'demonstrated', incidental[2]);
+}
+
+run('Job profile coverage test', main);
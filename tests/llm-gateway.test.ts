@@ -0,0 +1,139 @@
+/**
+ * LLM Gateway Test
+ *
+ * Checks api/_lib/llm.ts, the gateway every api/ handler calls: which
+ * provider and model a request goes to under the LLM_PROVIDER settings,
+ * retries and timeouts, JSON cleanup and schema validation, token
+ * accounting, and streaming. fetch is stubbed — no network.
+ *
+ * Usage:
+ *   npx tsx tests/llm-gateway.test.ts
+ */
+
+import { chat, chatJson, missingApiKey, parseJsonText, resolveRoute, streamChat, usageTotals, validateSchema } from '../api/_lib/llm';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const ENV_KEYS = ['LLM_PROVIDER', 'LLM_PROVIDER_STAR_SEGMENTS', 'LLM_BASE_URL', 'LLM_MODEL', 'LLM_API_KEY', 'OPENAI_API_KEY', 'GROQ_API_KEY'];
+
+const VERDICT = {
+  type: 'object',
+  properties: { verdict: { type: 'string', enum: ['done', 'talking'] }, reasons: { type: 'array', items: { type: 'string' } } },
+  required: ['verdict'],
+  additionalProperties: false,
+};
+
+interface Call {
+  url: string;
+  body: Record<string, unknown>;
+}
+
+/** A complete chat completion replying with `content`. */
+function completion(content: string, usage = { prompt_tokens: 12, completion_tokens: 3 }): Response {
+  return new Response(JSON.stringify({ choices: [{ message: { content } }], usage }));
+}
+
+/** A streamed chat completion sending `parts` as deltas. */
+function streamed(parts: string[]): Response {
+  const events = parts.map((content) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`).join('');
+  return new Response(`${events}data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 20, completion_tokens: 7 } })}\n\ndata: [DONE]\n\n`);
+}
+
+/** Runs `fn` with the given env and `reply` standing in for every provider; resolves to its result and the calls made. */
+async function withStub<T>(
+  env: Record<string, string>,
+  reply: (call: Call, n: number, signal?: AbortSignal) => Response | Promise<Response>,
+  fn: () => Promise<T>,
+): Promise<{ result?: T; error?: { message: string; status?: number }; calls: Call[] }> {
+  const realFetch = globalThis.fetch;
+  const realEnv = Object.fromEntries(ENV_KEYS.map((k) => [k, process.env[k]]));
+  for (const k of ENV_KEYS) delete process.env[k];
+  Object.assign(process.env, { OPENAI_API_KEY: 'sk-test', GROQ_API_KEY: 'gsk-test' }, env);
+  const calls: Call[] = [];
+  globalThis.fetch = (async (url: string, init: { body: string; signal?: AbortSignal }) => {
+    const call = { url, body: JSON.parse(init.body) };
+    calls.push(call);
+    return reply(call, calls.length, init.signal);
+  }) as typeof fetch;
+  try {
+    return { result: await fn(), calls };
+  } catch (err) {
+    return { error: err as { message: string; status?: number }, calls };
+  } finally {
+    globalThis.fetch = realFetch;
+    for (const k of ENV_KEYS) {
+      if (realEnv[k] === undefined) delete process.env[k];
+      else process.env[k] = realEnv[k];
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  // Provider selection
+  const route = { endpoint: 'star-segments', provider: 'groq', tier: 'smart' };
+  const asWritten = await withStub({}, () => completion('ok'), async () => resolveRoute(route));
+  check('without settings a request goes where the handler says', asWritten.result?.provider === 'groq' && asWritten.result.model === 'llama-3.3-70b-versatile', asWritten.result);
+  const global = await withStub({ LLM_PROVIDER: 'openai' }, () => completion('ok'), async () => resolveRoute(route));
+  check('LLM_PROVIDER moves every endpoint, with that provider\'s model', global.result?.provider === 'openai' && global.result.model === 'gpt-4o-mini', global.result);
+  const perEndpoint = await withStub({ LLM_PROVIDER: 'openai', LLM_PROVIDER_STAR_SEGMENTS: 'local', LLM_BASE_URL: 'http://127.0.0.1:8080/v1/', LLM_MODEL: 'qwen2.5' }, () => completion('ok'), async () => resolveRoute(route));
+  check('a per-endpoint setting wins, and points at the local server', perEndpoint.result?.provider === 'local' && perEndpoint.result.url === 'http://127.0.0.1:8080/v1/chat/completions' && perEndpoint.result.model === 'qwen2.5', perEndpoint.result);
+  const pinned = await withStub({ LLM_PROVIDER: 'local' }, () => completion('ok'), async () => resolveRoute({ endpoint: 'feedback', provider: 'groq', model: 'llama-3.3-70b-versatile', pinProvider: true }));
+  check('a pinned provider ignores the settings', pinned.result?.provider === 'groq', pinned.result);
+  const exact = await withStub({ LLM_PROVIDER: 'groq' }, () => completion('ok'), async () => resolveRoute({ endpoint: 'feedback', provider: 'openai', model: 'gpt-4o' }));
+  check('an exact model is dropped when the request moves provider', exact.result?.model === 'llama-3.3-70b-versatile', exact.result);
+  const keys = await withStub({ LLM_PROVIDER: 'local' }, () => completion('ok'), async () => {
+    delete process.env.GROQ_API_KEY;
+    return [missingApiKey(route), missingApiKey({ ...route, pinProvider: true })];
+  });
+  check('a local server needs no key; a missing one is named', keys.result?.[0] === null && keys.result[1] === 'GROQ_API_KEY', keys.result);
+
+  // Calls, retries and timeouts
+  const plain = await withStub({}, () => completion('  Tell me about a launch.  '), () => chat({ ...route, messages: [{ role: 'user', content: 'hi' }], maxTokens: 50 }));
+  check('chat resolves to the trimmed reply', plain.result?.text === 'Tell me about a launch.', plain.result);
+  check('the request goes to the provider\'s endpoint', plain.calls[0]?.url === 'https://api.groq.com/openai/v1/chat/completions' && plain.calls[0].body.max_tokens === 50, plain.calls[0]);
+  check('token usage comes back with the reply', plain.result?.usage.totalTokens === 15, plain.result?.usage);
+  const limited = await withStub({}, (_call, n) => (n === 1 ? new Response('slow down', { status: 429 }) : completion('second try')), () => chat({ ...route, messages: [] }));
+  check('a rate limit is retried', limited.result?.text === 'second try' && limited.calls.length === 2, limited);
+  const rejected = await withStub({}, () => new Response('bad request', { status: 400 }), () => chat({ ...route, messages: [] }));
+  check('a client error is not retried', rejected.calls.length === 1 && rejected.error?.status === 400 && rejected.error.message === 'Groq API error', rejected.error);
+  const hung = await withStub(
+    {},
+    (_call, _n, signal) => new Promise<Response>((_resolve, reject) => signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })))),
+    () => chat({ ...route, messages: [], timeoutMs: 20, retries: 0 }),
+  );
+  check('a timeout rejects with 504', hung.error?.status === 504 && hung.error.message === 'Groq request timed out', hung.error);
+
+  // JSON
+  check('code fences and chatter around JSON are cleaned up', parseJsonText('Sure!\n```json\n{"verdict": "done"}\n```').verdict === 'done');
+  check('a matching value has no schema problems', validateSchema({ verdict: 'done', reasons: ['short'] }, VERDICT).length === 0);
+  const problems: string[] = validateSchema({ reasons: [3] }, VERDICT);
+  check('missing fields and wrong types are reported by path', problems.includes('$.verdict: missing') && problems.includes('$.reasons[0]: expected string, got number'), problems);
+  const format = { name: 'verdict', schema: VERDICT };
+  const fixed = await withStub({}, (_call, n) => completion(n === 1 ? '{"verdict": "maybe"}' : '{"verdict": "done"}'), () => chatJson({ ...route, format, messages: [] }));
+  check('a reply that misses the schema is retried', fixed.result?.data.verdict === 'done' && fixed.calls.length === 2, fixed);
+  check('JSON mode with the schema in the prompt where there are no structured outputs', (fixed.calls[0]?.body.response_format as { type: string }).type === 'json_object' && JSON.stringify(fixed.calls[0].body.messages).includes('matching this JSON schema'), fixed.calls[0]?.body);
+  const broken = await withStub({}, () => completion('not json'), () => chatJson({ ...route, format, messages: [] }));
+  check('JSON that never parses rejects with 502', broken.error?.status === 502 && broken.error.message === 'AI returned invalid JSON', broken.error);
+  const strict = await withStub({ LLM_PROVIDER: 'openai' }, () => completion('{"verdict": "talking"}'), () => chatJson({ ...route, format, messages: [] }));
+  check('OpenAI gets strict structured outputs', (strict.calls[0]?.body.response_format as { type: string }).type === 'json_schema' && strict.result?.data.verdict === 'talking', strict.calls[0]?.body.response_format);
+
+  // Streaming
+  const deltas: string[] = [];
+  const stream = await withStub({ LLM_PROVIDER: 'openai' }, () => streamed(['{"verdict"', ': "done"}']), () => streamChat({ ...route, format, messages: [] }, (d: string) => deltas.push(d)));
+  check('streamed text arrives delta by delta', deltas.join('|') === '{"verdict"|: "done"}' && stream.result?.text === '{"verdict": "done"}', { deltas, result: stream.result });
+  check('streamed usage is counted', stream.result?.usage.completionTokens === 7 && stream.calls[0]?.body.stream === true, stream.result?.usage);
+  const groqDeltas: string[] = [];
+  const groqJson = await withStub({}, () => completion('{"verdict": "done"}'), () => streamChat({ ...route, format, messages: [] }, (d: string) => groqDeltas.push(d)));
+  check('JSON from a provider that can\'t stream it comes as one delta', groqDeltas.length === 1 && groqJson.calls[0]?.body.stream === undefined, groqDeltas);
+
+  const totals: { endpoint: string; calls: number; promptTokens: number }[] = usageTotals();
+  const segments = totals.filter((t) => t.endpoint === 'star-segments').reduce((sum, t) => sum + t.calls, 0);
+  check('usage totals count every successful call per endpoint', segments === 6, totals);
+}
+
+run('LLM gateway test', main);
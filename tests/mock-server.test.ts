@@ -0,0 +1,165 @@
+/**
+ * Mock Server Test
+ *
+ * Runs mock/server.js on a free port with the default fixtures and drives
+ * it the way `npm run dev:mock` does: the real api/ handlers calling the
+ * mock chat completions through the gateway, streamed feedback, the
+ * responses API, TTS and Deepgram tokens through their proxies, and the
+ * Deepgram socket. No network.
+ *
+ * Usage:
+ *   npx tsx tests/mock-server.test.ts
+ */
+
+import { request as httpRequest } from 'node:http';
+import type { AddressInfo } from 'node:net';
+// @ts-expect-error — plain-JS mock server, no type declarations
+import { createMockServer, loadFixtures, sampleFromSchema } from '../mock/server.js';
+import { chatJson } from '../api/_lib/llm';
+import { readEventStream, type StreamEvent } from '../src/utils/eventStream';
+import { check, run } from './harness';
+
+const ENV_KEYS = ['OPENAI_API_KEY', 'GROQ_API_KEY', 'OPENAI_BASE_URL', 'GROQ_BASE_URL', 'LLM_PROVIDER', 'DEEPGRAM_API_KEY', 'DEEPGRAM_BASE_URL'];
+
+async function post(origin: string, path: string, body: unknown): Promise<Response> {
+  return fetch(`${origin}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+}
+
+interface DeepgramMessage {
+  type: string;
+  is_final?: boolean;
+  channel?: { alternatives: { transcript: string }[] };
+}
+
+/** Opens a WebSocket by hand (Node 20 has no client), sends one masked audio frame and collects text frames for `ms`. */
+function listen(port: number, ms: number): Promise<{ protocol?: string; messages: DeepgramMessage[] }> {
+  return new Promise((resolve, reject) => {
+    const req = httpRequest({
+      port,
+      path: '/v1/listen?model=nova-2',
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Version': '13',
+        'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==',
+        'Sec-WebSocket-Protocol': 'bearer, mock-deepgram-token',
+      },
+    });
+    req.on('error', reject);
+    req.on('upgrade', (res, socket) => {
+      const messages: DeepgramMessage[] = [];
+      let buffer = Buffer.alloc(0);
+      socket.on('data', (data: Buffer) => {
+        buffer = Buffer.concat([buffer, data]);
+        while (buffer.length >= 2) {
+          let length = buffer[1] & 0x7f;
+          let offset = 2;
+          if (length === 126) {
+            if (buffer.length < 4) break;
+            length = buffer.readUInt16BE(2);
+            offset = 4;
+          }
+          if (buffer.length < offset + length) break;
+          if ((buffer[0] & 0x0f) === 0x1) messages.push(JSON.parse(buffer.subarray(offset, offset + length).toString()));
+          buffer = buffer.subarray(offset + length);
+        }
+      });
+      // Binary frame, masked with a zero key, carrying four bytes of "audio"
+      socket.write(Buffer.from([0x82, 0x84, 0, 0, 0, 0, 1, 2, 3, 4]));
+      setTimeout(() => {
+        socket.destroy();
+        resolve({ protocol: res.headers['sec-websocket-protocol'], messages });
+      }, ms);
+    });
+    req.end();
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  const fixtures = await loadFixtures();
+  const server = createMockServer(fixtures);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  const origin = `http://localhost:${port}`;
+  const realEnv = Object.fromEntries(ENV_KEYS.map((k) => [k, process.env[k]]));
+  delete process.env.LLM_PROVIDER;
+  Object.assign(process.env, {
+    OPENAI_API_KEY: 'mock',
+    GROQ_API_KEY: 'mock',
+    OPENAI_BASE_URL: `${origin}/v1`,
+    GROQ_BASE_URL: `${origin}/openai/v1`,
+    DEEPGRAM_API_KEY: 'mock',
+    DEEPGRAM_BASE_URL: origin,
+  });
+
+  try {
+    // Schema-built defaults
+    const sample = sampleFromSchema({
+      type: 'object',
+      properties: { verdict: { type: 'string', enum: ['done', 'talking'] }, items: { type: 'array', items: { type: 'number' }, minItems: 3, maxItems: 3 } },
+    });
+    check('a schema-built value takes the first enum and the minimum items', sample.verdict === 'done' && sample.items.length === 3, sample);
+    const unscripted = await chatJson({
+      endpoint: 'not-scripted',
+      provider: 'openai',
+      format: { name: 'verdict', schema: { type: 'object', properties: { verdict: { type: 'string', enum: ['done'] } }, required: ['verdict'], additionalProperties: false } },
+      messages: [{ role: 'user', content: 'hi' }],
+    });
+    check('an endpoint without a fixture still gets schema-valid JSON', unscripted.data.verdict === 'done', unscripted);
+
+    // Handlers through the gateway
+    const question = await (await post(origin, '/api/question', { role: 'swe_intern', difficulty: 'easy' })).json();
+    check('/api/question answers with a scripted question', typeof question.question === 'string' && question.question.startsWith('Tell me about'), question);
+    const pause = await (await post(origin, '/api/pause', { transcript: 'And that is how we shipped it.' })).json();
+    check('/api/pause answers from its fixture (Groq route)', pause.verdict === 'definitely_done', pause);
+    const missing = await post(origin, '/api/nope', {});
+    check('an unknown handler is a 404', missing.status === 404);
+
+    const answers = [fixtures.transcripts[0], fixtures.transcripts[1]];
+    const feedback = await (await post(origin, '/api/feedback', { questions: ['Q1', 'Q2'], answers })).json();
+    check('/api/feedback grades every answer', feedback.questions?.length === 2, feedback);
+    check('feedback quotes line up with the answers', feedback.questions?.[0]?.best_part_span?.start === 0, feedback.questions?.[0]);
+
+    const streamed = await post(origin, '/api/feedback', { questions: ['Q1', 'Q2'], answers, stream: true });
+    const events: StreamEvent[] = [];
+    if (streamed.body) await readEventStream(streamed.body, (e) => events.push(e));
+    check('streamed feedback sends each question, then done', events.map((e) => e.event).join() === 'question,question,done', events.map((e) => e.event));
+
+    // Responses API
+    const response = await (await post(origin, '/v1/responses', { model: 'gpt-4o-mini', input: 'Say something.' })).json();
+    check('the responses API answers with output_text', response.object === 'response' && typeof response.output_text === 'string' && response.output[0]?.content[0]?.text === response.output_text, response);
+    const responseEvents: StreamEvent[] = [];
+    const responseStream = await post(origin, '/v1/responses', { model: 'gpt-4o-mini', input: 'Say something.', stream: true });
+    if (responseStream.body) await readEventStream(responseStream.body, (e) => responseEvents.push(e));
+    check('streamed responses end with response.completed', responseEvents.at(-1)?.event === 'response.completed' && responseEvents.some((e) => e.event === 'response.output_text.delta'), responseEvents.map((e) => e.event));
+
+    // TTS and Deepgram tokens
+    const speech = await post(origin, '/api/tts', { text: 'Tell me about yourself.', voice: 'marin' });
+    const audio = Buffer.from(await speech.arrayBuffer());
+    check('/api/tts passes the synthesized audio through', speech.headers.get('content-type') === 'audio/wav' && audio.subarray(0, 4).toString() === 'RIFF' && audio.length > 44);
+    const silent = await post(origin, '/api/tts', { text: '  ' });
+    check('/api/tts rejects empty text', silent.status === 400);
+    const grant = await (await post(origin, '/api/deepgram-token', {})).json();
+    check('/api/deepgram-token hands out a short-lived token', grant.token === 'mock-deepgram-token' && grant.expiresIn === 30, grant);
+
+    // Deepgram
+    const socket = await listen(port, 1500);
+    check('the Deepgram socket echoes the bearer subprotocol', socket.protocol === 'bearer', socket.protocol);
+    const first = socket.messages[0];
+    const second = socket.messages[1];
+    check('the transcript arrives as an interim, then a final', first?.is_final === false && second?.is_final === true, socket.messages);
+    check('finals read out the fixture transcript', fixtures.transcripts[0].startsWith(second?.channel?.alternatives[0].transcript ?? '-'), second);
+  } finally {
+    server.close();
+    for (const k of ENV_KEYS) {
+      if (realEnv[k] === undefined) delete process.env[k];
+      else process.env[k] = realEnv[k];
+    }
+  }
+
+}
+
+run('Mock server test', main);
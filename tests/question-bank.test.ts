@@ -0,0 +1,68 @@
+/**
+ * Question Bank Test
+ *
+ * Exercises the question-bank filtering and selection rules against the
+ * in-memory adapter, so it runs without a Supabase project or network.
+ *
+ * Usage:
+ *   npx tsx tests/question-bank.test.ts
+ */
+
+import {
+  createInMemoryQuestionBank,
+  normalizeCategory,
+  rowToQuestion,
+  shuffle,
+  type QuestionBankRow,
+} from '../src/services/questionBank';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures (a subset of the seed in supabase/schema.sql)
+// ---------------------------------------------------------------------------
+const ROWS: QuestionBankRow[] = [
+  { id: 'swe-medium-teamwork-1', text: 'Teamwork question', role: 'swe_intern', difficulty: 'medium', category: 'teamwork' },
+  { id: 'swe-medium-leadership-1', text: 'Leadership question', role: 'swe_intern', difficulty: 'medium', category: 'leadership' },
+  { id: 'swe-medium-conflict-1', text: 'Conflict question', role: 'swe_intern', difficulty: 'medium', category: 'conflict' },
+  { id: 'swe-hard-conflict-1', text: 'Hard conflict question', role: 'swe_intern', difficulty: 'hard', category: 'conflict' },
+  { id: 'pm-medium-conflict-1', text: 'PM conflict question', role: 'pm_intern', difficulty: 'medium', category: 'conflict' },
+  { id: 'swe-medium-uncategorized', text: 'Uncategorized question', role: 'swe_intern', difficulty: 'medium', category: null },
+];
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  const bank = createInMemoryQuestionBank(ROWS);
+
+  const any = await bank.fetchQuestions({ role: 'swe_intern', difficulty: 'medium' });
+  check('no category returns every role/difficulty match', any.length === 4, any.map(r => r.id));
+
+  const random = await bank.fetchQuestions({ role: 'swe_intern', difficulty: 'medium', category: 'random' });
+  check("'random' category does not filter", random.length === 4, random.map(r => r.id));
+
+  const conflict = await bank.fetchQuestions({ role: 'swe_intern', difficulty: 'medium', category: 'conflict' });
+  check(
+    'category narrows to that competency only',
+    conflict.length === 1 && conflict[0].id === 'swe-medium-conflict-1',
+    conflict.map(r => r.id),
+  );
+
+  const hardFailure = await bank.fetchQuestions({ role: 'swe_intern', difficulty: 'hard', category: 'failure' });
+  check('no matches yields an empty list (loader tops up with AI)', hardFailure.length === 0);
+
+  const pm = await bank.fetchQuestions({ role: 'pm_intern', difficulty: 'medium' });
+  check('role filter excludes other roles', pm.every(r => r.role === 'pm_intern') && pm.length === 1);
+
+  check('normalizeCategory drops random', normalizeCategory('random') === undefined);
+  check('normalizeCategory keeps real ids', normalizeCategory('teamwork') === 'teamwork');
+
+  const q = rowToQuestion(ROWS[5]);
+  check('rowToQuestion prefixes id and defaults category', q.id === 'bank-swe-medium-uncategorized' && q.category === 'behavioral', q);
+
+  const shuffled = shuffle([1, 2, 3, 4, 5], () => 0);
+  check('shuffle keeps every element', [...shuffled].sort().join(',') === '1,2,3,4,5', shuffled);
+  check('shuffle does not mutate its input', (() => { const input = [1, 2, 3]; shuffle(input, () => 0); return input.join(',') === '1,2,3'; })());
+}
+
+run('Question bank test', main);
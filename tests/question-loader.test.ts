@@ -0,0 +1,96 @@
+/**
+ * Question Loader Test
+ *
+ * Checks how loadQuestions mixes curated bank questions with AI-generated
+ * ones: a bank that comes up short is topped up with generated questions, and
+ * a bank that fails is skipped so every question is generated. The bank is
+ * the in-memory adapter and /api/question is a stubbed fetch — no network.
+ *
+ * Usage:
+ *   npx tsx tests/question-loader.test.ts
+ */
+
+import { createInMemoryQuestionBank, type QuestionBank, type QuestionBankRow } from '../src/services/questionBank';
+import { loadQuestions, setQuestionBank } from '../src/services/questionLoader';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const ROWS: QuestionBankRow[] = [
+  { id: 'swe-medium-teamwork-1', text: 'Describe a project where you depended on a teammate to ship.', role: 'swe_intern', difficulty: 'medium', category: 'teamwork' },
+  { id: 'swe-medium-conflict-1', text: 'Walk me through a disagreement over a code review.', role: 'swe_intern', difficulty: 'medium', category: 'conflict' },
+];
+
+/** Distinct enough from each other and from ROWS that the similarity guard never regenerates. */
+const GENERATED = [
+  'What motivated you to learn your favourite programming language?',
+  'How would you prioritise three urgent bugs reported on launch day?',
+  'Recount a deadline you missed and what changed afterwards.',
+];
+
+const failingBank: QuestionBank = {
+  fetchQuestions: async () => {
+    throw new Error('Question bank query failed: connection refused');
+  },
+};
+
+/** Stubs /api/question with GENERATED in order; returns the request bodies it saw. */
+function stubQuestionApi(): Array<Record<string, unknown>> {
+  const requests: Array<Record<string, unknown>> = [];
+  globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    if (String(input) !== '/api/question') throw new Error(`unexpected fetch: ${String(input)}`);
+    const body = JSON.parse(String(init?.body)) as Record<string, unknown>;
+    requests.push(body);
+    const question = GENERATED[requests.length - 1] ?? `Spare question ${requests.length}?`;
+    return new Response(JSON.stringify({ question, category: 'problem_solving' }));
+  }) as typeof fetch;
+  return requests;
+}
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  const realFetch = globalThis.fetch;
+  try {
+    // A short bank result is topped up with AI questions
+    setQuestionBank(createInMemoryQuestionBank(ROWS));
+    let requests = stubQuestionApi();
+    const topped = await loadQuestions({ role: 'swe_intern', difficulty: 'medium', count: 4 });
+    check('a short bank still yields the full count', topped.length === 4, topped.map((q) => q.id));
+    check('bank questions come first', topped.slice(0, 2).every((q) => q.id.startsWith('bank-')), topped.map((q) => q.id));
+    check('the remainder is generated', topped.slice(2).every((q) => q.id.startsWith('ai-')) && requests.length === 2, requests.length);
+    check('generated questions continue the numbering', requests.map((r) => r.questionNumber).join() === '3,4', requests);
+    const bankTexts = ROWS.map((r) => r.text).sort().join('|');
+    check(
+      'generation is told about the bank questions',
+      [...(requests[0].previousQuestions as string[])].sort().join('|') === bankTexts,
+      requests[0].previousQuestions,
+    );
+    check('generated questions keep the session role and difficulty', topped.slice(2).every((q) => q.role === 'swe_intern' && q.difficulty === 'medium'));
+
+    // A bank that already covers the count needs no generation
+    requests = stubQuestionApi();
+    const banked = await loadQuestions({ role: 'swe_intern', difficulty: 'medium', count: 2 });
+    check('a full bank result is not topped up', banked.length === 2 && requests.length === 0, requests.length);
+
+    // A bank error falls back to AI for every question
+    setQuestionBank(failingBank);
+    requests = stubQuestionApi();
+    const fallback = await loadQuestions({ role: 'swe_intern', difficulty: 'medium', count: 3 });
+    check('a failing bank falls back to generation', fallback.length === 3 && fallback.every((q) => q.id.startsWith('ai-')), fallback.map((q) => q.id));
+    check('every question is generated in order', requests.map((r) => r.questionNumber).join() === '1,2,3', requests);
+    check('fallback questions are the generated texts', fallback.map((q) => q.text).join('|') === GENERATED.join('|'));
+
+    // Custom roles skip the bank entirely
+    setQuestionBank(failingBank);
+    requests = stubQuestionApi();
+    const custom = await loadQuestions({ role: 'custom', customRole: 'Robotics intern', difficulty: 'medium', count: 1 });
+    check('custom roles never read the bank', custom.length === 1 && requests[0]?.customRole === 'Robotics intern', requests);
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+}
+
+run('Question loader test', main);
@@ -0,0 +1,98 @@
+/**
+ * Quote Alignment Test
+ *
+ * Checks how /api/feedback aligns the model's best/worst quotes to the answer
+ * (verbatim, snapped to the nearest sentences, or left for a re-ask), the
+ * re-ask round trip, and how the client turns an aligned span into a clip.
+ * No network.
+ *
+ * Usage:
+ *   npx tsx tests/quotes.test.ts
+ */
+
+import { alignQuestionQuotes, alignQuote, applyQuoteRepair, quoteRepairRequest, unalignedQuotes } from '../api/_lib/quotes';
+import { quoteTimeRange, spanTimeRange } from '../src/utils/quoteTimestamps';
+import type { TimestampedWord } from '../src/types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const ANSWER =
+  'So our demo was two weeks out. I owned the payments service. ' +
+  'I wrote tests around checkout first, then split the migration into three flags. ' +
+  'We shipped on time with zero failed payments.';
+
+/** One timestamped word per transcript word, half a second each. */
+const WORDS: TimestampedWord[] = ANSWER.split(/\s+/).map((word, i) => ({ word, start: i * 0.5, end: i * 0.5 + 0.4 }));
+
+// ---------------------------------------------------------------------------
+// Tiny assertion helpers
+// ---------------------------------------------------------------------------
+const failures: string[] = [];
+
+function check(name: string, condition: boolean, detail?: unknown) {
+  if (condition) {
+    console.log(`  PASS  ${name}`);
+  } else {
+    console.log(`  FAIL  ${name}`);
+    failures.push(detail === undefined ? name : `${name}: ${JSON.stringify(detail)}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  console.log('Quote alignment test');
+  console.log('====================');
+
+  // Alignment
+  const exact = alignQuote('I owned the payments service.', ANSWER);
+  check('an exact quote keeps its text and gets offsets', exact && !exact.snapped && ANSWER.slice(exact.start, exact.end) === 'I owned the payments service.', exact);
+  const quoted = alignQuote('"i owned the payments service."', ANSWER);
+  check('case and surrounding quote marks are ignored', quoted?.text === 'I owned the payments service.', quoted);
+  const paraphrase = alignQuote('I wrote tests for checkout first and then split the migration up into flags', ANSWER);
+  check('a close paraphrase snaps to the real sentence', paraphrase?.snapped === true && paraphrase.text.startsWith('I wrote tests around checkout'), paraphrase);
+  const merged = alignQuote('I owned the payments service and I wrote tests around checkout first', ANSWER);
+  check('a quote spanning two sentences snaps to both', merged?.text.startsWith('I owned') && merged.text.endsWith('three flags.'), merged);
+  check('an invented quote does not align', alignQuote('Our team celebrated with pizza afterwards', ANSWER) === null);
+  check('an empty quote does not align', alignQuote('', ANSWER) === null);
+
+  const question = alignQuestionQuotes(
+    { best_part_quote: 'We shipped on time with zero failed payments', worst_part_quote: 'We had a pizza party' },
+    ANSWER,
+  );
+  check('aligned quotes get a span', question.best_part_span && ANSWER.slice(question.best_part_span.start, question.best_part_span.end) === question.best_part_quote, question);
+  check('unaligned quotes are left as written, without a span', question.worst_part_quote === 'We had a pizza party' && !question.worst_part_span, question);
+
+  // Re-ask
+  const feedback = { questions: [question] };
+  const pending = unalignedQuotes(feedback);
+  check('unaligned quotes are listed for a re-ask', pending.length === 1 && pending[0].field === 'worst', pending);
+  const request = quoteRepairRequest(pending, [ANSWER]);
+  check('the re-ask numbers the answer\'s sentences', request.input.includes('2. I owned the payments service.') && request.format.strict === true, request.input);
+  const repaired = applyQuoteRepair(feedback, pending, [ANSWER], { choices: [{ item: 1, sentence: 1 }, { item: 9, sentence: 1 }] });
+  check('the picked sentence replaces the quote', repaired === 1 && question.worst_part_quote === 'So our demo was two weeks out.' && question.worst_part_span?.start === 0, question);
+  check('"none fit" leaves the quote alone', applyQuoteRepair({ questions: [{ best_part_quote: 'x' }] }, [{ question: 0, field: 'best', quote: 'x' }], [ANSWER], { choices: [{ item: 1, sentence: 0 }] }) === 0);
+
+  // Client clips
+  const span = alignQuote('I owned the payments service.', ANSWER);
+  const clip = spanTimeRange(ANSWER, span, WORDS);
+  check('a span maps to its words\' timestamps', clip?.start === 3.5 && clip.end === 5.9, clip);
+  check('spans win over fuzzy matching', JSON.stringify(quoteTimeRange('something else entirely', WORDS, ANSWER, span)) === JSON.stringify(clip));
+  check('without a span the fuzzy match is used', quoteTimeRange('I owned the payments service.', WORDS)?.start === 3.5);
+  check('timestamps that do not line up give no span clip', spanTimeRange(ANSWER, span, WORDS.slice(0, 5)) === null);
+
+  console.log();
+  if (failures.length > 0) {
+    console.log(`RESULT: FAIL — ${failures.length} check(s) failed:`);
+    for (const f of failures) console.log(`  ${f}`);
+    process.exit(1);
+  }
+  console.log('RESULT: PASS');
+}
+
+main().catch((err) => {
+  console.error('Unhandled error:', err);
+  process.exit(1);
+});
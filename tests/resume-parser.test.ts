@@ -0,0 +1,82 @@
+/**
+ * Resume Parser Test
+ *
+ * Feeds sample resume text (line-broken like a TXT upload, and run together
+ * like older PDF extraction) through the heuristic parser and checks the
+ * sections and entries it finds.
+ *
+ * Usage:
+ *   npx tsx tests/resume-parser.test.ts
+ */
+
+import { isResumeEmpty, parseResume } from '../src/utils/resumeParser';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const TXT_RESUME = `Jordan Lee
+jordan.lee@example.edu | (555) 123-4567 | github.com/jlee
+
+EDUCATION
+University of Washington
+B.S. Computer Science, GPA 3.8 | Sep 2022 – Jun 2026
+
+EXPERIENCE
+Software Engineering Intern | Acme Corp | Jun 2025 – Sep 2025
+• Built a caching layer that cut p95 latency by 40%
+• Migrated nightly batch jobs to an event-driven pipeline
+  processing 2M events per day
+Teaching Assistant
+CSE 143, University of Washington | Jan 2024 – Present
+- Led weekly sections of 25 students
+
+PROJECTS
+StudySync — React, Firebase
+• Real-time study group scheduler used by 300 students
+Trail Finder | Python, Flask | 2024
+• Recommends hikes from weather and difficulty preferences
+
+SKILLS
+Languages: Python, TypeScript, Java, SQL
+Tools: React, Docker, Git, python
+`;
+
+const PDF_RESUME =
+  'Sam Rivera sam@example.com EXPERIENCE Product Intern | Globex | Summer 2025 • Ran 12 customer interviews to scope a billing redesign • Wrote the PRD adopted by two teams PROJECTS Budget Buddy | Swift • Personal finance app with 1k downloads SKILLS Figma, SQL, Amplitude';
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  const txt = parseResume(TXT_RESUME);
+  check('name comes from the first line', txt.name === 'Jordan Lee', txt.name);
+
+  check('two experience entries', txt.experience.length === 2, txt.experience);
+  const [intern, ta] = txt.experience;
+  check('title is split from organization', intern?.title === 'Software Engineering Intern' && intern?.subtitle === 'Acme Corp', intern);
+  check('date range is pulled out of the header', intern?.dates === 'Jun 2025 – Sep 2025', intern?.dates);
+  check('bullets are collected', intern?.bullets.length === 2, intern?.bullets);
+  check('wrapped bullet lines are joined', intern?.bullets[1]?.endsWith('processing 2M events per day'), intern?.bullets[1]);
+  check('second header line becomes the subtitle', ta?.subtitle === 'CSE 143, University of Washington' && ta?.dates === 'Jan 2024 – Present', ta);
+
+  check('two projects', txt.projects.map(p => p.title).join(',') === 'StudySync,Trail Finder', txt.projects.map(p => p.title));
+  check('project tech stack is the subtitle', txt.projects[0]?.subtitle === 'React, Firebase', txt.projects[0]);
+
+  check('education entry', txt.education.length === 1 && txt.education[0].title === 'University of Washington', txt.education);
+  check(
+    'skills drop their labels and duplicates',
+    txt.skills.join(',') === 'Python,TypeScript,Java,SQL,React,Docker,Git',
+    txt.skills,
+  );
+
+  const pdf = parseResume(PDF_RESUME);
+  check('inline headings are found in run-together PDF text', pdf.experience.length === 1 && pdf.projects.length === 1, pdf);
+  check('inline bullets are split', pdf.experience[0]?.bullets.length === 2, pdf.experience[0]?.bullets);
+  check('seasonal dates are recognized', pdf.experience[0]?.dates === 'Summer 2025', pdf.experience[0]);
+  check('inline skills', pdf.skills.join(',') === 'Figma,SQL,Amplitude', pdf.skills);
+
+  check('text without headings parses as empty', isResumeEmpty(parseResume('Just a paragraph about me.')));
+}
+
+run('Resume parser test', main);
@@ -0,0 +1,108 @@
+/**
+ * Roles Test
+ *
+ * Checks the role registry in api/_lib/roles.ts — resolving a request's role
+ * (and custom description) to a profile, and the role-weighted overall score —
+ * and that the resume and job-description question routes ground their prompt
+ * in the requested role. The model calls are stubbed — no network.
+ *
+ * Usage:
+ *   npx tsx tests/roles.test.ts
+ */
+
+import { MAX_CUSTOM_ROLE_LENGTH } from '../shared/contract';
+import { DEFAULT_ROLE, ROLES, resolveRole, roleInstruction, weightedScore } from '../api/_lib/roles';
+import jobDescQuestionHandler from '../api/jobdesc-question';
+import resumeQuestionHandler from '../api/resume-question';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const KEYS = ['response_organization', 'technical_knowledge', 'problem_solving'];
+const JOB_DESCRIPTION = 'Product management intern on the payments team. You will prioritize the roadmap with engineering and design.';
+
+/** Runs `route` with a stubbed model; resolves to the messages it sent (joined) and its status. */
+async function promptFor(route: (req: unknown, res: unknown) => Promise<unknown>, body: unknown): Promise<{ status: number; prompt: string }> {
+  const realFetch = globalThis.fetch;
+  const realKey = process.env.GROQ_API_KEY;
+  process.env.GROQ_API_KEY = 'test-key';
+  let prompt = '';
+  globalThis.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+    prompt = (JSON.parse(String(init?.body)).messages as { content: string }[]).map((m) => m.content).join('\n');
+    const content = JSON.stringify({ question: 'Tell me about a roadmap trade-off.', type: 'behavioral', focus: 'prioritization' });
+    return new Response(JSON.stringify({ choices: [{ message: { content } }], usage: { prompt_tokens: 10, completion_tokens: 5 } }));
+  }) as typeof fetch;
+  let status = 0;
+  const res = {
+    setHeader: () => {},
+    status(code: number) { status = code; return this; },
+    json: () => {},
+    end: () => {},
+  };
+  try {
+    await route({ method: 'POST', body, headers: {} }, res);
+  } finally {
+    globalThis.fetch = realFetch;
+    if (realKey === undefined) delete process.env.GROQ_API_KEY;
+    else process.env.GROQ_API_KEY = realKey;
+  }
+  return { status, prompt };
+}
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  // resolveRole
+  const pm = resolveRole('pm_intern', undefined);
+  check('a preset id resolves to its profile', pm.id === 'pm_intern' && pm.label === ROLES.pm_intern.label);
+  check('a preset ignores a custom description', resolveRole('ml_intern', 'Robotics intern').id === 'ml_intern');
+  check('an unknown id falls back to the default role', resolveRole('astronaut', undefined).id === DEFAULT_ROLE);
+  check('a missing role falls back to the default role', resolveRole(undefined, undefined).id === DEFAULT_ROLE);
+  check('inherited object keys are not roles', resolveRole('toString', undefined).id === DEFAULT_ROLE);
+
+  const custom = resolveRole('custom', '  Robotics intern  ');
+  check('a custom role takes its trimmed description as the label', custom.id === 'custom' && custom.label === 'Robotics intern', custom.label);
+  check('a custom role grounds questions in its description', custom.questionFocus.includes('"Robotics intern"'));
+  check('a custom role weighs every category equally', Object.values(custom.weights).every((w) => w === 1));
+  check('a custom role without a description falls back', resolveRole('custom', '   ').id === DEFAULT_ROLE);
+  check('a custom description that is not a string falls back', resolveRole('custom', 42).id === DEFAULT_ROLE);
+  check('a long custom description is capped', resolveRole('custom', 'x'.repeat(MAX_CUSTOM_ROLE_LENGTH + 50)).label.length === MAX_CUSTOM_ROLE_LENGTH);
+  check('roleInstruction carries the role focus', roleInstruction(pm) === `\n\nROLE FOCUS: ${ROLES.pm_intern.questionFocus}`);
+
+  // weightedScore
+  const scores = { response_organization: 60, technical_knowledge: 90, problem_solving: 30 };
+  check('equal weights give the plain mean', weightedScore(scores, KEYS, { response_organization: 1, technical_knowledge: 1, problem_solving: 1 }) === 60);
+  check(
+    'a heavier category pulls the score toward it',
+    weightedScore(scores, KEYS, { response_organization: 1, technical_knowledge: 2, problem_solving: 1 }) === 67.5,
+    weightedScore(scores, KEYS, { response_organization: 1, technical_knowledge: 2, problem_solving: 1 }),
+  );
+  check('a category without a weight counts once', weightedScore(scores, KEYS, { technical_knowledge: 3 }) === (60 + 270 + 30) / 5);
+  check('a missing score counts as 0', weightedScore({ response_organization: 80 }, KEYS, {}) === 80 / 3);
+  check('numeric strings are read as numbers', weightedScore({ response_organization: '50', technical_knowledge: 70, problem_solving: 90 }, KEYS, {}) === 70);
+  check('no categories score 0', weightedScore(scores, [], {}) === 0);
+  check('zero total weight scores 0', weightedScore(scores, KEYS, { response_organization: 0, technical_knowledge: 0, problem_solving: 0 }) === 0);
+
+  const swe = resolveRole('swe_intern', undefined);
+  const pmScore = weightedScore(scores, KEYS, pm.weights);
+  const sweScore = weightedScore(scores, KEYS, swe.weights);
+  check('roles weigh the same answer differently', sweScore > pmScore, { swe: sweScore, pm: pmScore });
+
+  // Tailored question routes
+  for (const [name, route] of [['resume', resumeQuestionHandler], ['job-description', jobDescQuestionHandler]] as const) {
+    const body = { jobDescription: JOB_DESCRIPTION, resumeText: 'Interned at a fintech startup.', questionNumber: 2 };
+    const asPm = await promptFor(route, { ...body, role: 'pm_intern' });
+    check(`the ${name} question is written for the requested role`, asPm.status === 200 && asPm.prompt.includes(`for a ${ROLES.pm_intern.label} position`), asPm.prompt.slice(0, 200));
+    check(`the ${name} question carries the role focus`, asPm.prompt.includes(roleInstruction(pm)));
+
+    const asCustom = await promptFor(route, { ...body, role: 'custom', customRole: 'Payments operations analyst' });
+    check(`the ${name} question takes a custom role`, asCustom.prompt.includes('for a Payments operations analyst position') && asCustom.prompt.includes('"Payments operations analyst"'));
+
+    const noRole = await promptFor(route, body);
+    check(`the ${name} question defaults to the default role`, noRole.prompt.includes(`for a ${ROLES[DEFAULT_ROLE].label} position`));
+  }
+}
+
+run('Roles test', main);
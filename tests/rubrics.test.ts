@@ -0,0 +1,78 @@
+/**
+ * Scoring Rubric Test
+ *
+ * Checks that every rubric in api/_lib/rubrics.ts is complete (a level
+ * descriptor per score band, anchors, unique keys), that the client's rubric
+ * list matches it, and that legacy saved feedback is migrated onto the
+ * general rubric's dimensions. No network.
+ *
+ * Usage:
+ *   npx tsx tests/rubrics.test.ts
+ */
+
+import { LEVEL_BANDS, RUBRICS, categoryWeights, resolveRubric, rubricInstruction, rubricSummary } from '../api/_lib/rubrics';
+import { GENERAL_DIMENSIONS, RUBRIC_OPTIONS, feedbackDimensions, migrateLegacyOverall } from '../src/config/rubrics';
+import type { FeedbackResponse, OverallFeedback } from '../src/types';
+import { check, run } from './harness';
+
+interface Category {
+  key: string;
+  label: string;
+  weight: number;
+  description: string;
+  levels: string[];
+  anchors: { score: number; example: string }[];
+}
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  check('client and server list the same rubrics', Object.keys(RUBRIC_OPTIONS).sort().join() === Object.keys(RUBRICS).sort().join(), {
+    client: Object.keys(RUBRIC_OPTIONS),
+    server: Object.keys(RUBRICS),
+  });
+
+  for (const [id, rubric] of Object.entries(RUBRICS) as [string, { categories: Category[] }][]) {
+    const keys = rubric.categories.map((c) => c.key);
+    check(`${id}: category keys are unique`, new Set(keys).size === keys.length, keys);
+    check(`${id}: every category has a level per band`, rubric.categories.every((c) => c.levels.length === LEVEL_BANDS.length));
+    check(`${id}: every category has a high and a low anchor`, rubric.categories.every((c) => c.anchors.some((a) => a.score >= 85) && c.anchors.some((a) => a.score < 50)));
+    check(`${id}: weights are positive`, rubric.categories.every((c) => c.weight > 0));
+
+    const prompt = rubricInstruction(resolveRubric(id));
+    check(`${id}: prompt describes every category`, keys.every((k) => prompt.includes(`${k} — `)));
+  }
+
+  check('general rubric matches the legacy dimensions', rubricSummary(resolveRubric('general')).dimensions.map((d: { key: string }) => d.key).join() === GENERAL_DIMENSIONS.map((d) => d.key).join());
+  check('unknown rubric falls back to general', resolveRubric('nope').id === 'general');
+
+  const generalWeights = categoryWeights(resolveRubric('general'), { technical_knowledge: 1.5 });
+  check('role weights adjust matching categories', generalWeights.technical_knowledge === 1.5 && generalWeights.timing === 1, generalWeights);
+  const starWeights = categoryWeights(resolveRubric('star'), { technical_knowledge: 1.5 });
+  check('role weights ignore other rubrics\' categories', !('technical_knowledge' in starWeights) && starWeights.action === 1.5, starWeights);
+
+  // Client side
+  const legacy = {
+    score: 72,
+    response_organization: 70,
+    technical_knowledge: 80,
+    problem_solving: 65,
+    position_application: 75,
+    timing: 60,
+    personability: 82,
+    what_went_well: 'a',
+    needs_improvement: 'b',
+    summary: 'c',
+  } as unknown as OverallFeedback;
+  const migrated = migrateLegacyOverall(legacy);
+  check('legacy overall moves categories under `categories`', migrated.categories.technical_knowledge === 80 && Object.keys(migrated.categories).length === 6, migrated);
+  check('legacy overall keeps its other fields', migrated.score === 72 && migrated.summary === 'c' && !('timing' in migrated), migrated);
+  check('migration leaves current feedback alone', migrateLegacyOverall(migrated) === migrated);
+
+  const star = rubricSummary(resolveRubric('star'));
+  check('dimensions come from the response rubric', feedbackDimensions({ rubric: star } as FeedbackResponse).map((d) => d.key).join() === 'situation,task,action,result,communication,pacing');
+  check('results without a rubric use the general dimensions', feedbackDimensions({} as FeedbackResponse) === GENERAL_DIMENSIONS);
+}
+
+run('Scoring rubric test', main);
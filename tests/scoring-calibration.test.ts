@@ -0,0 +1,357 @@
+/**
+ * Scoring Calibration Harness
+ *
+ * Replays a hand-labeled golden set of answers through the live /api/feedback
+ * prompt, schema and score weighting, and reports how far the model's scores
+ * drift from the labels, how well they preserve the labeled ranking, how
+ * much they vary between runs of the same answer, how many of the quoted
+ * best/worst parts align to the answer text, and whether an answer labeled at
+ * several difficulties scores lower as the level gets stricter.
+ *
+ * The prompt and schema are imported from api/feedback.ts, so a prompt change
+ * is measured as shipped. The model sits behind a pluggable client:
+ *   - recorded (default): replays tests/fixtures/calibration/recorded.json,
+ *     so the harness runs offline and in CI. Recordings whose prompt no longer
+ *     matches the live prompt are reported as stale.
+ *   - openai: calls the scoring model with OPENAI_API_KEY.
+ *
+ * Usage:
+ *   npx tsx tests/scoring-calibration.test.ts
+ *   OPENAI_API_KEY=sk-... npx tsx tests/scoring-calibration.test.ts --client=openai --runs=3
+ *   OPENAI_API_KEY=sk-... npx tsx tests/scoring-calibration.test.ts --client=openai --record
+ *
+ * --record rewrites the recordings from the responses of this run.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { buildFeedbackPrompt, buildSchema, finalizeFeedback, requestFeedback, resolveFeedbackRequest } from '../api/feedback';
+import { DIFFICULTY_LEVELS } from '../shared/contract';
+import type { FeedbackResponse } from '../src/types';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'calibration');
+const GOLDEN_PATH = join(FIXTURES, 'golden.json');
+const RECORDED_PATH = join(FIXTURES, 'recorded.json');
+
+/** Mean absolute difference between model and labeled scores, in points. */
+const MAX_SCORE_MAE = 10;
+/** Spearman rank correlation between model and labeled scores. */
+const MIN_RANK_CORRELATION = 0.7;
+/** Mean per-answer standard deviation across runs, in points. */
+const MAX_RUN_STD_DEV = 5;
+/** Share of best/worst quotes that align to the answer without a re-ask. */
+const MIN_QUOTE_ALIGNMENT = 0.9;
+
+const args = process.argv.slice(2);
+const arg = (name: string) => args.find((a) => a.startsWith(`--${name}=`))?.split('=')[1];
+const CLIENT = arg('client') ?? 'recorded';
+const RECORD = args.includes('--record');
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+interface GoldenItem {
+  id: string;
+  role: string;
+  difficulty: string;
+  rubric?: string;
+  question: string;
+  answer: string;
+  expected: { score: number; categories: Record<string, number> };
+}
+
+interface Recording {
+  promptHash: string;
+  runs: unknown[];
+}
+
+interface RecordedFile {
+  source: string;
+  items: Record<string, Recording>;
+}
+
+interface FeedbackContext {
+  error?: string;
+  keys: string[];
+  competencyNames: string[];
+}
+
+const golden: GoldenItem[] = JSON.parse(readFileSync(GOLDEN_PATH, 'utf8')).items;
+
+// ---------------------------------------------------------------------------
+// Model clients
+// ---------------------------------------------------------------------------
+interface ModelRequest {
+  id: string;
+  run: number;
+  input: string;
+  format: unknown;
+}
+
+interface ModelClient {
+  name: string;
+  /** Resolves to the model's raw JSON text. */
+  complete(request: ModelRequest): Promise<string>;
+}
+
+function recordedClient(file: RecordedFile): ModelClient {
+  return {
+    name: 'recorded',
+    async complete({ id, run }) {
+      const runs = file.items[id]?.runs ?? [];
+      if (runs.length === 0) throw new Error(`no recording for ${id}`);
+      return JSON.stringify(runs[run % runs.length]);
+    },
+  };
+}
+
+function openaiClient(): ModelClient {
+  return {
+    name: 'openai',
+    complete: ({ input, format }) => requestFeedback({ input, format }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Strict JSON schema check — the subset buildSchema uses
+// ---------------------------------------------------------------------------
+interface SchemaNode {
+  type?: string;
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: SchemaNode;
+  enum?: unknown[];
+  minItems?: number;
+  maxItems?: number;
+}
+
+function schemaErrors(value: unknown, schema: SchemaNode, path = '$'): string[] {
+  if (schema.enum && !schema.enum.includes(value)) return [`${path}: not one of ${JSON.stringify(schema.enum)}`];
+  switch (schema.type) {
+    case 'string':
+      return typeof value === 'string' ? [] : [`${path}: expected string`];
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path}: expected number`];
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path}: expected array`];
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: fewer than ${schema.minItems} items`);
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: more than ${schema.maxItems} items`);
+      if (schema.items) value.forEach((v, i) => errors.push(...schemaErrors(v, schema.items as SchemaNode, `${path}[${i}]`)));
+      return errors;
+    }
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path}: expected object`];
+      const obj = value as Record<string, unknown>;
+      const props = schema.properties ?? {};
+      const errors = (schema.required ?? []).filter((k) => !(k in obj)).map((k) => `${path}.${k}: missing`);
+      for (const [k, v] of Object.entries(obj)) {
+        if (props[k]) errors.push(...schemaErrors(v, props[k], `${path}.${k}`));
+        else if (schema.additionalProperties === false) errors.push(`${path}.${k}: not allowed`);
+      }
+      return errors;
+    }
+    default:
+      return [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0);
+const stdDev = (xs: number[]) => Math.sqrt(mean(xs.map((x) => (x - mean(xs)) ** 2)));
+
+/** Average ranks (ties share the mean rank). */
+function ranks(xs: number[]): number[] {
+  const order = xs.map((x, i) => ({ x, i })).sort((a, b) => a.x - b.x);
+  const result = new Array<number>(xs.length);
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].x === order[start].x) end++;
+    for (let k = start; k <= end; k++) result[order[k].i] = (start + end) / 2 + 1;
+    start = end + 1;
+  }
+  return result;
+}
+
+/** Spearman's ρ as the Pearson correlation of the ranks. */
+function spearman(a: number[], b: number[]): number {
+  const ra = ranks(a);
+  const rb = ranks(b);
+  const ma = mean(ra);
+  const mb = mean(rb);
+  const cov = ra.reduce((sum, r, i) => sum + (r - ma) * (rb[i] - mb), 0);
+  const denom = Math.sqrt(ra.reduce((s, r) => s + (r - ma) ** 2, 0) * rb.reduce((s, r) => s + (r - mb) ** 2, 0));
+  return denom > 0 ? cov / denom : 0;
+}
+
+const fmt = (n: number) => n.toFixed(1).padStart(5);
+
+/** Difficulty ids, least strict first. */
+const LEVELS: readonly string[] = DIFFICULTY_LEVELS;
+
+// ---------------------------------------------------------------------------
+// Main runner
+// ---------------------------------------------------------------------------
+async function main() {
+  let recorded: RecordedFile = { source: '', items: {} };
+  try {
+    recorded = JSON.parse(readFileSync(RECORDED_PATH, 'utf8'));
+  } catch {
+    if (CLIENT === 'recorded') throw new Error(`no recordings at ${RECORDED_PATH}; run with --client=openai --record`);
+  }
+
+  let client: ModelClient;
+  if (CLIENT === 'recorded') {
+    client = recordedClient(recorded);
+  } else if (CLIENT === 'openai') {
+    if (!process.env.OPENAI_API_KEY) throw new Error('OPENAI_API_KEY is required for --client=openai');
+    client = openaiClient();
+  } else {
+    throw new Error(`unknown client "${CLIENT}" (expected recorded or openai)`);
+  }
+  if (RECORD && client.name === 'recorded') throw new Error('--record needs a live client, e.g. --client=openai');
+
+  const runs = Number(arg('runs') ?? (client.name === 'recorded' ? 2 : 3));
+
+  console.log(`client: ${client.name}, runs per answer: ${runs}, golden answers: ${golden.length}`);
+  if (client.name === 'recorded') console.log(`recordings: ${recorded.source}`);
+  console.log();
+
+  const rows: { item: GoldenItem; scores: number[]; categoryErrors: number[] }[] = [];
+  const stale: string[] = [];
+  const quoteCounts = { total: 0, aligned: 0 };
+  const nextRecordings: Record<string, Recording> = {};
+
+  for (const item of golden) {
+    const ctx: FeedbackContext = resolveFeedbackRequest({
+      questions: [item.question],
+      answers: [item.answer],
+      role: item.role,
+      difficulty: item.difficulty,
+      rubric: item.rubric,
+    });
+    if (ctx.error) throw new Error(`${item.id}: ${ctx.error}`);
+
+    const input: string = buildFeedbackPrompt(ctx);
+    const format = buildSchema(1, ctx.keys, ctx.competencyNames);
+    const promptHash = createHash('sha256').update(input).update(JSON.stringify(format)).digest('hex').slice(0, 16);
+    if (client.name === 'recorded' && recorded.items[item.id]?.promptHash !== promptHash) stale.push(item.id);
+
+    const scores: number[] = [];
+    const categoryErrors: number[] = [];
+    const rawRuns: unknown[] = [];
+    for (let run = 0; run < runs; run++) {
+      const raw = await client.complete({ id: item.id, run, input, format });
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw);
+      } catch {
+        check(`${item.id} run ${run + 1}: response is JSON`, false, raw.slice(0, 200));
+        continue;
+      }
+      rawRuns.push(parsed);
+
+      const errors = schemaErrors(parsed, format.schema);
+      check(`${item.id} run ${run + 1}: response matches the schema`, errors.length === 0, errors.slice(0, 5));
+      if (errors.length > 0) continue;
+
+      const feedback: FeedbackResponse = finalizeFeedback(parsed, ctx);
+      const q = feedback.questions[0];
+      scores.push(q.score);
+      for (const [quote, span] of [[q.best_part_quote, q.best_part_span], [q.worst_part_quote, q.worst_part_span]] as const) {
+        if (!quote) continue;
+        quoteCounts.total++;
+        if (span) quoteCounts.aligned++;
+      }
+      for (const [key, expected] of Object.entries(item.expected.categories)) {
+        const actual = q.categories?.[key]?.score;
+        if (typeof actual === 'number') categoryErrors.push(Math.abs(actual - expected));
+      }
+    }
+    nextRecordings[item.id] = { promptHash, runs: rawRuns };
+    rows.push({ item, scores, categoryErrors });
+  }
+
+  // Per-answer table
+  console.log();
+  console.log('answer                     expected  model   diff  run sd');
+  for (const { item, scores } of rows) {
+    const m = mean(scores);
+    console.log(`${item.id.padEnd(26)} ${fmt(item.expected.score)}    ${fmt(m)}  ${fmt(m - item.expected.score)}  ${fmt(stdDev(scores))}`);
+  }
+
+  // Summary metrics over answers that produced at least one score
+  const scored = rows.filter((r) => r.scores.length > 0);
+  const expected = scored.map((r) => r.item.expected.score);
+  const actual = scored.map((r) => mean(r.scores));
+  const diffs = actual.map((a, i) => a - expected[i]);
+  const mae = mean(diffs.map(Math.abs));
+  const bias = mean(diffs);
+  const categoryMae = mean(scored.flatMap((r) => r.categoryErrors));
+  const rho = spearman(expected, actual);
+  const runSd = mean(scored.map((r) => stdDev(r.scores)));
+  const quoteAlignment = quoteCounts.total ? quoteCounts.aligned / quoteCounts.total : 1;
+
+  console.log();
+  console.log(`score drift (MAE):      ${mae.toFixed(1)} points (bias ${bias >= 0 ? '+' : ''}${bias.toFixed(1)})`);
+  console.log(`category drift (MAE):   ${categoryMae.toFixed(1)} points`);
+  console.log(`rank correlation (ρ):   ${rho.toFixed(2)}`);
+  console.log(`run-to-run std dev:     ${runSd.toFixed(1)} points`);
+  console.log(`quotes aligned:         ${quoteCounts.aligned}/${quoteCounts.total}`);
+  for (const level of LEVELS) {
+    const atLevel = scored.filter((r) => r.item.difficulty === level);
+    const levelMae = mean(atLevel.map((r) => Math.abs(mean(r.scores) - r.item.expected.score)));
+    console.log(`${`${level} drift (MAE):`.padEnd(24)}${levelMae.toFixed(1)} points over ${atLevel.length} answer(s)`);
+  }
+  console.log();
+
+  check('every golden answer was scored', scored.length === rows.length, rows.filter((r) => r.scores.length === 0).map((r) => r.item.id));
+  check(`score drift ≤ ${MAX_SCORE_MAE}`, mae <= MAX_SCORE_MAE, mae);
+  check(`rank correlation ≥ ${MIN_RANK_CORRELATION}`, rho >= MIN_RANK_CORRELATION, rho);
+  check(`run-to-run std dev ≤ ${MAX_RUN_STD_DEV}`, runSd <= MAX_RUN_STD_DEV, runSd);
+  check(`≥ ${MIN_QUOTE_ALIGNMENT * 100}% of quotes align to the answer`, quoteAlignment >= MIN_QUOTE_ALIGNMENT, quoteCounts);
+
+  // Difficulty calibration: every level is measured, and the same answer scores lower at a stricter level
+  const missing = LEVELS.filter((level) => !golden.some((item) => item.difficulty === level));
+  check('the golden set covers every difficulty', missing.length === 0, missing);
+  const byAnswer = new Map<string, typeof scored>();
+  for (const r of scored) {
+    const key = [r.item.role, r.item.rubric ?? '', r.item.question, r.item.answer].join('\n');
+    byAnswer.set(key, [...(byAnswer.get(key) ?? []), r]);
+  }
+  for (const group of byAnswer.values()) {
+    if (group.length < 2) continue;
+    group.sort((a, b) => LEVELS.indexOf(a.item.difficulty) - LEVELS.indexOf(b.item.difficulty));
+    const means = group.map((r) => mean(r.scores));
+    check(
+      `${group.map((r) => r.item.id).join(' > ')}: stricter levels score lower`,
+      means.every((m, i) => i === 0 || m < means[i - 1]),
+      Object.fromEntries(group.map((r, i) => [r.item.difficulty, Number(means[i].toFixed(1))])),
+    );
+  }
+
+  if (stale.length > 0) {
+    console.log();
+    console.log(`WARNING: ${stale.length} recording(s) were made with a different prompt or schema: ${stale.join(', ')}`);
+    console.log('         Re-record with --client=openai --record to measure the current prompt.');
+  }
+
+  if (RECORD) {
+    const file: RecordedFile = { source: `${client.name}, recorded ${new Date().toISOString().slice(0, 10)}`, items: nextRecordings };
+    writeFileSync(RECORDED_PATH, `${JSON.stringify(file, null, 2)}\n`);
+    console.log(`Wrote ${Object.keys(nextRecordings).length} recording(s) to ${RECORDED_PATH}`);
+  }
+
+}
+
+run('Scoring calibration', main);
@@ -0,0 +1,376 @@
+/**
+ * Scoring Jobs Test
+ *
+ * Drives src/services/scoringJobs.ts through retries, the Groq fallback,
+ * an empty last answer, reloads and re-scores. /api/feedback and /api/overall-feedback are a stubbed
+ * fetch, localStorage is a Map and timers run on a fake clock; a reload is a
+ * fresh instance of the module reading the same storage.
+ *
+ * Usage:
+ *   npx tsx tests/scoring-jobs.test.ts
+ */
+
+import type { QuestionFeedback, QuestionResult } from '../src/types';
+import { check, run } from './harness';
+
+type ScoringJobs = typeof import('../src/services/scoringJobs');
+type ScoringEvent = import('../src/services/scoringJobs').ScoringEvent;
+type StoredRun = import('../src/services/scoringJobs').ScoringRun;
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const STORAGE_KEY_SCORING_RUN = 'polyprompts-scoring-run';
+
+const OPTIONS = { role: 'swe_intern', difficulty: 'medium', rubric: 'general', attemptNumber: 1 } as const;
+
+function feedback(score: number): QuestionFeedback {
+  return {
+    score,
+    categories: { response_organization: { score, reason: 'Clear steps.' } },
+    best_part_quote: 'I owned the payments service.',
+    best_part_explanation: 'Specific.',
+    worst_part_quote: 'We shipped on time.',
+    worst_part_explanation: 'No numbers.',
+    what_went_well: 'Concrete.',
+    needs_improvement: 'Quantify.',
+    summary: 'Solid.',
+    confidence_score: 80,
+  };
+}
+
+const NARRATIVE = { what_went_well: 'Clear stories.', needs_improvement: 'More numbers.', summary: 'A solid interview.' };
+
+function answer(index: number): QuestionResult {
+  return {
+    question: { id: `q${index}`, text: `Question ${index}?`, role: 'swe_intern', difficulty: 'medium' },
+    transcript: `Answer ${index}.`,
+    feedback: null,
+    metrics: { fillerCount: 0, wordsPerMinute: 140, speakingDurationSeconds: 30 },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Stubs: localStorage, fake clock, fetch
+// ---------------------------------------------------------------------------
+const storage = new Map<string, string>();
+const localStorageStub = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => void storage.set(key, String(value)),
+  removeItem: (key: string) => void storage.delete(key),
+  clear: () => storage.clear(),
+};
+
+let now = 1_700_000_000_000;
+let nextTimerId = 1;
+const timers: { id: number; at: number; fn: () => void }[] = [];
+const fakeSetTimeout = (fn: () => void, ms = 0) => {
+  const id = nextTimerId++;
+  timers.push({ id, at: now + ms, fn });
+  return id;
+};
+const fakeClearTimeout = (id: number) => {
+  const i = timers.findIndex((t) => t.id === id);
+  if (i >= 0) timers.splice(i, 1);
+};
+
+/** Lets stubbed responses, streams and the promise chains behind them run. */
+async function settle() {
+  for (let i = 0; i < 30; i++) await new Promise((resolve) => setImmediate(resolve));
+}
+
+/** Moves the clock on by `ms`, firing every timer that comes due in order. */
+async function advance(ms: number) {
+  const until = now + ms;
+  await settle();
+  for (;;) {
+    const due = timers.filter((t) => t.at <= until).sort((a, b) => a.at - b.at)[0];
+    if (!due) break;
+    timers.splice(timers.indexOf(due), 1);
+    now = due.at;
+    due.fn();
+    await settle();
+  }
+  now = until;
+  await settle();
+}
+
+function sse(events: [string, unknown][]): Response {
+  return new Response(events.map(([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`).join(''), {
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+}
+
+const upstreamError = () => new Response(JSON.stringify({ error: 'Model unavailable', code: 'upstream_error' }), { status: 502 });
+
+interface FeedbackCall {
+  questions: string[];
+  provider?: string;
+}
+
+type Reply = (call: FeedbackCall) => Response | Promise<Response>;
+
+/** Each /api/feedback call takes the next reply; /api/overall-feedback calls `overallReply`. */
+let feedbackReplies: Reply[] = [];
+let feedbackCalls: FeedbackCall[] = [];
+let overallReply: () => Promise<Response> = async () => new Response(JSON.stringify(NARRATIVE));
+let overallCalls = 0;
+
+globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+  const body = JSON.parse(String(init?.body));
+  if (String(input) === '/api/overall-feedback') {
+    overallCalls++;
+    return overallReply();
+  }
+  if (String(input) !== '/api/feedback') throw new Error(`unexpected fetch: ${String(input)}`);
+  const call: FeedbackCall = { questions: body.questions, provider: body.provider };
+  feedbackCalls.push(call);
+  const reply = feedbackReplies.shift();
+  if (!reply) throw new Error('no /api/feedback reply queued');
+  return reply(call);
+}) as typeof fetch;
+
+/** A reply scoring every question it was sent, except those in `failing`. */
+function scores(failing: string[] = []): Reply {
+  return ({ questions }) => sse([
+    ...questions.map((q, index): [string, unknown] =>
+      failing.includes(q) ? ['question_error', { index, error: 'Grader timed out' }] : ['question', { index, feedback: feedback(70 + index) }]),
+    ['done', {}],
+  ]);
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+let reloads = 0;
+
+/** A fresh instance of the module, as after a page load; the old page's timers are gone. */
+async function loadScoringJobs(): Promise<{ jobs: ScoringJobs; events: ScoringEvent[] }> {
+  timers.length = 0;
+  const jobs: ScoringJobs = await import(`../src/services/scoringJobs.ts?reload=${++reloads}`);
+  const events: ScoringEvent[] = [];
+  jobs.subscribeScoring((event) => events.push(event));
+  return { jobs, events };
+}
+
+function reset() {
+  storage.clear();
+  feedbackReplies = [];
+  feedbackCalls = [];
+  overallReply = async () => new Response(JSON.stringify(NARRATIVE));
+  overallCalls = 0;
+}
+
+function storedRun(): StoredRun | null {
+  const stored = storage.get(STORAGE_KEY_SCORING_RUN);
+  return stored ? JSON.parse(stored) : null;
+}
+
+const ofType = <T extends ScoringEvent['type']>(events: ScoringEvent[], type: T) =>
+  events.filter((e): e is Extract<ScoringEvent, { type: T }> => e.type === type);
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  Object.assign(globalThis, { localStorage: localStorageStub, setTimeout: fakeSetTimeout, clearTimeout: fakeClearTimeout });
+  Date.now = () => now;
+
+  // A retry that succeeds on Groq
+  {
+    reset();
+    const { jobs, events } = await loadScoringJobs();
+    feedbackReplies = [upstreamError, upstreamError, scores()];
+    const runId = jobs.startScoringRun(OPTIONS);
+    jobs.scoreThread(runId, 0, [answer(0)]);
+    jobs.finishScoringRun(runId, [answer(0)]);
+    await settle();
+    check('the first try goes to OpenAI', feedbackCalls.length === 1 && feedbackCalls[0].provider === undefined, feedbackCalls);
+
+    await advance(1999);
+    check('a failed question waits before its first retry', feedbackCalls.length === 1, feedbackCalls.length);
+    await advance(1);
+    check('the first retry stays on OpenAI', feedbackCalls.length === 2 && feedbackCalls[1].provider === undefined, feedbackCalls);
+    await advance(5000);
+    check('the second retry falls back to Groq', feedbackCalls.length === 3 && feedbackCalls[2].provider === 'groq', feedbackCalls);
+    check('the Groq score is reported', ofType(events, 'question').length === 1 && ofType(events, 'question_error').length === 0, events);
+    const [complete] = ofType(events, 'complete');
+    check('the run completes with the Groq score', complete?.feedback.questions.length === 1 && complete.feedback.unscored === undefined, complete?.feedback);
+    check('the overall carries the synthesized narrative', complete?.feedback.overall?.summary === NARRATIVE.summary);
+    check('a completed run is stored as finalized', storedRun()?.finalized === true, storedRun());
+  }
+
+  // Exhausting every retry
+  {
+    reset();
+    const { jobs, events } = await loadScoringJobs();
+    feedbackReplies = [scores(['Question 1?']), upstreamError, upstreamError, upstreamError];
+    const runId = jobs.startScoringRun(OPTIONS);
+    jobs.scoreThread(runId, 0, [answer(0), answer(1)]);
+    jobs.finishScoringRun(runId, [answer(0), answer(1)]);
+    await advance(2000 + 5000 + 15000);
+    check('a failed question is tried once plus every retry', feedbackCalls.length === 4, feedbackCalls.length);
+    check('retries use the planned providers', feedbackCalls.map((c) => c.provider ?? 'openai').join() === 'openai,openai,groq,groq', feedbackCalls);
+    check('retries send only the failed question', feedbackCalls.slice(1).every((c) => c.questions.join() === 'Question 1?'), feedbackCalls);
+    const errors = ofType(events, 'question_error');
+    check('the question errors once its retries run out', errors.length === 1 && errors[0].index === 1 && errors[0].error.includes('Model unavailable'), errors);
+    const [complete] = ofType(events, 'complete');
+    check('the overall is built from the scored answers', complete?.feedback.questions.length === 1 && complete.feedback.unscored?.join() === '1', complete?.feedback);
+    check('the saved session keeps the unscored answer', complete?.session.questions.length === 2 && complete.session.questions[1].feedback === null);
+    check('nothing is left queued', storedRun()?.jobs.length === 0 && timers.length === 0, storedRun()?.jobs);
+  }
+
+  // Every answer failing
+  {
+    reset();
+    const { jobs, events } = await loadScoringJobs();
+    feedbackReplies = [upstreamError, upstreamError, upstreamError, upstreamError];
+    const runId = jobs.startScoringRun(OPTIONS);
+    jobs.scoreThread(runId, 0, [answer(0)]);
+    jobs.finishScoringRun(runId, [answer(0)]);
+    await advance(2000 + 5000 + 15000);
+    check('a run with nothing scored fails', ofType(events, 'failed').length === 1 && ofType(events, 'complete').length === 0 && overallCalls === 0, events);
+    check('a failed run is stored as finalized', storedRun()?.finalized === true);
+  }
+
+  // An empty last answer
+  {
+    reset();
+    const { jobs, events } = await loadScoringJobs();
+    feedbackReplies = [scores()];
+    const runId = jobs.startScoringRun(OPTIONS);
+    jobs.scoreThread(runId, 0, [answer(0)]);
+    // The last question got no transcript, so only the answers before it finish the run
+    jobs.finishScoringRun(runId, [answer(0)]);
+    await settle();
+    const [complete] = ofType(events, 'complete');
+    check('a run whose last answer is empty still gets its overall', complete?.feedback.questions.length === 1 && complete.session.questions.length === 1, events.map((e) => e.type));
+    check('answers already sent are not scored again', feedbackCalls.length === 1, feedbackCalls.length);
+  }
+
+  // An empty last follow-up leaves its thread unsent
+  {
+    reset();
+    const { jobs, events } = await loadScoringJobs();
+    feedbackReplies = [scores(), scores()];
+    const runId = jobs.startScoringRun(OPTIONS);
+    jobs.scoreThread(runId, 0, [answer(0)]);
+    // Question 1's follow-up got no transcript, so its thread was never complete
+    jobs.finishScoringRun(runId, [answer(0), answer(1)]);
+    await settle();
+    check('answers never sent are scored when the run finishes', feedbackCalls.length === 2 && feedbackCalls[1].questions.join() === 'Question 1?', feedbackCalls);
+    const [complete] = ofType(events, 'complete');
+    check('the overall includes them', complete?.feedback.questions.length === 2 && complete.feedback.unscored === undefined, complete?.feedback);
+  }
+
+  // Resume after a reload with a retry pending
+  {
+    reset();
+    const before = await loadScoringJobs();
+    feedbackReplies = [scores(['Question 1?'])];
+    const runId = before.jobs.startScoringRun(OPTIONS);
+    before.jobs.scoreThread(runId, 0, [answer(0), answer(1)]);
+    before.jobs.finishScoringRun(runId, [answer(0), answer(1)]);
+    await settle();
+    check('the pending retry is stored', storedRun()?.jobs.length === 1 && storedRun()?.jobs[0].indices.join() === '1', storedRun()?.jobs);
+
+    const { jobs, events } = await loadScoringJobs();
+    feedbackReplies = [scores()];
+    jobs.resumeScoringRun();
+    const [restored] = ofType(events, 'restored');
+    check('a reload restores the answers', restored?.results.length === 2, restored);
+    check('restored answers keep their scores', restored?.results[0].feedback?.score === 70 && restored.results[1].feedback === null, restored?.results.map((r) => r.feedback?.score));
+    await settle();
+    check('the retry still waits out its delay', feedbackCalls.length === 1, feedbackCalls.length);
+    await advance(2000);
+    check('the retry runs after the reload', feedbackCalls.length === 2 && feedbackCalls[1].questions.join() === 'Question 1?', feedbackCalls);
+    const [complete] = ofType(events, 'complete');
+    check('the resumed run completes with both scores', complete?.feedback.questions.length === 2 && complete.session.id === runId, complete?.feedback);
+  }
+
+  // A reload while the overall is being written
+  {
+    reset();
+    const before = await loadScoringJobs();
+    feedbackReplies = [scores()];
+    overallReply = () => new Promise<Response>(() => {});
+    const runId = before.jobs.startScoringRun(OPTIONS);
+    before.jobs.scoreThread(runId, 0, [answer(0)]);
+    before.jobs.finishScoringRun(runId, [answer(0)]);
+    await settle();
+    const saved = storedRun();
+    check('a run mid-synthesis is stored complete with no jobs', saved?.complete === true && saved.jobs.length === 0 && !saved.finalized, saved);
+
+    overallReply = async () => new Response(JSON.stringify(NARRATIVE));
+    const { jobs, events } = await loadScoringJobs();
+    jobs.resumeScoringRun();
+    await settle();
+    check('the reloaded run is restored', ofType(events, 'restored').length === 1);
+    const [complete] = ofType(events, 'complete');
+    check('the reloaded run is finalized', complete?.session.id === runId && overallCalls === 2, { overallCalls, events: events.map((e) => e.type) });
+    check('no answer is scored twice', feedbackCalls.length === 1, feedbackCalls.length);
+
+    const again = await loadScoringJobs();
+    again.jobs.resumeScoringRun();
+    await settle();
+    check('a finalized run is not picked up again', again.events.length === 0 && overallCalls === 2, again.events);
+    check('a finalized run is cleared from storage', storedRun() === null);
+  }
+
+  // A re-score queued while the overall is being written
+  {
+    reset();
+    const { jobs, events } = await loadScoringJobs();
+    feedbackReplies = [scores(['Question 1?']), upstreamError, upstreamError, upstreamError];
+    const firstOverall = deferred<Response>();
+    overallReply = () => firstOverall.promise;
+    const runId = jobs.startScoringRun(OPTIONS);
+    jobs.scoreThread(runId, 0, [answer(0), answer(1)]);
+    jobs.finishScoringRun(runId, [answer(0), answer(1)]);
+    await advance(2000 + 5000 + 15000);
+    check('the overall is requested once retries run out', overallCalls === 1, overallCalls);
+
+    const rescore = deferred<Response>();
+    feedbackReplies = [() => rescore.promise];
+    overallReply = async () => new Response(JSON.stringify(NARRATIVE));
+    check('a failed question can be re-scored', jobs.rescoreQuestion(1));
+    await settle();
+    check('the re-score clears the finalized flag', storedRun()?.finalized === false);
+    firstOverall.resolve(new Response(JSON.stringify(NARRATIVE)));
+    await settle();
+    check('the overall written before the re-score is dropped', ofType(events, 'complete').length === 0, events.map((e) => e.type));
+
+    rescore.resolve(scores()({ questions: ['Question 1?'] }));
+    await settle();
+    const completes = ofType(events, 'complete');
+    check('the re-scored run completes once', completes.length === 1 && overallCalls === 2, { completes: completes.length, overallCalls });
+    check('the new overall includes the re-scored answer', completes[0]?.feedback.questions.length === 2 && completes[0].feedback.unscored === undefined, completes[0]?.feedback);
+  }
+
+  // A re-score that finishes while the overall is being written
+  {
+    reset();
+    const { jobs, events } = await loadScoringJobs();
+    feedbackReplies = [scores(['Question 1?']), upstreamError, upstreamError, upstreamError];
+    const firstOverall = deferred<Response>();
+    overallReply = () => firstOverall.promise;
+    const runId = jobs.startScoringRun(OPTIONS);
+    jobs.scoreThread(runId, 0, [answer(0), answer(1)]);
+    jobs.finishScoringRun(runId, [answer(0), answer(1)]);
+    await advance(2000 + 5000 + 15000);
+
+    feedbackReplies = [scores()];
+    overallReply = async () => new Response(JSON.stringify(NARRATIVE));
+    jobs.rescoreQuestion(1);
+    await settle();
+    firstOverall.resolve(new Response(JSON.stringify(NARRATIVE)));
+    await settle();
+    const completes = ofType(events, 'complete');
+    check('only the overall with the re-score is emitted', completes.length === 1 && completes[0].feedback.questions.length === 2, completes.map((c) => c.feedback.questions.length));
+  }
+}
+
+run('Scoring jobs test', main);
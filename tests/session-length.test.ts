@@ -0,0 +1,67 @@
+/**
+ * Session Length Test
+ *
+ * Checks how a session-length setting turns into a question count and which
+ * transition phrases the interviewer speaks (and therefore prefetches).
+ *
+ * Usage:
+ *   npx tsx tests/session-length.test.ts
+ */
+
+import {
+  FINISHED_NUDGE,
+  HALFWAY_TRANSITION,
+  LAST_QUESTION_TRANSITION,
+  NEXT_QUESTION_TRANSITION,
+  interviewPrefetchTexts,
+  questionCountFor,
+  timeBudgetSeconds,
+  transitionPhrase,
+} from '../src/config/sessionLength';
+import { FOLLOW_UP_TRANSITION, insertFollowUps, toFollowUpQuestions } from '../src/services/followUps';
+import type { Question } from '../src/types';
+import { check, run } from './harness';
+
+function makeQuestions(n: number): Question[] {
+  return Array.from({ length: n }, (_, i) => ({
+    id: `q${i + 1}`,
+    text: `Question ${i + 1}`,
+    role: 'swe_intern' as const,
+    difficulty: 'medium' as const,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  check('quick is 2 questions', questionCountFor({ mode: 'preset', preset: 'quick' }) === 2);
+  check('standard is 5 questions', questionCountFor({ mode: 'preset', preset: 'standard' }) === 5);
+  check('full is 8 questions', questionCountFor({ mode: 'preset', preset: 'full' }) === 8);
+  check('15 minute budget is 5 questions', questionCountFor({ mode: 'time', minutes: 15 }) === 5);
+  check('tiny budget still asks one question', questionCountFor({ mode: 'time', minutes: 1 }) === 1);
+  check('budget is in seconds', timeBudgetSeconds({ mode: 'time', minutes: 10 }) === 600);
+  check('presets have no budget', timeBudgetSeconds({ mode: 'preset', preset: 'full' }) === null);
+
+  const two = makeQuestions(2);
+  check('short interviews keep the plain transition', transitionPhrase(two, 1) === NEXT_QUESTION_TRANSITION);
+
+  const eight = makeQuestions(8);
+  check('halfway phrase before question 5 of 8', transitionPhrase(eight, 4) === HALFWAY_TRANSITION);
+  check('last-question phrase before question 8', transitionPhrase(eight, 7) === LAST_QUESTION_TRANSITION);
+  check('plain transition elsewhere', transitionPhrase(eight, 2) === NEXT_QUESTION_TRANSITION);
+
+  const withFollowUps = insertFollowUps(eight, 0, toFollowUpQuestions(eight[0], ['Follow-up?']));
+  check('follow-ups get the follow-up phrase', transitionPhrase(withFollowUps, 1) === FOLLOW_UP_TRANSITION);
+  check('follow-ups do not shift the halfway point', transitionPhrase(withFollowUps, 5) === HALFWAY_TRANSITION);
+
+  const texts = interviewPrefetchTexts(eight);
+  check(
+    'prefetch covers every phrase the interview can speak',
+    [NEXT_QUESTION_TRANSITION, HALFWAY_TRANSITION, LAST_QUESTION_TRANSITION, FINISHED_NUDGE].every(t => texts.includes(t)),
+    texts,
+  );
+  check('prefetch has no duplicates', new Set(texts).size === texts.length);
+}
+
+run('Session length test', main);
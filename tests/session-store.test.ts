@@ -0,0 +1,200 @@
+/**
+ * Session Store Test
+ *
+ * Checks the local-first history in src/services/sessionStore.ts: merging by
+ * id, migrating sessions saved in older formats, trimming history when
+ * localStorage is full, and the sync queue's ordering and retries. localStorage
+ * is a Map with a size cap and the backend is a stub — no Supabase project.
+ *
+ * Usage:
+ *   npx tsx tests/session-store.test.ts
+ */
+
+import {
+  MAX_STORED_SESSIONS,
+  enqueueSessionSync,
+  fetchRemoteSessions,
+  flushSessionQueue,
+  loadSessions,
+  mergeSessions,
+  persistSessions,
+  setSessionBackend,
+} from '../src/services/sessionStore';
+import type { Session } from '../src/types';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const STORAGE_KEY_SESSIONS = 'polyprompts-sessions';
+const STORAGE_KEY_SYNC_QUEUE = 'polyprompts-session-queue';
+
+const OVERALL = {
+  score: 72,
+  categories: { response_organization: 70 },
+  what_went_well: 'Clear stories.',
+  needs_improvement: 'More numbers.',
+  summary: 'Solid.',
+};
+
+function session(id: string, day: number, opts: { words?: number } = {}): Session {
+  return {
+    id,
+    role: 'swe_intern',
+    difficulty: 'medium',
+    attemptNumber: 1,
+    questions: [{
+      question: { id: `${id}-q0`, text: 'Tell me about a project.', role: 'swe_intern', difficulty: 'medium' },
+      transcript: 'I built a thing.',
+      feedback: null,
+      metrics: { fillerCount: 0, wordsPerMinute: 140, speakingDurationSeconds: 30 },
+      ...(opts.words ? { wordTimestamps: Array.from({ length: opts.words }, (_, i) => ({ word: 'word', start: i, end: i + 0.5 })) } : {}),
+    }],
+    scores: { questions: [], overall: OVERALL },
+    durationSeconds: 30,
+    createdAt: new Date(Date.UTC(2026, 0, day)).toISOString(),
+  };
+}
+
+/** localStorage with a per-value size cap, so large writes throw like a full quota. */
+const storage = new Map<string, string>();
+let quota = Infinity;
+const localStorageStub = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => {
+    if (value.length > quota) throw new Error('QuotaExceededError');
+    storage.set(key, value);
+  },
+  removeItem: (key: string) => void storage.delete(key),
+  clear: () => storage.clear(),
+};
+
+/** A backend that accepts saves unless their id is in `failing`. */
+function stubBackend(remote: Session[] = []) {
+  const saved: string[] = [];
+  const failing = new Set<string>();
+  let fetchFails = false;
+  setSessionBackend({
+    isConfigured: () => true,
+    save: async (s) => {
+      if (failing.has(s.id)) throw new Error('Session insert failed: offline');
+      saved.push(s.id);
+    },
+    fetch: async (limit) => {
+      if (fetchFails) throw new Error('Session query failed: offline');
+      return remote.slice(-limit);
+    },
+  });
+  return { saved, failing, failFetch: () => { fetchFails = true; } };
+}
+
+const queuedIds = () => (JSON.parse(storage.get(STORAGE_KEY_SYNC_QUEUE) ?? '[]') as Session[]).map((s) => s.id);
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  Object.assign(globalThis, { localStorage: localStorageStub });
+
+  // mergeSessions
+  const merged = mergeSessions([session('a', 1), session('b', 3)], [session('c', 2), { ...session('b', 3), attemptNumber: 2 }]);
+  check('merging orders sessions oldest first', merged.map((s) => s.id).join() === 'a,c,b', merged.map((s) => s.id));
+  check('an incoming session replaces the one with its id', merged.length === 3 && merged[2].attemptNumber === 2);
+  const many = Array.from({ length: MAX_STORED_SESSIONS + 5 }, (_, i) => session(`s${i}`, i + 1));
+  const capped = mergeSessions(many.slice(0, 10), many.slice(10));
+  check('merging keeps only the newest sessions', capped.length === MAX_STORED_SESSIONS && capped[0].id === 's5', capped[0]?.id);
+
+  // Legacy migration
+  storage.set(STORAGE_KEY_SESSIONS, JSON.stringify([
+    {
+      id: 'legacy',
+      questionId: 'q-old',
+      attemptNumber: 2,
+      transcript: 'Old answer.',
+      scores: { questions: [{ score: 40 }, { score: 60 }], overall: { ...OVERALL, categories: undefined, response_organization: 55 } },
+      durationSeconds: 45,
+      createdAt: '2025-06-01T00:00:00.000Z',
+    },
+    { ...session('pre-rubric', 1), scores: { questions: [], overall: { score: 70, what_went_well: '', needs_improvement: '', summary: '', timing: 80 } } },
+    session('current', 2),
+  ]));
+  const loaded = loadSessions();
+  check('every stored session loads', loaded.map((s) => s.id).join() === 'legacy,pre-rubric,current', loaded.map((s) => s.id));
+  const legacy = loaded[0];
+  check(
+    'a single-question session becomes one question with its last score',
+    legacy.questions.length === 1 && legacy.questions[0].transcript === 'Old answer.' && legacy.questions[0].feedback?.score === 60,
+    legacy.questions,
+  );
+  check('a legacy session gets the default role and difficulty', legacy.role === 'swe_intern' && legacy.difficulty === 'medium');
+  check('legacy overall categories move under categories', loaded[1].scores.overall.categories?.timing === 80, loaded[1].scores.overall);
+  check('current sessions load unchanged', JSON.stringify(loaded[2]) === JSON.stringify(session('current', 2)));
+  storage.set(STORAGE_KEY_SESSIONS, '{not json');
+  check('unreadable history loads as empty', loadSessions().length === 0);
+
+  // Quota trimming
+  storage.clear();
+  const heavy = Array.from({ length: MAX_STORED_SESSIONS }, (_, i) => session(`h${i}`, i + 1, { words: 200 }));
+  const fullSize = JSON.stringify(heavy).length;
+  persistSessions(heavy);
+  check('history that fits is stored as is', storage.get(STORAGE_KEY_SESSIONS)?.length === fullSize);
+
+  storage.clear();
+  quota = fullSize - 1;
+  persistSessions(heavy);
+  const withoutWords = JSON.parse(storage.get(STORAGE_KEY_SESSIONS) ?? '[]') as Session[];
+  check(
+    'a full quota drops word timestamps first',
+    withoutWords.length === MAX_STORED_SESSIONS && withoutWords.every((s) => s.questions.every((q) => q.wordTimestamps === undefined)),
+    withoutWords.length,
+  );
+
+  storage.clear();
+  quota = JSON.stringify(heavy.map((s) => ({ ...s, questions: s.questions.map((q) => ({ ...q, wordTimestamps: undefined })) }))).length - 1;
+  persistSessions(heavy);
+  const halved = JSON.parse(storage.get(STORAGE_KEY_SESSIONS) ?? '[]') as Session[];
+  check('then keeps the newest half', halved.length === MAX_STORED_SESSIONS / 2 && halved[halved.length - 1].id === `h${MAX_STORED_SESSIONS - 1}`, halved.length);
+
+  storage.clear();
+  quota = 10;
+  persistSessions(heavy);
+  check('history that never fits is left unwritten', !storage.has(STORAGE_KEY_SESSIONS));
+  quota = Infinity;
+
+  // Sync queue
+  storage.clear();
+  setSessionBackend({ isConfigured: () => false, save: async () => {}, fetch: async () => [] });
+  enqueueSessionSync(session('offline', 1));
+  check('nothing is queued without a backend', !storage.has(STORAGE_KEY_SYNC_QUEUE));
+  check('flushing without a backend syncs nothing', (await flushSessionQueue()) === 0);
+
+  const backend = stubBackend();
+  backend.failing.add('s2');
+  enqueueSessionSync(session('s1', 1));
+  enqueueSessionSync(session('s2', 2));
+  enqueueSessionSync(session('s3', 3));
+  await flushSessionQueue();
+  check('a failed save stops the flush', backend.saved.join() === 's1', backend.saved);
+  check('unsynced sessions stay queued in order', queuedIds().join() === 's2,s3', queuedIds());
+
+  enqueueSessionSync({ ...session('s2', 2), attemptNumber: 3 });
+  check('re-queuing a session replaces its entry', queuedIds().join() === 's3,s2', queuedIds());
+
+  backend.failing.clear();
+  const synced = await flushSessionQueue();
+  check('the next flush retries what is left', synced === 2 && backend.saved.join() === 's1,s3,s2', backend.saved);
+  check('a flushed queue is cleared from storage', !storage.has(STORAGE_KEY_SYNC_QUEUE));
+
+  const [first, second] = [flushSessionQueue(), flushSessionQueue()];
+  check('concurrent flushes share one run', first === second);
+  await first;
+
+  // Remote history
+  const remoteBackend = stubBackend([session('r1', 1), session('r2', 2)]);
+  const remote = await fetchRemoteSessions();
+  check('remote history is fetched', remote.map((s) => s.id).join() === 'r1,r2', remote.map((s) => s.id));
+  remoteBackend.failFetch();
+  check('a failed remote fetch yields no sessions', (await fetchRemoteSessions()).length === 0);
+}
+
+run('Session store test', main);
@@ -0,0 +1,84 @@
+/**
+ * STAR Segmentation Test
+ *
+ * Checks how per-sentence STAR labels become transcript segments, how much of
+ * the answer each part took (by word timestamps when present, else by words),
+ * and which problems are reported. Pure functions only — no network.
+ *
+ * Usage:
+ *   npx tsx tests/star-segments.test.ts
+ */
+
+import { analyzeStar, splitSentences, type StarLabel } from '../src/services/starSegments';
+import type { TimestampedWord } from '../src/types';
+import { check, run } from './harness';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+const ANSWER =
+  'Last spring our capstone demo was two weeks out. ' +
+  'I owned the payments service. ' +
+  'I wrote tests around checkout first, then split the migration into three flags and shipped them one at a time. ' +
+  'I paired with our designer every evening to unblock the UI. ' +
+  'We demoed on time with zero failed payments, and I learned to test before refactoring.';
+
+const LABELS: StarLabel[] = ['situation', 'task', 'action', 'action', 'result'];
+
+/** One timestamped word per transcript word, 0.4s each, or 1.5s inside the `slow` sentence indices. */
+function timestamps(text: string, slow: number[] = []): TimestampedWord[] {
+  const words: TimestampedWord[] = [];
+  let t = 0;
+  splitSentences(text).forEach((sentence, i) => {
+    for (const word of sentence.text.split(/\s+/)) {
+      const length = slow.includes(i) ? 1.5 : 0.4;
+      words.push({ word, start: t, end: t + length });
+      t += length;
+    }
+  });
+  return words;
+}
+
+// ---------------------------------------------------------------------------
+// Main test runner
+// ---------------------------------------------------------------------------
+async function main() {
+  // Sentences
+  const sentences = splitSentences(ANSWER);
+  check('splits into sentences', sentences.length === 5, sentences.map((s) => s.text));
+  check('offsets point back into the transcript', sentences.every((s) => ANSWER.slice(s.start, s.end) === s.text));
+  check('a trailing fragment is a sentence', splitSentences('I fixed it. and then um').length === 2);
+  check('punctuation alone is not a sentence', splitSentences('... ?').length === 0);
+
+  // A complete answer
+  const complete = analyzeStar(ANSWER, LABELS);
+  check('consecutive sentences with one label merge', complete.segments.length === 4 && complete.segments[2].sentenceCount === 2, complete.segments.map((s) => s.label));
+  check('segments cover their sentences', complete.segments[2].text.startsWith('I wrote') && complete.segments[2].text.endsWith('unblock the UI.'));
+  check('shares sum to 1', Math.abs(Object.values(complete.parts).reduce((sum, p) => sum + p.share, 0) - 1) < 0.01, complete.parts);
+  check('no timestamps, no seconds', complete.parts.action.seconds === null);
+  check('a well-balanced answer has no issues', complete.issues.length === 0, complete.issues);
+
+  // Missing parts
+  const noResult = analyzeStar(ANSWER, ['situation', 'task', 'action', 'action', 'other']);
+  check('a missing Result is reported', noResult.issues.some((i) => i.part === 'result' && i.kind === 'missing'), noResult.issues);
+  check('unlabeled sentences count as other', analyzeStar(ANSWER, ['situation']).parts.action.sentences === 0);
+
+  // Long setup and thin parts
+  const rambling = analyzeStar(ANSWER, ['situation', 'situation', 'situation', 'action', 'result']);
+  check('a long setup is reported', rambling.issues.some((i) => i.kind === 'long' && i.message.includes('setup took')), rambling.issues);
+  const oneLineResult = analyzeStar(
+    `${sentences.slice(0, 4).map((s) => s.text).join(' ')} It went fine.`,
+    ['situation', 'task', 'action', 'action', 'result'],
+  );
+  check('a one-sentence Result is called out', oneLineResult.issues.some((i) => i.part === 'result' && i.kind === 'short' && i.message.includes('only one sentence')), oneLineResult.issues);
+
+  // Word timestamps
+  const timed = analyzeStar(ANSWER, LABELS, timestamps(ANSWER, [0]));
+  check('timestamps give each part seconds', typeof timed.parts.situation.seconds === 'number' && timed.parts.situation.seconds > 0, timed.parts.situation);
+  check('segments get times', timed.segments[0].startTime === 0 && (timed.segments[3].endTime ?? 0) > (timed.segments[0].endTime ?? 0), timed.segments);
+  check('a slowly spoken setup takes a bigger share by time than by words', timed.parts.situation.share > complete.parts.situation.share, { timed: timed.parts.situation.share, words: complete.parts.situation.share });
+  const mismatched = analyzeStar(ANSWER, LABELS, timestamps('Too few words here.'));
+  check('timestamps that do not line up are ignored', mismatched.parts.action.seconds === null);
+}
+
+run('STAR segmentation test', main);